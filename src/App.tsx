@@ -8,7 +8,9 @@ import Dashboard from "./components/Dashboard";
 import Projects from "./pages/Projects";
 import ProjectDetails from "./pages/ProjectDetails";
 import Tasks from "./pages/Tasks";
+import TaskDetails from "./pages/TaskDetails";
 import Calendar from "./pages/Calendar";
+import Timesheet from "./pages/Timesheet";
 import Team from "./pages/Team";
 import Settings from "./pages/Settings";
 import NotFound from "./pages/NotFound";
@@ -18,6 +20,7 @@ import ForgotPassword from "./pages/ForgotPassword";
 import ProtectedRoute from "./components/ProtectedRoute";
 import { AuthProvider } from "./contexts/AuthContext";
 import Chat from "./pages/Chat";
+import JoinProject from "./pages/JoinProject";
 
 const queryClient = new QueryClient();
 
@@ -50,16 +53,31 @@ const App = () => (
                 <Layout><ProjectDetails /></Layout>
               </ProtectedRoute>
             } />
+            <Route path="/join/:token" element={
+              <ProtectedRoute>
+                <Layout><JoinProject /></Layout>
+              </ProtectedRoute>
+            } />
             <Route path="/tasks" element={
               <ProtectedRoute>
                 <Layout><Tasks /></Layout>
               </ProtectedRoute>
             } />
+            <Route path="/tasks/:taskId" element={
+              <ProtectedRoute>
+                <Layout><TaskDetails /></Layout>
+              </ProtectedRoute>
+            } />
             <Route path="/calendar" element={
               <ProtectedRoute>
                 <Layout><Calendar /></Layout>
               </ProtectedRoute>
             } />
+            <Route path="/timesheet" element={
+              <ProtectedRoute>
+                <Layout><Timesheet /></Layout>
+              </ProtectedRoute>
+            } />
             <Route path="/team" element={
               <ProtectedRoute>
                 <Layout><Team /></Layout>
@@ -0,0 +1,213 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { Download, Eye, FileText, Image as ImageIcon, Paperclip, Trash, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { repository, Attachment } from '@/services/repository';
+import { useAuth } from '@/contexts/AuthContext';
+import { formatFileSize, isImage, validateAttachment } from '@/services/attachments';
+
+interface AttachmentsProps {
+  projectId: string;
+  // Files on this task; without one, files on the project itself
+  taskId?: string | null;
+  canUpload?: boolean;
+  // Lets owners and admins delete other people's files
+  canDeleteAny?: boolean;
+}
+
+interface Preview {
+  attachment: Attachment;
+  url: string;
+}
+
+// Saves a blob under the attachment's name
+const saveBlob = (blob: Blob, name: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = name;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const Attachments: React.FC<AttachmentsProps> = ({ projectId, taskId = null, canUpload = false, canDeleteAny = false }) => {
+  const { user } = useAuth();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [uploaderNames, setUploaderNames] = useState<Record<string, string>>({});
+  const [uploading, setUploading] = useState(false);
+  const [preview, setPreview] = useState<Preview | null>(null);
+  const [error, setError] = useState('');
+
+  const fetchAttachments = useCallback(async () => {
+    try {
+      const files = taskId
+        ? await repository.attachments.listByTask(taskId)
+        : await repository.attachments.listByProject(projectId);
+      const uploaders = await repository.users.resolve(files.map(file => file.uploadedBy));
+      setAttachments(files);
+      setUploaderNames(Object.fromEntries(uploaders.map(uploader => [uploader.id, uploader.name])));
+    } catch (err) {
+      console.error('Error fetching attachments:', err);
+    }
+  }, [projectId, taskId]);
+
+  useEffect(() => {
+    setError('');
+    fetchAttachments();
+  }, [fetchAttachments]);
+
+  // Object URLs hold the file in memory until revoked
+  useEffect(() => {
+    if (!preview) return;
+    return () => URL.revokeObjectURL(preview.url);
+  }, [preview]);
+
+  const handleFiles = async (fileList: FileList | null) => {
+    const files = Array.from(fileList || []);
+    if (files.length === 0) return;
+
+    const invalid = files.map(validateAttachment).find(Boolean);
+    if (invalid) {
+      setError(invalid);
+      return;
+    }
+
+    setError('');
+    setUploading(true);
+    try {
+      for (const file of files) {
+        await repository.attachments.upload({ projectId, taskId, uploadedBy: user.id, file });
+      }
+    } catch (err) {
+      console.error('Error uploading attachment:', err);
+      setError(err instanceof Error ? err.message : 'Failed to upload file');
+    } finally {
+      setUploading(false);
+      if (inputRef.current) inputRef.current.value = '';
+      await fetchAttachments();
+    }
+  };
+
+  const runAction = async (action: () => Promise<void>, failure: string) => {
+    setError('');
+    try {
+      await action();
+    } catch (err) {
+      console.error(failure, err);
+      setError(err instanceof Error ? err.message : failure);
+    }
+  };
+
+  const handleDownload = (attachment: Attachment) => runAction(async () => {
+    saveBlob(await repository.attachments.download(attachment), attachment.name);
+  }, 'Failed to download file');
+
+  const handlePreview = (attachment: Attachment) => runAction(async () => {
+    const blob = await repository.attachments.download(attachment);
+    setPreview({ attachment, url: URL.createObjectURL(blob) });
+  }, 'Failed to open preview');
+
+  const handleDelete = (attachment: Attachment) => runAction(async () => {
+    await repository.attachments.remove(attachment.id);
+    await fetchAttachments();
+  }, 'Failed to delete file');
+
+  return (
+    <div className="space-y-2">
+      <Label className="flex items-center justify-between">
+        <span className="flex items-center">
+          <Paperclip className="mr-2 h-4 w-4" />
+          Attachments ({attachments.length})
+        </span>
+        {canUpload && (
+          <>
+            <input
+              ref={inputRef}
+              type="file"
+              multiple
+              className="hidden"
+              onChange={(e) => handleFiles(e.target.files)}
+            />
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => inputRef.current?.click()}
+              disabled={uploading}
+            >
+              <Upload className="mr-2 h-4 w-4" />
+              {uploading ? 'Uploading...' : 'Upload'}
+            </Button>
+          </>
+        )}
+      </Label>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {attachments.length === 0 && (
+        <p className="text-sm text-gray-500">No files yet.</p>
+      )}
+
+      {attachments.map(attachment => {
+        const Icon = isImage(attachment) ? ImageIcon : FileText;
+        return (
+          <div key={attachment.id} className="flex items-center justify-between rounded-lg bg-gray-50 p-2 text-sm">
+            <div className="flex min-w-0 items-center">
+              <Icon className="mr-2 h-4 w-4 shrink-0 text-gray-400" />
+              <div className="min-w-0">
+                <p className="truncate font-medium text-gray-900">{attachment.name}</p>
+                <p className="text-xs text-gray-500">
+                  {formatFileSize(attachment.size)}
+                  {' · '}
+                  {uploaderNames[attachment.uploadedBy] || 'Unknown User'}
+                  {' · '}
+                  {new Date(attachment.createdAt).toLocaleDateString()}
+                </p>
+              </div>
+            </div>
+            <div className="flex shrink-0">
+              {isImage(attachment) && (
+                <Button type="button" variant="ghost" size="sm" onClick={() => handlePreview(attachment)} aria-label="Preview">
+                  <Eye className="h-4 w-4" />
+                </Button>
+              )}
+              <Button type="button" variant="ghost" size="sm" onClick={() => handleDownload(attachment)} aria-label="Download">
+                <Download className="h-4 w-4" />
+              </Button>
+              {(attachment.uploadedBy === user?.id || canDeleteAny) && (
+                <Button type="button" variant="ghost" size="sm" onClick={() => handleDelete(attachment)} aria-label="Delete">
+                  <Trash className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          </div>
+        );
+      })}
+
+      <Dialog open={!!preview} onOpenChange={(open) => !open && setPreview(null)}>
+        <DialogContent className="sm:max-w-3xl">
+          <DialogHeader>
+            <DialogTitle className="truncate">{preview?.attachment.name}</DialogTitle>
+          </DialogHeader>
+          {preview && (
+            <img src={preview.url} alt={preview.attachment.name} className="max-h-[70vh] w-full object-contain" />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default Attachments;
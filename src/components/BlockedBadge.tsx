@@ -0,0 +1,23 @@
+import React from 'react';
+import { Ban } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Task } from '@/services/repository';
+import { describeBlockers } from '@/services/dependencies';
+
+interface BlockedBadgeProps {
+  // Open blockers; nothing is shown when empty
+  blockers?: Pick<Task, 'title'>[];
+}
+
+const BlockedBadge: React.FC<BlockedBadgeProps> = ({ blockers }) => {
+  if (!blockers?.length) return null;
+
+  return (
+    <Badge className="bg-red-100 text-red-800" title={describeBlockers(blockers)}>
+      <Ban className="mr-1 h-3 w-3" />
+      Blocked
+    </Badge>
+  );
+};
+
+export default BlockedBadge;
@@ -0,0 +1,173 @@
+import React from 'react';
+import { format } from 'date-fns';
+import { CalendarIcon, Flag, FolderInput, ListChecks, Trash, User, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Calendar as CalendarComponent } from '@/components/ui/calendar';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover';
+import { AppUser, Project, TaskPriority, WorkflowStatus } from '@/services/repository';
+import { TASK_PRIORITIES } from '@/services/priority';
+import { cn } from '@/lib/utils';
+
+interface BulkActionBarProps {
+  // Tasks that can be selected, and how many are
+  total: number;
+  selectedCount: number;
+  onSelectAll: (selected: boolean) => void;
+  statuses: WorkflowStatus[];
+  assignees: AppUser[];
+  // Projects the selected tasks can be moved to
+  projects: Project[];
+  onSetStatus: (status: WorkflowStatus) => void;
+  onAssign: (userId: string | null) => void;
+  // As yyyy-MM-dd, like the task form
+  onSetDueDate: (dueDate: string) => void;
+  onSetPriority: (priority: TaskPriority) => void;
+  onMove: (project: Project) => void;
+  onDelete: () => void;
+}
+
+const BulkActionBar: React.FC<BulkActionBarProps> = ({
+  total,
+  selectedCount,
+  onSelectAll,
+  statuses,
+  assignees,
+  projects,
+  onSetStatus,
+  onAssign,
+  onSetDueDate,
+  onSetPriority,
+  onMove,
+  onDelete,
+}) => {
+  const allSelected = total > 0 && selectedCount === total;
+
+  return (
+    <div
+      className={cn(
+        'flex flex-wrap items-center gap-2 rounded-lg border px-4 py-2',
+        selectedCount > 0 ? 'border-blue-200 bg-blue-50' : 'border-transparent'
+      )}
+    >
+      <Checkbox
+        checked={allSelected ? true : selectedCount > 0 ? 'indeterminate' : false}
+        onCheckedChange={() => onSelectAll(!allSelected)}
+        aria-label="Select all tasks"
+      />
+      <span className="mr-2 text-sm text-gray-600">
+        {selectedCount > 0 ? `${selectedCount} selected` : 'Select all'}
+      </span>
+
+      {selectedCount > 0 && (
+        <>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" size="sm">
+                <ListChecks className="mr-2 h-4 w-4" />
+                Status
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent>
+              {statuses.map(status => (
+                <DropdownMenuItem key={status.id} onClick={() => onSetStatus(status)}>
+                  {status.name}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" size="sm">
+                <User className="mr-2 h-4 w-4" />
+                Assignee
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent>
+              <DropdownMenuItem onClick={() => onAssign(null)}>Unassigned</DropdownMenuItem>
+              {assignees.length > 0 && <DropdownMenuSeparator />}
+              {assignees.map(assignee => (
+                <DropdownMenuItem key={assignee.id} onClick={() => onAssign(assignee.id)}>
+                  {assignee.name}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button variant="outline" size="sm">
+                <CalendarIcon className="mr-2 h-4 w-4" />
+                Due Date
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-auto p-0" align="start">
+              <CalendarComponent
+                mode="single"
+                onSelect={(date) => date && onSetDueDate(format(date, 'yyyy-MM-dd'))}
+                initialFocus
+                className={cn("p-3 pointer-events-auto")}
+              />
+            </PopoverContent>
+          </Popover>
+
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" size="sm">
+                <Flag className="mr-2 h-4 w-4" />
+                Priority
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent>
+              {TASK_PRIORITIES.map(priority => (
+                <DropdownMenuItem key={priority} onClick={() => onSetPriority(priority)}>
+                  {priority}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" size="sm" disabled={projects.length === 0}>
+                <FolderInput className="mr-2 h-4 w-4" />
+                Move
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent>
+              {projects.map(project => (
+                <DropdownMenuItem key={project.id} onClick={() => onMove(project)}>
+                  {project.name}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+
+          <Button variant="outline" size="sm" className="text-red-600" onClick={onDelete}>
+            <Trash className="mr-2 h-4 w-4" />
+            Delete
+          </Button>
+
+          <Button variant="ghost" size="sm" className="ml-auto" onClick={() => onSelectAll(false)}>
+            <X className="mr-2 h-4 w-4" />
+            Clear
+          </Button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default BulkActionBar;
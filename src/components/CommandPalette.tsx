@@ -0,0 +1,249 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { CheckSquare, FolderOpen, MessageSquare, Plus, User, UserPlus } from 'lucide-react';
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandSeparator,
+} from '@/components/ui/command';
+import { AppUser, Message, Project, Task, repository } from '@/services/repository';
+import { useAuth } from '@/contexts/AuthContext';
+import { getMemberIds } from '@/services/membership';
+import { getHighlightRanges, getSnippet, rankItems } from '@/services/search';
+import { NAVIGATION } from '@/components/navigation';
+
+interface CommandPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCreateTask: () => void;
+  onJoinProject: () => void;
+}
+
+interface SearchData {
+  projects: Project[];
+  tasks: Task[];
+  people: AppUser[];
+  messages: Message[];
+}
+
+interface PaletteAction {
+  name: string;
+  icon: React.ElementType;
+  run: () => void;
+}
+
+const EMPTY_DATA: SearchData = { projects: [], tasks: [], people: [], messages: [] };
+
+// Results per group
+const RESULT_LIMIT = 5;
+
+// The text with the query's words marked
+const Highlight: React.FC<{ text: string; query: string }> = ({ text, query }) => {
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+  getHighlightRanges(text, query).forEach(([start, end]) => {
+    parts.push(text.slice(position, start));
+    parts.push(<mark key={start} className="bg-yellow-100 text-inherit rounded-sm">{text.slice(start, end)}</mark>);
+    position = end;
+  });
+  parts.push(text.slice(position));
+  return <>{parts}</>;
+};
+
+const CommandPalette: React.FC<CommandPaletteProps> = ({ open, onOpenChange, onCreateTask, onJoinProject }) => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [query, setQuery] = useState('');
+  const [data, setData] = useState<SearchData>(EMPTY_DATA);
+
+  // Fetched each time the palette opens, so results are never far behind
+  useEffect(() => {
+    if (!open || !user) return;
+
+    const fetchData = async () => {
+      try {
+        const [projects, messages] = await Promise.all([
+          repository.projects.listForUser(user),
+          repository.messages.listForUser(user.id),
+        ]);
+        const [tasks, people] = await Promise.all([
+          repository.tasks.listByProjects(projects.map(project => project.id)),
+          repository.users.resolve([
+            ...new Set([
+              ...projects.flatMap(getMemberIds),
+              ...messages.flatMap(message => [message.senderId, message.receiverId]),
+            ]),
+          ]),
+        ]);
+        setData({ projects, tasks, people, messages });
+      } catch (error) {
+        console.error('Error fetching search data:', error);
+      }
+    };
+
+    fetchData();
+  }, [open, user]);
+
+  const handleOpenChange = (next: boolean) => {
+    onOpenChange(next);
+    if (!next) setQuery('');
+  };
+
+  const run = (action: () => void) => {
+    handleOpenChange(false);
+    action();
+  };
+
+  const getName = (userId: string) => data.people.find(person => person.id === userId)?.name || 'Unknown user';
+  const getProjectName = (projectId: string) =>
+    data.projects.find(project => project.id === projectId)?.name || '';
+  const chatWith = (userId: string) => navigate('/chat', { state: { receiverId: userId } });
+
+  const actions: PaletteAction[] = [
+    { name: 'Create task', icon: Plus, run: onCreateTask },
+    { name: 'Join project', icon: UserPlus, run: onJoinProject },
+  ];
+
+  const searching = query.trim() !== '';
+  const pages = searching ? rankItems(NAVIGATION, query, page => [page.name]) : NAVIGATION;
+  const matchingActions = searching ? rankItems(actions, query, action => [action.name]) : actions;
+  const projects = rankItems(data.projects, query, project => [project.name, project.description], RESULT_LIMIT);
+  const tasks = rankItems(
+    data.tasks,
+    query,
+    task => [task.title, task.description, getProjectName(task.projectId)],
+    RESULT_LIMIT
+  );
+  const members = rankItems(
+    data.people.filter(person => person.id !== user?.id),
+    query,
+    person => [person.name, person.email],
+    RESULT_LIMIT
+  );
+  const messages = rankItems(data.messages, query, message => [message.content], RESULT_LIMIT);
+
+  return (
+    <CommandDialog open={open} onOpenChange={handleOpenChange} commandProps={{ shouldFilter: false }}>
+      <CommandInput
+        placeholder="Search projects, tasks, people and messages, or type a command..."
+        value={query}
+        onValueChange={setQuery}
+      />
+      <CommandList>
+        <CommandEmpty>No results found.</CommandEmpty>
+
+        {projects.length > 0 && (
+          <CommandGroup heading="Projects">
+            {projects.map(project => (
+              <CommandItem
+                key={project.id}
+                value={`project:${project.id}`}
+                onSelect={() => run(() => navigate(`/projects/${project.id}`))}
+              >
+                <FolderOpen className="mr-2 h-4 w-4" />
+                <Highlight text={project.name} query={query} />
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        )}
+
+        {tasks.length > 0 && (
+          <CommandGroup heading="Tasks">
+            {tasks.map(task => (
+              <CommandItem
+                key={task.id}
+                value={`task:${task.id}`}
+                onSelect={() => run(() => navigate(`/tasks/${task.id}`))}
+              >
+                <CheckSquare className="mr-2 h-4 w-4" />
+                <span className="flex-1 truncate">
+                  <Highlight text={task.title} query={query} />
+                </span>
+                <span className="ml-2 text-xs text-muted-foreground">{getProjectName(task.projectId)}</span>
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        )}
+
+        {members.length > 0 && (
+          <CommandGroup heading="Members">
+            {members.map(person => (
+              <CommandItem
+                key={person.id}
+                value={`member:${person.id}`}
+                onSelect={() => run(() => chatWith(person.id))}
+              >
+                <User className="mr-2 h-4 w-4" />
+                <span className="flex-1 truncate">
+                  <Highlight text={person.name} query={query} />
+                </span>
+                <span className="ml-2 text-xs text-muted-foreground">
+                  <Highlight text={person.email} query={query} />
+                </span>
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        )}
+
+        {messages.length > 0 && (
+          <CommandGroup heading="Messages">
+            {messages.map(message => {
+              const otherId = message.senderId === user?.id ? message.receiverId : message.senderId;
+              return (
+                <CommandItem
+                  key={message.id}
+                  value={`message:${message.id}`}
+                  onSelect={() => run(() => chatWith(otherId))}
+                >
+                  <MessageSquare className="mr-2 h-4 w-4" />
+                  <span className="flex-1 truncate">
+                    <Highlight text={getSnippet(message.content, query)} query={query} />
+                  </span>
+                  <span className="ml-2 text-xs text-muted-foreground">{getName(otherId)}</span>
+                </CommandItem>
+              );
+            })}
+          </CommandGroup>
+        )}
+
+        {(projects.length > 0 || tasks.length > 0 || members.length > 0 || messages.length > 0) && (
+          <CommandSeparator />
+        )}
+
+        {matchingActions.length > 0 && (
+          <CommandGroup heading="Actions">
+            {matchingActions.map(action => {
+              const Icon = action.icon;
+              return (
+                <CommandItem key={action.name} value={`action:${action.name}`} onSelect={() => run(action.run)}>
+                  <Icon className="mr-2 h-4 w-4" />
+                  <Highlight text={action.name} query={query} />
+                </CommandItem>
+              );
+            })}
+          </CommandGroup>
+        )}
+
+        {pages.length > 0 && (
+          <CommandGroup heading="Go to">
+            {pages.map(page => {
+              const Icon = page.icon;
+              return (
+                <CommandItem key={page.href} value={`page:${page.href}`} onSelect={() => run(() => navigate(page.href))}>
+                  <Icon className="mr-2 h-4 w-4" />
+                  <Highlight text={page.name} query={query} />
+                </CommandItem>
+              );
+            })}
+          </CommandGroup>
+        )}
+      </CommandList>
+    </CommandDialog>
+  );
+};
+
+export default CommandPalette;
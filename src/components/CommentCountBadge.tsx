@@ -0,0 +1,21 @@
+import React from 'react';
+import { MessageSquare } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+
+interface CommentCountBadgeProps {
+  // Nothing is shown without comments
+  count?: number;
+}
+
+const CommentCountBadge: React.FC<CommentCountBadgeProps> = ({ count }) => {
+  if (!count) return null;
+
+  return (
+    <Badge variant="outline" title={`${count} ${count === 1 ? 'comment' : 'comments'}`}>
+      <MessageSquare className="mr-1 h-3 w-3" />
+      {count}
+    </Badge>
+  );
+};
+
+export default CommentCountBadge;
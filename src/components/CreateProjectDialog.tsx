@@ -33,7 +33,6 @@ interface Project {
   status: 'Planning' | 'In Progress' | 'On Hold' | 'Completed';
   progress: number;
   dueDate: string;
-  teamMembers: string[];
 }
 
 interface CreateProjectDialogProps {
@@ -64,7 +63,6 @@ const CreateProjectDialog: React.FC<CreateProjectDialogProps> = ({
       status: formData.status,
       progress: 0,
       dueDate: date ? date.toISOString() : new Date().toISOString(),
-      teamMembers: [], // Start with empty team, owner is separate
     };
 
     onCreateProject(project);
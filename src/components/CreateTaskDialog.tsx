@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -18,139 +18,147 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { Plus, Calendar, User } from 'lucide-react';
-import { supabase } from '@/integrations/supabase/client';
-
-interface Task {
-  id?: string;
-  title: string;
-  description: string;
-  status: 'To Do' | 'In Progress' | 'Completed';
-  due_date: string;
-  assigned_to: string | null;
-  project_id: string;
-}
-
-interface UserProfile {
-  id: string;
-  email: string;
-  full_name: string | null;
-}
+import { Checkbox } from '@/components/ui/checkbox';
+import { Plus, Calendar, User, X, CheckCircle } from 'lucide-react';
+import {
+  repository,
+  Task,
+  NewTask,
+  TaskStatus,
+  TaskPriority,
+  ChecklistItem,
+  TaskRecurrence,
+  EstimateUnit,
+  AppUser,
+  WorkflowStatus,
+} from '@/services/repository';
+import { DEFAULT_STATUSES, findStatus, getInitialStatusId, isDoneStatus } from '@/services/workflow';
+import TaskDependencies from './TaskDependencies';
+import TaskTimeTracking from './TaskTimeTracking';
+import TaskComments from './TaskComments';
+import Attachments from './Attachments';
+import RecurrenceEditor from './RecurrenceEditor';
+import { useShortcuts } from '@/hooks/use-shortcuts';
+import { TASK_PRIORITIES } from '@/services/priority';
+import { validateRecurrence } from '@/services/recurrence';
+import { ESTIMATE_UNIT_LABELS, validateEstimate } from '@/services/estimates';
 
 interface CreateTaskDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  onCreateTask: (task: Omit<Task, 'id'>) => Promise<void>;
+  onCreateTask: (task: NewTask) => Promise<void>;
   projectId: string;
-  teamMembers: string[]; // Array of user IDs or emails
-  ownerEmail?: string;
-  ownerId?: string; // Add owner ID
+  memberIds: string[]; // Project member user IDs, owner included
+  ownerId?: string;
+  // When false the assignee can't be changed
+  canAssign?: boolean;
   task?: Task | null;
+  // The project's workflow, in column order
+  statuses?: WorkflowStatus[];
+  // Creates a subtask of this task
+  parentTask?: Task | null;
+  // Subtasks of the task being edited
+  subtasks?: Task[];
+  // Called when the edited task's dependencies change
+  onDependenciesChange?: () => void;
+  // Called when time is logged on the edited task
+  onTimeChange?: () => void;
+  // Called when a comment is added to or removed from the edited task
+  onCommentsChange?: () => void;
+  // Lets the user delete other people's comments
+  canDeleteComments?: boolean;
+  // Lets the user upload files to the edited task
+  canUploadAttachments?: boolean;
+  // Lets the user delete other people's files
+  canDeleteAttachments?: boolean;
+  // The project's estimate unit
+  estimateUnit?: EstimateUnit;
 }
 
+const emptyForm = (statuses: WorkflowStatus[]) => ({
+  title: '',
+  description: '',
+  status: getInitialStatusId(statuses) as TaskStatus,
+  priority: 'Medium' as TaskPriority,
+  estimate: '',
+  start_date: '',
+  due_date: '',
+  assigned_to: 'unassigned',
+  checklist: [] as ChecklistItem[],
+  recurrence: null as TaskRecurrence | null
+});
+
 const CreateTaskDialog: React.FC<CreateTaskDialogProps> = ({
   open,
   onOpenChange,
   onCreateTask,
   projectId,
-  teamMembers,
-  ownerEmail,
+  memberIds,
   ownerId,
-  task
+  canAssign = true,
+  task,
+  statuses = DEFAULT_STATUSES,
+  parentTask,
+  subtasks = [],
+  onDependenciesChange,
+  onTimeChange,
+  onCommentsChange,
+  canDeleteComments = false,
+  canUploadAttachments = false,
+  canDeleteAttachments = false,
+  estimateUnit = 'points'
 }) => {
-  const [formData, setFormData] = useState({
-    title: task?.title || '',
-    description: task?.description || '',
-    status: task?.status || 'To Do' as 'To Do' | 'In Progress' | 'Completed',
-    due_date: task?.due_date ? new Date(task.due_date).toISOString().split('T')[0] : '',
-    assigned_to: task?.assigned_to ? task.assigned_to : 'unassigned'
-  });
+  const [formData, setFormData] = useState(emptyForm(statuses));
+  const [newChecklistItem, setNewChecklistItem] = useState('');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
-  const [userProfiles, setUserProfiles] = useState<UserProfile[]>([]);
+  const [userProfiles, setUserProfiles] = useState<AppUser[]>([]);
   const [fetchingUsers, setFetchingUsers] = useState(false);
+  const formRef = useRef<HTMLFormElement>(null);
 
-  // Helper function to validate UUID format
-  const isValidUUID = (str: string): boolean => {
-    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
-    return uuidRegex.test(str);
-  };
+  useShortcuts([
+    {
+      keys: 'mod+enter',
+      description: task ? 'Save the task' : 'Create the task',
+      scope: 'dialog',
+      group: 'Tasks',
+      handler: () => formRef.current?.requestSubmit(),
+    },
+  ], open);
+
+  // Prefill the form when editing an existing task
+  useEffect(() => {
+    if (!open) return;
+    setFormData(task ? {
+      title: task.title,
+      description: task.description,
+      status: task.status,
+      priority: task.priority,
+      estimate: task.estimate === null ? '' : String(task.estimate),
+      start_date: task.startDate ? new Date(task.startDate).toISOString().split('T')[0] : '',
+      due_date: task.dueDate ? new Date(task.dueDate).toISOString().split('T')[0] : '',
+      assigned_to: task.assignedTo || 'unassigned',
+      checklist: task.checklist,
+      recurrence: task.recurrence
+    } : emptyForm(statuses));
+    setNewChecklistItem('');
+  }, [open, task, statuses]);
 
-  // Fetch user profiles when dialog opens or team members change
+  // Fetch user profiles when dialog opens or project members change
+  const memberKey = memberIds.join(',');
   useEffect(() => {
-    if (open && (teamMembers.length > 0 || ownerId || ownerEmail)) {
+    if (open && memberIds.length > 0) {
       fetchUserProfiles();
     }
-  }, [open, teamMembers, ownerId, ownerEmail]);
+  }, [open, memberKey]);
 
   const fetchUserProfiles = async () => {
     setFetchingUsers(true);
-    const profiles: UserProfile[] = [];
-    
+
     try {
-      // Create array of all user identifiers (owner + team members)
-      const allUserIdentifiers = [
-        ...(ownerId ? [ownerId] : []),
-        ...(ownerEmail && !ownerId ? [ownerEmail] : []),
-        ...teamMembers
-      ].filter((id, index, arr) => arr.indexOf(id) === index); // Remove duplicates
-
-      console.log('Fetching profiles for identifiers:', allUserIdentifiers);
-
-      // Fetch each user's profile
-      for (const identifier of allUserIdentifiers) {
-        try {
-          let userData, userError;
-
-          // Check if identifier is a UUID or email
-          if (isValidUUID(identifier)) {
-            // It's a UUID, use getUserById
-            console.log(`Fetching user profile by ID: ${identifier}`);
-            const result = await supabase.auth.admin.getUserById(identifier);
-            userData = result.data;
-            userError = result.error;
-          } else if (identifier.includes('@')) {
-            // It's an email, use listUsers with email filter
-            console.log(`Fetching user profile by email: ${identifier}`);
-            const { data: usersData, error } = await supabase.auth.admin.listUsers();
-            
-            if (error) {
-              userError = error;
-            } else {
-              // Find user by email
-              const foundUser = usersData.users.find(user => user.email === identifier);
-              if (foundUser) {
-                userData = { user: foundUser };
-              } else {
-                console.warn(`User not found with email: ${identifier}`);
-                continue;
-              }
-            }
-          } else {
-            console.error(`Invalid identifier format: ${identifier}`);
-            continue;
-          }
-          
-          if (userError) {
-            console.error(`Error fetching user ${identifier}:`, userError);
-            continue;
-          }
-
-          if (userData?.user) {
-            profiles.push({
-              id: userData.user.id,
-              email: userData.user.email || '',
-              full_name: userData.user.user_metadata?.full_name || userData.user.user_metadata?.name || null
-            });
-            console.log(`Successfully fetched profile for ${userData.user.email}`);
-          }
-        } catch (err) {
-          console.error(`Error fetching user ${identifier}:`, err);
-        }
-      }
-
-      console.log('Final user profiles:', profiles);
-      setUserProfiles(profiles);
+      // Owner first, then the other members
+      const profiles = await repository.users.resolve(memberIds);
+      setUserProfiles(profiles.sort((a, b) => Number(b.id === ownerId) - Number(a.id === ownerId)));
     } catch (err) {
       console.error('Error fetching user profiles:', err);
     } finally {
@@ -164,6 +172,20 @@ const CreateTaskDialog: React.FC<CreateTaskDialogProps> = ({
       setError('Task title is required');
       return;
     }
+    if (formData.start_date && formData.due_date && formData.start_date > formData.due_date) {
+      setError('The start date must be on or before the due date');
+      return;
+    }
+    const estimateError = validateEstimate(formData.estimate);
+    if (estimateError) {
+      setError(estimateError);
+      return;
+    }
+    const recurrenceError = formData.recurrence && validateRecurrence(formData.recurrence, formData.due_date);
+    if (recurrenceError) {
+      setError(recurrenceError);
+      return;
+    }
 
     setLoading(true);
     setError('');
@@ -173,19 +195,21 @@ const CreateTaskDialog: React.FC<CreateTaskDialogProps> = ({
         title: formData.title.trim(),
         description: formData.description.trim(),
         status: formData.status,
-        due_date: formData.due_date || new Date().toISOString(),
-        assigned_to: formData.assigned_to === 'unassigned' ? null : formData.assigned_to,
-        project_id: projectId
+        priority: formData.priority,
+        estimate: formData.estimate.trim() ? Number(formData.estimate) : null,
+        startDate: formData.start_date || null,
+        dueDate: formData.due_date || new Date().toISOString(),
+        assignedTo: formData.assigned_to === 'unassigned' ? null : formData.assigned_to,
+        projectId,
+        parentId: task ? task.parentId : parentTask?.id ?? null,
+        checklist: formData.checklist
+          .map(item => ({ ...item, title: item.title.trim() }))
+          .filter(item => item.title),
+        recurrence: formData.recurrence
       });
 
       // Reset form
-      setFormData({
-        title: '',
-        description: '',
-        status: 'To Do',
-        due_date: '',
-        assigned_to: 'unassigned'
-      });
+      setFormData(emptyForm(statuses));
 
       onOpenChange(false);
     } catch (err) {
@@ -204,12 +228,28 @@ const CreateTaskDialog: React.FC<CreateTaskDialogProps> = ({
     if (error) setError('');
   };
 
-  const getUserDisplayName = (profile: UserProfile) => {
-    if (profile.full_name) {
-      return profile.full_name;
-    }
-    // Fallback to email username if no full name
-    return profile.email.split('@')[0];
+  const addChecklistItem = () => {
+    const title = newChecklistItem.trim();
+    if (!title) return;
+    setFormData(prev => ({
+      ...prev,
+      checklist: [...prev.checklist, { id: crypto.randomUUID(), title, done: false }]
+    }));
+    setNewChecklistItem('');
+  };
+
+  const updateChecklistItem = (id: string, changes: Partial<ChecklistItem>) => {
+    setFormData(prev => ({
+      ...prev,
+      checklist: prev.checklist.map(item => item.id === id ? { ...item, ...changes } : item)
+    }));
+  };
+
+  const removeChecklistItem = (id: string) => {
+    setFormData(prev => ({
+      ...prev,
+      checklist: prev.checklist.filter(item => item.id !== id)
+    }));
   };
 
   const isOwner = (userId: string) => {
@@ -218,18 +258,22 @@ const CreateTaskDialog: React.FC<CreateTaskDialogProps> = ({
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-md">
+      <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle className="flex items-center">
             <Plus className="mr-2 h-5 w-5" />
-            {task ? 'Edit Task' : 'Create New Task'}
+            {task ? 'Edit Task' : parentTask ? 'Create Subtask' : 'Create New Task'}
           </DialogTitle>
           <DialogDescription>
-            {task ? 'Update the task details below.' : 'Add a new task to this project and assign it to a team member.'}
+            {task
+              ? 'Update the task details below.'
+              : parentTask
+                ? `Add a subtask to "${parentTask.title}" and assign it to a team member.`
+                : 'Add a new task to this project and assign it to a team member.'}
           </DialogDescription>
         </DialogHeader>
 
-        <form onSubmit={handleSubmit} className="space-y-4">
+        <form ref={formRef} onSubmit={handleSubmit} className="space-y-4">
           {error && (
             <Alert variant="destructive">
               <AlertDescription>{error}</AlertDescription>
@@ -260,22 +304,42 @@ const CreateTaskDialog: React.FC<CreateTaskDialogProps> = ({
             />
           </div>
 
-          {/* Status */}
-          <div className="space-y-2">
-            <Label htmlFor="status">Status</Label>
-            <Select
-              value={formData.status}
-              onValueChange={(value) => handleInputChange('status', value)}
-            >
-              <SelectTrigger>
-                <SelectValue placeholder="Select status" />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="To Do">To Do</SelectItem>
-                <SelectItem value="In Progress">In Progress</SelectItem>
-                <SelectItem value="Completed">Completed</SelectItem>
-              </SelectContent>
-            </Select>
+          <div className="grid grid-cols-2 gap-4">
+            {/* Status */}
+            <div className="space-y-2">
+              <Label htmlFor="status">Status</Label>
+              <Select
+                value={formData.status}
+                onValueChange={(value) => handleInputChange('status', value)}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select status" />
+                </SelectTrigger>
+                <SelectContent>
+                  {statuses.map(status => (
+                    <SelectItem key={status.id} value={status.id}>{status.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {/* Priority */}
+            <div className="space-y-2">
+              <Label htmlFor="priority">Priority</Label>
+              <Select
+                value={formData.priority}
+                onValueChange={(value) => handleInputChange('priority', value)}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select priority" />
+                </SelectTrigger>
+                <SelectContent>
+                  {TASK_PRIORITIES.map(priority => (
+                    <SelectItem key={priority} value={priority}>{priority}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
           </div>
 
           {/* Assigned To */}
@@ -284,7 +348,7 @@ const CreateTaskDialog: React.FC<CreateTaskDialogProps> = ({
             <Select
               value={formData.assigned_to}
               onValueChange={(value) => handleInputChange('assigned_to', value)}
-              disabled={fetchingUsers}
+              disabled={fetchingUsers || !canAssign}
             >
               <SelectTrigger>
                 <SelectValue placeholder={fetchingUsers ? "Loading users..." : "Select team member"} />
@@ -295,7 +359,7 @@ const CreateTaskDialog: React.FC<CreateTaskDialogProps> = ({
                   <SelectItem key={profile.id} value={profile.id}>
                     <div className="flex items-center">
                       <User className="mr-2 h-4 w-4" />
-                      {getUserDisplayName(profile)}
+                      {profile.name}
                       {isOwner(profile.id) && ' (Owner)'}
                     </div>
                   </SelectItem>
@@ -304,21 +368,142 @@ const CreateTaskDialog: React.FC<CreateTaskDialogProps> = ({
             </Select>
           </div>
 
-          {/* Due Date */}
+          {/* Estimate */}
           <div className="space-y-2">
-            <Label htmlFor="due_date">Due Date</Label>
-            <div className="relative">
-              <Calendar className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+            <Label htmlFor="estimate">Estimate ({ESTIMATE_UNIT_LABELS[estimateUnit].toLowerCase()})</Label>
+            <Input
+              id="estimate"
+              type="number"
+              min={0}
+              step="any"
+              value={formData.estimate}
+              onChange={(e) => handleInputChange('estimate', e.target.value)}
+              placeholder="Not estimated"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            {/* Start Date */}
+            <div className="space-y-2">
+              <Label htmlFor="start_date">Start Date</Label>
+              <div className="relative">
+                <Calendar className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+                <Input
+                  id="start_date"
+                  type="date"
+                  value={formData.start_date}
+                  onChange={(e) => handleInputChange('start_date', e.target.value)}
+                  className="pl-10"
+                />
+              </div>
+            </div>
+
+            {/* Due Date */}
+            <div className="space-y-2">
+              <Label htmlFor="due_date">Due Date</Label>
+              <div className="relative">
+                <Calendar className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+                <Input
+                  id="due_date"
+                  type="date"
+                  value={formData.due_date}
+                  onChange={(e) => handleInputChange('due_date', e.target.value)}
+                  className="pl-10"
+                />
+              </div>
+            </div>
+          </div>
+
+          {/* Recurrence */}
+          <RecurrenceEditor
+            value={formData.recurrence}
+            onChange={(recurrence) => {
+              setFormData(prev => ({ ...prev, recurrence }));
+              if (error) setError('');
+            }}
+            dueDate={formData.due_date}
+          />
+
+          {/* Checklist */}
+          <div className="space-y-2">
+            <Label htmlFor="checklist">Checklist</Label>
+            {formData.checklist.map(item => (
+              <div key={item.id} className="flex items-center space-x-2">
+                <Checkbox
+                  checked={item.done}
+                  onCheckedChange={(checked) => updateChecklistItem(item.id, { done: checked === true })}
+                />
+                <Input
+                  value={item.title}
+                  onChange={(e) => updateChecklistItem(item.id, { title: e.target.value })}
+                  className={`h-8 flex-1 ${item.done ? 'line-through text-gray-500' : ''}`}
+                />
+                <Button type="button" variant="ghost" size="sm" onClick={() => removeChecklistItem(item.id)}>
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <div className="flex space-x-2">
               <Input
-                id="due_date"
-                type="date"
-                value={formData.due_date}
-                onChange={(e) => handleInputChange('due_date', e.target.value)}
-                className="pl-10"
+                id="checklist"
+                value={newChecklistItem}
+                onChange={(e) => setNewChecklistItem(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    e.preventDefault();
+                    addChecklistItem();
+                  }
+                }}
+                placeholder="Add a checklist item"
+                className="h-8"
               />
+              <Button type="button" variant="outline" size="sm" onClick={addChecklistItem}>
+                <Plus className="h-4 w-4" />
+              </Button>
             </div>
           </div>
 
+          {/* Subtasks */}
+          {task && subtasks.length > 0 && (
+            <div className="space-y-2">
+              <Label>Subtasks</Label>
+              {subtasks.map(subtask => (
+                <div key={subtask.id} className="flex items-center justify-between text-sm">
+                  <span className="flex items-center">
+                    <CheckCircle
+                      className={`mr-2 h-4 w-4 ${
+                        isDoneStatus(statuses, subtask.status) ? 'text-green-500' : 'text-gray-300'
+                      }`}
+                    />
+                    {subtask.title}
+                  </span>
+                  <span className="text-gray-500">{findStatus(statuses, subtask.status).name}</span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Dependencies */}
+          {task && <TaskDependencies task={task} onChange={onDependenciesChange} />}
+
+          {/* Time Tracking */}
+          {task && <TaskTimeTracking task={task} onChange={onTimeChange} />}
+
+          {/* Attachments */}
+          {task && (
+            <Attachments
+              projectId={task.projectId}
+              taskId={task.id}
+              canUpload={canUploadAttachments}
+              canDeleteAny={canDeleteAttachments}
+            />
+          )}
+
+          {/* Comments */}
+          {task && (
+            <TaskComments task={task} memberIds={memberIds} canDeleteAny={canDeleteComments} onChange={onCommentsChange} />
+          )}
+
           {/* Action Buttons */}
           <div className="flex justify-end space-x-2 pt-4">
             <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
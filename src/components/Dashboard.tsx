@@ -167,7 +167,7 @@ const Dashboard = () => {
                       description: project.description,
                       progress: project.progress,
                       dueDate: project.dueDate,
-                      teamMembers: project.teamMembers,
+                      teamMembers: project.memberNames || [],
                       status: project.status,
                       taskCount: project.taskCount,
                       completedTasks: project.completedTasks
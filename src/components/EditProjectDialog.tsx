@@ -18,6 +18,9 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { EstimateUnit, ProgressMode } from '@/services/repository';
+import { ESTIMATE_UNIT_LABELS, PROGRESS_MODE_LABELS } from '@/services/estimates';
 
 interface Project {
   id: string;
@@ -26,8 +29,10 @@ interface Project {
   status: 'Planning' | 'In Progress' | 'On Hold' | 'Completed';
   progress: number;
   dueDate: string;
-  teamMembers: string[];
   createdAt: string;
+  estimateUnit: EstimateUnit;
+  progressMode: ProgressMode;
+  autoComplete: boolean;
 }
 
 interface EditProjectDialogProps {
@@ -48,6 +53,9 @@ const EditProjectDialog: React.FC<EditProjectDialogProps> = ({
     description: '',
     status: 'Planning' as 'Planning' | 'In Progress' | 'On Hold' | 'Completed',
     progress: 0,
+    estimateUnit: 'points' as EstimateUnit,
+    progressMode: 'count' as ProgressMode,
+    autoComplete: false,
   });
 
   useEffect(() => {
@@ -57,6 +65,9 @@ const EditProjectDialog: React.FC<EditProjectDialogProps> = ({
         description: project.description,
         status: project.status,
         progress: project.progress,
+        estimateUnit: project.estimateUnit,
+        progressMode: project.progressMode,
+        autoComplete: project.autoComplete,
       });
     }
   }, [project]);
@@ -70,6 +81,9 @@ const EditProjectDialog: React.FC<EditProjectDialogProps> = ({
       description: formData.description,
       status: formData.status,
       progress: formData.progress,
+      estimateUnit: formData.estimateUnit,
+      progressMode: formData.progressMode,
+      autoComplete: formData.autoComplete,
     };
 
     onEditProject(updatedProject);
@@ -125,14 +139,66 @@ const EditProjectDialog: React.FC<EditProjectDialogProps> = ({
             </Select>
           </div>
 
-          <div className="space-y-2">
-            <Label>Progress: {formData.progress}%</Label>
-            <Slider
-              value={[formData.progress]}
-              onValueChange={(value) => setFormData(prev => ({ ...prev, progress: value[0] }))}
-              max={100}
-              step={5}
-              className="w-full"
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="estimateUnit">Estimate In</Label>
+              <Select
+                value={formData.estimateUnit}
+                onValueChange={(value: EstimateUnit) => setFormData(prev => ({ ...prev, estimateUnit: value }))}
+              >
+                <SelectTrigger id="estimateUnit">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(ESTIMATE_UNIT_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="progressMode">Progress Counts</Label>
+              <Select
+                value={formData.progressMode}
+                onValueChange={(value: ProgressMode) => setFormData(prev => ({ ...prev, progressMode: value }))}
+              >
+                <SelectTrigger id="progressMode">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(PROGRESS_MODE_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {formData.progressMode === 'manual' ? (
+            <div className="space-y-2">
+              <Label>Progress: {formData.progress}%</Label>
+              <Slider
+                value={[formData.progress]}
+                onValueChange={(value) => setFormData(prev => ({ ...prev, progress: value[0] }))}
+                max={100}
+                step={5}
+                className="w-full"
+              />
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500">Progress is worked out from the project's tasks.</p>
+          )}
+
+          <div className="flex items-center justify-between">
+            <div>
+              <Label htmlFor="autoComplete">Complete automatically</Label>
+              <p className="text-sm text-gray-500">Mark the project Completed once every task is done.</p>
+            </div>
+            <Switch
+              id="autoComplete"
+              checked={formData.autoComplete}
+              onCheckedChange={(checked) => setFormData(prev => ({ ...prev, autoComplete: checked }))}
             />
           </div>
 
@@ -17,13 +17,16 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
+import { TaskPriority, TaskStatus, WorkflowStatus } from '@/services/repository';
+import { DEFAULT_STATUSES, getInitialStatusId } from '@/services/workflow';
+import { TASK_PRIORITIES } from '@/services/priority';
 
 interface Task {
   id: string;
   title: string;
   description: string;
-  status: 'To Do' | 'In Progress' | 'Done';
-  priority: 'Low' | 'Medium' | 'High';
+  status: TaskStatus;
+  priority: TaskPriority;
   assignee: string;
   project: string;
   dueDate: string;
@@ -35,6 +38,7 @@ interface EditTaskDialogProps {
   onOpenChange: (open: boolean) => void;
   task: Task;
   onEditTask: (task: Task) => void;
+  statuses?: WorkflowStatus[];
 }
 
 const EditTaskDialog: React.FC<EditTaskDialogProps> = ({
@@ -42,12 +46,13 @@ const EditTaskDialog: React.FC<EditTaskDialogProps> = ({
   onOpenChange,
   task,
   onEditTask,
+  statuses = DEFAULT_STATUSES,
 }) => {
   const [formData, setFormData] = useState({
     title: '',
     description: '',
-    status: 'To Do' as 'To Do' | 'In Progress' | 'Done',
-    priority: 'Medium' as 'Low' | 'Medium' | 'High',
+    status: getInitialStatusId(statuses) as TaskStatus,
+    priority: 'Medium' as TaskPriority,
     assignee: '',
     project: '',
   });
@@ -116,7 +121,7 @@ const EditTaskDialog: React.FC<EditTaskDialogProps> = ({
               <Label htmlFor="status">Status</Label>
               <Select
                 value={formData.status}
-                onValueChange={(value: 'To Do' | 'In Progress' | 'Done') => 
+                onValueChange={(value: TaskStatus) => 
                   setFormData(prev => ({ ...prev, status: value }))
                 }
               >
@@ -124,9 +129,9 @@ const EditTaskDialog: React.FC<EditTaskDialogProps> = ({
                   <SelectValue placeholder="Select status" />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="To Do">To Do</SelectItem>
-                  <SelectItem value="In Progress">In Progress</SelectItem>
-                  <SelectItem value="Done">Done</SelectItem>
+                  {statuses.map(status => (
+                    <SelectItem key={status.id} value={status.id}>{status.name}</SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
@@ -135,7 +140,7 @@ const EditTaskDialog: React.FC<EditTaskDialogProps> = ({
               <Label htmlFor="priority">Priority</Label>
               <Select
                 value={formData.priority}
-                onValueChange={(value: 'Low' | 'Medium' | 'High') => 
+                onValueChange={(value: TaskPriority) => 
                   setFormData(prev => ({ ...prev, priority: value }))
                 }
               >
@@ -143,9 +148,9 @@ const EditTaskDialog: React.FC<EditTaskDialogProps> = ({
                   <SelectValue placeholder="Select priority" />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="Low">Low</SelectItem>
-                  <SelectItem value="Medium">Medium</SelectItem>
-                  <SelectItem value="High">High</SelectItem>
+                  {TASK_PRIORITIES.map(priority => (
+                    <SelectItem key={priority} value={priority}>{priority}</SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
@@ -1,8 +1,7 @@
 
-import React from 'react';
-import { Bell, Search, Settings, User, Menu, LogOut } from 'lucide-react';
+import React, { useState } from 'react';
+import { Search, Settings, User, Menu, LogOut, Plus } from 'lucide-react';
 import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -10,9 +9,19 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
+import { useShortcuts } from '@/hooks/use-shortcuts';
+import NotificationsMenu from '@/components/NotificationsMenu';
+import QuickAddTask from '@/components/QuickAddTask';
+import CommandPalette from '@/components/CommandPalette';
+import JoinProjectDialog from '@/components/JoinProjectDialog';
 
 interface HeaderProps {
   onMenuClick: () => void;
@@ -21,6 +30,14 @@ interface HeaderProps {
 const Header: React.FC<HeaderProps> = ({ onMenuClick }) => {
   const navigate = useNavigate();
   const { user, signOut } = useAuth();
+  const [quickAddOpen, setQuickAddOpen] = useState(false);
+  const [paletteOpen, setPaletteOpen] = useState(false);
+  const [joinOpen, setJoinOpen] = useState(false);
+
+  useShortcuts([
+    { keys: 'mod+k', description: 'Search and run commands', scope: 'global', group: 'General', handler: () => setPaletteOpen(true) },
+    { keys: 'c', description: 'Create a task', scope: 'global', group: 'Tasks', handler: () => setQuickAddOpen(true) },
+  ]);
 
   const handleLogout = async () => {
     try {
@@ -52,23 +69,34 @@ const Header: React.FC<HeaderProps> = ({ onMenuClick }) => {
             <Menu className="h-5 w-5" />
           </Button>
           
-          <div className="relative">
-            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
-            <Input
-              type="search"
-              placeholder="Search projects, tasks..."
-              className="pl-10 w-80 bg-gray-50 border-0 focus:bg-white focus:ring-2 focus:ring-blue-500"
-            />
-          </div>
+          <Button
+            variant="ghost"
+            onClick={() => setPaletteOpen(true)}
+            className="w-80 justify-start bg-gray-50 text-gray-400 font-normal hover:bg-gray-100"
+          >
+            <Search className="mr-2 h-4 w-4" />
+            <span className="flex-1 text-left">Search projects, tasks...</span>
+            <kbd className="rounded border bg-white px-1.5 text-xs text-gray-500">
+              {navigator.platform.includes('Mac') ? '⌘K' : 'Ctrl K'}
+            </kbd>
+          </Button>
         </div>
 
         <div className="flex items-center space-x-4">
-          <Button variant="ghost" size="sm" className="relative">
-            <Bell className="h-5 w-5" />
-            <span className="absolute -top-1 -right-1 bg-red-500 text-white text-xs rounded-full h-5 w-5 flex items-center justify-center">
-              3
-            </span>
-          </Button>
+          <Popover open={quickAddOpen} onOpenChange={setQuickAddOpen}>
+            <PopoverTrigger asChild>
+              <Button variant="outline" size="sm">
+                <Plus className="mr-2 h-4 w-4" />
+                Quick Add
+              </Button>
+            </PopoverTrigger>
+            {/* Focus returns to the header when the command palette closes, which shouldn't close this */}
+            <PopoverContent align="end" className="w-[32rem]" onFocusOutside={(e) => e.preventDefault()}>
+              <QuickAddTask autoFocus onCreated={() => setQuickAddOpen(false)} />
+            </PopoverContent>
+          </Popover>
+
+          <NotificationsMenu />
 
           <DropdownMenu>
             <DropdownMenuTrigger asChild>
@@ -103,6 +131,14 @@ const Header: React.FC<HeaderProps> = ({ onMenuClick }) => {
           </DropdownMenu>
         </div>
       </div>
+
+      <CommandPalette
+        open={paletteOpen}
+        onOpenChange={setPaletteOpen}
+        onCreateTask={() => setQuickAddOpen(true)}
+        onJoinProject={() => setJoinOpen(true)}
+      />
+      <JoinProjectDialog open={joinOpen} onOpenChange={setJoinOpen} />
     </header>
   );
 };
@@ -12,25 +12,31 @@ import {
 } from '@/components/ui/dialog';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { UserPlus, Copy } from 'lucide-react';
-import { supabase } from '@/integrations/supabase/client';
+import { repository } from '@/services/repository';
 import { useAuth } from '@/contexts/AuthContext';
 
 interface JoinProjectDialogProps {
-  onProjectJoined: () => void;
+  onProjectJoined?: () => void;
+  // Given both, the dialog is opened from elsewhere and shows no button of its own
+  open?: boolean;
+  onOpenChange?: (open: boolean) => void;
 }
 
-const JoinProjectDialog: React.FC<JoinProjectDialogProps> = ({ onProjectJoined }) => {
+const JoinProjectDialog: React.FC<JoinProjectDialogProps> = ({ onProjectJoined, open: controlledOpen, onOpenChange }) => {
   const { user } = useAuth();
-  const [open, setOpen] = useState(false);
-  const [accessCode, setAccessCode] = useState('');
+  const [uncontrolledOpen, setUncontrolledOpen] = useState(false);
+  const controlled = controlledOpen !== undefined && !!onOpenChange;
+  const open = controlled ? controlledOpen : uncontrolledOpen;
+  const setOpen = controlled ? onOpenChange : setUncontrolledOpen;
+  const [inviteCode, setInviteCode] = useState('');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
   const [success, setSuccess] = useState('');
 
   const handleJoinProject = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!accessCode.trim()) {
-      setError('Please enter an access code');
+    if (!inviteCode.trim()) {
+      setError('Please enter an invite code');
       return;
     }
 
@@ -44,59 +50,30 @@ const JoinProjectDialog: React.FC<JoinProjectDialogProps> = ({ onProjectJoined }
     setSuccess('');
 
     try {
-      const codeToFind = accessCode.trim().toUpperCase();
-
-      // Find project by access code
-      const { data: project, error: findError } = await supabase
-        .from('projects')
-        .select('id, name, team_members, owner_id')
-        .eq('access_code', codeToFind)
-        .single();
-
-      if (findError || !project) {
-        setError('Invalid access code. Please check and try again.');
-        return;
-      }
-
-      // Check if user is already a member or owner
-      const userEmail = user.email || '';
-      const userId = user.id || '';
-
-      if (project.owner_id === userId) {
-        setError('You are already the owner of this project');
-        return;
-      }
-
-      if (project.team_members &&
-          (project.team_members.includes(userEmail) || project.team_members.includes(userId))) {
-        setError('You are already a member of this project');
-        return;
-      }
-
-      // Add user to team members
-      const updatedMembers = [...(project.team_members || []), userEmail];
-
-      const { error: updateError } = await supabase
-        .from('projects')
-        .update({ team_members: updatedMembers })
-        .eq('id', project.id);
-
-      if (updateError) {
-        setError('Failed to join project. Please try again.');
+      // Join with the invite's role; throws for unknown, expired, revoked or used up codes
+      const result = await repository.invites.redeem(inviteCode, user.id);
+
+      // Check if user was already a member or owner
+      if (result.outcome === 'already_member') {
+        setError(result.role === 'owner'
+          ? 'You are already the owner of this project'
+          : 'You are already a member of this project');
         return;
       }
 
-      setSuccess(`Successfully joined project: ${project.name}`);
-      setAccessCode('');
-      onProjectJoined();
+      setSuccess(result.outcome === 'requested'
+        ? `Request sent to join ${result.projectName}. You'll be notified once an owner or admin reviews it.`
+        : `Successfully joined project: ${result.projectName}`);
+      setInviteCode('');
+      onProjectJoined?.();
       setTimeout(() => {
         setOpen(false);
         setSuccess('');
-      }, 2000);
+      }, result.outcome === 'requested' ? 4000 : 2000);
 
     } catch (err) {
       console.error('Error joining project:', err);
-      setError('An unexpected error occurred');
+      setError(err instanceof Error ? err.message : 'Failed to join project. Please try again.');
     } finally {
       setLoading(false);
     }
@@ -104,24 +81,26 @@ const JoinProjectDialog: React.FC<JoinProjectDialogProps> = ({ onProjectJoined }
 
   const handleClose = () => {
     setOpen(false);
-    setAccessCode('');
+    setInviteCode('');
     setError('');
     setSuccess('');
   };
 
   return (
     <Dialog open={open} onOpenChange={setOpen}>
-      <DialogTrigger asChild>
-        <Button variant="outline">
-          <UserPlus className="mr-2 h-4 w-4" />
-          Join Project
-        </Button>
-      </DialogTrigger>
+      {!controlled && (
+        <DialogTrigger asChild>
+          <Button variant="outline">
+            <UserPlus className="mr-2 h-4 w-4" />
+            Join Project
+          </Button>
+        </DialogTrigger>
+      )}
       <DialogContent className="sm:max-w-md">
         <DialogHeader>
           <DialogTitle>Join Project</DialogTitle>
           <DialogDescription>
-            Enter the access code shared by the project owner to join their project.
+            Enter the invite code shared by a project owner or admin to join their project.
           </DialogDescription>
         </DialogHeader>
         
@@ -139,18 +118,18 @@ const JoinProjectDialog: React.FC<JoinProjectDialogProps> = ({ onProjectJoined }
           )}
 
           <div className="space-y-2">
-            <Label htmlFor="accessCode">Access Code</Label>
+            <Label htmlFor="inviteCode">Invite Code</Label>
             <Input
-              id="accessCode"
-              value={accessCode}
-              onChange={(e) => setAccessCode(e.target.value.toUpperCase())}
+              id="inviteCode"
+              value={inviteCode}
+              onChange={(e) => setInviteCode(e.target.value.toUpperCase())}
               placeholder="Enter 8-character code (e.g., ABC12345)"
               maxLength={8}
               className="font-mono text-center text-lg tracking-wider"
               required
             />
             <p className="text-xs text-gray-500">
-              Access codes are 8 characters long and case-insensitive
+              Invite codes are 8 characters long, case-insensitive, and may expire
             </p>
           </div>
 
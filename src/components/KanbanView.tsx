@@ -1,61 +1,520 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
+import { AlertTriangle, ChevronDown, ChevronRight } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-
-interface Task {
-  id: string;
-  title: string;
-  description: string;
-  status: 'To Do' | 'In Progress' | 'Completed';
-  due_date: string;
-  assigned_to: string | null;
-  project_id: string;
-  project_name?: string;
-  created_at?: string;
-}
+import { Task, TaskChanges, WorkflowStatus } from '@/services/repository';
+import { findStatus, getStatusColor } from '@/services/workflow';
+import { byRank, rankBetween } from '@/services/ranking';
+import { Swimlane } from '@/services/swimlanes';
+import { TaskProgress } from '@/services/subtasks';
+import { useShortcuts } from '@/hooks/use-shortcuts';
+import TaskProgressBadge from '@/components/TaskProgressBadge';
+import BlockedBadge from '@/components/BlockedBadge';
+import CommentCountBadge from '@/components/CommentCountBadge';
 
 interface KanbanViewProps {
   tasks: Task[];
-  onStatusChange: (taskId: string, newStatus: Task['status']) => void;
+  // Columns, in order
+  statuses: WorkflowStatus[];
+  // Each task's own workflow when tasks come from several projects; columns match statuses by name
+  statusesByProject?: Record<string, WorkflowStatus[]>;
+  // Always includes status and rank, plus the lane's changes when moved to another lane
+  onMoveTask: (taskId: string, changes: TaskChanges) => void;
+  // Horizontal lanes, with laneOf giving each task's lane id
+  lanes?: Swimlane[];
+  laneOf?: (task: Task) => string;
+  // Card body; defaults to the title, description and status
+  renderCard?: (task: Task) => React.ReactNode;
+  // Subtask and checklist roll-up shown on the default card
+  getProgress?: (task: Task) => TaskProgress | null;
+  // Open blockers, flagged on the default card
+  getBlockers?: (task: Task) => Task[];
+  // Comment count shown on the default card
+  getCommentCount?: (task: Task) => number;
+  // Opens a task from the default card's title, or from any focused card with O
+  onOpenTask?: (task: Task) => void;
+  readOnly?: boolean;
+}
+
+interface DropTarget {
+  laneId: string;
+  columnId: string;
+  // Position among the column's other cards
+  index: number;
 }
 
-const KanbanView: React.FC<KanbanViewProps> = ({ tasks, onStatusChange }) => {
-  const statuses: Task['status'][] = ['To Do', 'In Progress', 'Completed'];
+// The whole board when it isn't split into lanes
+const NO_LANE: Swimlane = { id: '', label: '', changes: {}, accepts: () => true };
+
+const KanbanView: React.FC<KanbanViewProps> = ({
+  tasks,
+  statuses,
+  statusesByProject,
+  onMoveTask,
+  renderCard,
+  getProgress,
+  getBlockers,
+  getCommentCount,
+  onOpenTask,
+  readOnly = false,
+  lanes,
+  laneOf,
+}) => {
+  const [movingId, setMovingId] = useState<string | null>(null);
+  const [keyboardMove, setKeyboardMove] = useState(false);
+  const [target, setTarget] = useState<DropTarget | null>(null);
+  const [announcement, setAnnouncement] = useState('');
+  const [focusId, setFocusId] = useState<string | null>(null);
+  const [collapsedLanes, setCollapsedLanes] = useState<string[]>([]);
+  const cardRefs = useRef<Record<string, HTMLDivElement | null>>({});
+
+  // Keep keyboard focus on a card after it moves to another column
+  useEffect(() => {
+    if (focusId) {
+      cardRefs.current[focusId]?.focus();
+      setFocusId(null);
+    }
+  }, [focusId, tasks]);
+
+  const hasLanes = Boolean(lanes && laneOf);
+  const boardLanes = hasLanes ? lanes : [NO_LANE];
+  const getLaneId = (task: Task) => hasLanes ? laneOf(task) : NO_LANE.id;
+  const findLane = (id: string) => boardLanes.find(lane => lane.id === id) || NO_LANE;
+  const visibleLanes = boardLanes.filter(lane => !collapsedLanes.includes(lane.id));
+
+  // A lane can move the task to another project, and so to that project's workflow
+  const getTaskStatuses = (task: Task, lane: Swimlane = NO_LANE) =>
+    statusesByProject?.[lane.changes.projectId || task.projectId] || statuses;
+
+  // The task's own status shown in a column, null when its workflow has no such status
+  const statusForColumn = (task: Task, column: WorkflowStatus, lane?: Swimlane) =>
+    getTaskStatuses(task, lane).find(status => status.name.toLowerCase() === column.name.toLowerCase()) || null;
+
+  // Tasks whose status is missing from the columns show up in the first one
+  const columnOf = (task: Task) => {
+    const name = findStatus(getTaskStatuses(task), task.status).name.toLowerCase();
+    return statuses.find(column => column.name.toLowerCase() === name) || statuses[0];
+  };
+
+  const getColumnTasks = (column: WorkflowStatus) =>
+    tasks.filter(task => columnOf(task)?.id === column.id).sort(byRank);
+
+  const getCellTasks = (lane: Swimlane, column: WorkflowStatus) =>
+    getColumnTasks(column).filter(task => getLaneId(task) === lane.id);
+
+  const movingTask = tasks.find(task => task.id === movingId) || null;
+
+  const canDrop = (lane: Swimlane, column: WorkflowStatus) =>
+    movingTask !== null &&
+    (getLaneId(movingTask) === lane.id || lane.accepts(movingTask)) &&
+    statusForColumn(movingTask, column, lane) !== null;
+
+  const otherCards = (lane: Swimlane, column: WorkflowStatus) =>
+    getCellTasks(lane, column).filter(task => task.id !== movingId);
+
+  const getFocusedTask = () =>
+    tasks.find(task => cardRefs.current[task.id] && cardRefs.current[task.id] === document.activeElement) || null;
+
+  // Straight to the end of the next column left or right that the task's workflow has
+  const moveToNextColumn = (step: number) => {
+    const task = getFocusedTask();
+    if (!task) return false;
+
+    const lane = findLane(getLaneId(task));
+    let next = statuses.findIndex(column => column.id === columnOf(task).id) + step;
+    while (next >= 0 && next < statuses.length && !statusForColumn(task, statuses[next], lane)) {
+      next += step;
+    }
+    if (next < 0 || next >= statuses.length) return false;
+
+    const column = statuses[next];
+    const last = getCellTasks(lane, column).slice(-1)[0];
+    onMoveTask(task.id, { status: statusForColumn(task, column, lane).id, rank: rankBetween(last?.rank, undefined) });
+    setAnnouncement(`${task.title} moved to ${column.name}`);
+    setFocusId(task.id);
+  };
+
+  useShortcuts([
+    {
+      keys: 'shift+arrowleft',
+      description: 'Move the focused card to the previous column',
+      scope: 'page',
+      group: 'Board',
+      handler: () => moveToNextColumn(-1),
+    },
+    {
+      keys: 'shift+arrowright',
+      description: 'Move the focused card to the next column',
+      scope: 'page',
+      group: 'Board',
+      handler: () => moveToNextColumn(1),
+    },
+  ], !readOnly);
+
+  useShortcuts([
+    {
+      keys: 'o',
+      description: 'Open the focused card',
+      scope: 'page',
+      group: 'Board',
+      handler: () => {
+        const task = getFocusedTask();
+        if (!task) return false;
+        onOpenTask(task);
+      },
+    },
+  ], Boolean(onOpenTask));
+
+  const toggleLane = (id: string) => {
+    setCollapsedLanes(prev => prev.includes(id) ? prev.filter(laneId => laneId !== id) : [...prev, id]);
+  };
+
+  const endMove = () => {
+    setMovingId(null);
+    setKeyboardMove(false);
+    setTarget(null);
+  };
+
+  const commitMove = () => {
+    const lane = target && findLane(target.laneId);
+    const column = target && statuses.find(s => s.id === target.columnId);
+    const status = column && movingTask && canDrop(lane, column) && statusForColumn(movingTask, column, lane);
+    if (!column || !movingTask || !status) {
+      endMove();
+      return;
+    }
+
+    const others = otherCards(lane, column);
+    const before = others[target.index - 1];
+    const after = others[target.index];
+    const laneChanged = getLaneId(movingTask) !== lane.id;
+    const unchanged = !laneChanged && status.id === movingTask.status &&
+      (!before || before.rank < movingTask.rank) &&
+      (!after || after.rank > movingTask.rank);
+
+    if (!unchanged) {
+      onMoveTask(movingTask.id, {
+        ...(laneChanged ? lane.changes : {}),
+        status: status.id,
+        rank: rankBetween(before?.rank, after?.rank),
+      });
+    }
+    const place = hasLanes ? `${column.name}, ${lane.label}` : column.name;
+    setAnnouncement(`${movingTask.title} dropped in ${place}, position ${target.index + 1}`);
+    if (keyboardMove) setFocusId(movingTask.id);
+    endMove();
+  };
+
+  const handleCardKeyDown = (e: React.KeyboardEvent, task: Task) => {
+    // Ignore keys meant for buttons and menus inside the card
+    if (readOnly || e.target !== e.currentTarget) return;
+
+    if (!keyboardMove || movingId !== task.id) {
+      if (e.key === ' ' || e.key === 'Enter') {
+        e.preventDefault();
+        const column = columnOf(task);
+        const lane = findLane(getLaneId(task));
+        setMovingId(task.id);
+        setKeyboardMove(true);
+        setTarget({
+          laneId: lane.id,
+          columnId: column.id,
+          index: getCellTasks(lane, column).findIndex(t => t.id === task.id),
+        });
+        setAnnouncement(`Picked up ${task.title}. Use the arrow keys to move it, Space to drop, Escape to cancel.`);
+      }
+      return;
+    }
+
+    if (!target) return;
+    const columnIndex = statuses.findIndex(s => s.id === target.columnId);
+    const lane = findLane(target.laneId);
+
+    switch (e.key) {
+      case 'ArrowUp':
+      case 'ArrowDown': {
+        e.preventDefault();
+        const column = statuses[columnIndex];
+        const max = otherCards(lane, column).length;
+        const up = e.key === 'ArrowUp';
+        const index = target.index + (up ? -1 : 1);
+        if (index >= 0 && index <= max) {
+          setTarget({ ...target, index });
+          setAnnouncement(`${column.name}, position ${index + 1} of ${max + 1}`);
+          return;
+        }
+
+        // Past the first or last card, continue into the next open lane that takes the task
+        const step = up ? -1 : 1;
+        let next = visibleLanes.findIndex(l => l.id === lane.id) + step;
+        while (next >= 0 && next < visibleLanes.length && !canDrop(visibleLanes[next], column)) {
+          next += step;
+        }
+        if (next < 0 || next >= visibleLanes.length) return;
+
+        const nextLane = visibleLanes[next];
+        const nextIndex = up ? otherCards(nextLane, column).length : 0;
+        setTarget({ laneId: nextLane.id, columnId: column.id, index: nextIndex });
+        setAnnouncement(`${nextLane.label}, ${column.name}, position ${nextIndex + 1}`);
+        break;
+      }
+      case 'ArrowLeft':
+      case 'ArrowRight': {
+        e.preventDefault();
+        const step = e.key === 'ArrowLeft' ? -1 : 1;
+        // Skip columns this task's workflow can't be moved into
+        let next = columnIndex + step;
+        while (next >= 0 && next < statuses.length && !canDrop(lane, statuses[next])) {
+          next += step;
+        }
+        if (next < 0 || next >= statuses.length) return;
+
+        const column = statuses[next];
+        const index = Math.min(target.index, otherCards(lane, column).length);
+        setTarget({ ...target, columnId: column.id, index });
+        setAnnouncement(`${column.name}, position ${index + 1}`);
+        break;
+      }
+      case ' ':
+      case 'Enter':
+        e.preventDefault();
+        commitMove();
+        break;
+      case 'Escape':
+        e.preventDefault();
+        setAnnouncement(`Move of ${task.title} cancelled`);
+        endMove();
+        break;
+    }
+  };
+
+  const handleCardDragOver = (e: React.DragEvent, lane: Swimlane, column: WorkflowStatus, task: Task) => {
+    if (!canDrop(lane, column)) return;
+    e.preventDefault();
+    e.stopPropagation();
+
+    const index = otherCards(lane, column).findIndex(t => t.id === task.id);
+    if (index === -1) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const below = e.clientY > rect.top + rect.height / 2;
+    setTarget({ laneId: lane.id, columnId: column.id, index: index + (below ? 1 : 0) });
+  };
+
+  const handleCellDragOver = (e: React.DragEvent, lane: Swimlane, column: WorkflowStatus) => {
+    if (!canDrop(lane, column)) return;
+    e.preventDefault();
+    if (target?.laneId !== lane.id || target.columnId !== column.id) {
+      setTarget({ laneId: lane.id, columnId: column.id, index: otherCards(lane, column).length });
+    }
+  };
+
+  const cellDropProps = (lane: Swimlane, column: WorkflowStatus) => ({
+    onDragOver: (e: React.DragEvent) => handleCellDragOver(e, lane, column),
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      commitMove();
+    },
+  });
+
+  const isTargetCell = (lane: Swimlane, column: WorkflowStatus) =>
+    target?.laneId === lane.id && target.columnId === column.id;
+
+  const dropIndicator = <div className="h-1 rounded-full bg-blue-500" />;
+
+  const renderCell = (lane: Swimlane, column: WorkflowStatus) => {
+    const cellTasks = getCellTasks(lane, column);
+    const isTarget = isTargetCell(lane, column);
+    let position = 0;
+
+    return (
+      <>
+        {cellTasks.map((task) => {
+          const isMoving = task.id === movingId;
+          const showIndicator = isTarget && !isMoving && target.index === position;
+          if (!isMoving) position += 1;
+          const taskStatuses = getTaskStatuses(task);
+
+          return (
+            <React.Fragment key={task.id}>
+              {showIndicator && dropIndicator}
+              <div
+                ref={(element) => {
+                  cardRefs.current[task.id] = element;
+                }}
+                tabIndex={readOnly ? undefined : 0}
+                draggable={!readOnly}
+                aria-roledescription="Draggable task"
+                aria-describedby={readOnly ? undefined : 'kanban-instructions'}
+                aria-pressed={keyboardMove && isMoving ? true : undefined}
+                onKeyDown={(e) => handleCardKeyDown(e, task)}
+                onDragStart={(e) => {
+                  e.dataTransfer.setData('text/plain', task.id);
+                  e.dataTransfer.effectAllowed = 'move';
+                  setMovingId(task.id);
+                  setKeyboardMove(false);
+                }}
+                onDragEnd={endMove}
+                onDragOver={(e) => handleCardDragOver(e, lane, column, task)}
+                onBlur={() => {
+                  if (keyboardMove && isMoving) endMove();
+                }}
+                className={`rounded-lg focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 ${
+                  readOnly ? '' : 'cursor-grab'
+                } ${isMoving ? 'opacity-50 ring-2 ring-blue-400' : ''}`}
+              >
+                {renderCard ? renderCard(task) : (
+                  <div className="p-4 bg-gray-50 rounded-lg shadow">
+                    <div className="flex items-start justify-between mb-2">
+                      <h3 className="font-semibold text-lg">
+                        {onOpenTask ? (
+                          <button type="button" className="text-left hover:underline" onClick={() => onOpenTask(task)}>
+                            {task.title}
+                          </button>
+                        ) : task.title}
+                      </h3>
+                      {getBlockers && <BlockedBadge blockers={getBlockers(task)} />}
+                    </div>
+                    <p className="text-sm text-gray-600 mb-2">{task.description || 'No description available'}</p>
+                    <div className="flex items-center justify-between">
+                      <Badge className={getStatusColor(taskStatuses, task.status)}>
+                        {findStatus(taskStatuses, task.status).name}
+                      </Badge>
+                      <div className="flex items-center space-x-2">
+                        {getCommentCount && <CommentCountBadge count={getCommentCount(task)} />}
+                        {getProgress && <TaskProgressBadge progress={getProgress(task)} />}
+                      </div>
+                    </div>
+                  </div>
+                )}
+              </div>
+            </React.Fragment>
+          );
+        })}
+        {isTarget && target.index === position && dropIndicator}
+      </>
+    );
+  };
+
+  // WIP limits belong to a single workflow, so combined boards don't show them
+  const getWipLimit = (column: WorkflowStatus) => statusesByProject ? null : column.wipLimit || null;
+
+  const isOverLimit = (column: WorkflowStatus) => {
+    const wipLimit = getWipLimit(column);
+    return wipLimit !== null && getColumnTasks(column).length > wipLimit;
+  };
+
+  const renderColumnHeader = (column: WorkflowStatus) => {
+    const count = getColumnTasks(column).length;
+    const wipLimit = getWipLimit(column);
+    const overLimit = isOverLimit(column);
+
+    return (
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center justify-between text-base">
+          <span className="flex items-center">
+            {column.name}
+            {overLimit && (
+              <AlertTriangle className="ml-2 h-4 w-4 text-amber-500" aria-label="Over WIP limit" />
+            )}
+          </span>
+          <Badge
+            variant="secondary"
+            className={overLimit ? 'bg-amber-100 text-amber-800' : getStatusColor(statuses, column.id)}
+          >
+            {wipLimit !== null ? `${count}/${wipLimit}` : count}
+          </Badge>
+        </CardTitle>
+        {overLimit && (
+          <p className="text-xs text-amber-700">
+            Over the work-in-progress limit of {wipLimit}
+          </p>
+        )}
+      </CardHeader>
+    );
+  };
+
+  const gridStyle = { gridTemplateColumns: `repeat(${statuses.length}, minmax(16rem, 1fr))` };
 
   return (
-    <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-      {statuses.map((status) => (
-        <div key={status} className="space-y-4">
-          <Card>
-            <CardHeader>
-              <CardTitle>{status}</CardTitle>
-            </CardHeader>
-            <CardContent>
-              {tasks.filter((task) => task.status === status).map((task) => (
-                <div key={task.id} className="p-4 bg-gray-50 rounded-lg shadow">
-                  <h3 className="font-semibold text-lg mb-2">{task.title}</h3>
-                  <p className="text-sm text-gray-600 mb-2">{task.description || 'No description available'}</p>
-                  <div className="flex items-center justify-between">
-                    <Badge>{task.status}</Badge>
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      onClick={() => {
-                        const nextStatusIndex = (statuses.indexOf(task.status) + 1) % statuses.length;
-                        onStatusChange(task.id, statuses[nextStatusIndex]);
-                      }}
-                    >
-                      Move to {statuses[(statuses.indexOf(task.status) + 1) % statuses.length]}
-                    </Button>
+    <>
+      <p id="kanban-instructions" className="sr-only">
+        Press Space or Enter to pick up a task, the arrow keys to move it, Space or Enter to drop it and Escape to cancel.
+        Shift with the left or right arrow moves it straight to the next column, and O opens it.
+      </p>
+      <div aria-live="assertive" className="sr-only">{announcement}</div>
+
+      {!hasLanes ? (
+        <div className="grid gap-6 overflow-x-auto pb-2" style={gridStyle}>
+          {statuses.map((column) => (
+            <Card
+              key={column.id}
+              className={`${isOverLimit(column) ? 'border-amber-400' : ''} ${
+                isTargetCell(NO_LANE, column) ? 'bg-blue-50/50' : ''
+              }`}
+              {...cellDropProps(NO_LANE, column)}
+            >
+              {renderColumnHeader(column)}
+              <CardContent className="space-y-3 min-h-24">
+                {renderCell(NO_LANE, column)}
+
+                {getColumnTasks(column).length === 0 && !isTargetCell(NO_LANE, column) && (
+                  <div className="text-center py-6 text-sm text-gray-500">
+                    No {column.name.toLowerCase()} tasks
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      ) : (
+        <div className="space-y-4 overflow-x-auto pb-2">
+          <div className="grid gap-6" style={gridStyle}>
+            {statuses.map((column) => (
+              <Card key={column.id} className={isOverLimit(column) ? 'border-amber-400' : ''}>
+                {renderColumnHeader(column)}
+              </Card>
+            ))}
+          </div>
+
+          {boardLanes.map((lane) => {
+            const collapsed = collapsedLanes.includes(lane.id);
+            const laneCount = tasks.filter(task => getLaneId(task) === lane.id).length;
+
+            return (
+              <section key={lane.id} className="rounded-lg border bg-white" aria-label={`${lane.label} swimlane`}>
+                <button
+                  type="button"
+                  className="flex w-full items-center justify-between px-4 py-2 text-left font-medium text-gray-900"
+                  aria-expanded={!collapsed}
+                  onClick={() => toggleLane(lane.id)}
+                >
+                  <span className="flex items-center">
+                    {collapsed ? <ChevronRight className="mr-2 h-4 w-4" /> : <ChevronDown className="mr-2 h-4 w-4" />}
+                    {lane.label}
+                  </span>
+                  <Badge variant="secondary">{laneCount}</Badge>
+                </button>
+                {!collapsed && (
+                  <div className="grid gap-6 px-4 pb-4" style={gridStyle}>
+                    {statuses.map((column) => (
+                      <div
+                        key={column.id}
+                        className={`space-y-3 min-h-16 rounded-md p-2 ${
+                          isTargetCell(lane, column) ? 'bg-blue-50' : 'bg-gray-50'
+                        }`}
+                        {...cellDropProps(lane, column)}
+                      >
+                        {renderCell(lane, column)}
+                      </div>
+                    ))}
                   </div>
-                </div>
-              ))}
-            </CardContent>
-          </Card>
+                )}
+              </section>
+            );
+          })}
         </div>
-      ))}
-    </div>
+      )}
+    </>
   );
 };
 
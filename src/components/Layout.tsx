@@ -1,25 +1,68 @@
-
 import React from 'react';
 import Sidebar from './Sidebar';
 import Header from './Header';
+import TaskDetailPanel from './TaskDetailPanel';
+import {
+  ResizableHandle,
+  ResizablePanel,
+  ResizablePanelGroup,
+} from '@/components/ui/resizable';
+import { TaskPanelProvider } from '@/contexts/TaskPanelContext';
+import { ShortcutProvider } from '@/contexts/ShortcutContext';
+import { useShortcuts } from '@/hooks/use-shortcuts';
+import { useTaskPanel } from '@/hooks/use-task-panel';
 
 interface LayoutProps {
   children: React.ReactNode;
 }
 
-const Layout: React.FC<LayoutProps> = ({ children }) => {
-  const [sidebarOpen, setSidebarOpen] = React.useState(true);
+// The page, with the task opened from it alongside
+const Content: React.FC<LayoutProps> = ({ children }) => {
+  const { taskId, openTask, closeTask, notifyChange } = useTaskPanel();
+
+  useShortcuts([
+    { keys: 'escape', description: 'Close the task panel', scope: 'page', group: 'Tasks', handler: closeTask },
+  ], taskId !== null);
 
   return (
-    <div className="min-h-screen bg-gray-50 flex">
-      <Sidebar isOpen={sidebarOpen} onToggle={() => setSidebarOpen(!sidebarOpen)} />
-      <div className={`flex-1 flex flex-col transition-all duration-300 ${sidebarOpen ? 'ml-64' : 'ml-16'}`}>
-        <Header onMenuClick={() => setSidebarOpen(!sidebarOpen)} />
-        <main className="flex-1 p-6">
+    <ResizablePanelGroup direction="horizontal" className="flex-1 min-h-0">
+      <ResizablePanel id="main" order={1} style={{ overflow: 'auto' }}>
+        <main className="p-6">
           {children}
         </main>
-      </div>
-    </div>
+      </ResizablePanel>
+      {taskId && (
+        <>
+          <ResizableHandle withHandle />
+          <ResizablePanel id="task" order={2} defaultSize={40} minSize={25} className="bg-white" style={{ overflow: 'auto' }}>
+            <TaskDetailPanel
+              taskId={taskId}
+              onOpenTask={(id) => openTask(id)}
+              onClose={closeTask}
+              onChange={notifyChange}
+            />
+          </ResizablePanel>
+        </>
+      )}
+    </ResizablePanelGroup>
+  );
+};
+
+const Layout: React.FC<LayoutProps> = ({ children }) => {
+  const [sidebarOpen, setSidebarOpen] = React.useState(true);
+
+  return (
+    <ShortcutProvider>
+      <TaskPanelProvider>
+        <div className="min-h-screen bg-gray-50 flex">
+          <Sidebar isOpen={sidebarOpen} onToggle={() => setSidebarOpen(!sidebarOpen)} />
+          <div className={`flex-1 h-screen flex flex-col transition-all duration-300 ${sidebarOpen ? 'ml-64' : 'ml-16'}`}>
+            <Header onMenuClick={() => setSidebarOpen(!sidebarOpen)} />
+            <Content>{children}</Content>
+          </div>
+        </div>
+      </TaskPanelProvider>
+    </ShortcutProvider>
   );
 };
 
@@ -0,0 +1,142 @@
+import React from 'react';
+import { MENTION_PATTERN } from '@/services/comments';
+
+interface MarkdownProps {
+  source: string;
+  className?: string;
+}
+
+// Code spans, mentions, links, bold and italics, in the order they're tried
+const INLINE_PATTERN = new RegExp(
+  [
+    '`([^`\\n]+)`',
+    MENTION_PATTERN.source,
+    '\\[([^\\]\\n]+)\\]\\((https?:\\/\\/[^)\\s]+)\\)',
+    '\\*\\*([^*\\n]+)\\*\\*',
+    '\\*([^*\\n]+)\\*|_([^_\\n]+)_',
+    '(https?:\\/\\/[^\\s<]+[^\\s<.,;:!?)])',
+  ].join('|'),
+  'g'
+);
+
+const renderInline = (text: string, key: string): React.ReactNode[] => {
+  const nodes: React.ReactNode[] = [];
+  let last = 0;
+  let i = 0;
+
+  for (const match of text.matchAll(INLINE_PATTERN)) {
+    if (match.index > last) nodes.push(text.slice(last, match.index));
+    const [, code, mentionName, , linkText, linkUrl, bold, starred, underscored, url] = match;
+    const id = `${key}-${i++}`;
+
+    if (code !== undefined) {
+      nodes.push(<code key={id} className="rounded bg-gray-100 px-1 font-mono text-xs">{code}</code>);
+    } else if (mentionName !== undefined) {
+      nodes.push(<span key={id} className="rounded bg-blue-50 px-0.5 font-medium text-blue-700">@{mentionName}</span>);
+    } else if (linkText !== undefined) {
+      nodes.push(
+        <a key={id} href={linkUrl} target="_blank" rel="noopener noreferrer" className="text-blue-600 underline">
+          {renderInline(linkText, id)}
+        </a>
+      );
+    } else if (bold !== undefined) {
+      nodes.push(<strong key={id}>{renderInline(bold, id)}</strong>);
+    } else if (starred !== undefined || underscored !== undefined) {
+      nodes.push(<em key={id}>{renderInline(starred ?? underscored, id)}</em>);
+    } else if (url !== undefined) {
+      nodes.push(
+        <a key={id} href={url} target="_blank" rel="noopener noreferrer" className="text-blue-600 underline">
+          {url}
+        </a>
+      );
+    }
+    last = match.index + match[0].length;
+  }
+
+  if (last < text.length) nodes.push(text.slice(last));
+  return nodes;
+};
+
+// Lines joined with line breaks, as chat-style comments expect
+const renderLines = (lines: string[], key: string): React.ReactNode[] =>
+  lines.flatMap((line, i) => [
+    ...(i > 0 ? [<br key={`${key}-br-${i}`} />] : []),
+    ...renderInline(line, `${key}-${i}`),
+  ]);
+
+const BULLET = /^\s*[-*]\s+/;
+const NUMBERED = /^\s*\d+[.)]\s+/;
+const QUOTE = /^>\s?/;
+
+/**
+ * Renders the small subset of Markdown used in comments: paragraphs, bullet and
+ * numbered lists, quotes, fenced code blocks, inline code, bold, italics, links
+ * and @mentions. Everything becomes React elements, so no HTML is injected.
+ */
+const Markdown: React.FC<MarkdownProps> = ({ source, className }) => {
+  const lines = source.replace(/\r\n/g, '\n').split('\n');
+  const blocks: React.ReactNode[] = [];
+  let i = 0;
+
+  // Collects the lines from i onwards that match, stripping the marker
+  const take = (pattern: RegExp): string[] => {
+    const taken: string[] = [];
+    while (i < lines.length && pattern.test(lines[i])) {
+      taken.push(lines[i].replace(pattern, ''));
+      i++;
+    }
+    return taken;
+  };
+
+  while (i < lines.length) {
+    const line = lines[i];
+    const key = `block-${blocks.length}`;
+
+    if (!line.trim()) {
+      i++;
+    } else if (line.startsWith('```')) {
+      i++;
+      const code: string[] = [];
+      while (i < lines.length && !lines[i].startsWith('```')) code.push(lines[i++]);
+      i++;
+      blocks.push(
+        <pre key={key} className="overflow-x-auto rounded bg-gray-100 p-2 font-mono text-xs">
+          <code>{code.join('\n')}</code>
+        </pre>
+      );
+    } else if (BULLET.test(line)) {
+      blocks.push(
+        <ul key={key} className="list-disc pl-5">
+          {take(BULLET).map((item, j) => <li key={j}>{renderInline(item, `${key}-${j}`)}</li>)}
+        </ul>
+      );
+    } else if (NUMBERED.test(line)) {
+      blocks.push(
+        <ol key={key} className="list-decimal pl-5">
+          {take(NUMBERED).map((item, j) => <li key={j}>{renderInline(item, `${key}-${j}`)}</li>)}
+        </ol>
+      );
+    } else if (QUOTE.test(line)) {
+      blocks.push(
+        <blockquote key={key} className="border-l-2 border-gray-300 pl-3 text-gray-600">
+          {renderLines(take(QUOTE), key)}
+        </blockquote>
+      );
+    } else {
+      const paragraph: string[] = [];
+      while (
+        i < lines.length &&
+        lines[i].trim() &&
+        !lines[i].startsWith('```') &&
+        ![BULLET, NUMBERED, QUOTE].some(pattern => pattern.test(lines[i]))
+      ) {
+        paragraph.push(lines[i++]);
+      }
+      blocks.push(<p key={key}>{renderLines(paragraph, key)}</p>);
+    }
+  }
+
+  return <div className={`space-y-2 break-words text-sm ${className || ''}`}>{blocks}</div>;
+};
+
+export default Markdown;
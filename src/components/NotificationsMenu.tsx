@@ -0,0 +1,130 @@
+import React, { useState, useEffect } from 'react';
+import { AtSign, Bell, UserPlus, UserCheck, UserX } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { repository, AppNotification, NotificationType } from '@/services/repository';
+import { useAuth } from '@/contexts/AuthContext';
+
+const NOTIFICATION_ICONS: Record<NotificationType, React.ElementType> = {
+  join_requested: UserPlus,
+  join_approved: UserCheck,
+  join_rejected: UserX,
+  mentioned: AtSign,
+};
+
+const NotificationsMenu = () => {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const fetchNotifications = async () => {
+      try {
+        setNotifications(await repository.notifications.listForUser(user.id));
+      } catch (error) {
+        console.error('Error fetching notifications:', error);
+      }
+    };
+
+    fetchNotifications();
+    return repository.notifications.subscribe(user.id, fetchNotifications);
+  }, [user]);
+
+  const unreadCount = notifications.filter(notification => !notification.read).length;
+
+  const handleOpen = async (notification: AppNotification) => {
+    if (!user) return;
+
+    if (!notification.read) {
+      setNotifications(prev => prev.map(n => n.id === notification.id ? { ...n, read: true } : n));
+      repository.notifications.markRead(user.id, notification.id).catch(error => {
+        console.error('Error marking notification read:', error);
+      });
+    }
+    if (notification.link) {
+      navigate(notification.link);
+    }
+  };
+
+  const handleMarkAllRead = async () => {
+    if (!user) return;
+
+    try {
+      await repository.notifications.markAllRead(user.id);
+      setNotifications(prev => prev.map(n => ({ ...n, read: true })));
+    } catch (error) {
+      console.error('Error marking notifications read:', error);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="sm" className="relative" title="Notifications">
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-1 -right-1 bg-red-500 text-white text-xs rounded-full h-5 min-w-5 px-1 flex items-center justify-center">
+              {unreadCount > 9 ? '9+' : unreadCount}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80">
+        <div className="flex items-center justify-between pr-2">
+          <DropdownMenuLabel>Notifications</DropdownMenuLabel>
+          {unreadCount > 0 && (
+            <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={handleMarkAllRead}>
+              Mark all as read
+            </Button>
+          )}
+        </div>
+        <DropdownMenuSeparator />
+        <div className="max-h-96 overflow-y-auto">
+          {notifications.length > 0 ? (
+            notifications.map(notification => {
+              const Icon = NOTIFICATION_ICONS[notification.type] || Bell;
+              return (
+                <DropdownMenuItem
+                  key={notification.id}
+                  className="flex items-start space-x-3 py-2 cursor-pointer"
+                  onClick={() => handleOpen(notification)}
+                >
+                  <Icon className="h-4 w-4 mt-0.5 shrink-0 text-gray-500" />
+                  <div className="flex-1 min-w-0">
+                    <p className={`text-sm ${notification.read ? 'text-gray-700' : 'font-semibold text-gray-900'}`}>
+                      {notification.title}
+                    </p>
+                    {notification.body && (
+                      <p className="text-xs text-gray-500">{notification.body}</p>
+                    )}
+                    <p className="text-xs text-gray-400 mt-1">
+                      {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+                    </p>
+                  </div>
+                  {!notification.read && (
+                    <span className="h-2 w-2 mt-1.5 rounded-full bg-blue-600 shrink-0" />
+                  )}
+                </DropdownMenuItem>
+              );
+            })
+          ) : (
+            <p className="text-sm text-gray-500 text-center py-6">You're all caught up</p>
+          )}
+        </div>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default NotificationsMenu;
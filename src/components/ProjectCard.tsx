@@ -18,6 +18,7 @@ interface Project {
   description?: string;
   progress: number;
   dueDate: string;
+  // Member display names
   teamMembers: string[];
   status: string;
   taskCount?: number;
@@ -82,10 +83,8 @@ const ProjectCard: React.FC<ProjectCardProps> = ({ project }) => {
           <Users className="h-4 w-4 text-gray-400" />
           <div className="flex -space-x-1">
             {project.teamMembers.slice(0, 3).map((member, index) => {
-              // Extract initials from email or name
-              const initials = member.includes('@')
-                ? member.split('@')[0].substring(0, 2).toUpperCase()
-                : member.substring(0, 2).toUpperCase();
+              // Extract initials from the member's name
+              const initials = member.split(' ').map(n => n[0]).join('').substring(0, 2).toUpperCase();
 
               return (
                 <Avatar key={index} className="h-6 w-6 border-2 border-white">
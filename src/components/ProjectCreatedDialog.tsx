@@ -9,41 +9,37 @@ import {
 } from '@/components/ui/dialog';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Copy, Check, Share2, Crown } from 'lucide-react';
+import { buildInviteMessage } from '@/services/invites';
 
 interface ProjectCreatedDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   projectName: string;
-  accessCode: string;
+  inviteCode: string;
+  inviteExpiresAt: string | null;
 }
 
 const ProjectCreatedDialog: React.FC<ProjectCreatedDialogProps> = ({
   open,
   onOpenChange,
   projectName,
-  accessCode,
+  inviteCode,
+  inviteExpiresAt,
 }) => {
   const [copied, setCopied] = useState(false);
 
   const handleCopyCode = async () => {
     try {
-      await navigator.clipboard.writeText(accessCode);
+      await navigator.clipboard.writeText(inviteCode);
       setCopied(true);
       setTimeout(() => setCopied(false), 2000);
     } catch (err) {
-      console.error('Failed to copy access code:', err);
+      console.error('Failed to copy invite code:', err);
     }
   };
 
   const handleCopyInviteMessage = async () => {
-    const inviteMessage = `Hi! I've created a new project "${projectName}" in Task Nexus Pro and would like to invite you to collaborate.
-
-To join the project:
-1. Go to the Projects page in Task Nexus Pro
-2. Click "Join Project"
-3. Enter this access code: ${accessCode}
-
-Looking forward to working together!`;
+    const inviteMessage = buildInviteMessage(projectName, inviteCode, inviteExpiresAt);
 
     try {
       await navigator.clipboard.writeText(inviteMessage);
@@ -63,7 +59,7 @@ Looking forward to working together!`;
             Project Created Successfully!
           </DialogTitle>
           <DialogDescription>
-            Your project "{projectName}" has been created. Share the access code below to invite team members.
+            Your project "{projectName}" has been created. Share the invite code below to invite team members.
           </DialogDescription>
         </DialogHeader>
         
@@ -76,13 +72,13 @@ Looking forward to working together!`;
             </AlertDescription>
           </Alert>
 
-          {/* Access Code Display */}
+          {/* Invite Code Display */}
           <div className="space-y-2">
-            <label className="text-sm font-medium">Project Access Code</label>
+            <label className="text-sm font-medium">Invite Code</label>
             <div className="flex items-center space-x-2">
               <div className="flex-1 p-3 bg-gray-100 rounded-md border">
                 <code className="text-lg font-mono tracking-wider text-center block">
-                  {accessCode}
+                  {inviteCode}
                 </code>
               </div>
               <Button
@@ -98,14 +94,19 @@ Looking forward to working together!`;
                 )}
               </Button>
             </div>
+            {inviteExpiresAt && (
+              <p className="text-xs text-gray-500">
+                Expires {new Date(inviteExpiresAt).toLocaleDateString()}. Manage invites from the share button on the project card.
+              </p>
+            )}
           </div>
 
           {/* Instructions */}
           <div className="space-y-2">
             <label className="text-sm font-medium">How to share</label>
             <div className="text-sm text-gray-600 space-y-1">
-              <p>• Share the access code above with your team members</p>
-              <p>• They can join by clicking "Join Project" and entering the code</p>
+              <p>• Share the invite code or link with your team members</p>
+              <p>• They can open the link, or click "Join Project" and enter the code</p>
               <p>• Once joined, they'll have access to view and collaborate on this project</p>
             </div>
           </div>
@@ -141,7 +142,7 @@ Looking forward to working together!`;
           {/* Security Note */}
           <Alert>
             <AlertDescription className="text-sm">
-              <strong>Note:</strong> Keep this access code secure. Anyone with this code can join your project.
+              <strong>Note:</strong> Keep this invite code secure. Anyone with this code can join your project until it expires or is revoked.
             </AlertDescription>
           </Alert>
         </div>
@@ -0,0 +1,153 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { format } from 'date-fns';
+import { Calendar, FolderOpen, Plus, User, Zap } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { ToastAction } from '@/components/ui/toast';
+import { AppUser, Project, Task, repository } from '@/services/repository';
+import { useAuth } from '@/contexts/AuthContext';
+import { can } from '@/services/permissions';
+import { getMemberIds } from '@/services/membership';
+import { PRIORITY_COLORS } from '@/services/priority';
+import { getInitialStatusId, getProjectStatuses } from '@/services/workflow';
+import { parseQuickAdd, toDueDateValue } from '@/services/quickAdd';
+import { toast } from '@/hooks/use-toast';
+
+interface QuickAddTaskProps {
+  // Called with the new task once it is saved
+  onCreated?: (task: Task) => void;
+  autoFocus?: boolean;
+}
+
+const QuickAddTask: React.FC<QuickAddTaskProps> = ({ onCreated, autoFocus = false }) => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [text, setText] = useState('');
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [people, setPeople] = useState<AppUser[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const fetchOptions = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      const userProjects = await repository.projects.listForUser(user);
+      // Only projects the user can add tasks to
+      const writable = userProjects.filter(project => can(project, user.id, 'tasks:create'));
+      setProjects(writable);
+      setPeople(await repository.users.resolve([...new Set(writable.flatMap(getMemberIds))]));
+    } catch (error) {
+      console.error('Error fetching quick add options:', error);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchOptions();
+  }, [fetchOptions]);
+
+  const parsed = parseQuickAdd(text, projects, people);
+  // With a single project there's nothing to choose, so # can be left out
+  const project = parsed.project || (projects.length === 1 && !parsed.unknownProject ? projects[0] : null);
+
+  const getProblem = (): string | null => {
+    if (parsed.unknownProject) return `No project matches #${parsed.unknownProject}`;
+    if (parsed.unknownAssignee) return `No one matches @${parsed.unknownAssignee}`;
+    if (!parsed.title) return 'Add a title';
+    if (!project) return 'Add a project with #, such as #' + (projects[0]?.name.replace(/\s+/g, '') || 'project');
+    if (parsed.assignee && !getMemberIds(project).includes(parsed.assignee.id)) {
+      return `${parsed.assignee.name} is not a member of ${project.name}`;
+    }
+    if (parsed.assignee && !can(project, user?.id, 'tasks:assign')) {
+      return `You can't assign tasks in ${project.name}`;
+    }
+    return null;
+  };
+  const problem = text.trim() ? getProblem() : null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!text.trim() || problem) return;
+
+    setLoading(true);
+    try {
+      const task = await repository.tasks.create({
+        title: parsed.title,
+        description: '',
+        status: getInitialStatusId(getProjectStatuses(project)),
+        priority: parsed.priority || 'Medium',
+        dueDate: toDueDateValue(parsed),
+        assignedTo: parsed.assignee?.id ?? null,
+        projectId: project.id,
+      });
+      setText('');
+      toast({
+        title: `Added "${task.title}"`,
+        description: `In ${project.name}`,
+        action: <ToastAction altText="Open" onClick={() => navigate(`/tasks/${task.id}`)}>Open</ToastAction>,
+      });
+      onCreated?.(task);
+    } catch (error) {
+      console.error('Error creating task:', error);
+      toast({
+        title: 'Could not add task',
+        description: error instanceof Error ? error.message : String(error),
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const dueLabel = parsed.dueDate
+    ? format(parsed.dueDate, parsed.hasTime ? 'EEE, MMM d h:mm a' : 'EEE, MMM d')
+    : 'Today';
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <div className="flex items-center space-x-2">
+        <div className="relative flex-1">
+          <Zap className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+          <Input
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            placeholder="Draft release notes fri 3pm !high @sara #website"
+            aria-label="Quick add task"
+            className="pl-10"
+            autoFocus={autoFocus}
+          />
+        </div>
+        <Button type="submit" disabled={loading || !text.trim() || !!problem}>
+          <Plus className="mr-2 h-4 w-4" />
+          {loading ? 'Adding...' : 'Add'}
+        </Button>
+      </div>
+
+      {/* Preview of what will be saved */}
+      {text.trim() && (
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <span className="font-medium text-gray-900">{parsed.title || 'Untitled'}</span>
+          <Badge variant="outline">
+            <Calendar className="mr-1 h-3 w-3" />
+            {dueLabel}
+          </Badge>
+          <Badge className={PRIORITY_COLORS[parsed.priority || 'Medium']}>{parsed.priority || 'Medium'}</Badge>
+          <Badge variant="outline">
+            <User className="mr-1 h-3 w-3" />
+            {parsed.assignee?.name || 'Unassigned'}
+          </Badge>
+          {project && (
+            <Badge variant="outline">
+              <FolderOpen className="mr-1 h-3 w-3" />
+              {project.name}
+            </Badge>
+          )}
+          {problem && <span className="text-red-600">{problem}</span>}
+        </div>
+      )}
+    </form>
+  );
+};
+
+export default QuickAddTask;
@@ -0,0 +1,177 @@
+import React from 'react';
+import { Repeat } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { RecurrenceFrequency, TaskRecurrence } from '@/services/repository';
+import {
+  DEFAULT_RECURRENCE,
+  FREQUENCY_LABELS,
+  WEEKDAY_LABELS,
+  describeRecurrence,
+  validateRecurrence,
+} from '@/services/recurrence';
+
+interface RecurrenceEditorProps {
+  // Null when the task doesn't repeat
+  value: TaskRecurrence | null;
+  onChange: (value: TaskRecurrence | null) => void;
+  // Suggested end date when switching to "On date"
+  dueDate: string;
+}
+
+type EndCondition = 'never' | 'until' | 'count';
+
+const UNIT_LABELS: Record<RecurrenceFrequency, string> = {
+  daily: 'day(s)',
+  weekly: 'week(s)',
+  monthly: 'month(s)',
+};
+
+// Empty number inputs become NaN, which validation reports
+const toNumber = (value: string) => value === '' ? NaN : Number(value);
+
+const RecurrenceEditor: React.FC<RecurrenceEditorProps> = ({ value, onChange, dueDate }) => {
+  const update = (changes: Partial<TaskRecurrence>) => onChange({ ...value, ...changes });
+
+  const endCondition: EndCondition = value?.until ? 'until' : value?.count !== null && value?.count !== undefined ? 'count' : 'never';
+
+  const changeEndCondition = (condition: EndCondition) => {
+    if (condition === 'until') update({ until: dueDate || new Date().toISOString().split('T')[0], count: null });
+    else if (condition === 'count') update({ until: null, count: 5 });
+    else update({ until: null, count: null });
+  };
+
+  const toggleWeekday = (day: number) => {
+    update({
+      weekdays: value.weekdays.includes(day)
+        ? value.weekdays.filter(weekday => weekday !== day)
+        : [...value.weekdays, day],
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="recurrence" className="flex items-center">
+        <Repeat className="mr-2 h-4 w-4" />
+        Repeat
+      </Label>
+      <Select
+        value={value?.frequency || 'none'}
+        onValueChange={(frequency) => onChange(frequency === 'none'
+          ? null
+          : { ...(value || DEFAULT_RECURRENCE), frequency: frequency as RecurrenceFrequency })}
+      >
+        <SelectTrigger id="recurrence">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="none">Does not repeat</SelectItem>
+          {(Object.keys(FREQUENCY_LABELS) as RecurrenceFrequency[]).map(frequency => (
+            <SelectItem key={frequency} value={frequency}>{FREQUENCY_LABELS[frequency]}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {value && (
+        <div className="space-y-3 rounded-md border p-3">
+          <div className="flex items-center space-x-2 text-sm">
+            <span>Every</span>
+            <Input
+              type="number"
+              min={1}
+              value={Number.isNaN(value.interval) ? '' : value.interval}
+              onChange={(e) => update({ interval: toNumber(e.target.value) })}
+              className="h-8 w-20"
+              aria-label="Repeat interval"
+            />
+            <span>{UNIT_LABELS[value.frequency]}</span>
+          </div>
+
+          {value.frequency === 'weekly' && (
+            <div className="flex flex-wrap gap-1">
+              {WEEKDAY_LABELS.map((label, day) => (
+                <Button
+                  key={label}
+                  type="button"
+                  size="sm"
+                  variant={value.weekdays.includes(day) ? 'default' : 'outline'}
+                  className="h-8 px-2"
+                  aria-pressed={value.weekdays.includes(day)}
+                  onClick={() => toggleWeekday(day)}
+                >
+                  {label}
+                </Button>
+              ))}
+            </div>
+          )}
+
+          {value.frequency === 'monthly' && (
+            <div className="flex items-center space-x-2 text-sm">
+              <span>On day</span>
+              <Input
+                type="number"
+                min={1}
+                max={31}
+                value={value.monthDay ?? ''}
+                onChange={(e) => update({ monthDay: e.target.value === '' ? null : toNumber(e.target.value) })}
+                placeholder="Due date's day"
+                className="h-8 w-32"
+                aria-label="Day of the month"
+              />
+            </div>
+          )}
+
+          <div className="flex items-center space-x-2 text-sm">
+            <span>Ends</span>
+            <Select value={endCondition} onValueChange={(condition) => changeEndCondition(condition as EndCondition)}>
+              <SelectTrigger className="h-8 w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="never">Never</SelectItem>
+                <SelectItem value="until">On date</SelectItem>
+                <SelectItem value="count">After</SelectItem>
+              </SelectContent>
+            </Select>
+            {endCondition === 'until' && (
+              <Input
+                type="date"
+                value={value.until}
+                onChange={(e) => update({ until: e.target.value || null })}
+                className="h-8 w-40"
+                aria-label="Repeat until"
+              />
+            )}
+            {endCondition === 'count' && (
+              <>
+                <Input
+                  type="number"
+                  min={1}
+                  value={Number.isNaN(value.count) ? '' : value.count}
+                  onChange={(e) => update({ count: toNumber(e.target.value) })}
+                  className="h-8 w-20"
+                  aria-label="Number of occurrences"
+                />
+                <span>occurrences</span>
+              </>
+            )}
+          </div>
+
+          {!validateRecurrence(value, dueDate) && (
+            <p className="text-xs text-gray-500">{describeRecurrence(value)}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RecurrenceEditor;
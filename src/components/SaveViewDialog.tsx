@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { Bookmark } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { repository } from '@/services/repository';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from '@/hooks/use-toast';
+
+interface SaveViewDialogProps {
+  // The Tasks page query string to save
+  query: string;
+}
+
+const MAX_VIEW_NAME_LENGTH = 60;
+
+const SaveViewDialog: React.FC<SaveViewDialogProps> = ({ query }) => {
+  const { user } = useAuth();
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) {
+      setError('Please enter a name');
+      return;
+    }
+
+    setLoading(true);
+    setError('');
+    try {
+      await repository.savedViews.create({ userId: user.id, name: name.trim(), query });
+      toast({ title: `Saved view "${name.trim()}"`, description: 'It is listed in the sidebar.' });
+      setOpen(false);
+      setName('');
+    } catch (err) {
+      console.error('Error saving view:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save view');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next);
+        setError('');
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <Bookmark className="mr-2 h-4 w-4" />
+          Save View
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Save View</DialogTitle>
+          <DialogDescription>
+            Keep the current filters and sort under a name, to open again from the sidebar.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSave} className="space-y-4">
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="viewName">Name</Label>
+            <Input
+              id="viewName"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Overdue in Website Redesign"
+              maxLength={MAX_VIEW_NAME_LENGTH}
+              autoFocus
+            />
+          </div>
+
+          <div className="flex justify-end space-x-2">
+            <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={loading}>
+              {loading ? 'Saving...' : 'Save'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SaveViewDialog;
@@ -1,5 +1,8 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
 import {
   Dialog,
   DialogContent,
@@ -8,51 +11,142 @@ import {
   DialogTitle,
   DialogTrigger,
 } from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { Share2, Copy, Check } from 'lucide-react';
+import { Share2, Copy, Check, Link, RefreshCw, Ban, Plus } from 'lucide-react';
+import { repository, ProjectInvite, ProjectRole, InviteStatus } from '@/services/repository';
+import { useAuth } from '@/contexts/AuthContext';
+import { ASSIGNABLE_ROLES, ROLE_LABELS } from '@/services/membership';
+import {
+  DEFAULT_INVITE_EXPIRY_DAYS,
+  INVITE_EXPIRY_OPTIONS,
+  buildInviteMessage,
+  expiryFromDays,
+  getInviteLink,
+  getInviteStatus,
+} from '@/services/invites';
 
 interface Project {
   id: string;
   name: string;
-  accessCode?: string;
 }
 
 interface ShareProjectDialogProps {
   project: Project;
 }
 
+const STATUS_LABELS: Record<InviteStatus, string> = {
+  active: 'Active',
+  expired: 'Expired',
+  revoked: 'Revoked',
+  used_up: 'Used up',
+};
+
 const ShareProjectDialog: React.FC<ShareProjectDialogProps> = ({ project }) => {
+  const { user } = useAuth();
   const [open, setOpen] = useState(false);
-  const [copied, setCopied] = useState(false);
-
-  const handleCopyCode = async () => {
-    if (project.accessCode) {
-      try {
-        await navigator.clipboard.writeText(project.accessCode);
-        setCopied(true);
-        setTimeout(() => setCopied(false), 2000);
-      } catch (err) {
-        console.error('Failed to copy access code:', err);
-      }
+  const [invites, setInvites] = useState<ProjectInvite[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [copied, setCopied] = useState('');
+  const [role, setRole] = useState<ProjectRole>('member');
+  const [expiryDays, setExpiryDays] = useState(String(DEFAULT_INVITE_EXPIRY_DAYS));
+  const [maxUses, setMaxUses] = useState('');
+
+  const fetchInvites = async () => {
+    setLoading(true);
+    try {
+      setInvites(await repository.invites.listByProject(project.id));
+    } catch (err) {
+      console.error('Error fetching invites:', err);
+      setError('Failed to load invites');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (open) {
+      fetchInvites();
+    }
+  }, [open, project.id]);
+
+  const copyToClipboard = async (text: string, key: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(key);
+      setTimeout(() => setCopied(''), 2000);
+    } catch (err) {
+      console.error('Failed to copy to clipboard:', err);
     }
   };
 
-  const handleCopyInviteMessage = async () => {
-    const inviteMessage = `Hi! I'd like to invite you to collaborate on my project "${project.name}" in Task Nexus Pro.
+  const createInvite = async (settings: Pick<ProjectInvite, 'role' | 'expiresAt' | 'maxUses'>) => {
+    if (!user) return;
 
-To join:
-1. Go to the Projects page
-2. Click "Join Project"
-3. Enter this access code: ${project.accessCode}
+    setError('');
+    try {
+      await repository.invites.create({ projectId: project.id, createdBy: user.id, ...settings });
+      await fetchInvites();
+    } catch (err) {
+      console.error('Error creating invite:', err);
+      setError(err instanceof Error ? err.message : 'Failed to create invite');
+    }
+  };
 
-Looking forward to working together!`;
+  const handleCreateInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const uses = maxUses.trim() ? parseInt(maxUses, 10) : null;
+    if (uses !== null && (isNaN(uses) || uses < 1)) {
+      setError('Max uses must be a positive number');
+      return;
+    }
 
+    await createInvite({
+      role,
+      expiresAt: expiryFromDays(expiryDays === 'never' ? null : Number(expiryDays)),
+      maxUses: uses,
+    });
+    setMaxUses('');
+  };
+
+  const handleRevoke = async (invite: ProjectInvite) => {
+    setError('');
     try {
-      await navigator.clipboard.writeText(inviteMessage);
-      setCopied(true);
-      setTimeout(() => setCopied(false), 2000);
+      await repository.invites.revoke(project.id, invite.id);
+      await fetchInvites();
     } catch (err) {
-      console.error('Failed to copy invite message:', err);
+      console.error('Error revoking invite:', err);
+      setError(err instanceof Error ? err.message : 'Failed to revoke invite');
+    }
+  };
+
+  // Revokes the invite and issues a new code with the same role and limits
+  const handleRegenerate = async (invite: ProjectInvite) => {
+    const expiresAt = invite.expiresAt && new Date(invite.expiresAt) > new Date()
+      ? invite.expiresAt
+      : expiryFromDays(DEFAULT_INVITE_EXPIRY_DAYS);
+
+    if (!invite.revokedAt) {
+      await handleRevoke(invite);
+    }
+    await createInvite({ role: invite.role, expiresAt, maxUses: invite.maxUses });
+  };
+
+  const getStatusColor = (status: InviteStatus) => {
+    switch (status) {
+      case 'active':
+        return 'bg-green-100 text-green-800';
+      case 'revoked':
+        return 'bg-red-100 text-red-800';
+      default:
+        return 'bg-gray-100 text-gray-800';
     }
   };
 
@@ -63,90 +157,166 @@ Looking forward to working together!`;
           <Share2 className="h-4 w-4" />
         </Button>
       </DialogTrigger>
-      <DialogContent className="sm:max-w-md">
+      <DialogContent className="sm:max-w-lg">
         <DialogHeader>
           <DialogTitle>Share Project</DialogTitle>
           <DialogDescription>
-            Share this access code with team members to give them access to "{project.name}".
+            Create invite links to give team members access to "{project.name}".
           </DialogDescription>
         </DialogHeader>
-        
+
         <div className="space-y-4">
-          {project.accessCode ? (
-            <>
-              {/* Access Code Display */}
-              <div className="space-y-2">
-                <label className="text-sm font-medium">Access Code</label>
-                <div className="flex items-center space-x-2">
-                  <div className="flex-1 p-3 bg-gray-100 rounded-md border">
-                    <code className="text-lg font-mono tracking-wider text-center block">
-                      {project.accessCode}
-                    </code>
-                  </div>
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={handleCopyCode}
-                    className="shrink-0"
-                  >
-                    {copied ? (
-                      <Check className="h-4 w-4 text-green-600" />
-                    ) : (
-                      <Copy className="h-4 w-4" />
-                    )}
-                  </Button>
-                </div>
-              </div>
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
 
-              {/* Instructions */}
-              <div className="space-y-2">
-                <label className="text-sm font-medium">How to share</label>
-                <div className="text-sm text-gray-600 space-y-1">
-                  <p>1. Share the access code above with your team members</p>
-                  <p>2. They can join by clicking "Join Project" and entering the code</p>
-                  <p>3. Once joined, they'll have access to view and collaborate on this project</p>
-                </div>
+          {/* New Invite */}
+          <form onSubmit={handleCreateInvite} className="space-y-3 p-3 border rounded-md">
+            <div className="grid grid-cols-3 gap-2">
+              <div className="space-y-1">
+                <Label className="text-xs">Role</Label>
+                <Select value={role} onValueChange={(value) => setRole(value as ProjectRole)}>
+                  <SelectTrigger className="h-9">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ASSIGNABLE_ROLES.map(r => (
+                      <SelectItem key={r} value={r}>{ROLE_LABELS[r]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Expires after</Label>
+                <Select value={expiryDays} onValueChange={setExpiryDays}>
+                  <SelectTrigger className="h-9">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {INVITE_EXPIRY_OPTIONS.map(option => (
+                      <SelectItem key={option.label} value={option.days === null ? 'never' : String(option.days)}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
               </div>
+              <div className="space-y-1">
+                <Label htmlFor="maxUses" className="text-xs">Max uses</Label>
+                <Input
+                  id="maxUses"
+                  type="number"
+                  min={1}
+                  value={maxUses}
+                  onChange={(e) => setMaxUses(e.target.value)}
+                  placeholder="Unlimited"
+                  className="h-9"
+                />
+              </div>
+            </div>
+            <Button type="submit" size="sm" className="w-full">
+              <Plus className="mr-2 h-4 w-4" />
+              Create Invite
+            </Button>
+          </form>
 
-              {/* Copy Invite Message */}
-              <div className="space-y-2">
-                <Button
-                  variant="outline"
-                  className="w-full"
-                  onClick={handleCopyInviteMessage}
-                >
-                  <Copy className="mr-2 h-4 w-4" />
-                  Copy Invitation Message
-                </Button>
-                <p className="text-xs text-gray-500 text-center">
-                  Copies a ready-to-send invitation message
-                </p>
+          {/* Invite List */}
+          <div className="space-y-2 max-h-72 overflow-y-auto">
+            {loading && invites.length === 0 ? (
+              <div className="text-center py-4">
+                <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600 mx-auto"></div>
               </div>
+            ) : invites.length > 0 ? (
+              invites.map(invite => {
+                const status = getInviteStatus(invite);
+                return (
+                  <div
+                    key={invite.id}
+                    className={`p-3 border rounded-md space-y-2 ${status === 'active' ? '' : 'opacity-60'}`}
+                  >
+                    <div className="flex items-center justify-between">
+                      <code className="text-base font-mono tracking-wider">{invite.token}</code>
+                      <div className="flex items-center space-x-1">
+                        <Badge variant="outline">{ROLE_LABELS[invite.role]}</Badge>
+                        <Badge className={getStatusColor(status)}>{STATUS_LABELS[status]}</Badge>
+                      </div>
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {invite.maxUses !== null
+                        ? `${invite.useCount}/${invite.maxUses} uses`
+                        : `${invite.useCount} use${invite.useCount !== 1 ? 's' : ''}`}
+                      {' · '}
+                      {invite.expiresAt
+                        ? `${status === 'expired' ? 'Expired' : 'Expires'} ${new Date(invite.expiresAt).toLocaleDateString()}`
+                        : 'Never expires'}
+                    </div>
+                    <div className="flex flex-wrap gap-1">
+                      {status === 'active' && (
+                        <>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => copyToClipboard(getInviteLink(invite.token), `link-${invite.id}`)}
+                          >
+                            {copied === `link-${invite.id}` ? (
+                              <Check className="mr-1 h-3 w-3 text-green-600" />
+                            ) : (
+                              <Link className="mr-1 h-3 w-3" />
+                            )}
+                            Link
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => copyToClipboard(
+                              buildInviteMessage(project.name, invite.token, invite.expiresAt),
+                              `message-${invite.id}`
+                            )}
+                          >
+                            {copied === `message-${invite.id}` ? (
+                              <Check className="mr-1 h-3 w-3 text-green-600" />
+                            ) : (
+                              <Copy className="mr-1 h-3 w-3" />
+                            )}
+                            Message
+                          </Button>
+                        </>
+                      )}
+                      <Button variant="outline" size="sm" onClick={() => handleRegenerate(invite)}>
+                        <RefreshCw className="mr-1 h-3 w-3" />
+                        Regenerate
+                      </Button>
+                      {!invite.revokedAt && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="text-red-600"
+                          onClick={() => handleRevoke(invite)}
+                        >
+                          <Ban className="mr-1 h-3 w-3" />
+                          Revoke
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                );
+              })
+            ) : (
+              <p className="text-sm text-gray-500 text-center py-4">
+                No invites yet. Create one above to share this project.
+              </p>
+            )}
+          </div>
 
-              {copied && (
-                <Alert className="border-green-200 bg-green-50">
-                  <Check className="h-4 w-4 text-green-600" />
-                  <AlertDescription className="text-green-800">
-                    Copied to clipboard!
-                  </AlertDescription>
-                </Alert>
-              )}
-
-              {/* Security Note */}
-              <Alert>
-                <AlertDescription className="text-sm">
-                  <strong>Note:</strong> Anyone with this access code can join your project. 
-                  Only share it with trusted team members.
-                </AlertDescription>
-              </Alert>
-            </>
-          ) : (
-            <Alert variant="destructive">
-              <AlertDescription>
-                No access code available for this project. Please try refreshing the page.
-              </AlertDescription>
-            </Alert>
-          )}
+          {/* Security Note */}
+          <Alert>
+            <AlertDescription className="text-sm">
+              <strong>Note:</strong> Anyone with an active invite can join your project.
+              Revoke invites you no longer need.
+            </AlertDescription>
+          </Alert>
 
           <div className="flex justify-end">
             <Button variant="outline" onClick={() => setOpen(false)}>
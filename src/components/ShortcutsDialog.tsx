@@ -0,0 +1,70 @@
+import React from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { SCOPE_LABELS, Shortcut, ShortcutScope, formatKeys } from '@/services/shortcuts';
+
+interface ShortcutsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  shortcuts: Shortcut[];
+}
+
+const SCOPES: ShortcutScope[] = ['page', 'global', 'dialog'];
+
+const isMac = navigator.platform.includes('Mac');
+
+const ShortcutsDialog: React.FC<ShortcutsDialogProps> = ({ open, onOpenChange, shortcuts }) => (
+  <Dialog open={open} onOpenChange={onOpenChange}>
+    <DialogContent className="sm:max-w-lg max-h-[80vh] overflow-y-auto">
+      <DialogHeader>
+        <DialogTitle>Keyboard Shortcuts</DialogTitle>
+        <DialogDescription>
+          Shortcuts don't apply while typing in a field, except ones held with {isMac ? '⌘' : 'Ctrl'}.
+        </DialogDescription>
+      </DialogHeader>
+
+      <div className="space-y-6">
+        {SCOPES.map(scope => {
+          const inScope = shortcuts.filter(shortcut => shortcut.scope === scope);
+          if (inScope.length === 0) return null;
+          const groups = [...new Set(inScope.map(shortcut => shortcut.group))];
+
+          return (
+            <div key={scope} className="space-y-3">
+              <h3 className="text-sm font-semibold text-gray-900">{SCOPE_LABELS[scope]}</h3>
+              {groups.map(group => (
+                <div key={group} className="space-y-1">
+                  <p className="text-xs font-medium uppercase text-gray-500">{group}</p>
+                  {inScope.filter(shortcut => shortcut.group === group).map(shortcut => (
+                    <div key={shortcut.keys} className="flex items-center justify-between py-1 text-sm">
+                      <span className="text-gray-700">{shortcut.description}</span>
+                      <span className="flex items-center space-x-1">
+                        {formatKeys(shortcut.keys, isMac).map((step, i) => (
+                          <React.Fragment key={i}>
+                            {i > 0 && <span className="text-xs text-gray-400">then</span>}
+                            {step.map(key => (
+                              <kbd key={key} className="rounded border bg-gray-50 px-1.5 py-0.5 text-xs text-gray-600">
+                                {key}
+                              </kbd>
+                            ))}
+                          </React.Fragment>
+                        ))}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </div>
+          );
+        })}
+      </div>
+    </DialogContent>
+  </Dialog>
+);
+
+export default ShortcutsDialog;
@@ -1,18 +1,18 @@
 
-import React from 'react';
-import { Link, useLocation } from 'react-router-dom';
+import React, { useState, useEffect } from 'react';
+import { Link, useLocation, useNavigate } from 'react-router-dom';
 import {
-  Calendar,
-  Users,
-  Settings,
   Plus,
   ChevronLeft,
-  Home,
-  FolderOpen,
-  CheckSquare,
+  Bookmark,
+  X,
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
+import { repository, SavedView } from '@/services/repository';
+import { useAuth } from '@/contexts/AuthContext';
+import { useShortcuts } from '@/hooks/use-shortcuts';
+import { NAVIGATION } from '@/components/navigation';
 
 interface SidebarProps {
   isOpen: boolean;
@@ -21,15 +21,40 @@ interface SidebarProps {
 
 const Sidebar: React.FC<SidebarProps> = ({ isOpen, onToggle }) => {
   const location = useLocation();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const [views, setViews] = useState<SavedView[]>([]);
 
-  const navigation = [
-    { name: 'Dashboard', href: '/', icon: Home },
-    { name: 'Projects', href: '/projects', icon: FolderOpen },
-    { name: 'Tasks', href: '/tasks', icon: CheckSquare },
-    { name: 'Calendar', href: '/calendar', icon: Calendar },
-    { name: 'Team', href: '/team', icon: Users },
-    { name: 'Settings', href: '/settings', icon: Settings },
-  ];
+  useShortcuts(NAVIGATION.map(item => ({
+    keys: item.keys,
+    description: `Go to ${item.name}`,
+    scope: 'global',
+    group: 'Navigation',
+    handler: () => navigate(item.href),
+  })));
+
+  useEffect(() => {
+    if (!user) return;
+
+    const fetchViews = async () => {
+      try {
+        setViews(await repository.savedViews.listForUser(user.id));
+      } catch (error) {
+        console.error('Error fetching saved views:', error);
+      }
+    };
+
+    fetchViews();
+    return repository.savedViews.subscribe(user.id, fetchViews);
+  }, [user]);
+
+  const handleRemoveView = async (view: SavedView) => {
+    try {
+      await repository.savedViews.remove(user.id, view.id);
+    } catch (error) {
+      console.error('Error removing saved view:', error);
+    }
+  };
 
   return (
     <div
@@ -59,7 +84,7 @@ const Sidebar: React.FC<SidebarProps> = ({ isOpen, onToggle }) => {
 
 
       <nav className="mt-4 px-4 space-y-1">
-        {navigation.map((item) => {
+        {NAVIGATION.map((item) => {
           const Icon = item.icon;
           const isActive = location.pathname === item.href;
           
@@ -81,6 +106,48 @@ const Sidebar: React.FC<SidebarProps> = ({ isOpen, onToggle }) => {
           );
         })}
       </nav>
+
+      {/* Saved Views */}
+      {views.length > 0 && (
+        <div className="mt-6 px-4 space-y-1">
+          {isOpen && (
+            <p className="px-3 pb-1 text-xs font-semibold uppercase tracking-wide text-gray-400">Saved Views</p>
+          )}
+          {views.map((view) => {
+            const href = view.query ? `/tasks?${view.query}` : '/tasks';
+            const isActive = location.pathname === '/tasks' && location.search === (view.query ? `?${view.query}` : '');
+
+            return (
+              <div key={view.id} className="group relative">
+                <Link
+                  to={href}
+                  title={view.name}
+                  className={cn(
+                    'flex items-center px-3 py-2 rounded-lg text-sm font-medium transition-colors',
+                    isActive
+                      ? 'bg-blue-50 text-blue-700'
+                      : 'text-gray-600 hover:bg-gray-50 hover:text-gray-900',
+                    !isOpen && 'justify-center'
+                  )}
+                >
+                  <Bookmark className={cn('h-4 w-4 shrink-0', isOpen && 'mr-3')} />
+                  {isOpen && <span className="truncate pr-6">{view.name}</span>}
+                </Link>
+                {isOpen && (
+                  <button
+                    type="button"
+                    onClick={() => handleRemoveView(view)}
+                    className="absolute right-2 top-1/2 -translate-y-1/2 rounded p-1 text-gray-400 opacity-0 hover:text-gray-700 group-hover:opacity-100"
+                    aria-label={`Remove ${view.name}`}
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,299 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { MessageSquare, Pencil, Trash } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { repository, AppUser, Task, TaskComment } from '@/services/repository';
+import { useAuth } from '@/contexts/AuthContext';
+import { formatMention, getMentionQuery, validateComment } from '@/services/comments';
+import Markdown from './Markdown';
+
+interface TaskCommentsProps {
+  task: Task;
+  // Project members, who can be mentioned
+  memberIds: string[];
+  // Lets owners and admins delete other people's comments
+  canDeleteAny?: boolean;
+  // Called after a comment is added or removed
+  onChange?: () => void;
+}
+
+interface CommentEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  onSubmit: () => void;
+  members: AppUser[];
+  placeholder?: string;
+  autoFocus?: boolean;
+}
+
+const MAX_SUGGESTIONS = 5;
+
+// Textarea that suggests members after an @ and inserts the chosen one as a mention
+const CommentEditor: React.FC<CommentEditorProps> = ({ value, onChange, onSubmit, members, placeholder, autoFocus }) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [cursor, setCursor] = useState(0);
+  const [highlighted, setHighlighted] = useState(0);
+  const [dismissed, setDismissed] = useState(false);
+
+  const mention = dismissed ? null : getMentionQuery(value, cursor);
+  const suggestions = mention
+    ? members
+        .filter(member => member.name.toLowerCase().includes(mention.query.toLowerCase()))
+        .slice(0, MAX_SUGGESTIONS)
+    : [];
+
+  const insertMention = (member: AppUser) => {
+    const text = `${formatMention(member)} `;
+    const next = value.slice(0, mention.start) + text + value.slice(cursor);
+    const position = mention.start + text.length;
+    onChange(next);
+    setCursor(position);
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus();
+      textareaRef.current?.setSelectionRange(position, position);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (suggestions.length > 0) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setHighlighted((highlighted + step + suggestions.length) % suggestions.length);
+        return;
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault();
+        insertMention(suggestions[Math.min(highlighted, suggestions.length - 1)]);
+        return;
+      }
+      if (e.key === 'Escape') {
+        // Keep the surrounding dialog open
+        e.preventDefault();
+        e.stopPropagation();
+        setDismissed(true);
+        return;
+      }
+    }
+    if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+      e.preventDefault();
+      onSubmit();
+    }
+  };
+
+  return (
+    <div className="relative">
+      <Textarea
+        ref={textareaRef}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setCursor(e.target.selectionStart);
+          setHighlighted(0);
+          setDismissed(false);
+        }}
+        onSelect={(e) => setCursor(e.currentTarget.selectionStart)}
+        onKeyDown={handleKeyDown}
+        placeholder={placeholder}
+        autoFocus={autoFocus}
+        rows={3}
+      />
+      {suggestions.length > 0 && (
+        <div className="absolute left-0 right-0 top-full z-10 mt-1 rounded-md border bg-white shadow-md" role="listbox">
+          {suggestions.map((member, i) => (
+            <button
+              key={member.id}
+              type="button"
+              role="option"
+              aria-selected={i === highlighted}
+              className={`block w-full px-3 py-2 text-left text-sm ${i === highlighted ? 'bg-gray-100' : ''}`}
+              // Keep focus in the textarea
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => insertMention(member)}
+            >
+              <span className="font-medium">{member.name}</span>
+              <span className="ml-2 text-gray-500">{member.email}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const TaskComments: React.FC<TaskCommentsProps> = ({ task, memberIds, canDeleteAny = false, onChange }) => {
+  const { user } = useAuth();
+  const [comments, setComments] = useState<TaskComment[]>([]);
+  const [people, setPeople] = useState<AppUser[]>([]);
+  const [body, setBody] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editBody, setEditBody] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const memberKey = memberIds.join(',');
+  const fetchComments = useCallback(async () => {
+    try {
+      const taskComments = await repository.comments.listByTask(task.id);
+      // Authors who have since left the project still need names
+      const resolved = await repository.users.resolve([
+        ...new Set([...memberKey.split(',').filter(Boolean), ...taskComments.map(comment => comment.authorId)]),
+      ]);
+      setComments(taskComments);
+      setPeople(resolved);
+    } catch (err) {
+      console.error('Error fetching comments:', err);
+    }
+  }, [task.id, memberKey]);
+
+  useEffect(() => {
+    setBody('');
+    setEditingId(null);
+    setError('');
+    fetchComments();
+  }, [fetchComments]);
+
+  const members = people.filter(person => memberIds.includes(person.id));
+  const getName = (userId: string) => people.find(person => person.id === userId)?.name || 'Unknown User';
+
+  const runChange = async (change: () => Promise<unknown>, failure: string): Promise<boolean> => {
+    setError('');
+    setSaving(true);
+    try {
+      await change();
+      await fetchComments();
+      onChange?.();
+      return true;
+    } catch (err) {
+      console.error(failure, err);
+      setError(err instanceof Error ? err.message : failure);
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAdd = async () => {
+    const validation = validateComment(body);
+    if (validation) {
+      setError(validation);
+      return;
+    }
+    const added = await runChange(
+      () => repository.comments.create({ taskId: task.id, authorId: user.id, body: body.trim() }),
+      'Failed to add comment'
+    );
+    if (added) setBody('');
+  };
+
+  const handleSaveEdit = async () => {
+    const validation = validateComment(editBody);
+    if (validation) {
+      setError(validation);
+      return;
+    }
+    const saved = await runChange(
+      () => repository.comments.update(editingId, editBody.trim()),
+      'Failed to update comment'
+    );
+    if (saved) setEditingId(null);
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label className="flex items-center">
+        <MessageSquare className="mr-2 h-4 w-4" />
+        Comments ({comments.length})
+      </Label>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {comments.map(comment => (
+        <div key={comment.id} className="rounded-lg bg-gray-50 p-3">
+          <div className="mb-1 flex items-center justify-between text-xs text-gray-500">
+            <span>
+              <span className="font-medium text-gray-900">{getName(comment.authorId)}</span>
+              {' · '}
+              {formatDistanceToNow(new Date(comment.createdAt), { addSuffix: true })}
+              {comment.editedAt && ' · edited'}
+            </span>
+            {editingId !== comment.id && (comment.authorId === user?.id || canDeleteAny) && (
+              <span className="flex">
+                {comment.authorId === user?.id && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 px-2"
+                    onClick={() => {
+                      setEditingId(comment.id);
+                      setEditBody(comment.body);
+                    }}
+                    aria-label="Edit comment"
+                  >
+                    <Pencil className="h-3 w-3" />
+                  </Button>
+                )}
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 px-2"
+                  onClick={() => runChange(() => repository.comments.remove(comment.id), 'Failed to delete comment')}
+                  aria-label="Delete comment"
+                >
+                  <Trash className="h-3 w-3" />
+                </Button>
+              </span>
+            )}
+          </div>
+
+          {editingId === comment.id ? (
+            <div className="space-y-2">
+              <CommentEditor
+                value={editBody}
+                onChange={setEditBody}
+                onSubmit={handleSaveEdit}
+                members={members}
+                autoFocus
+              />
+              <div className="flex justify-end space-x-2">
+                <Button type="button" variant="outline" size="sm" onClick={() => setEditingId(null)}>
+                  Cancel
+                </Button>
+                <Button type="button" size="sm" onClick={handleSaveEdit} disabled={saving}>
+                  Save
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <Markdown source={comment.body} className="text-gray-700" />
+          )}
+        </div>
+      ))}
+
+      <CommentEditor
+        value={body}
+        onChange={setBody}
+        onSubmit={handleAdd}
+        members={members}
+        placeholder="Write a comment. Markdown works, and @ mentions a member."
+      />
+      <div className="flex items-center justify-between">
+        <span className="text-xs text-gray-500">Ctrl+Enter to send</span>
+        <Button type="button" size="sm" onClick={handleAdd} disabled={saving || !body.trim()}>
+          Comment
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default TaskComments;
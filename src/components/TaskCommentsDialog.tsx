@@ -0,0 +1,39 @@
+import React from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Task } from '@/services/repository';
+import TaskComments from './TaskComments';
+
+interface TaskCommentsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  task: Task | null;
+  memberIds: string[];
+  canDeleteAny?: boolean;
+  onChange?: () => void;
+}
+
+// The discussion on its own, for members who can't edit the task
+const TaskCommentsDialog: React.FC<TaskCommentsDialogProps> = ({
+  open,
+  onOpenChange,
+  task,
+  memberIds,
+  canDeleteAny,
+  onChange,
+}) => (
+  <Dialog open={open && !!task} onOpenChange={onOpenChange}>
+    <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+      <DialogHeader>
+        <DialogTitle>{task?.title}</DialogTitle>
+      </DialogHeader>
+      {task && <TaskComments task={task} memberIds={memberIds} canDeleteAny={canDeleteAny} onChange={onChange} />}
+    </DialogContent>
+  </Dialog>
+);
+
+export default TaskCommentsDialog;
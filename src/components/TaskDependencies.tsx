@@ -0,0 +1,139 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Ban, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { repository, Task, TaskDependency } from '@/services/repository';
+import { useAuth } from '@/contexts/AuthContext';
+
+interface TaskDependenciesProps {
+  task: Task;
+  // Called after a link is added or removed
+  onChange?: () => void;
+}
+
+const TaskDependencies: React.FC<TaskDependenciesProps> = ({ task, onChange }) => {
+  const { user } = useAuth();
+  const [links, setLinks] = useState<TaskDependency[]>([]);
+  // Tasks in every project the user belongs to, since links can cross projects
+  const [candidates, setCandidates] = useState<Task[]>([]);
+  const [selected, setSelected] = useState('');
+  const [error, setError] = useState('');
+
+  const fetchDependencies = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      const projects = await repository.projects.listForUser(user);
+      const [taskLinks, projectTasks] = await Promise.all([
+        repository.dependencies.listForTasks([task.id]),
+        repository.tasks.listByProjects(projects.map(project => project.id)),
+      ]);
+      setLinks(taskLinks);
+      setCandidates(projectTasks);
+    } catch (err) {
+      console.error('Error fetching dependencies:', err);
+    }
+  }, [task.id, user]);
+
+  useEffect(() => {
+    setSelected('');
+    setError('');
+    fetchDependencies();
+  }, [fetchDependencies]);
+
+  const blockedBy = links.filter(link => link.taskId === task.id);
+  const blocking = links.filter(link => link.blockedById === task.id);
+  const options = candidates.filter(candidate =>
+    candidate.id !== task.id && !blockedBy.some(link => link.blockedById === candidate.id)
+  );
+
+  const describeTask = (id: string) => {
+    const linked = candidates.find(candidate => candidate.id === id);
+    return linked ? `${linked.title} (${linked.projectName})` : 'Task in another project';
+  };
+
+  const runChange = async (change: () => Promise<void>, failure: string) => {
+    setError('');
+    try {
+      await change();
+      await fetchDependencies();
+      onChange?.();
+    } catch (err) {
+      console.error(failure, err);
+      setError(err instanceof Error ? err.message : failure);
+    }
+  };
+
+  const handleAdd = async () => {
+    if (!selected) return;
+    await runChange(() => repository.dependencies.add(task.id, selected), 'Failed to add dependency');
+    setSelected('');
+  };
+
+  const renderLink = (id: string, onRemove: () => void) => (
+    <div key={id} className="flex items-center justify-between text-sm">
+      <span className="text-gray-700">{describeTask(id)}</span>
+      <Button type="button" variant="ghost" size="sm" onClick={onRemove}>
+        <X className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+
+  return (
+    <div className="space-y-2">
+      <Label className="flex items-center">
+        <Ban className="mr-2 h-4 w-4" />
+        Dependencies
+      </Label>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <p className="text-xs font-medium text-gray-500">Blocked by</p>
+      {blockedBy.length === 0 && <p className="text-sm text-gray-500">Nothing</p>}
+      {blockedBy.map(link => renderLink(link.blockedById, () =>
+        runChange(() => repository.dependencies.remove(task.id, link.blockedById), 'Failed to remove dependency')
+      ))}
+
+      <div className="flex space-x-2">
+        <Select value={selected} onValueChange={setSelected}>
+          <SelectTrigger className="h-8">
+            <SelectValue placeholder="Add a task this one waits on" />
+          </SelectTrigger>
+          <SelectContent>
+            {options.map(option => (
+              <SelectItem key={option.id} value={option.id}>
+                {option.title} ({option.projectName})
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button type="button" variant="outline" size="sm" onClick={handleAdd} disabled={!selected}>
+          Add
+        </Button>
+      </div>
+
+      {blocking.length > 0 && (
+        <>
+          <p className="text-xs font-medium text-gray-500">Blocks</p>
+          {blocking.map(link => renderLink(link.taskId, () =>
+            runChange(() => repository.dependencies.remove(link.taskId, task.id), 'Failed to remove dependency')
+          ))}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default TaskDependencies;
@@ -0,0 +1,514 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { format } from 'date-fns';
+import { CheckCircle2, Circle, Copy, ExternalLink, FolderOpen, History, Loader2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Separator } from '@/components/ui/separator';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import TaskComments from '@/components/TaskComments';
+import Attachments from '@/components/Attachments';
+import {
+  AppUser,
+  Project,
+  Task,
+  TaskChanges,
+  TaskEvent,
+  TaskHistoryField,
+  TaskPriority,
+  repository,
+} from '@/services/repository';
+import { useAuth } from '@/contexts/AuthContext';
+import { can } from '@/services/permissions';
+import { getMemberIds } from '@/services/membership';
+import { TASK_PRIORITIES, PRIORITY_COLORS } from '@/services/priority';
+import {
+  findStatus,
+  getDoneStatusId,
+  getInitialStatusId,
+  getProjectStatuses,
+  getStatusColor,
+  isDoneStatus,
+} from '@/services/workflow';
+import { ESTIMATE_UNIT_LABELS, validateEstimate } from '@/services/estimates';
+import { validateRecurrence } from '@/services/recurrence';
+import { describeEvent } from '@/services/history';
+import { getBlockedWarning } from '@/services/dependencies';
+import { dataService } from '@/services/dataService';
+import { toast } from '@/hooks/use-toast';
+
+interface TaskDetailPanelProps {
+  taskId: string;
+  // Opens another task, such as a subtask, in place of this one
+  onOpenTask: (taskId: string) => void;
+  // Without one the panel is shown as a full page, with no close button
+  onClose?: () => void;
+  // Called after the task is edited
+  onChange?: () => void;
+}
+
+interface Draft {
+  title: string;
+  description: string;
+  estimate: string;
+  startDate: string;
+  dueDate: string;
+}
+
+const UNASSIGNED = 'unassigned';
+
+const toDateInput = (value: string | null): string => (value ? value.slice(0, 10) : '');
+
+const toDraft = (task: Task): Draft => ({
+  title: task.title,
+  description: task.description || '',
+  estimate: task.estimate === null ? '' : String(task.estimate),
+  startDate: toDateInput(task.startDate),
+  dueDate: toDateInput(task.dueDate),
+});
+
+const TaskDetailPanel: React.FC<TaskDetailPanelProps> = ({ taskId, onOpenTask, onClose, onChange }) => {
+  const { user } = useAuth();
+  const [task, setTask] = useState<Task | null>(null);
+  const [project, setProject] = useState<Project | null>(null);
+  const [subtasks, setSubtasks] = useState<Task[]>([]);
+  const [history, setHistory] = useState<TaskEvent[]>([]);
+  const [people, setPeople] = useState<AppUser[]>([]);
+  const [blockers, setBlockers] = useState<Task[]>([]);
+  const [draft, setDraft] = useState<Draft>({ title: '', description: '', estimate: '', startDate: '', dueDate: '' });
+  const [loading, setLoading] = useState(true);
+
+  const load = useCallback(async () => {
+    try {
+      const found = await repository.tasks.get(taskId);
+      if (!found) {
+        setTask(null);
+        return;
+      }
+
+      const [foundProject, foundSubtasks, events] = await Promise.all([
+        repository.projects.get(found.projectId),
+        repository.tasks.listSubtasks([found.id]),
+        repository.tasks.listHistory(found.id),
+      ]);
+      // Members, plus anyone named in the history who has since left
+      const userIds = [
+        ...getMemberIds(foundProject),
+        ...events.map(event => event.userId),
+        ...events.filter(event => event.field === 'assignedTo').flatMap(event => [event.from, event.to]),
+      ].filter(Boolean);
+      const [profiles, openBlockers] = await Promise.all([
+        repository.users.resolve([...new Set(userIds)]),
+        dataService.getOpenBlockers([found], { [found.projectId]: getProjectStatuses(foundProject) }),
+      ]);
+
+      setTask(found);
+      setDraft(toDraft(found));
+      setProject(foundProject);
+      setSubtasks(foundSubtasks);
+      setHistory(events);
+      setPeople(profiles);
+      setBlockers(openBlockers[found.id] || []);
+    } catch (error) {
+      console.error('Error loading task:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [taskId]);
+
+  useEffect(() => {
+    setLoading(true);
+    load();
+  }, [load]);
+
+  const statuses = getProjectStatuses(project);
+  const memberIds = getMemberIds(project);
+  const members = people.filter(person => memberIds.includes(person.id));
+  const canEdit = can(project, user?.id, 'tasks:edit');
+  const canAssign = can(project, user?.id, 'tasks:assign');
+  const canDelete = can(project, user?.id, 'tasks:delete');
+
+  const getName = (userId: string | null) =>
+    people.find(person => person.id === userId)?.name || 'Unknown user';
+
+  const reportError = (title: string, error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : String(error),
+      variant: 'destructive',
+    });
+  };
+
+  const save = async (changes: TaskChanges) => {
+    // Show the change right away; a failed save puts the stored task back
+    setTask(prev => (prev ? { ...prev, ...changes } : prev));
+    try {
+      await repository.tasks.update(taskId, changes);
+      onChange?.();
+    } catch (error) {
+      console.error('Error updating task:', error);
+      reportError('Could not update task', error);
+    } finally {
+      await load();
+    }
+  };
+
+  const saveTitle = () => {
+    const title = draft.title.trim();
+    if (!title) {
+      reportError('Could not update task', 'Task title is required');
+      setDraft(prev => ({ ...prev, title: task.title }));
+      return;
+    }
+    if (title !== task.title) save({ title });
+  };
+
+  const saveDescription = () => {
+    const description = draft.description.trim();
+    if (description !== (task.description || '')) save({ description });
+  };
+
+  const saveEstimate = () => {
+    const error = validateEstimate(draft.estimate);
+    if (error) {
+      reportError('Could not update task', error);
+      setDraft(prev => ({ ...prev, estimate: toDraft(task).estimate }));
+      return;
+    }
+    const estimate = draft.estimate.trim() ? Number(draft.estimate) : null;
+    if (estimate !== task.estimate) save({ estimate });
+  };
+
+  // Only the date that changed is sent, so a due date's time of day survives a new start date
+  const saveDates = () => {
+    const original = toDraft(task);
+    const changes: TaskChanges = {};
+    if (draft.startDate !== original.startDate) changes.startDate = draft.startDate || null;
+    if (draft.dueDate !== original.dueDate) changes.dueDate = draft.dueDate;
+    if (Object.keys(changes).length === 0) return;
+
+    const revert = (error: string) => {
+      reportError('Could not update task', error);
+      setDraft(prev => ({ ...prev, startDate: original.startDate, dueDate: original.dueDate }));
+    };
+    if (!draft.dueDate) {
+      revert('A due date is required');
+      return;
+    }
+    if (draft.startDate && draft.startDate > draft.dueDate) {
+      revert('The start date must be on or before the due date');
+      return;
+    }
+    const recurrenceError = changes.dueDate && task.recurrence && validateRecurrence(task.recurrence, changes.dueDate);
+    if (recurrenceError) {
+      revert(recurrenceError);
+      return;
+    }
+    save(changes);
+  };
+
+  const saveStatus = (status: string) => {
+    const warning = getBlockedWarning(task, blockers, statuses, status);
+    if (warning) toast(warning);
+    save({ status });
+  };
+
+  const toggleSubtask = async (subtask: Task) => {
+    // Subtasks share their parent's project, and so its workflow
+    const status = isDoneStatus(statuses, subtask.status)
+      ? getInitialStatusId(statuses)
+      : getDoneStatusId(statuses);
+    try {
+      await repository.tasks.update(subtask.id, { status });
+      onChange?.();
+    } catch (error) {
+      console.error('Error updating subtask:', error);
+      reportError('Could not update subtask', error);
+    } finally {
+      await load();
+    }
+  };
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}/tasks/${taskId}`);
+      toast({ title: 'Link copied', description: 'Anyone on the project can open the task with it.' });
+    } catch (err) {
+      console.error('Failed to copy to clipboard:', err);
+    }
+  };
+
+  const formatValue = (field: TaskHistoryField, value: string) => {
+    if (field === 'assignedTo') return getName(value);
+    if (field === 'startDate' || field === 'dueDate') return new Date(value).toLocaleDateString();
+    return value;
+  };
+
+  if (loading && !task) {
+    return (
+      <div className="flex items-center justify-center h-full p-6">
+        <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  if (!task) {
+    return (
+      <div className="p-6 space-y-4 text-center">
+        {onClose && (
+          <div className="flex justify-end">
+            <Button variant="ghost" size="icon" onClick={onClose} aria-label="Close">
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+        <h2 className="text-lg font-medium text-gray-900">Task not found</h2>
+        <p className="text-gray-600">It may have been deleted, or you may not have access to it.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Header */}
+      <div className="flex items-start justify-between gap-2">
+        <div className="flex-1 space-y-2">
+          <Link
+            to={`/projects/${task.projectId}`}
+            className="inline-flex items-center text-sm text-gray-500 hover:text-gray-900"
+          >
+            <FolderOpen className="mr-1 h-4 w-4" />
+            {project?.name || 'Project'}
+          </Link>
+          <Input
+            value={draft.title}
+            onChange={(e) => setDraft(prev => ({ ...prev, title: e.target.value }))}
+            onBlur={saveTitle}
+            onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+            disabled={!canEdit}
+            aria-label="Title"
+            className="text-lg font-semibold border-transparent shadow-none px-2 -mx-2 hover:border-input focus:border-input disabled:opacity-100 disabled:cursor-default"
+          />
+        </div>
+        <div className="flex items-center">
+          <Button variant="ghost" size="icon" onClick={copyLink} aria-label="Copy link">
+            <Copy className="h-4 w-4" />
+          </Button>
+          {onClose && (
+            <>
+              <Button variant="ghost" size="icon" asChild aria-label="Open full page">
+                <Link to={`/tasks/${task.id}`}>
+                  <ExternalLink className="h-4 w-4" />
+                </Link>
+              </Button>
+              <Button variant="ghost" size="icon" onClick={onClose} aria-label="Close">
+                <X className="h-4 w-4" />
+              </Button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {/* Fields */}
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label>Status</Label>
+          <Select value={task.status} onValueChange={saveStatus} disabled={!canEdit}>
+            <SelectTrigger>
+              <SelectValue>
+                <Badge className={getStatusColor(statuses, task.status)}>{findStatus(statuses, task.status).name}</Badge>
+              </SelectValue>
+            </SelectTrigger>
+            <SelectContent>
+              {statuses.map(status => (
+                <SelectItem key={status.id} value={status.id}>{status.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Priority</Label>
+          <Select
+            value={task.priority}
+            onValueChange={(priority) => save({ priority: priority as TaskPriority })}
+            disabled={!canEdit}
+          >
+            <SelectTrigger>
+              <SelectValue>
+                <Badge className={PRIORITY_COLORS[task.priority]}>{task.priority}</Badge>
+              </SelectValue>
+            </SelectTrigger>
+            <SelectContent>
+              {TASK_PRIORITIES.map(priority => (
+                <SelectItem key={priority} value={priority}>{priority}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Assignee</Label>
+          <Select
+            value={task.assignedTo || UNASSIGNED}
+            onValueChange={(value) => save({ assignedTo: value === UNASSIGNED ? null : value })}
+            disabled={!canAssign}
+          >
+            <SelectTrigger>
+              <SelectValue placeholder="Select team member" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+              {members.map(member => (
+                <SelectItem key={member.id} value={member.id}>{member.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="panelEstimate">
+            Estimate ({ESTIMATE_UNIT_LABELS[project?.estimateUnit || 'points'].toLowerCase()})
+          </Label>
+          <Input
+            id="panelEstimate"
+            type="number"
+            min={0}
+            step="any"
+            value={draft.estimate}
+            onChange={(e) => setDraft(prev => ({ ...prev, estimate: e.target.value }))}
+            onBlur={saveEstimate}
+            placeholder="Not estimated"
+            disabled={!canEdit}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="panelStartDate">Start Date</Label>
+          <Input
+            id="panelStartDate"
+            type="date"
+            value={draft.startDate}
+            onChange={(e) => setDraft(prev => ({ ...prev, startDate: e.target.value }))}
+            onBlur={saveDates}
+            onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+            disabled={!canEdit}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="panelDueDate">Due Date</Label>
+          <Input
+            id="panelDueDate"
+            type="date"
+            value={draft.dueDate}
+            onChange={(e) => setDraft(prev => ({ ...prev, dueDate: e.target.value }))}
+            onBlur={saveDates}
+            onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+            disabled={!canEdit}
+          />
+        </div>
+      </div>
+
+      {/* Description */}
+      <div className="space-y-2">
+        <Label htmlFor="panelDescription">Description</Label>
+        <Textarea
+          id="panelDescription"
+          value={draft.description}
+          onChange={(e) => setDraft(prev => ({ ...prev, description: e.target.value }))}
+          onBlur={saveDescription}
+          placeholder={canEdit ? 'Add a description' : 'No description'}
+          rows={4}
+          disabled={!canEdit}
+        />
+      </div>
+
+      {/* Subtasks */}
+      {subtasks.length > 0 && (
+        <div className="space-y-2">
+          <Label>Subtasks</Label>
+          <div className="space-y-1">
+            {subtasks.map(subtask => {
+              const done = isDoneStatus(statuses, subtask.status);
+              return (
+                <div key={subtask.id} className="flex items-center space-x-2 rounded-md px-2 py-1 hover:bg-gray-50">
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6"
+                    onClick={() => toggleSubtask(subtask)}
+                    disabled={!canEdit}
+                    aria-label={done ? 'Mark as not done' : 'Mark as done'}
+                  >
+                    {done
+                      ? <CheckCircle2 className="h-4 w-4 text-green-600" />
+                      : <Circle className="h-4 w-4 text-gray-400" />}
+                  </Button>
+                  <button
+                    type="button"
+                    className={`flex-1 text-left text-sm hover:underline ${done ? 'line-through text-gray-500' : 'text-gray-900'}`}
+                    onClick={() => onOpenTask(subtask.id)}
+                  >
+                    {subtask.title}
+                  </button>
+                  <span className="text-xs text-gray-500">
+                    {subtask.assignedTo ? getName(subtask.assignedTo) : 'Unassigned'}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      <Separator />
+
+      {/* Attachments */}
+      <div className="space-y-2">
+        <Label>Attachments</Label>
+        <Attachments projectId={task.projectId} taskId={task.id} canUpload={canEdit} canDeleteAny={canDelete} />
+      </div>
+
+      <Separator />
+
+      {/* Comments */}
+      <TaskComments task={task} memberIds={memberIds} canDeleteAny={canDelete} onChange={onChange} />
+
+      <Separator />
+
+      {/* History */}
+      <div className="space-y-2">
+        <Label className="flex items-center">
+          <History className="mr-2 h-4 w-4" />
+          History
+        </Label>
+        {history.length === 0 ? (
+          <p className="text-sm text-gray-500">No changes recorded yet.</p>
+        ) : (
+          <ul className="space-y-2">
+            {[...history].reverse().map(event => (
+              <li key={event.id} className="text-sm">
+                <span className="font-medium text-gray-900">{event.userId ? getName(event.userId) : 'Someone'}</span>{' '}
+                <span className="text-gray-700">{describeEvent(event, formatValue)}</span>
+                <div className="text-xs text-gray-500">{format(new Date(event.createdAt), 'MMM d, yyyy h:mm a')}</div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TaskDetailPanel;
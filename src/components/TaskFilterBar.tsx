@@ -0,0 +1,174 @@
+import React from 'react';
+import { CalendarIcon, Filter, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover';
+import { AppUser, Project, TaskPriority, WorkflowStatus } from '@/services/repository';
+import { TASK_PRIORITIES } from '@/services/priority';
+import { DEFAULT_FILTERS, ME, TaskFilters, UNASSIGNED, countActiveFilters } from '@/services/taskFilters';
+
+interface TaskFilterBarProps {
+  filters: TaskFilters;
+  onChange: (changes: Partial<TaskFilters>) => void;
+  // Status columns across all workflows
+  statuses: WorkflowStatus[];
+  projects: Project[];
+  // Members of the projects, offered as assignees and creators
+  people: AppUser[];
+}
+
+interface FilterOption {
+  value: string;
+  label: string;
+}
+
+interface FilterMenuProps {
+  label: string;
+  options: FilterOption[];
+  selected: string[];
+  onChange: (selected: string[]) => void;
+}
+
+// A dropdown of checkboxes; nothing ticked means no filter
+const FilterMenu: React.FC<FilterMenuProps> = ({ label, options, selected, onChange }) => {
+  const summary = selected.length === 0
+    ? 'All'
+    : selected.length === 1
+      ? options.find(option => option.value === selected[0])?.label || selected[0]
+      : `${selected.length} selected`;
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Filter className="mr-2 h-4 w-4" />
+          {label}: {summary}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent className="max-h-80 overflow-y-auto">
+        {options.map(option => (
+          <DropdownMenuCheckboxItem
+            key={option.value}
+            checked={selected.includes(option.value)}
+            // Keep the menu open to tick several
+            onSelect={(e) => e.preventDefault()}
+            onCheckedChange={(checked) => onChange(
+              checked ? [...selected, option.value] : selected.filter(value => value !== option.value)
+            )}
+          >
+            {option.label}
+          </DropdownMenuCheckboxItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+const TaskFilterBar: React.FC<TaskFilterBarProps> = ({ filters, onChange, statuses, projects, people }) => {
+  const personOptions = [
+    { value: ME, label: 'Me' },
+    ...people.map(person => ({ value: person.id, label: person.name })),
+  ];
+  const dueSummary = filters.overdue
+    ? 'Overdue'
+    : filters.dueFrom || filters.dueTo
+      ? `${filters.dueFrom || '…'} – ${filters.dueTo || '…'}`
+      : 'Any';
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <FilterMenu
+        label="Status"
+        options={statuses.map(status => ({ value: status.name, label: status.name }))}
+        selected={filters.statuses}
+        onChange={(statuses) => onChange({ statuses })}
+      />
+      <FilterMenu
+        label="Project"
+        options={projects.map(project => ({ value: project.id, label: project.name }))}
+        selected={filters.projectIds}
+        onChange={(projectIds) => onChange({ projectIds })}
+      />
+      <FilterMenu
+        label="Assignee"
+        options={[...personOptions, { value: UNASSIGNED, label: 'Unassigned' }]}
+        selected={filters.assignees}
+        onChange={(assignees) => onChange({ assignees })}
+      />
+      <FilterMenu
+        label="Priority"
+        options={TASK_PRIORITIES.map(priority => ({ value: priority, label: priority }))}
+        selected={filters.priorities}
+        onChange={(priorities) => onChange({ priorities: priorities as TaskPriority[] })}
+      />
+      <FilterMenu
+        label="Created By"
+        options={personOptions}
+        selected={filters.creators}
+        onChange={(creators) => onChange({ creators })}
+      />
+
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button variant="outline" size="sm">
+            <CalendarIcon className="mr-2 h-4 w-4" />
+            Due: {dueSummary}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-64 space-y-3" align="start">
+          <div className="space-y-1">
+            <Label htmlFor="dueFrom">From</Label>
+            <Input
+              id="dueFrom"
+              type="date"
+              value={filters.dueFrom || ''}
+              onChange={(e) => onChange({ dueFrom: e.target.value || null })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="dueTo">To</Label>
+            <Input
+              id="dueTo"
+              type="date"
+              value={filters.dueTo || ''}
+              onChange={(e) => onChange({ dueTo: e.target.value || null })}
+            />
+          </div>
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="overdue"
+              checked={filters.overdue}
+              onCheckedChange={(checked) => onChange({ overdue: checked === true })}
+            />
+            <Label htmlFor="overdue">Overdue only</Label>
+          </div>
+        </PopoverContent>
+      </Popover>
+
+      {countActiveFilters(filters) > 0 && (
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => onChange({ ...DEFAULT_FILTERS, search: filters.search, sort: filters.sort })}
+        >
+          <X className="mr-2 h-4 w-4" />
+          Clear Filters
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default TaskFilterBar;
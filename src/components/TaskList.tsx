@@ -6,7 +6,11 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
 import { useAuth } from '@/contexts/AuthContext';
+import { useTaskPanel } from '@/hooks/use-task-panel';
 import { dataService, TaskData } from '@/services/dataService';
+import { PRIORITY_COLORS } from '@/services/priority';
+import TaskProgressBadge from './TaskProgressBadge';
+import BlockedBadge from './BlockedBadge';
 
 interface Task {
   id: string;
@@ -15,7 +19,7 @@ interface Task {
   assignee: string;
   dueDate: string;
   priority: 'High' | 'Medium' | 'Low';
-  status: 'To Do' | 'In Progress' | 'Done';
+  status: string;
 }
 
 interface TaskListProps {
@@ -25,8 +29,11 @@ interface TaskListProps {
 
 const TaskList: React.FC<TaskListProps> = ({ title, showAlert }) => {
   const { user } = useAuth();
+  const { openTask } = useTaskPanel();
   const [tasks, setTasks] = useState<TaskData[]>([]);
   const [loading, setLoading] = useState(true);
+  // Bumped after the task panel saves, to fetch the list again
+  const [refreshCount, setRefreshCount] = useState(0);
 
   useEffect(() => {
     const fetchTasks = async () => {
@@ -34,23 +41,14 @@ const TaskList: React.FC<TaskListProps> = ({ title, showAlert }) => {
 
       try {
         setLoading(true);
-        const taskData = await dataService.getRecentTasks(user, 5);
-
-        // Filter tasks based on the title
-        let filteredTasks = taskData;
-        if (title.includes('Due Today')) {
-          const today = new Date().toDateString();
-          filteredTasks = taskData.filter(task =>
-            new Date(task.dueDate).toDateString() === today && task.status !== 'Completed'
-          );
-        } else if (title.includes('Overdue')) {
-          const now = new Date();
-          filteredTasks = taskData.filter(task =>
-            new Date(task.dueDate) < now && task.status !== 'Completed'
-          );
-        }
-
-        setTasks(filteredTasks);
+        // Pick the list based on the title
+        const taskData = title.includes('Overdue')
+          ? await dataService.getDueTasks(user, 'overdue')
+          : title.includes('Due Today')
+            ? await dataService.getDueTasks(user, 'today')
+            : await dataService.getRecentTasks(user, 5);
+
+        setTasks(taskData);
       } catch (error) {
         console.error('Error fetching tasks:', error);
       } finally {
@@ -59,30 +57,13 @@ const TaskList: React.FC<TaskListProps> = ({ title, showAlert }) => {
     };
 
     fetchTasks();
-  }, [user, title]);
-
-  const getPriorityColor = (priority: string) => {
-    switch (priority) {
-      case 'High':
-        return 'bg-red-100 text-red-800';
-      case 'Medium':
-        return 'bg-yellow-100 text-yellow-800';
-      case 'Low':
-        return 'bg-green-100 text-green-800';
-      default:
-        return 'bg-gray-100 text-gray-800';
-    }
-  };
+  }, [user, title, refreshCount]);
 
-  const getStatusIcon = (status: string) => {
-    switch (status) {
-      case 'Done':
-        return <CheckCircle className="h-4 w-4 text-green-500" />;
-      case 'In Progress':
-        return <Clock className="h-4 w-4 text-blue-500" />;
-      default:
-        return <AlertCircle className="h-4 w-4 text-gray-400" />;
+  const getStatusIcon = (task: TaskData) => {
+    if (task.done) {
+      return <CheckCircle className="h-4 w-4 text-green-500" />;
     }
+    return <Clock className="h-4 w-4 text-blue-500" />;
   };
 
   return (
@@ -117,15 +98,25 @@ const TaskList: React.FC<TaskListProps> = ({ title, showAlert }) => {
             >
               <div className="flex items-start justify-between mb-2">
                 <div className="flex items-center space-x-2">
-                  {getStatusIcon(task.status)}
-                  <span className="font-medium text-gray-900">{task.title}</span>
+                  <span title={task.statusName}>{getStatusIcon(task)}</span>
+                  <button
+                    type="button"
+                    className="font-medium text-gray-900 text-left hover:underline"
+                    onClick={() => openTask(task.id, () => setRefreshCount(count => count + 1))}
+                  >
+                    {task.title}
+                  </button>
+                  <BlockedBadge blockers={task.blockers} />
                 </div>
-                <Badge className={getPriorityColor(task.priority || 'Medium')}>
-                  {task.priority || 'Medium'}
+                <Badge className={PRIORITY_COLORS[task.priority]}>
+                  {task.priority}
                 </Badge>
               </div>
 
-              <div className="text-sm text-gray-600 mb-2">{task.projectName}</div>
+              <div className="flex items-center justify-between text-sm text-gray-600 mb-2">
+                <span>{task.projectName}</span>
+                <TaskProgressBadge progress={task.progress} />
+              </div>
 
               <div className="flex items-center justify-between">
                 <div className="flex items-center space-x-2">
@@ -0,0 +1,24 @@
+import React from 'react';
+import { ListChecks } from 'lucide-react';
+import { TaskProgress } from '@/services/subtasks';
+
+interface TaskProgressBadgeProps {
+  progress: TaskProgress | null;
+}
+
+const TaskProgressBadge: React.FC<TaskProgressBadgeProps> = ({ progress }) => {
+  if (!progress) return null;
+
+  const complete = progress.done === progress.total;
+  return (
+    <span
+      className={`inline-flex items-center text-xs ${complete ? 'text-green-600' : 'text-gray-600'}`}
+      title="Subtasks and checklist items done"
+    >
+      <ListChecks className="mr-1 h-3 w-3" />
+      {progress.done}/{progress.total}
+    </span>
+  );
+};
+
+export default TaskProgressBadge;
@@ -0,0 +1,507 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { format } from 'date-fns';
+import { ArrowDown, ArrowUp, ArrowUpDown, ExternalLink, ListTree, SlidersHorizontal } from 'lucide-react';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AppUser, Project, Task, TaskChanges, TaskPriority, WorkflowStatus } from '@/services/repository';
+import { useAuth } from '@/contexts/AuthContext';
+import { findStatus, getProjectStatuses, getStatusColor, isDoneStatus, mapStatus } from '@/services/workflow';
+import { getMemberIds } from '@/services/membership';
+import { can } from '@/services/permissions';
+import { PRIORITY_COLORS, TASK_PRIORITIES } from '@/services/priority';
+import { validateRecurrence } from '@/services/recurrence';
+import { toast } from '@/hooks/use-toast';
+import {
+  COLUMN_LABELS,
+  ColumnValues,
+  DEFAULT_TABLE_PREFERENCES,
+  MIN_COLUMN_WIDTH,
+  TASK_COLUMNS,
+  TablePreferences,
+  TaskColumn,
+  getColumnWidth,
+  getNextSort,
+  groupTasks,
+  sortTasks,
+} from '@/services/taskTable';
+
+interface TaskTableProps {
+  tasks: Task[];
+  preferences: TablePreferences;
+  onPreferencesChange: (preferences: TablePreferences) => void;
+  projects: Project[];
+  // Board columns, which set the order statuses sort in
+  statuses: WorkflowStatus[];
+  getTaskStatuses: (task: Task) => WorkflowStatus[];
+  hasSubtasks: (task: Task) => boolean;
+  people: AppUser[];
+  getUserName: (userId: string | null) => string;
+  onUpdateTask: (task: Task, changes: TaskChanges) => void;
+  onOpenTask: (task: Task) => void;
+  selectedIds: Set<string>;
+  onSelect: (taskId: string, shiftKey: boolean) => void;
+}
+
+const UNASSIGNED = 'unassigned';
+
+// Width of the selection column, which can't be resized
+const SELECT_COLUMN_WIDTH = 40;
+
+// Selects and inputs that read as plain text until hovered or focused
+const CELL_CONTROL = 'h-8 border-transparent bg-transparent px-2 shadow-none hover:border-input focus:border-input';
+
+const toDateInput = (value: string | null): string => (value ? value.slice(0, 10) : '');
+
+const reportError = (error: string) => {
+  toast({ title: 'Could not update task', description: error, variant: 'destructive' });
+};
+
+// Saved on blur or Enter; Escape puts the title back
+const TitleCell: React.FC<{ task: Task; disabled: boolean; onSave: (title: string) => void }> = ({
+  task,
+  disabled,
+  onSave,
+}) => {
+  const [draft, setDraft] = useState(task.title);
+  // Escape blurs too, and the blur shouldn't save the draft it just discarded
+  const discarding = useRef(false);
+
+  useEffect(() => {
+    setDraft(task.title);
+  }, [task.title]);
+
+  const save = () => {
+    if (discarding.current) {
+      discarding.current = false;
+      return;
+    }
+    const title = draft.trim();
+    if (!title) {
+      reportError('Task title is required');
+      setDraft(task.title);
+      return;
+    }
+    if (title !== task.title) onSave(title);
+  };
+
+  return (
+    <Input
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={save}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') e.currentTarget.blur();
+        if (e.key === 'Escape') {
+          discarding.current = true;
+          setDraft(task.title);
+          e.currentTarget.blur();
+        }
+      }}
+      className={`${CELL_CONTROL} font-medium`}
+      aria-label="Title"
+      disabled={disabled}
+    />
+  );
+};
+
+// Saves on blur or Enter like the title, since typing a date fires a change for every part of it
+const DueDateCell: React.FC<{ task: Task; disabled: boolean; onSave: (dueDate: string) => void }> = ({
+  task,
+  disabled,
+  onSave,
+}) => {
+  const [draft, setDraft] = useState(toDateInput(task.dueDate));
+  const discarding = useRef(false);
+
+  useEffect(() => {
+    setDraft(toDateInput(task.dueDate));
+  }, [task.dueDate]);
+
+  const save = () => {
+    if (discarding.current) {
+      discarding.current = false;
+      return;
+    }
+    if (draft === toDateInput(task.dueDate)) return;
+    const error = !draft
+      ? 'A due date is required'
+      : task.startDate && toDateInput(task.startDate) > draft
+        ? 'The start date must be on or before the due date'
+        : task.recurrence && validateRecurrence(task.recurrence, draft);
+    if (error) {
+      reportError(error);
+      setDraft(toDateInput(task.dueDate));
+      return;
+    }
+    onSave(draft);
+  };
+
+  return (
+    <Input
+      type="date"
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={save}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') e.currentTarget.blur();
+        if (e.key === 'Escape') {
+          discarding.current = true;
+          setDraft(toDateInput(task.dueDate));
+          e.currentTarget.blur();
+        }
+      }}
+      className={CELL_CONTROL}
+      aria-label="Due date"
+      disabled={disabled}
+    />
+  );
+};
+
+const TaskTable: React.FC<TaskTableProps> = ({
+  tasks,
+  preferences,
+  onPreferencesChange,
+  projects,
+  statuses,
+  getTaskStatuses,
+  hasSubtasks,
+  people,
+  getUserName,
+  onUpdateTask,
+  onOpenTask,
+  selectedIds,
+  onSelect,
+}) => {
+  const { user } = useAuth();
+  // The column being resized and its width so far, saved when the drag ends
+  const [resizing, setResizing] = useState<{ column: TaskColumn; width: number } | null>(null);
+
+  const columns = TASK_COLUMNS.filter(column => !preferences.hidden.includes(column));
+  const getWidth = (column: TaskColumn) =>
+    resizing?.column === column ? resizing.width : getColumnWidth(preferences, column);
+  const tableWidth = SELECT_COLUMN_WIDTH + columns.reduce((total, column) => total + getWidth(column), 0);
+
+  const getProject = (task: Task) => projects.find(project => project.id === task.projectId);
+  const getStatusName = (task: Task) => findStatus(getTaskStatuses(task), task.status).name;
+
+  const values: ColumnValues = {
+    getProjectName: (task) => getProject(task)?.name || task.projectName || '',
+    getAssigneeName: (task) => getUserName(task.assignedTo),
+    getStatusName,
+    getStatusPosition: (task) => {
+      const name = getStatusName(task).toLowerCase();
+      const position = statuses.findIndex(status => status.name.toLowerCase() === name);
+      return position === -1 ? statuses.length : position;
+    },
+  };
+
+  const rows = sortTasks(tasks, preferences.sort, values);
+  const groups = preferences.groupBy ? groupTasks(rows, preferences.groupBy, values) : [{ label: '', tasks: rows }];
+
+  const update = (changes: Partial<TablePreferences>) => onPreferencesChange({ ...preferences, ...changes });
+
+  const toggleColumn = (column: TaskColumn, visible: boolean) => update({
+    hidden: visible ? preferences.hidden.filter(hidden => hidden !== column) : [...preferences.hidden, column],
+  });
+
+  const startResize = (column: TaskColumn, e: React.PointerEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const startX = e.clientX;
+    const startWidth = getColumnWidth(preferences, column);
+    const widthAt = (event: PointerEvent) => Math.max(MIN_COLUMN_WIDTH, Math.round(startWidth + event.clientX - startX));
+
+    const handleMove = (event: PointerEvent) => setResizing({ column, width: widthAt(event) });
+    const handleUp = (event: PointerEvent) => {
+      document.removeEventListener('pointermove', handleMove);
+      setResizing(null);
+      update({ widths: { ...preferences.widths, [column]: widthAt(event) } });
+    };
+    document.addEventListener('pointermove', handleMove);
+    document.addEventListener('pointerup', handleUp, { once: true });
+  };
+
+  // Double-clicking the handle goes back to the default width
+  const resetWidth = (column: TaskColumn) => {
+    const widths = { ...preferences.widths };
+    delete widths[column];
+    update({ widths });
+  };
+
+  const renderCell = (task: Task, column: TaskColumn) => {
+    const project = getProject(task);
+    const taskStatuses = getTaskStatuses(task);
+    const canEdit = can(project, user?.id, 'tasks:edit');
+
+    switch (column) {
+      case 'title':
+        return (
+          <div className="flex items-center">
+            <TitleCell task={task} disabled={!canEdit} onSave={(title) => onUpdateTask(task, { title })} />
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 w-7 p-0 shrink-0 text-gray-400 hover:text-gray-700"
+              onClick={() => onOpenTask(task)}
+              aria-label={`Open ${task.title}`}
+            >
+              <ExternalLink className="h-4 w-4" />
+            </Button>
+          </div>
+        );
+      case 'project': {
+        // Subtasks stay in their parent's project and parents with their subtasks, and the assignee
+        // has to be a member of the new one
+        const targets = projects.filter(target =>
+          target.id === task.projectId || (
+            can(target, user?.id, 'tasks:create') &&
+            (!task.assignedTo || getMemberIds(target).includes(task.assignedTo))
+          )
+        );
+        return (
+          <Select
+            value={task.projectId}
+            onValueChange={(projectId) => onUpdateTask(task, {
+              projectId,
+              status: mapStatus(taskStatuses, task.status, getProjectStatuses(projects.find(target => target.id === projectId))),
+            })}
+            disabled={!canEdit || Boolean(task.parentId) || hasSubtasks(task)}
+          >
+            <SelectTrigger className={CELL_CONTROL}>
+              <SelectValue>{values.getProjectName(task)}</SelectValue>
+            </SelectTrigger>
+            <SelectContent>
+              {targets.map(target => (
+                <SelectItem key={target.id} value={target.id}>{target.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+      }
+      case 'assignee': {
+        const memberIds = getMemberIds(project);
+        return (
+          <Select
+            value={task.assignedTo || UNASSIGNED}
+            onValueChange={(value) => onUpdateTask(task, { assignedTo: value === UNASSIGNED ? null : value })}
+            disabled={!can(project, user?.id, 'tasks:assign')}
+          >
+            <SelectTrigger className={CELL_CONTROL}>
+              <SelectValue>{getUserName(task.assignedTo)}</SelectValue>
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+              {people.filter(person => memberIds.includes(person.id)).map(person => (
+                <SelectItem key={person.id} value={person.id}>{person.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+      }
+      case 'status':
+        return (
+          <Select value={task.status} onValueChange={(status) => onUpdateTask(task, { status })} disabled={!canEdit}>
+            <SelectTrigger className={CELL_CONTROL}>
+              <SelectValue>
+                <Badge className={getStatusColor(taskStatuses, task.status)}>{getStatusName(task)}</Badge>
+              </SelectValue>
+            </SelectTrigger>
+            <SelectContent>
+              {taskStatuses.map(status => (
+                <SelectItem key={status.id} value={status.id}>{status.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+      case 'priority':
+        return (
+          <Select
+            value={task.priority}
+            onValueChange={(priority) => onUpdateTask(task, { priority: priority as TaskPriority })}
+            disabled={!canEdit}
+          >
+            <SelectTrigger className={CELL_CONTROL}>
+              <SelectValue>
+                <Badge className={PRIORITY_COLORS[task.priority]}>{task.priority}</Badge>
+              </SelectValue>
+            </SelectTrigger>
+            <SelectContent>
+              {TASK_PRIORITIES.map(priority => (
+                <SelectItem key={priority} value={priority}>{priority}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+      case 'dueDate':
+        return <DueDateCell task={task} disabled={!canEdit} onSave={(dueDate) => onUpdateTask(task, { dueDate })} />;
+      case 'createdAt':
+        // When a task was created never changes
+        return <span className="px-2 text-gray-600">{format(new Date(task.createdAt), 'MMM d, yyyy')}</span>;
+    }
+  };
+
+  const renderSortIcon = (column: TaskColumn) => {
+    if (preferences.sort?.column !== column) return <ArrowUpDown className="ml-1 h-3 w-3 text-gray-300" />;
+    return preferences.sort.direction === 'asc'
+      ? <ArrowUp className="ml-1 h-3 w-3" />
+      : <ArrowDown className="ml-1 h-3 w-3" />;
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-end space-x-2">
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm">
+              <ListTree className="mr-2 h-4 w-4" />
+              Group: {preferences.groupBy ? COLUMN_LABELS[preferences.groupBy] : 'None'}
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuRadioGroup
+              value={preferences.groupBy || 'none'}
+              onValueChange={(value) => update({ groupBy: value === 'none' ? null : value as TaskColumn })}
+            >
+              <DropdownMenuRadioItem value="none">None</DropdownMenuRadioItem>
+              {TASK_COLUMNS.map(column => (
+                <DropdownMenuRadioItem key={column} value={column}>{COLUMN_LABELS[column]}</DropdownMenuRadioItem>
+              ))}
+            </DropdownMenuRadioGroup>
+          </DropdownMenuContent>
+        </DropdownMenu>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm">
+              <SlidersHorizontal className="mr-2 h-4 w-4" />
+              Columns
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuLabel>Show columns</DropdownMenuLabel>
+            {TASK_COLUMNS.filter(column => column !== 'title').map(column => (
+              <DropdownMenuCheckboxItem
+                key={column}
+                checked={!preferences.hidden.includes(column)}
+                onCheckedChange={(checked) => toggleColumn(column, checked)}
+                // Stays open so several columns can be changed at once
+                onSelect={(e) => e.preventDefault()}
+              >
+                {COLUMN_LABELS[column]}
+              </DropdownMenuCheckboxItem>
+            ))}
+            <DropdownMenuSeparator />
+            <DropdownMenuItem onClick={() => onPreferencesChange(DEFAULT_TABLE_PREFERENCES)}>
+              Reset table
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+
+      <div className="rounded-md border bg-white">
+        <Table className="table-fixed" style={{ width: tableWidth }}>
+          <colgroup>
+            <col style={{ width: SELECT_COLUMN_WIDTH }} />
+            {columns.map(column => (
+              <col key={column} style={{ width: getWidth(column) }} />
+            ))}
+          </colgroup>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="px-3" />
+              {columns.map(column => (
+                <TableHead
+                  key={column}
+                  className="relative h-10 px-2"
+                  aria-sort={preferences.sort?.column === column
+                    ? (preferences.sort.direction === 'asc' ? 'ascending' : 'descending')
+                    : 'none'}
+                >
+                  <button
+                    type="button"
+                    className="flex w-full items-center px-2 text-left hover:text-gray-900"
+                    onClick={() => update({ sort: getNextSort(preferences.sort, column) })}
+                  >
+                    <span className="truncate">{COLUMN_LABELS[column]}</span>
+                    {renderSortIcon(column)}
+                  </button>
+                  <div
+                    role="separator"
+                    aria-orientation="vertical"
+                    aria-label={`Resize ${COLUMN_LABELS[column]} column`}
+                    className={`absolute right-0 top-0 h-full w-1.5 cursor-col-resize select-none touch-none hover:bg-blue-300 ${
+                      resizing?.column === column ? 'bg-blue-400' : ''
+                    }`}
+                    onPointerDown={(e) => startResize(column, e)}
+                    onDoubleClick={() => resetWidth(column)}
+                  />
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {groups.map(group => (
+              <React.Fragment key={group.label}>
+                {preferences.groupBy && (
+                  <TableRow className="bg-gray-50 hover:bg-gray-50">
+                    <TableCell colSpan={columns.length + 1} className="py-2 font-medium text-gray-700">
+                      {group.label || 'None'}
+                      <span className="ml-2 text-xs font-normal text-gray-500">{group.tasks.length}</span>
+                    </TableCell>
+                  </TableRow>
+                )}
+                {group.tasks.map(task => (
+                  <TableRow
+                    key={task.id}
+                    data-state={selectedIds.has(task.id) ? 'selected' : undefined}
+                    className={isDoneStatus(getTaskStatuses(task), task.status) ? 'text-gray-500' : ''}
+                  >
+                    <TableCell className="px-3 py-1">
+                      <Checkbox
+                        checked={selectedIds.has(task.id)}
+                        // Handled on click, which knows whether shift was held
+                        onClick={(e) => {
+                          e.preventDefault();
+                          onSelect(task.id, e.shiftKey);
+                        }}
+                        aria-label={`Select ${task.title}`}
+                      />
+                    </TableCell>
+                    {columns.map(column => (
+                      <TableCell key={column} className="px-1 py-1">
+                        {renderCell(task, column)}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </React.Fragment>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+};
+
+export default TaskTable;
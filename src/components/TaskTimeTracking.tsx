@@ -0,0 +1,195 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Clock, Play, Plus, Square, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { repository, Task, TimeEntry } from '@/services/repository';
+import { useAuth } from '@/contexts/AuthContext';
+import { formatDuration, formatTimer, getEntryMinutes, getTotalMinutes, parseDuration } from '@/services/timeTracking';
+import { toDateValue } from '@/services/timeline';
+
+interface TaskTimeTrackingProps {
+  task: Task;
+  // Called after time is logged, a timer starts or stops, or an entry is removed
+  onChange?: () => void;
+}
+
+const today = () => toDateValue(new Date());
+
+const TaskTimeTracking: React.FC<TaskTimeTrackingProps> = ({ task, onChange }) => {
+  const { user } = useAuth();
+  const [entries, setEntries] = useState<TimeEntry[]>([]);
+  // The user's running timer, which may be on another task
+  const [running, setRunning] = useState<TimeEntry | null>(null);
+  const [userNames, setUserNames] = useState<Record<string, string>>({});
+  const [date, setDate] = useState(today());
+  const [duration, setDuration] = useState('');
+  const [note, setNote] = useState('');
+  const [error, setError] = useState('');
+  const [now, setNow] = useState(new Date());
+
+  const fetchEntries = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      const [taskEntries, runningEntry] = await Promise.all([
+        repository.timeEntries.listByTask(task.id),
+        repository.timeEntries.getRunning(user.id),
+      ]);
+      const people = await repository.users.resolve(taskEntries.map(entry => entry.userId));
+      setEntries(taskEntries);
+      setRunning(runningEntry);
+      setUserNames(Object.fromEntries(people.map(person => [person.id, person.name])));
+    } catch (err) {
+      console.error('Error fetching time entries:', err);
+    }
+  }, [task.id, user]);
+
+  useEffect(() => {
+    setDuration('');
+    setNote('');
+    setError('');
+    fetchEntries();
+  }, [fetchEntries]);
+
+  // Tick the running timer's clock
+  const timerOnTask = running?.taskId === task.id;
+  useEffect(() => {
+    if (!timerOnTask) return;
+    const interval = window.setInterval(() => setNow(new Date()), 1000);
+    return () => window.clearInterval(interval);
+  }, [timerOnTask]);
+
+  const runChange = async (change: () => Promise<unknown>, failure: string) => {
+    setError('');
+    try {
+      await change();
+      await fetchEntries();
+      onChange?.();
+    } catch (err) {
+      console.error(failure, err);
+      setError(err instanceof Error ? err.message : failure);
+    }
+  };
+
+  const handleStart = () => runChange(() => repository.timeEntries.create({
+    taskId: task.id,
+    userId: user.id,
+    startedAt: new Date().toISOString(),
+    durationMinutes: null,
+    note: '',
+  }), 'Failed to start timer');
+
+  const handleStop = () => runChange(() => repository.timeEntries.stop(running.id), 'Failed to stop timer');
+
+  const handleAdd = async () => {
+    const minutes = parseDuration(duration);
+    if (!minutes) {
+      setError('Enter a duration such as 1h 30m, 1:30 or 1.5');
+      return;
+    }
+    await runChange(() => repository.timeEntries.create({
+      taskId: task.id,
+      userId: user.id,
+      // Noon keeps the entry on the chosen day in any timezone
+      startedAt: new Date(`${date}T12:00:00`).toISOString(),
+      durationMinutes: minutes,
+      note: note.trim(),
+    }), 'Failed to log time');
+    setDuration('');
+    setNote('');
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label className="flex items-center justify-between">
+        <span className="flex items-center">
+          <Clock className="mr-2 h-4 w-4" />
+          Time Tracking
+        </span>
+        <span className="text-sm font-normal text-gray-500">{formatDuration(getTotalMinutes(entries, now))} logged</span>
+      </Label>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="flex items-center space-x-2">
+        {timerOnTask ? (
+          <Button type="button" variant="outline" size="sm" onClick={handleStop}>
+            <Square className="mr-2 h-4 w-4 text-red-500" />
+            Stop {formatTimer(running.startedAt, now)}
+          </Button>
+        ) : (
+          <Button type="button" variant="outline" size="sm" onClick={handleStart}>
+            <Play className="mr-2 h-4 w-4 text-green-600" />
+            Start Timer
+          </Button>
+        )}
+        {running && !timerOnTask && (
+          <span className="text-xs text-gray-500">Starting stops your timer on another task</span>
+        )}
+      </div>
+
+      <div className="flex space-x-2">
+        <Input
+          type="date"
+          value={date}
+          onChange={(e) => setDate(e.target.value || today())}
+          className="h-8 w-36"
+          aria-label="Date worked"
+        />
+        <Input
+          value={duration}
+          onChange={(e) => setDuration(e.target.value)}
+          placeholder="1h 30m"
+          className="h-8 w-24"
+          aria-label="Duration"
+        />
+        <Input
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              handleAdd();
+            }
+          }}
+          placeholder="Note"
+          className="h-8 flex-1"
+        />
+        <Button type="button" variant="outline" size="sm" onClick={handleAdd} disabled={!duration.trim()}>
+          <Plus className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {entries.map(entry => (
+        <div key={entry.id} className="flex items-center justify-between text-sm">
+          <span className="text-gray-700">
+            <span className="font-medium">{entry.durationMinutes === null ? 'Running' : formatDuration(getEntryMinutes(entry, now))}</span>
+            {' · '}
+            {userNames[entry.userId] || 'Unknown User'}
+            {' · '}
+            {new Date(entry.startedAt).toLocaleDateString()}
+            {entry.note && <span className="text-gray-500"> · {entry.note}</span>}
+          </span>
+          {entry.userId === user?.id && entry.durationMinutes !== null && (
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => runChange(() => repository.timeEntries.remove(entry.id), 'Failed to remove time entry')}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default TaskTimeTracking;
@@ -0,0 +1,284 @@
+import React, { useMemo, useState } from 'react';
+import { CalendarRange } from 'lucide-react';
+import { addDays, differenceInCalendarDays, format, isWeekend, max, min, startOfToday } from 'date-fns';
+import { Card, CardContent } from '@/components/ui/card';
+import { Task, TaskChanges, TaskDependency } from '@/services/repository';
+import { RescheduleMode, getCriticalPath, getTaskSpan, shiftTaskSpan, toDay } from '@/services/timeline';
+
+interface TimelineViewProps {
+  tasks: Task[];
+  // Blocked-by links; arrows run from each blocker to the task it blocks
+  links: TaskDependency[];
+  // Tasks on the critical path are the ones that would push this date back
+  projectDueDate?: string | null;
+  isDone: (task: Task) => boolean;
+  // Gets the new startDate and dueDate after a bar is dragged
+  onReschedule: (taskId: string, changes: TaskChanges) => void;
+  readOnly?: boolean;
+}
+
+interface Drag {
+  taskId: string;
+  mode: RescheduleMode;
+  originX: number;
+  days: number;
+}
+
+const DAY_WIDTH = 32;
+const ROW_HEIGHT = 40;
+const HEADER_HEIGHT = 48;
+const LABEL_WIDTH = 220;
+const BAR_HEIGHT = 24;
+// Days of empty space around the earliest and latest dates
+const PADDING_DAYS = 3;
+
+const TimelineView: React.FC<TimelineViewProps> = ({
+  tasks,
+  links,
+  projectDueDate,
+  isDone,
+  onReschedule,
+  readOnly = false,
+}) => {
+  const [drag, setDrag] = useState<Drag | null>(null);
+
+  const critical = useMemo(
+    () => getCriticalPath(tasks, links, projectDueDate || null, isDone),
+    [tasks, links, projectDueDate, isDone]
+  );
+
+  // Earliest first, so blockers tend to sit above the tasks they block
+  const rows = useMemo(() => [...tasks].sort((a, b) => {
+    const spanA = getTaskSpan(a);
+    const spanB = getTaskSpan(b);
+    return spanA.start.getTime() - spanB.start.getTime() || spanA.end.getTime() - spanB.end.getTime();
+  }), [tasks]);
+
+  if (tasks.length === 0) {
+    return (
+      <Card>
+        <CardContent className="p-12 text-center">
+          <CalendarRange className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-2">Nothing to schedule yet</h3>
+          <p className="text-gray-600">Tasks show up here once they are added to the project.</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const today = startOfToday();
+  const deadline = projectDueDate ? toDay(projectDueDate) : null;
+
+  // Shows where a bar will land while it is being dragged
+  const getSpan = (task: Task) => drag?.taskId === task.id
+    ? getTaskSpan(shiftTaskSpan(task, drag.mode, drag.days))
+    : getTaskSpan(task);
+
+  const spans = rows.map(getSpan);
+  const rangeStart = addDays(min([...spans.map(span => span.start), today, ...(deadline ? [deadline] : [])]), -PADDING_DAYS);
+  const rangeEnd = addDays(max([...spans.map(span => span.end), today, ...(deadline ? [deadline] : [])]), PADDING_DAYS);
+  const days = Array.from({ length: differenceInCalendarDays(rangeEnd, rangeStart) + 1 }, (_, i) => addDays(rangeStart, i));
+  const chartWidth = days.length * DAY_WIDTH;
+  const offsetOf = (date: Date) => differenceInCalendarDays(date, rangeStart) * DAY_WIDTH;
+
+  const rowIndex = new Map(rows.map((task, index) => [task.id, index]));
+  const rowCenter = (index: number) => index * ROW_HEIGHT + ROW_HEIGHT / 2;
+
+  const startDrag = (event: React.PointerEvent, task: Task, mode: RescheduleMode) => {
+    if (readOnly || event.button !== 0) return;
+    event.stopPropagation();
+    event.currentTarget.setPointerCapture(event.pointerId);
+    setDrag({ taskId: task.id, mode, originX: event.clientX, days: 0 });
+  };
+
+  const moveDrag = (event: React.PointerEvent) => {
+    if (!drag) return;
+    const days = Math.round((event.clientX - drag.originX) / DAY_WIDTH);
+    if (days !== drag.days) setDrag({ ...drag, days });
+  };
+
+  const endDrag = (task: Task) => {
+    if (!drag) return;
+    if (drag.days !== 0) onReschedule(task.id, shiftTaskSpan(task, drag.mode, drag.days));
+    setDrag(null);
+  };
+
+  // Arrow keys shift the bar a day at a time; with Shift they move the due date only
+  const handleKeyDown = (event: React.KeyboardEvent, task: Task) => {
+    if (readOnly || (event.key !== 'ArrowLeft' && event.key !== 'ArrowRight')) return;
+    event.preventDefault();
+    const days = event.key === 'ArrowLeft' ? -1 : 1;
+    onReschedule(task.id, shiftTaskSpan(task, event.shiftKey ? 'end' : 'move', days));
+  };
+
+  const getBarColor = (task: Task) => {
+    if (isDone(task)) return 'bg-green-200 text-green-900';
+    if (critical.has(task.id)) return 'bg-red-500 text-white';
+    return 'bg-blue-500 text-white';
+  };
+
+  const arrows = links
+    .filter(link => rowIndex.has(link.taskId) && rowIndex.has(link.blockedById))
+    .map(link => {
+      const from = rowIndex.get(link.blockedById);
+      const to = rowIndex.get(link.taskId);
+      const x1 = offsetOf(spans[from].end) + DAY_WIDTH;
+      const x2 = offsetOf(spans[to].start);
+      const y1 = rowCenter(from);
+      const y2 = rowCenter(to);
+      return {
+        key: `${link.blockedById}-${link.taskId}`,
+        path: `M ${x1} ${y1} h 8 V ${y2} H ${x2 - 2}`,
+        critical: critical.has(link.taskId) && critical.has(link.blockedById),
+      };
+    });
+
+  return (
+    <Card>
+      <CardContent className="p-0">
+        <div className="overflow-x-auto">
+          <div className="relative" style={{ width: LABEL_WIDTH + chartWidth }}>
+            {/* Day header */}
+            <div className="flex border-b" style={{ height: HEADER_HEIGHT }}>
+              <div
+                className="sticky left-0 z-20 flex items-end bg-white border-r px-4 pb-2 text-sm font-medium text-gray-600"
+                style={{ width: LABEL_WIDTH, minWidth: LABEL_WIDTH }}
+              >
+                Task
+              </div>
+              {days.map((day, index) => (
+                <div
+                  key={day.toISOString()}
+                  className={`flex flex-col items-center justify-end pb-2 text-xs border-r ${isWeekend(day) ? 'bg-gray-50 text-gray-400' : 'text-gray-600'}`}
+                  style={{ width: DAY_WIDTH, minWidth: DAY_WIDTH }}
+                >
+                  {(index === 0 || day.getDate() === 1) && (
+                    <span className="font-medium text-gray-900">{format(day, 'MMM')}</span>
+                  )}
+                  <span>{format(day, 'd')}</span>
+                </div>
+              ))}
+            </div>
+
+            {/* Rows */}
+            <div className="relative">
+              {/* Weekend shading and the today and project due date markers */}
+              <div className="absolute inset-y-0 pointer-events-none" style={{ left: LABEL_WIDTH, width: chartWidth }}>
+                {days.map(day => isWeekend(day) && (
+                  <div
+                    key={day.toISOString()}
+                    className="absolute inset-y-0 bg-gray-50"
+                    style={{ left: offsetOf(day), width: DAY_WIDTH }}
+                  />
+                ))}
+                <div
+                  className="absolute inset-y-0 w-px bg-blue-400"
+                  style={{ left: offsetOf(today) + DAY_WIDTH / 2 }}
+                  title="Today"
+                />
+                {deadline && (
+                  <div
+                    className="absolute inset-y-0 border-l-2 border-dashed border-red-400"
+                    style={{ left: offsetOf(deadline) + DAY_WIDTH }}
+                    title={`Project due ${format(deadline, 'PP')}`}
+                  />
+                )}
+              </div>
+
+              {rows.map((task, index) => {
+                const span = spans[index];
+                const left = offsetOf(span.start);
+                const width = (differenceInCalendarDays(span.end, span.start) + 1) * DAY_WIDTH;
+                const dates = `${format(span.start, 'PP')} – ${format(span.end, 'PP')}`;
+
+                return (
+                  <div key={task.id} className="flex border-b last:border-b-0" style={{ height: ROW_HEIGHT }}>
+                    <div
+                      className="sticky left-0 z-10 flex items-center bg-white border-r px-4 text-sm"
+                      style={{ width: LABEL_WIDTH, minWidth: LABEL_WIDTH }}
+                    >
+                      <span className={`truncate ${isDone(task) ? 'text-gray-400 line-through' : 'text-gray-900'}`} title={task.title}>
+                        {task.title}
+                      </span>
+                    </div>
+                    <div className="relative" style={{ width: chartWidth }}>
+                      <div
+                        role="button"
+                        tabIndex={0}
+                        aria-label={`${task.title}, ${dates}${critical.has(task.id) ? ', on the critical path' : ''}`}
+                        title={dates}
+                        className={`absolute z-10 flex items-center rounded px-2 text-xs font-medium shadow-sm select-none touch-none focus:outline-none focus:ring-2 focus:ring-blue-300 ${getBarColor(task)} ${readOnly ? '' : 'cursor-grab'} ${drag?.taskId === task.id ? 'cursor-grabbing opacity-80' : ''}`}
+                        style={{ left: left + 2, width: width - 4, top: (ROW_HEIGHT - BAR_HEIGHT) / 2, height: BAR_HEIGHT }}
+                        onPointerDown={event => startDrag(event, task, 'move')}
+                        onPointerMove={moveDrag}
+                        onPointerUp={() => endDrag(task)}
+                        onPointerCancel={() => setDrag(null)}
+                        onKeyDown={event => handleKeyDown(event, task)}
+                      >
+                        {/* Edge handles; their pointer events bubble up to the bar */}
+                        {!readOnly && (
+                          <span
+                            className="absolute inset-y-0 left-0 w-2 cursor-ew-resize"
+                            onPointerDown={event => startDrag(event, task, 'start')}
+                          />
+                        )}
+                        <span className="truncate">{task.title}</span>
+                        {!readOnly && (
+                          <span
+                            className="absolute inset-y-0 right-0 w-2 cursor-ew-resize"
+                            onPointerDown={event => startDrag(event, task, 'end')}
+                          />
+                        )}
+                      </div>
+                    </div>
+                  </div>
+                );
+              })}
+
+              {/* Dependency arrows */}
+              <svg
+                className="absolute top-0 pointer-events-none z-10"
+                style={{ left: LABEL_WIDTH }}
+                width={chartWidth}
+                height={rows.length * ROW_HEIGHT}
+              >
+                <defs>
+                  <marker id="timeline-arrow" markerWidth="6" markerHeight="6" refX="5" refY="3" orient="auto">
+                    <path d="M0,0 L6,3 L0,6 z" fill="#6b7280" />
+                  </marker>
+                  <marker id="timeline-arrow-critical" markerWidth="6" markerHeight="6" refX="5" refY="3" orient="auto">
+                    <path d="M0,0 L6,3 L0,6 z" fill="#ef4444" />
+                  </marker>
+                </defs>
+                {arrows.map(arrow => (
+                  <path
+                    key={arrow.key}
+                    d={arrow.path}
+                    fill="none"
+                    stroke={arrow.critical ? '#ef4444' : '#6b7280'}
+                    strokeWidth={1.5}
+                    markerEnd={`url(#${arrow.critical ? 'timeline-arrow-critical' : 'timeline-arrow'})`}
+                  />
+                ))}
+              </svg>
+            </div>
+          </div>
+        </div>
+
+        {/* Legend */}
+        <div className="flex flex-wrap items-center gap-4 border-t px-4 py-3 text-xs text-gray-600">
+          <span className="flex items-center gap-1"><span className="h-3 w-3 rounded bg-red-500" />Critical path</span>
+          <span className="flex items-center gap-1"><span className="h-3 w-3 rounded bg-blue-500" />Has slack</span>
+          <span className="flex items-center gap-1"><span className="h-3 w-3 rounded bg-green-200" />Done</span>
+          <span className="flex items-center gap-1"><span className="h-3 w-px bg-blue-400" />Today</span>
+          {deadline && (
+            <span className="flex items-center gap-1"><span className="h-3 border-l-2 border-dashed border-red-400" />Project due</span>
+          )}
+          {!readOnly && <span className="ml-auto">Drag a bar or its edges to reschedule</span>}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TimelineView;
@@ -0,0 +1,95 @@
+import React from 'react';
+import { Bar, BarChart, CartesianGrid, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { EstimateUnit, Task } from '@/services/repository';
+import { ESTIMATE_UNIT_LABELS, formatEstimate, getAverageVelocity, getVelocity } from '@/services/estimates';
+
+interface VelocityChartProps {
+  tasks: Task[];
+  unit: EstimateUnit;
+  isDone: (task: Task) => boolean;
+}
+
+const WEEKS = 8;
+
+const VelocityChart: React.FC<VelocityChartProps> = ({ tasks, unit, isDone }) => {
+  const velocity = getVelocity(tasks, WEEKS);
+  const average = getAverageVelocity(velocity);
+  const open = tasks.filter(task => !isDone(task));
+  const remaining = open.reduce((total, task) => total + (task.estimate ?? 0), 0);
+  const unestimated = open.filter(task => task.estimate === null).length;
+  const weeksLeft = average > 0 ? Math.ceil(remaining / average) : null;
+
+  const config: ChartConfig = {
+    completed: { label: `${ESTIMATE_UNIT_LABELS[unit]} completed`, color: 'hsl(221 83% 53%)' },
+  };
+
+  const round = (value: number) => Math.round(value * 10) / 10;
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-sm font-medium text-gray-600">Remaining Work</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <span className="text-2xl font-bold">{formatEstimate(round(remaining), unit)}</span>
+            <p className="text-xs text-gray-500 mt-1">
+              {open.length} open {open.length === 1 ? 'task' : 'tasks'}
+              {unestimated > 0 && `, ${unestimated} not estimated`}
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-sm font-medium text-gray-600">Average Velocity</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <span className="text-2xl font-bold">{formatEstimate(round(average), unit)}</span>
+            <p className="text-xs text-gray-500 mt-1">per week over the last {WEEKS - 1} full weeks</p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-sm font-medium text-gray-600">Forecast</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <span className="text-2xl font-bold">
+              {weeksLeft === null ? '—' : `${weeksLeft} ${weeksLeft === 1 ? 'week' : 'weeks'}`}
+            </span>
+            <p className="text-xs text-gray-500 mt-1">
+              {weeksLeft === null ? 'Complete estimated tasks to see a forecast' : 'to finish the remaining work at this pace'}
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Velocity</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <ChartContainer config={config} className="h-64 w-full">
+            <BarChart data={velocity}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="week" tickLine={false} axisLine={false} />
+              <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              {average > 0 && <ReferenceLine y={average} stroke="hsl(var(--muted-foreground))" strokeDasharray="4 4" />}
+              <Bar dataKey="completed" fill="var(--color-completed)" radius={4} />
+            </BarChart>
+          </ChartContainer>
+          <p className="text-xs text-gray-500 mt-2">
+            Estimates of tasks completed each week; the dashed line is the average.
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default VelocityChart;
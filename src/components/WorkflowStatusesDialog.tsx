@@ -0,0 +1,212 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { ArrowUp, ArrowDown, Trash, Plus } from 'lucide-react';
+import { StatusCategory, WorkflowStatus } from '@/services/repository';
+import { CATEGORY_LABELS, STATUS_COLORS, validateStatuses } from '@/services/workflow';
+
+interface WorkflowStatusesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  statuses: WorkflowStatus[];
+  // Tasks currently in each status; statuses in use can't be removed
+  taskCounts: Record<string, number>;
+  onSave: (statuses: WorkflowStatus[]) => Promise<void>;
+}
+
+const WorkflowStatusesDialog: React.FC<WorkflowStatusesDialogProps> = ({
+  open,
+  onOpenChange,
+  statuses,
+  taskCounts,
+  onSave,
+}) => {
+  const [draft, setDraft] = useState<WorkflowStatus[]>([]);
+  const [error, setError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setDraft(statuses);
+      setError('');
+    }
+  }, [open, statuses]);
+
+  const updateStatus = (id: string, changes: Partial<WorkflowStatus>) => {
+    setDraft(prev => prev.map(status => status.id === id ? { ...status, ...changes } : status));
+  };
+
+  const moveStatus = (index: number, offset: number) => {
+    setDraft(prev => {
+      const next = [...prev];
+      const [moved] = next.splice(index, 1);
+      next.splice(index + offset, 0, moved);
+      return next;
+    });
+  };
+
+  const addStatus = () => {
+    setDraft(prev => {
+      // Keep done statuses at the end of the board
+      const firstDone = prev.findIndex(status => status.category === 'done');
+      const index = firstDone === -1 ? prev.length : firstDone;
+      const added: WorkflowStatus = { id: crypto.randomUUID(), name: '', category: 'open', color: 'gray' };
+      return [...prev.slice(0, index), added, ...prev.slice(index)];
+    });
+  };
+
+  const handleSave = async () => {
+    const trimmed = draft.map(status => ({ ...status, name: status.name.trim() }));
+    const validationError = validateStatuses(trimmed);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    setSaving(true);
+    setError('');
+    try {
+      await onSave(trimmed);
+      onOpenChange(false);
+    } catch (err) {
+      console.error('Error saving workflow:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save workflow');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[600px]">
+        <DialogHeader>
+          <DialogTitle>Workflow</DialogTitle>
+          <DialogDescription>
+            Statuses appear as board columns in this order. Tasks in a done status count as completed.
+            A WIP limit flags the column when it holds more tasks than that.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          <div className="space-y-2">
+            {draft.map((status, index) => {
+              const inUse = (taskCounts[status.id] || 0) > 0;
+              return (
+                <div key={status.id} className="flex items-center space-x-2">
+                  <Input
+                    value={status.name}
+                    onChange={(e) => updateStatus(status.id, { name: e.target.value })}
+                    placeholder="Status name"
+                    className="flex-1"
+                  />
+                  <Select
+                    value={status.category}
+                    onValueChange={(value) => updateStatus(status.id, { category: value as StatusCategory })}
+                  >
+                    <SelectTrigger className="w-[100px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(CATEGORY_LABELS) as StatusCategory[]).map(category => (
+                        <SelectItem key={category} value={category}>{CATEGORY_LABELS[category]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Select value={status.color} onValueChange={(value) => updateStatus(status.id, { color: value })}>
+                    <SelectTrigger className="w-[110px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(STATUS_COLORS).map(([color, classes]) => (
+                        <SelectItem key={color} value={color}>
+                          <span className={`px-2 rounded capitalize ${classes}`}>{color}</span>
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="number"
+                    min={1}
+                    value={status.wipLimit ?? ''}
+                    onChange={(e) => updateStatus(status.id, {
+                      wipLimit: e.target.value === '' ? null : Number(e.target.value),
+                    })}
+                    placeholder="WIP"
+                    title="Work-in-progress limit (leave empty for none)"
+                    className="w-[72px]"
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    disabled={index === 0}
+                    onClick={() => moveStatus(index, -1)}
+                  >
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    disabled={index === draft.length - 1}
+                    onClick={() => moveStatus(index, 1)}
+                  >
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="text-red-600"
+                    disabled={inUse}
+                    title={inUse ? 'Move this status\'s tasks elsewhere before removing it' : 'Remove status'}
+                    onClick={() => setDraft(prev => prev.filter(s => s.id !== status.id))}
+                  >
+                    <Trash className="h-4 w-4" />
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+
+          <Button type="button" variant="outline" size="sm" onClick={addStatus}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Status
+          </Button>
+
+          <div className="flex justify-end space-x-2 pt-4">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving ? 'Saving...' : 'Save Workflow'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default WorkflowStatusesDialog;
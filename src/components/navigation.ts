@@ -0,0 +1,12 @@
+import { Calendar, CheckSquare, Clock, FolderOpen, Home, Settings, Users } from 'lucide-react';
+
+// Pages listed in the sidebar and offered by the command palette, with the keys that go to them
+export const NAVIGATION = [
+  { name: 'Dashboard', href: '/', icon: Home, keys: 'g d' },
+  { name: 'Projects', href: '/projects', icon: FolderOpen, keys: 'g p' },
+  { name: 'Tasks', href: '/tasks', icon: CheckSquare, keys: 'g t' },
+  { name: 'Calendar', href: '/calendar', icon: Calendar, keys: 'g c' },
+  { name: 'Timesheet', href: '/timesheet', icon: Clock, keys: 'g h' },
+  { name: 'Team', href: '/team', icon: Users, keys: 'g m' },
+  { name: 'Settings', href: '/settings', icon: Settings, keys: 'g s' },
+];
@@ -1,18 +1,10 @@
 import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
-import { supabase } from '@/integrations/supabase/client';
+import { repository, Message } from '@/services/repository';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Send } from 'lucide-react';
 
-interface ChatMessage {
-  id: string;
-  content: string;
-  room: string;
-  created_at: string;
-  sender_id: string;
-  receiver_id: string;
-  sender_name?: string;
-}
+type ChatMessage = Message;
 
 interface RealtimeChatProps {
   roomName: string;
@@ -51,10 +43,10 @@ const ChatMessageItem = ({
             isOwnMessage ? 'justify-end flex-row-reverse' : ''
           }`}>
             <span className="font-medium">
-              {isOwnMessage ? 'You' : message.sender_name || message.sender_id}
+              {isOwnMessage ? 'You' : message.senderName || message.senderId}
             </span>
             <span className="text-muted-foreground text-xs">
-              {new Date(message.created_at).toLocaleTimeString('en-US', {
+              {new Date(message.createdAt).toLocaleTimeString('en-US', {
                 hour: '2-digit',
                 minute: '2-digit',
                 hour12: true,
@@ -92,7 +84,7 @@ const RealtimeChat: React.FC<RealtimeChatProps> = ({
       (message, index, self) => index === self.findIndex((m) => m.id === message.id)
     );
     return uniqueMessages.sort((a, b) => 
-      new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+      new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
     );
   }, [realtimeMessages]);
 
@@ -100,17 +92,9 @@ const RealtimeChat: React.FC<RealtimeChatProps> = ({
   useEffect(() => {
     const fetchMessages = async () => {
       try {
-        const { data, error } = await supabase
-          .from('messages')
-          .select('*')
-          .eq('room', roomName)
-          .order('created_at', { ascending: true });
-
-        if (error) throw error;
-        if (data) {
-          setRealtimeMessages(data);
-          console.log('Initial messages loaded:', data);
-        }
+        const data = await repository.messages.listByRoom(roomName);
+        setRealtimeMessages(data);
+        console.log('Initial messages loaded:', data);
       } catch (error) {
         console.error('Error fetching messages:', error);
       } finally {
@@ -124,14 +108,9 @@ const RealtimeChat: React.FC<RealtimeChatProps> = ({
   // Realtime subscription
   useEffect(() => {
     console.log(`Subscribing to room: ${roomName}`);
-    const channel = supabase.channel(`room:${roomName}`)
-      .on('postgres_changes', {
-        event: 'INSERT',
-        schema: 'public',
-        table: 'messages',
-        filter: `room=eq.${roomName}`,
-      }, (payload) => {
-        const newMsg = payload.new as ChatMessage;
+    const unsubscribe = repository.messages.subscribe(
+      roomName,
+      (newMsg) => {
         console.log('Realtime event received:', newMsg);
 
         setRealtimeMessages(prev => {
@@ -143,15 +122,16 @@ const RealtimeChat: React.FC<RealtimeChatProps> = ({
           
           return [...prev, newMsg];
         });
-      })
-      .subscribe((status) => {
-        console.log(`Realtime status: ${status}`);
-        setIsConnected(status === 'SUBSCRIBED');
-      });
+      },
+      (connected) => {
+        console.log(`Realtime connected: ${connected}`);
+        setIsConnected(connected);
+      }
+    );
 
     return () => {
       console.log('Unsubscribing from channel');
-      supabase.removeChannel(channel);
+      unsubscribe();
     };
   }, [roomName]);
 
@@ -170,36 +150,29 @@ const RealtimeChat: React.FC<RealtimeChatProps> = ({
     const optimisticMessage: ChatMessage = {
       id: tempId,
       content: newMessage.trim(),
-      sender_id: currentUserId,
-      receiver_id: receiverId,
+      senderId: currentUserId,
+      receiverId,
       room: roomName,
-      created_at: new Date().toISOString(),
-      sender_name: currentUserName,
+      createdAt: new Date().toISOString(),
+      senderName: currentUserName,
     };
 
     setRealtimeMessages(prev => [...prev, optimisticMessage]);
     setNewMessage('');
 
     try {
-      const { data, error } = await supabase
-        .from('messages')
-        .insert([{
-          content: newMessage.trim(),
-          sender_id: currentUserId,
-          receiver_id: receiverId,
-          room: roomName,
-          sender_name: currentUserName,
-        }])
-        .select();
-
-      if (error) throw error;
+      const data = await repository.messages.send({
+        content: newMessage.trim(),
+        senderId: currentUserId,
+        receiverId,
+        room: roomName,
+        senderName: currentUserName,
+      });
 
       // Replace optimistic message with real message
-      if (data && data[0]) {
-        setRealtimeMessages(prev => 
-          prev.map(msg => msg.id === tempId ? data[0] : msg)
-        );
-      }
+      setRealtimeMessages(prev => 
+        prev.map(msg => msg.id === tempId ? data : msg)
+      );
     } catch (error) {
       console.error('Error sending message:', error);
       // Remove optimistic message on error
@@ -255,8 +228,8 @@ const RealtimeChat: React.FC<RealtimeChatProps> = ({
         <div className="space-y-1">
           {allMessages.map((message, index) => {
             const prevMessage = index > 0 ? allMessages[index - 1] : null;
-            const showHeader = !prevMessage || prevMessage.sender_id !== message.sender_id;
-            const isOwnMessage = message.sender_id === currentUserId;
+            const showHeader = !prevMessage || prevMessage.senderId !== message.senderId;
+            const isOwnMessage = message.senderId === currentUserId;
 
             return (
               <div
@@ -1,6 +1,6 @@
 import React, { createContext, useContext, useEffect, useState } from 'react';
 import { User, Session } from '@supabase/supabase-js';
-import { supabase } from '@/integrations/supabase/client';
+import { repository } from '@/services/repository';
 
 interface AuthContextType {
   user: User | null;
@@ -31,12 +31,12 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   useEffect(() => {
     // Get initial session
     const getInitialSession = async () => {
-      const { data: { session }, error } = await supabase.auth.getSession();
-      if (error) {
-        console.error('Error getting session:', error);
-      } else {
+      try {
+        const session = await repository.auth.getSession();
         setSession(session);
         setUser(session?.user ?? null);
+      } catch (error) {
+        console.error('Error getting session:', error);
       }
       setLoading(false);
     };
@@ -44,21 +44,20 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     getInitialSession();
 
     // Listen for auth changes
-    const { data: { subscription } } = supabase.auth.onAuthStateChange(
-      async (event, session) => {
-        console.log('Auth state changed:', event, session);
-        setSession(session);
-        setUser(session?.user ?? null);
-        setLoading(false);
-      }
-    );
+    const unsubscribe = repository.auth.onAuthStateChange((session) => {
+      console.log('Auth state changed:', session);
+      setSession(session);
+      setUser(session?.user ?? null);
+      setLoading(false);
+    });
 
-    return () => subscription.unsubscribe();
+    return unsubscribe;
   }, []);
 
   const signOut = async () => {
-    const { error } = await supabase.auth.signOut();
-    if (error) {
+    try {
+      await repository.auth.signOut();
+    } catch (error) {
       console.error('Error signing out:', error);
     }
   };
@@ -0,0 +1,95 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import ShortcutsDialog from '@/components/ShortcutsDialog';
+import { ShortcutContext } from '@/hooks/use-shortcuts';
+import {
+  SEQUENCE_TIMEOUT,
+  Shortcut,
+  eventToStep,
+  findConflict,
+  getActiveShortcuts,
+  isTypingTarget,
+  matchSequence,
+  normalizeKeys,
+} from '@/services/shortcuts';
+
+// Radix renders open dialogs, the command palette included, with these roles
+const isDialogOpen = () => document.querySelector('[role="dialog"], [role="alertdialog"]') !== null;
+
+interface ShortcutProviderProps {
+  children: React.ReactNode;
+}
+
+export const ShortcutProvider: React.FC<ShortcutProviderProps> = ({ children }) => {
+  const shortcutsRef = useRef<Shortcut[]>([]);
+  const pendingRef = useRef<string[]>([]);
+  const [overlayOpen, setOverlayOpen] = useState(false);
+  // What was registered when the overlay opened, so it lists the page's shortcuts and not its own
+  const [listed, setListed] = useState<Shortcut[]>([]);
+
+  const register = useCallback((shortcuts: Shortcut[]) => {
+    const added: Shortcut[] = [];
+    shortcuts.forEach(shortcut => {
+      const normalized = { ...shortcut, keys: normalizeKeys(shortcut.keys) };
+      const conflict = findConflict(shortcutsRef.current, normalized);
+      if (conflict) {
+        console.warn(
+          `Shortcut "${normalized.keys}" (${normalized.description}) conflicts with "${conflict.keys}" (${conflict.description}) and was not registered`
+        );
+        return;
+      }
+      shortcutsRef.current = [...shortcutsRef.current, normalized];
+      added.push(normalized);
+    });
+
+    return () => {
+      shortcutsRef.current = shortcutsRef.current.filter(shortcut => !added.includes(shortcut));
+    };
+  }, []);
+
+  useEffect(() => register([{
+    keys: '?',
+    description: 'Show keyboard shortcuts',
+    scope: 'global',
+    group: 'General',
+    handler: () => {
+      setListed(getActiveShortcuts(shortcutsRef.current, false));
+      setOverlayOpen(true);
+    },
+  }]), [register]);
+
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout>;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const step = eventToStep(e);
+      if (!step || e.defaultPrevented) return;
+      if (isTypingTarget(e.target) && !step.startsWith('mod+')) return;
+
+      const active = getActiveShortcuts(shortcutsRef.current, isDialogOpen());
+      const { match, pending } = matchSequence(active, pendingRef.current, step);
+      pendingRef.current = pending;
+      clearTimeout(timer);
+      if (pending.length) {
+        e.preventDefault();
+        timer = setTimeout(() => {
+          pendingRef.current = [];
+        }, SEQUENCE_TIMEOUT);
+      } else if (match && match.handler(e) !== false) {
+        e.preventDefault();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      clearTimeout(timer);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, []);
+
+  return (
+    <ShortcutContext.Provider value={{ register }}>
+      {children}
+      <ShortcutsDialog open={overlayOpen} onOpenChange={setOverlayOpen} shortcuts={listed} />
+    </ShortcutContext.Provider>
+  );
+};
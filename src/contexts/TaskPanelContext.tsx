@@ -0,0 +1,39 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { useLocation } from 'react-router-dom';
+import { TaskPanelContext } from '@/hooks/use-task-panel';
+
+interface TaskPanelProviderProps {
+  children: React.ReactNode;
+}
+
+export const TaskPanelProvider: React.FC<TaskPanelProviderProps> = ({ children }) => {
+  const [taskId, setTaskId] = useState<string | null>(null);
+  const onChangeRef = useRef<(() => void) | undefined>();
+  const { pathname } = useLocation();
+
+  // The panel belongs to the page it was opened from
+  useEffect(() => {
+    onChangeRef.current = undefined;
+    setTaskId(null);
+  }, [pathname]);
+
+  const openTask = useCallback((id: string, onChange?: () => void) => {
+    if (onChange) onChangeRef.current = onChange;
+    setTaskId(id);
+  }, []);
+
+  const closeTask = useCallback(() => {
+    onChangeRef.current = undefined;
+    setTaskId(null);
+  }, []);
+
+  const notifyChange = useCallback(() => {
+    onChangeRef.current?.();
+  }, []);
+
+  return (
+    <TaskPanelContext.Provider value={{ taskId, openTask, closeTask, notifyChange }}>
+      {children}
+    </TaskPanelContext.Provider>
+  );
+};
@@ -0,0 +1,37 @@
+import { createContext, useContext, useEffect, useRef } from 'react';
+import { Shortcut } from '@/services/shortcuts';
+
+interface ShortcutContextType {
+  // Returns a function that removes them again
+  register: (shortcuts: Shortcut[]) => () => void;
+}
+
+// Provided by ShortcutProvider in src/contexts/ShortcutContext.tsx
+export const ShortcutContext = createContext<ShortcutContextType | undefined>(undefined);
+
+/**
+ * Registers shortcuts for as long as the component is mounted and `enabled` is true. Handlers
+ * always see the latest render; the bindings are registered again only when keys, scope or
+ * description change.
+ */
+export const useShortcuts = (shortcuts: Shortcut[], enabled = true) => {
+  const context = useContext(ShortcutContext);
+  if (context === undefined) {
+    throw new Error('useShortcuts must be used within a ShortcutProvider');
+  }
+
+  const { register } = context;
+  const latest = useRef(shortcuts);
+  latest.current = shortcuts;
+  const signature = enabled
+    ? shortcuts.map(shortcut => `${shortcut.scope}:${shortcut.keys}:${shortcut.description}`).join('|')
+    : '';
+
+  useEffect(() => {
+    if (!signature) return;
+    return register(latest.current.map((shortcut, index) => ({
+      ...shortcut,
+      handler: (e: KeyboardEvent) => latest.current[index]?.handler(e),
+    })));
+  }, [register, signature]);
+};
@@ -0,0 +1,23 @@
+import { createContext, useContext } from 'react';
+
+interface TaskPanelContextType {
+  // The task shown in the side panel, if any
+  taskId: string | null;
+  // onChange runs after the task is edited in the panel, so the opener can refresh. Without
+  // one the current opener's stays, as when moving from a task to its subtask.
+  openTask: (taskId: string, onChange?: () => void) => void;
+  closeTask: () => void;
+  // Called by the panel after an edit
+  notifyChange: () => void;
+}
+
+// Provided by TaskPanelProvider in src/contexts/TaskPanelContext.tsx
+export const TaskPanelContext = createContext<TaskPanelContextType | undefined>(undefined);
+
+export const useTaskPanel = () => {
+  const context = useContext(TaskPanelContext);
+  if (context === undefined) {
+    throw new Error('useTaskPanel must be used within a TaskPanelProvider');
+  }
+  return context;
+};
@@ -9,6 +9,39 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
+      notifications: {
+        Row: {
+          id: string
+          user_id: string
+          type: string
+          title: string
+          body: string
+          link: string | null
+          read: boolean
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          type: string
+          title: string
+          body?: string
+          link?: string | null
+          read?: boolean
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          type?: string
+          title?: string
+          body?: string
+          link?: string | null
+          read?: boolean
+          created_at?: string
+        }
+        Relationships: []
+      }
       projects: {
         Row: {
           id: string
@@ -17,10 +50,13 @@ export type Database = {
           status: string
           progress: number
           due_date: string | null
-          team_members: string[] | null
           created_at: string
           owner_id: string
-          access_code: string | null
+          require_approval: boolean
+          statuses: Json
+          estimate_unit: string
+          progress_mode: string
+          auto_complete: boolean
         }
         Insert: {
           id?: string
@@ -29,10 +65,13 @@ export type Database = {
           status?: string
           progress?: number
           due_date?: string | null
-          team_members?: string[] | null
           created_at?: string
           owner_id: string
-          access_code?: string | null
+          require_approval?: boolean
+          statuses?: Json
+          estimate_unit?: string
+          progress_mode?: string
+          auto_complete?: boolean
         }
         Update: {
           id?: string
@@ -41,41 +80,337 @@ export type Database = {
           status?: string
           progress?: number
           due_date?: string | null
-          team_members?: string[] | null
           created_at?: string
           owner_id?: string
-          access_code?: string | null
+          require_approval?: boolean
+          statuses?: Json
+          estimate_unit?: string
+          progress_mode?: string
+          auto_complete?: boolean
+        }
+        Relationships: []
+      }
+      project_invites: {
+        Row: {
+          id: string
+          project_id: string
+          token: string
+          role: Database["public"]["Enums"]["project_role"]
+          expires_at: string | null
+          max_uses: number | null
+          use_count: number
+          created_by: string
+          created_at: string
+          revoked_at: string | null
+        }
+        Insert: {
+          id?: string
+          project_id: string
+          token: string
+          role?: Database["public"]["Enums"]["project_role"]
+          expires_at?: string | null
+          max_uses?: number | null
+          use_count?: number
+          created_by: string
+          created_at?: string
+          revoked_at?: string | null
+        }
+        Update: {
+          id?: string
+          project_id?: string
+          token?: string
+          role?: Database["public"]["Enums"]["project_role"]
+          expires_at?: string | null
+          max_uses?: number | null
+          use_count?: number
+          created_by?: string
+          created_at?: string
+          revoked_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_invites_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      project_join_requests: {
+        Row: {
+          id: string
+          project_id: string
+          user_id: string
+          role: Database["public"]["Enums"]["project_role"]
+          status: string
+          created_at: string
+          decided_at: string | null
+          decided_by: string | null
+        }
+        Insert: {
+          id?: string
+          project_id: string
+          user_id: string
+          role?: Database["public"]["Enums"]["project_role"]
+          status?: string
+          created_at?: string
+          decided_at?: string | null
+          decided_by?: string | null
+        }
+        Update: {
+          id?: string
+          project_id?: string
+          user_id?: string
+          role?: Database["public"]["Enums"]["project_role"]
+          status?: string
+          created_at?: string
+          decided_at?: string | null
+          decided_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_join_requests_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      project_members: {
+        Row: {
+          project_id: string
+          user_id: string
+          role: Database["public"]["Enums"]["project_role"]
+          created_at: string
+        }
+        Insert: {
+          project_id: string
+          user_id: string
+          role?: Database["public"]["Enums"]["project_role"]
+          created_at?: string
+        }
+        Update: {
+          project_id?: string
+          user_id?: string
+          role?: Database["public"]["Enums"]["project_role"]
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_members_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      attachments: {
+        Row: {
+          content_type: string
+          created_at: string
+          id: string
+          name: string
+          path: string
+          project_id: string
+          size: number
+          task_id: number | null
+          uploaded_by: string
+        }
+        Insert: {
+          content_type: string
+          created_at?: string
+          id?: string
+          name: string
+          path: string
+          project_id: string
+          size: number
+          task_id?: number | null
+          uploaded_by: string
+        }
+        Update: {
+          content_type?: string
+          created_at?: string
+          id?: string
+          name?: string
+          path?: string
+          project_id?: string
+          size?: number
+          task_id?: number | null
+          uploaded_by?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "attachments_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "attachments_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      task_comments: {
+        Row: {
+          author_id: string
+          body: string
+          created_at: string
+          edited_at: string | null
+          id: string
+          task_id: number
+        }
+        Insert: {
+          author_id: string
+          body: string
+          created_at?: string
+          edited_at?: string | null
+          id?: string
+          task_id: number
+        }
+        Update: {
+          author_id?: string
+          body?: string
+          created_at?: string
+          edited_at?: string | null
+          id?: string
+          task_id?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_comments_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      task_events: {
+        Row: {
+          id: string
+          task_id: number
+          user_id: string | null
+          field: string | null
+          from_value: string | null
+          to_value: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          task_id: number
+          user_id?: string | null
+          field?: string | null
+          from_value?: string | null
+          to_value?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          task_id?: number
+          user_id?: string | null
+          field?: string | null
+          from_value?: string | null
+          to_value?: string | null
+          created_at?: string
         }
         Relationships: []
       }
+      task_dependencies: {
+        Row: {
+          blocked_by_id: number
+          created_at: string
+          task_id: number
+        }
+        Insert: {
+          blocked_by_id: number
+          created_at?: string
+          task_id: number
+        }
+        Update: {
+          blocked_by_id?: number
+          created_at?: string
+          task_id?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_dependencies_blocked_by_id_fkey"
+            columns: ["blocked_by_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_dependencies_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       tasks: {
         Row: {
-          assigned_to: number | null
+          assigned_to: string | null
+          checklist: Json
+          completed_at: string | null
           created_at: string
+          created_by: string | null
           description: string | null
           due_date: string | null
+          estimate: number | null
           id: number
-          project_id: number | null
+          parent_id: number | null
+          priority: string
+          project_id: string | null
+          rank: number
+          recurrence: Json | null
+          start_date: string | null
           status: string | null
           title: string | null
         }
         Insert: {
-          assigned_to?: number | null
+          assigned_to?: string | null
+          checklist?: Json
+          completed_at?: string | null
           created_at?: string
+          created_by?: string | null
           description?: string | null
           due_date?: string | null
+          estimate?: number | null
           id?: number
-          project_id?: number | null
+          parent_id?: number | null
+          priority?: string
+          project_id?: string | null
+          rank?: number
+          recurrence?: Json | null
+          start_date?: string | null
           status?: string | null
           title?: string | null
         }
         Update: {
-          assigned_to?: number | null
+          assigned_to?: string | null
+          checklist?: Json
+          completed_at?: string | null
           created_at?: string
+          created_by?: string | null
           description?: string | null
           due_date?: string | null
+          estimate?: number | null
           id?: number
-          project_id?: number | null
+          parent_id?: number | null
+          priority?: string
+          project_id?: string | null
+          rank?: number
+          recurrence?: Json | null
+          start_date?: string | null
           status?: string | null
           title?: string | null
         }
@@ -87,6 +422,13 @@ export type Database = {
             referencedRelation: "users"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "tasks_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "tasks_project_id_fkey"
             columns: ["project_id"]
@@ -96,22 +438,115 @@ export type Database = {
           },
         ]
       }
+      time_entries: {
+        Row: {
+          created_at: string
+          duration_minutes: number | null
+          id: string
+          note: string
+          project_id: string
+          started_at: string
+          task_id: number
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          duration_minutes?: number | null
+          id?: string
+          note?: string
+          project_id?: string
+          started_at?: string
+          task_id: number
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          duration_minutes?: number | null
+          id?: string
+          note?: string
+          project_id?: string
+          started_at?: string
+          task_id?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "time_entries_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "time_entries_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      saved_views: {
+        Row: {
+          id: string
+          user_id: string
+          name: string
+          query: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          name: string
+          query?: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          name?: string
+          query?: string
+          created_at?: string
+        }
+        Relationships: []
+      }
+      user_preferences: {
+        Row: {
+          user_id: string
+          key: string
+          value: Json
+          updated_at: string
+        }
+        Insert: {
+          user_id: string
+          key: string
+          value: Json
+          updated_at?: string
+        }
+        Update: {
+          user_id?: string
+          key?: string
+          value?: Json
+          updated_at?: string
+        }
+        Relationships: []
+      }
       users: {
         Row: {
           email: string | null
-          id: number
+          id: string
           name: string | null
           role: string | null
         }
         Insert: {
           email?: string | null
-          id: number
+          id: string
           name?: string | null
           role?: string | null
         }
         Update: {
           email?: string | null
-          id?: number
+          id?: string
           name?: string | null
           role?: string | null
         }
@@ -122,25 +557,28 @@ export type Database = {
           id: string
           content: string
           room: string
-          createdAt: string
+          created_at: string
           sender_id: string
           receiver_id: string
+          sender_name: string | null
         }
         Insert: {
           id?: string
           content: string
           room: string
-          createdAt?: string
+          created_at?: string
           sender_id: string
           receiver_id: string
+          sender_name: string | null
         }
         Update: {
           id?: string
           content?: string
           room?: string
-          createdAt?: string
+          created_at?: string
           sender_id?: string
           receiver_id?: string
+          sender_name?: string | null
         }
         Relationships: []
       }
@@ -149,10 +587,40 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      decide_join_request: {
+        Args: { project: string; request_id: string; approve: boolean }
+        Returns: undefined
+      }
+      has_project_permission: {
+        Args: { project: string; action: string }
+        Returns: boolean
+      }
+      get_invite_preview: {
+        Args: { invite_token: string }
+        Returns: {
+          project_id: string
+          project_name: string
+          role: Database["public"]["Enums"]["project_role"]
+          expires_at: string | null
+          status: string
+        }[]
+      }
+      redeem_project_invite: {
+        Args: { invite_token: string }
+        Returns: {
+          project_id: string
+          project_name: string
+          role: Database["public"]["Enums"]["project_role"]
+          outcome: string
+        }[]
+      }
+      project_role_of: {
+        Args: { project: string }
+        Returns: Database["public"]["Enums"]["project_role"]
+      }
     }
     Enums: {
-      [_ in never]: never
+      project_role: "owner" | "admin" | "member" | "viewer"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -267,6 +735,8 @@ export type CompositeTypes<
 
 export const Constants = {
   public: {
-    Enums: {},
+    Enums: {
+      project_role: ["owner", "admin", "member", "viewer"],
+    },
   },
 } as const
@@ -1,27 +1,32 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { Calendar as CalendarIcon, Plus, Clock, User, CheckCircle } from 'lucide-react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { Calendar as CalendarIcon, Plus, Clock, User, CheckCircle, Repeat } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Calendar as CalendarComponent } from '@/components/ui/calendar';
-import { supabase } from '@/integrations/supabase/client';
+import { repository, Task as TaskRecord } from '@/services/repository';
 import { useAuth } from '@/contexts/AuthContext';
+import { useTaskPanel } from '@/hooks/use-task-panel';
+import { DEFAULT_STATUSES, findStatus, getStatusColor, getStatusesByProject, isDoneStatus } from '@/services/workflow';
+import { describeRecurrence, getUpcomingOccurrences } from '@/services/recurrence';
+import { toDateValue } from '@/services/timeline';
 
-interface Task {
-  id: string;
-  title: string;
-  description: string;
-  status: 'To Do' | 'In Progress' | 'Completed';
-  due_date: string;
-  assigned_to: string | null;
-  assigned_to_name: string | null;
-  project_id: string;
-  project_name?: string;
-  created_at?: string;
+interface Task extends TaskRecord {
+  assignedToName: string | null;
+  // Resolved against the task's project workflow
+  statusName: string;
+  statusColor: string;
+  done: boolean;
+  // A future occurrence of a recurring task, created once the current one is completed
+  projected: boolean;
 }
 
+// How far ahead recurring tasks are shown
+const OCCURRENCE_DAYS = 365;
+
 const Calendar = () => {
   const { user } = useAuth();
+  const { openTask } = useTaskPanel();
   const [tasks, setTasks] = useState<Task[]>([]);
   const [selectedDate, setSelectedDate] = useState<Date | undefined>(new Date());
   const [loading, setLoading] = useState(true);
@@ -35,104 +40,35 @@ const Calendar = () => {
 
     try {
       setLoading(true);
-      const { data, error } = await supabase
-        .from('tasks')
-        .select(`
-          id,
-          title,
-          description,
-          status,
-          due_date,
-          project_id,
-          assigned_to,
-          created_at,
-          projects (
-            name,
-            owner_id,
-            team_members
-          )
-        `)
-        .not('projects', 'is', null)
-        .order('due_date', { ascending: true });
-
-      if (error) {
-        console.error('Error fetching calendar tasks:', error);
-        return;
-      }
 
-      if (data) {
-        // Filter tasks from projects where user is involved (owner or team member)
-        const userTasks = data.filter(task => {
-          if (!task.projects) return false;
+      // Tasks from projects where user is involved (owner or team member)
+      const projects = await repository.projects.listForUser(user);
+      const userTasks = (await repository.tasks.listByProjects(projects.map(p => p.id)))
+        .sort((a, b) => new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime());
 
-          const isOwner = task.projects.owner_id === user.id;
-          const isTeamMember = task.projects.team_members &&
-            (task.projects.team_members.includes(user.email) ||
-             task.projects.team_members.includes(user.id));
+      // Resolve assignee names not in the cache yet
+      const uncached = userTasks
+        .map(task => task.assignedTo)
+        .filter(id => id && !userCacheRef.current[id]);
+      const assignees = await repository.users.resolve(uncached);
+      assignees.forEach(assignee => {
+        userCacheRef.current[assignee.id] = assignee.name;
+      });
 
-          return isOwner || isTeamMember;
-        });
-
-        // Helper function to get user name
-        const getUserName = async (userId: string): Promise<string> => {
-          // Check cache first
-          if (userCacheRef.current[userId]) {
-            return userCacheRef.current[userId];
-          }
-          
-          try {
-            // First try to get name from auth.users table
-            const { data: authUser } = await supabase.auth.admin.getUserById(userId);
-            if (authUser?.user?.user_metadata?.full_name) {
-              const name = authUser.user.user_metadata.full_name;
-              userCacheRef.current[userId] = name;
-              return name;
-            } 
-            
-            // If not found in auth, try public.users table
-            const { data: publicUser } = await supabase
-              .from('users')
-              .select('name')
-              .eq('id', userId)
-              .single();
-            
-            if (publicUser?.name) {
-              userCacheRef.current[userId] = publicUser.name;
-              return publicUser.name;
-            }
-            
-            // Fallback to user ID
-            return userId;
-          } catch (err) {
-            console.error('Error fetching user:', err);
-            return userId;
-          }
+      const statusesByProject = getStatusesByProject(projects);
+      setTasks(userTasks.map(task => {
+        const statuses = statusesByProject[task.projectId] || DEFAULT_STATUSES;
+        return {
+          ...task,
+          assignedToName: task.assignedTo
+            ? userCacheRef.current[task.assignedTo] || task.assignedTo
+            : null,
+          statusName: findStatus(statuses, task.status).name,
+          statusColor: getStatusColor(statuses, task.status),
+          done: isDoneStatus(statuses, task.status),
+          projected: false,
         };
-
-        // Map database fields to frontend interface
-        const mappedTasks = await Promise.all(userTasks.map(async task => {
-          let assignedName = 'Unassigned';
-          
-          if (task.assigned_to) {
-            assignedName = await getUserName(task.assigned_to);
-          }
-
-          return {
-            id: task.id.toString(),
-            title: task.title || '',
-            description: task.description || '',
-            status: (task.status as 'To Do' | 'In Progress' | 'Completed') || 'To Do',
-            due_date: task.due_date || new Date().toISOString(),
-            assigned_to: task.assigned_to ? task.assigned_to.toString() : null,
-            assigned_to_name: task.assigned_to ? assignedName : null,
-            project_id: task.project_id.toString(),
-            project_name: task.projects?.name || 'Unknown Project',
-            created_at: task.created_at || new Date().toISOString(),
-          };
-        }));
-
-        setTasks(mappedTasks);
-      }
+      }));
     } catch (err) {
       console.error('Exception in fetchTasks:', err);
     } finally {
@@ -146,11 +82,24 @@ const Calendar = () => {
       fetchTasks();
     }
   }, [user, fetchTasks]);
+  // Future occurrences of recurring tasks, shown alongside the tasks that exist
+  const occurrences = useMemo(() => {
+    const horizon = new Date(Date.now() + OCCURRENCE_DAYS * 24 * 60 * 60 * 1000);
+    return tasks.flatMap(task => getUpcomingOccurrences(task, horizon).map((date): Task => ({
+      ...task,
+      id: `${task.id}:${toDateValue(date)}`,
+      dueDate: toDateValue(date),
+      done: false,
+      projected: true,
+    })));
+  }, [tasks]);
+  const calendarTasks = [...tasks, ...occurrences];
+
   // Get tasks for a specific date
   const getTasksForDate = (date: Date) => {
     const dateStr = date.toISOString().split('T')[0];
-    return tasks.filter(task => {
-      const taskDate = new Date(task.due_date).toISOString().split('T')[0];
+    return calendarTasks.filter(task => {
+      const taskDate = new Date(task.dueDate).toISOString().split('T')[0];
       return taskDate === dateStr;
     });
   };
@@ -164,28 +113,21 @@ const Calendar = () => {
     today.setHours(0, 0, 0, 0); // Remove time part
     const nextWeek = new Date(today.getTime() + 7 * 24 * 60 * 60 * 1000);
 
-    return tasks.filter(task => {
-      const taskDate = new Date(task.due_date);
+    return calendarTasks.filter(task => {
+      const taskDate = new Date(task.dueDate);
       taskDate.setHours(0, 0, 0, 0);
       return taskDate >= today && taskDate <= nextWeek;
-    }).sort((a, b) => new Date(a.due_date).getTime() - new Date(b.due_date).getTime());
+    }).sort((a, b) => new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime());
   };
 
   const upcomingTasks = getUpcomingTasks();
 
-  // Get status color
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'To Do':
-        return 'bg-gray-100 text-gray-800';
-      case 'In Progress':
-        return 'bg-blue-100 text-blue-800';
-      case 'Completed':
-        return 'bg-green-100 text-green-800';
-      default:
-        return 'bg-gray-100 text-gray-800';
-    }
-  };
+  // Projected occurrences don't exist yet, so only real tasks open in the panel
+  const renderTitle = (task: Task) => task.projected ? task.title : (
+    <button type="button" className="text-left hover:underline" onClick={() => openTask(task.id, fetchTasks)}>
+      {task.title}
+    </button>
+  );
 
   // Check if a date has tasks
   const dateHasTasks = (date: Date) => {
@@ -248,21 +190,28 @@ const Calendar = () => {
                       {selectedDateTasks.map((task) => (
                         <div key={task.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
                           <div className="flex items-center space-x-3">
-                            <CheckCircle className={`h-5 w-5 ${task.status === 'Completed' ? 'text-green-500' : 'text-gray-300'}`} />
+                            <CheckCircle className={`h-5 w-5 ${task.done ? 'text-green-500' : 'text-gray-300'}`} />
                             <div>
-                              <p className={`font-medium ${task.status === 'Completed' ? 'line-through text-gray-500' : 'text-gray-900'}`}>
-                                {task.title}
+                              <p className={`font-medium ${task.done ? 'line-through text-gray-500' : task.projected ? 'text-gray-500' : 'text-gray-900'}`}>
+                                {renderTitle(task)}
                               </p>
                               <p className="text-sm text-gray-600">{task.description || 'No description'}</p>
                             </div>
                           </div>
                           <div className="flex items-center space-x-2">
-                            <Badge className={getStatusColor(task.status)}>
-                              {task.status}
-                            </Badge>
+                            {task.projected ? (
+                              <Badge variant="outline" title={task.recurrence ? describeRecurrence(task.recurrence) : undefined}>
+                                <Repeat className="h-3 w-3 mr-1" />
+                                Repeats
+                              </Badge>
+                            ) : (
+                              <Badge className={task.statusColor}>
+                                {task.statusName}
+                              </Badge>
+                            )}
                             <div className="flex items-center text-sm text-gray-500">
                               <User className="h-4 w-4 mr-1" />
-                              {task.assigned_to_name || 'Unassigned'}
+                              {task.assignedToName || 'Unassigned'}
                             </div>
                           </div>
                         </div>
@@ -293,21 +242,28 @@ const Calendar = () => {
               ) : upcomingTasks.length > 0 ? (
                 <div className="space-y-3">
                   {upcomingTasks.slice(0, 5).map((task) => (
-                    <div key={task.id} className="border-l-4 border-blue-500 pl-3">
+                    <div key={task.id} className={`border-l-4 pl-3 ${task.projected ? 'border-dashed border-blue-300' : 'border-blue-500'}`}>
                       <div className="flex items-center justify-between">
-                        <p className="font-medium text-sm">{task.title}</p>
-                        <Badge className={getStatusColor(task.status)} variant="secondary">
-                          {task.status}
-                        </Badge>
+                        <p className="font-medium text-sm">{renderTitle(task)}</p>
+                        {task.projected ? (
+                          <Badge variant="outline">
+                            <Repeat className="h-3 w-3 mr-1" />
+                            Repeats
+                          </Badge>
+                        ) : (
+                          <Badge className={task.statusColor} variant="secondary">
+                            {task.statusName}
+                          </Badge>
+                        )}
                       </div>
                       <div className="flex items-center text-xs text-gray-500 mt-1">
                         <Clock className="h-3 w-3 mr-1" />
-                        Due {new Date(task.due_date).toLocaleDateString()}
+                        Due {new Date(task.dueDate).toLocaleDateString()}
                       </div>
-                      {task.assigned_to_name && (
+                      {task.assignedToName && (
                         <div className="flex items-center text-xs text-gray-500 mt-1">
                           <User className="h-3 w-3 mr-1" />
-                          {task.assigned_to_name}
+                          {task.assignedToName}
                         </div>
                       )}
                     </div>
@@ -337,21 +293,15 @@ const Calendar = () => {
                 <span className="font-semibold">{tasks.length}</span>
               </div>
               <div className="flex justify-between items-center">
-                <span className="text-sm text-gray-600">To Do</span>
-                <span className="font-semibold text-gray-600">
-                  {tasks.filter(t => t.status === 'To Do').length}
-                </span>
-              </div>
-              <div className="flex justify-between items-center">
-                <span className="text-sm text-gray-600">In Progress</span>
+                <span className="text-sm text-gray-600">Open</span>
                 <span className="font-semibold text-blue-600">
-                  {tasks.filter(t => t.status === 'In Progress').length}
+                  {tasks.filter(t => !t.done).length}
                 </span>
               </div>
               <div className="flex justify-between items-center">
-                <span className="text-sm text-gray-600">Completed</span>
+                <span className="text-sm text-gray-600">Done</span>
                 <span className="font-semibold text-green-600">
-                  {tasks.filter(t => t.status === 'Completed').length}
+                  {tasks.filter(t => t.done).length}
                 </span>
               </div>
             </CardContent>
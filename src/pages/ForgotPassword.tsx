@@ -6,7 +6,7 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { supabase } from '@/integrations/supabase/client';
+import { repository } from '@/services/repository';
 
 const ForgotPassword = () => {
   const [email, setEmail] = useState('');
@@ -21,17 +21,10 @@ const ForgotPassword = () => {
     setSuccess('');
 
     try {
-      const { error } = await supabase.auth.resetPasswordForEmail(email, {
-        redirectTo: `${window.location.origin}/reset-password`,
-      });
-
-      if (error) {
-        setError(error.message);
-      } else {
-        setSuccess('Password reset email sent! Please check your inbox.');
-      }
+      await repository.auth.resetPassword(email, `${window.location.origin}/reset-password`);
+      setSuccess('Password reset email sent! Please check your inbox.');
     } catch (err) {
-      setError('An unexpected error occurred');
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred');
       console.error('Password reset error:', err);
     } finally {
       setLoading(false);
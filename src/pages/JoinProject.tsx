@@ -0,0 +1,166 @@
+import React, { useState, useEffect } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { UserPlus, FolderOpen, Calendar } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { repository, InvitePreview } from '@/services/repository';
+import { useAuth } from '@/contexts/AuthContext';
+import { ROLE_LABELS, getProjectRole } from '@/services/membership';
+import { INVITE_COOLDOWN_MESSAGE, INVITE_STATUS_MESSAGES } from '@/services/invites';
+
+const JoinProject = () => {
+  const { token } = useParams<{ token: string }>();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const [invite, setInvite] = useState<InvitePreview | null>(null);
+  const [alreadyMember, setAlreadyMember] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [joining, setJoining] = useState(false);
+  const [requested, setRequested] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const fetchInvite = async () => {
+      if (!token || !user) return;
+
+      try {
+        setLoading(true);
+        const preview = await repository.invites.preview(token, user.id);
+        setInvite(preview);
+
+        // Members can already read the project, everyone else gets null here
+        if (preview) {
+          const project = await repository.projects.get(preview.projectId).catch(() => null);
+          setAlreadyMember(getProjectRole(project, user.id) !== null);
+        }
+      } catch (err) {
+        console.error('Error loading invite:', err);
+        setError(err instanceof Error && err.message === INVITE_COOLDOWN_MESSAGE
+          ? INVITE_COOLDOWN_MESSAGE
+          : 'Failed to load this invite');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchInvite();
+  }, [token, user]);
+
+  const handleJoin = async () => {
+    if (!token || !user) return;
+
+    setJoining(true);
+    setError('');
+    try {
+      const result = await repository.invites.redeem(token, user.id);
+      if (result.outcome === 'requested') {
+        setRequested(true);
+        return;
+      }
+      navigate(`/projects/${result.projectId}`);
+    } catch (err) {
+      console.error('Error joining project:', err);
+      setError(err instanceof Error ? err.message : 'Failed to join project. Please try again.');
+    } finally {
+      setJoining(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-24">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-md mx-auto py-12">
+      <Card>
+        {invite ? (
+          <>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <FolderOpen className="mr-2 h-5 w-5 text-blue-600" />
+                {invite.projectName}
+              </CardTitle>
+              <CardDescription>You've been invited to collaborate on this project.</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-gray-600">You'll join as</span>
+                <Badge variant="outline">{ROLE_LABELS[invite.role]}</Badge>
+              </div>
+              {invite.expiresAt && (
+                <div className="flex items-center justify-between text-sm">
+                  <span className="text-gray-600">Invite expires</span>
+                  <span className="flex items-center text-gray-900">
+                    <Calendar className="mr-1 h-4 w-4 text-gray-400" />
+                    {new Date(invite.expiresAt).toLocaleDateString()}
+                  </span>
+                </div>
+              )}
+
+              {error && (
+                <Alert variant="destructive">
+                  <AlertDescription>{error}</AlertDescription>
+                </Alert>
+              )}
+
+              {alreadyMember ? (
+                <>
+                  <Alert>
+                    <AlertDescription>You're already a member of this project.</AlertDescription>
+                  </Alert>
+                  <Button className="w-full" onClick={() => navigate(`/projects/${invite.projectId}`)}>
+                    Open Project
+                  </Button>
+                </>
+              ) : requested ? (
+                <>
+                  <Alert className="border-green-200 bg-green-50">
+                    <AlertDescription className="text-green-800">
+                      Request sent. You'll be notified once an owner or admin reviews it.
+                    </AlertDescription>
+                  </Alert>
+                  <Button variant="outline" className="w-full" onClick={() => navigate('/projects')}>
+                    Go to Projects
+                  </Button>
+                </>
+              ) : invite.status !== 'active' ? (
+                <Alert variant="destructive">
+                  <AlertDescription>
+                    {INVITE_STATUS_MESSAGES[invite.status]}. Ask a project owner for a new invite.
+                  </AlertDescription>
+                </Alert>
+              ) : (
+                <Button className="w-full" onClick={handleJoin} disabled={joining}>
+                  <UserPlus className="mr-2 h-4 w-4" />
+                  {joining ? 'Joining...' : `Join ${invite.projectName}`}
+                </Button>
+              )}
+            </CardContent>
+          </>
+        ) : (
+          <>
+            <CardHeader>
+              <CardTitle>Invite not found</CardTitle>
+              <CardDescription>
+                {error || 'This invite link is invalid. Check the link or ask for a new invite.'}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Button variant="outline" className="w-full" onClick={() => navigate('/projects')}>
+                Go to Projects
+              </Button>
+            </CardContent>
+          </>
+        )}
+      </Card>
+    </div>
+  );
+};
+
+export default JoinProject;
@@ -1,12 +1,12 @@
 import React, { useState } from 'react';
-import { Link, useNavigate } from 'react-router-dom';
+import { Link, useLocation, useNavigate } from 'react-router-dom';
 import { Eye, EyeOff, Mail, Lock, LogIn } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { supabase } from '@/integrations/supabase/client';
+import { repository } from '@/services/repository';
 
 const Login = () => {
   const [email, setEmail] = useState('');
@@ -15,6 +15,10 @@ const Login = () => {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
   const navigate = useNavigate();
+  const location = useLocation();
+
+  // Where ProtectedRoute sent us from, e.g. a /join/:token invite link
+  const from = (location.state as { from?: { pathname: string } } | null)?.from?.pathname || '/';
 
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -22,19 +26,11 @@ const Login = () => {
     setError('');
 
     try {
-      const { data, error } = await supabase.auth.signInWithPassword({
-        email,
-        password,
-      });
-
-      if (error) {
-        setError(error.message);
-      } else {
-        console.log('Login successful:', data);
-        navigate('/'); // Redirect to dashboard
-      }
+      const session = await repository.auth.signIn(email, password);
+      console.log('Login successful:', session);
+      navigate(from, { replace: true }); // Back to the requested page, dashboard by default
     } catch (err) {
-      setError('An unexpected error occurred');
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred');
       console.error('Login error:', err);
     } finally {
       setLoading(false);
@@ -43,18 +39,9 @@ const Login = () => {
 
   const handleGoogleLogin = async () => {
     try {
-      const { error } = await supabase.auth.signInWithOAuth({
-        provider: 'google',
-        options: {
-          redirectTo: `${window.location.origin}/`,
-        },
-      });
-
-      if (error) {
-        setError(error.message);
-      }
+      await repository.auth.signInWithGoogle(`${window.location.origin}${from}`);
     } catch (err) {
-      setError('Failed to sign in with Google');
+      setError(err instanceof Error ? err.message : 'Failed to sign in with Google');
       console.error('Google login error:', err);
     }
   };
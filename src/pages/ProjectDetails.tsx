@@ -1,106 +1,197 @@
-import React, { useState, useEffect } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
-import { ArrowLeft, Plus, Users, Calendar, CheckCircle, Clock, AlertCircle, User, Edit, Trash, UserPlus } from 'lucide-react';
+import React, { useState, useEffect, useCallback } from 'react';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
+import { ArrowLeft, Plus, Users, Calendar, User, Edit, Trash, UserPlus, ListPlus, Check, X, Columns, Repeat, Clock, MessageSquare } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Progress } from '@/components/ui/progress';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import CreateTaskDialog from '@/components/CreateTaskDialog';
-import { supabase } from '@/integrations/supabase/client';
+import Attachments from '@/components/Attachments';
+import KanbanView from '@/components/KanbanView';
+import TimelineView from '@/components/TimelineView';
+import VelocityChart from '@/components/VelocityChart';
+import TaskProgressBadge from '@/components/TaskProgressBadge';
+import BlockedBadge from '@/components/BlockedBadge';
+import CommentCountBadge from '@/components/CommentCountBadge';
+import TaskCommentsDialog from '@/components/TaskCommentsDialog';
+import WorkflowStatusesDialog from '@/components/WorkflowStatusesDialog';
+import {
+  repository,
+  Project as ProjectRecord,
+  Task,
+  NewTask,
+  TaskChanges,
+  TaskDependency,
+  TimeEntry,
+  AppUser,
+  ProjectRole,
+  JoinRequest,
+  WorkflowStatus,
+} from '@/services/repository';
 import { useAuth } from '@/contexts/AuthContext';
+import { useTaskPanel } from '@/hooks/use-task-panel';
+import { toast } from '@/hooks/use-toast';
+import { ASSIGNABLE_ROLES, PROJECT_ROLES, ROLE_LABELS, getMemberIds, getProjectRole } from '@/services/membership';
+import { ProjectAction, roleCan } from '@/services/permissions';
+import { getProjectStatuses, isDoneStatus } from '@/services/workflow';
+import { PRIORITY_COLORS } from '@/services/priority';
+import { getSubtasks, getTaskProgress } from '@/services/subtasks';
+import { getBlockedWarning } from '@/services/dependencies';
+import { dataService } from '@/services/dataService';
+import { describeRecurrence } from '@/services/recurrence';
+import { formatDuration, getTotalMinutes } from '@/services/timeTracking';
+import { formatEstimate, getCompletion } from '@/services/estimates';
+import { getProjectProgress } from '@/services/progress';
+
+interface Project extends ProjectRecord {
+  isOwner: boolean;
+  role: ProjectRole | null;
+}
 
-interface Task {
-  id: number;
-  title: string;
-  description: string;
-  status: 'To Do' | 'In Progress' | 'Completed';
-  due_date: string;
-  assigned_to: number | null;
-  project_id: number;
-  created_at?: string;
+interface Member extends AppUser {
+  role: ProjectRole;
 }
 
-interface Project {
-  id: string;
+interface PendingRequest extends JoinRequest {
   name: string;
-  description: string;
-  status: 'Planning' | 'In Progress' | 'On Hold' | 'Completed';
-  progress: number;
-  due_date: string;
-  team_members: string[];
-  created_at: string;
-  owner_id: string;
-  access_code: string;
-  isOwner: boolean;
+  email: string;
 }
 
 const ProjectDetails = () => {
   const { projectId } = useParams<{ projectId: string }>();
   const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
   const { user } = useAuth();
+  const { openTask } = useTaskPanel();
   const [project, setProject] = useState<Project | null>(null);
   const [tasks, setTasks] = useState<Task[]>([]);
   const [loading, setLoading] = useState(true);
-  const [activeTab, setActiveTab] = useState('tasks');
+  const [activeTab, setActiveTab] = useState(searchParams.get('tab') || 'tasks');
   const [createTaskDialogOpen, setCreateTaskDialogOpen] = useState(false);
+  const [workflowDialogOpen, setWorkflowDialogOpen] = useState(false);
   const [selectedTask, setSelectedTask] = useState<Task | null>(null);
-  const [assignedUserNames, setAssignedUserNames] = useState<Record<number, string>>({});
+  const [parentTask, setParentTask] = useState<Task | null>(null);
+  const [openBlockers, setOpenBlockers] = useState<Record<string, Task[]>>({});
+  const [links, setLinks] = useState<TaskDependency[]>([]);
+  const [commentCounts, setCommentCounts] = useState<Record<string, number>>({});
+  // Task whose comments are open on their own
+  const [commentTask, setCommentTask] = useState<Task | null>(null);
+  const [timeEntries, setTimeEntries] = useState<TimeEntry[]>([]);
+  const [members, setMembers] = useState<Member[]>([]);
+  const [joinRequests, setJoinRequests] = useState<PendingRequest[]>([]);
+  const [assignedUserNames, setAssignedUserNames] = useState<Record<string, string>>({});
 
   useEffect(() => {
     if (projectId && user) {
       fetchProjectDetails();
       fetchTasks();
+      fetchTimeEntries();
+      // Progress and status also change when other people update tasks
+      return repository.projects.subscribe(() => {
+        fetchProjectDetails();
+        fetchTasks();
+      });
     }
   }, [projectId, user]);
 
   useEffect(() => {
-    const fetchUserNames = async () => {
-      const userNames = await fetchColaboratorUserNames(tasks);
-      setColaboratorUserNames(userNames);
+    const fetchMembers = async () => {
+      const resolved = await repository.users.resolve(getMemberIds(project));
+      setMembers(
+        project.members
+          .map(member => {
+            const profile = resolved.find(u => u.id === member.userId);
+            return {
+              id: member.userId,
+              email: profile?.email || '',
+              name: profile?.name || 'Unknown User',
+              role: member.role,
+            };
+          })
+          // Owner first, then by role
+          .sort((a, b) => PROJECT_ROLES.indexOf(a.role) - PROJECT_ROLES.indexOf(b.role))
+      );
     };
 
-    if (tasks.length) {
-      fetchUserNames();
+    if (project) {
+      fetchMembers();
     }
+  }, [project]);
 
-  }, [tasks]);
-  const [colaboratorUserNames, setColaboratorUserNames] = useState<Record<string, string>>({});
-  const fetchColaboratorUserNames = async (tasks: Task[]) => {
-    const userNames: Record<string, string> = {};
-  
-    for (const task of tasks) {
-      const colaborator = task.assigned_to;
-  
-        try {
-          const { data, error } = await supabase.auth.admin.getUserById(colaborator);
-  
-          if (error) {
-            console.error(`Error fetching user by ID ${colaborator}:`, error);
-            userNames[colaborator] = 'Unknown User';
-          } else {
-            userNames[colaborator] = data?.user?.user_metadata?.full_name || data?.user?.email.split('@')[0] || 'Unknown User';
-          }
-        } catch (err) {
-          console.error(`Unexpected error fetching user by ID ${colaborator}:`, err);
-          userNames[colaborator] = 'Unknown User';
-        }
-      
+  // Notification links open a specific tab, also while this page is already showing
+  useEffect(() => {
+    const tab = searchParams.get('tab');
+    if (tab) {
+      setActiveTab(tab);
     }
-  
-    return userNames;
-  };
+  }, [searchParams]);
+
+  // Mention notifications link to a task's comments
+  useEffect(() => {
+    const taskId = searchParams.get('task');
+    const task = taskId && tasks.find(t => t.id === taskId);
+    if (task) {
+      setCommentTask(task);
+      setSearchParams(params => {
+        params.delete('task');
+        return params;
+      }, { replace: true });
+    }
+  }, [searchParams, tasks, setSearchParams]);
+
+  const fetchJoinRequests = useCallback(async () => {
+    if (!projectId) return;
+
+    try {
+      const requests = await repository.joinRequests.listByProject(projectId, 'pending');
+      const requesters = await repository.users.resolve(requests.map(request => request.userId));
+      setJoinRequests(requests.map(request => {
+        const profile = requesters.find(u => u.id === request.userId);
+        return {
+          ...request,
+          name: profile?.name || 'Unknown User',
+          email: profile?.email || '',
+        };
+      }));
+    } catch (error) {
+      console.error('Error fetching join requests:', error);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    if (project && roleCan(project.role, 'members:manage')) {
+      fetchJoinRequests();
+    } else {
+      setJoinRequests([]);
+    }
+  }, [project, fetchJoinRequests]);
 
   useEffect(() => {
     const fetchUserNames = async () => {
-      const userNames = await fetchAssignedUserNames(tasks);
+      const assignees = await repository.users.resolve(
+        tasks.map(task => task.assignedTo).filter(Boolean)
+      );
+      const userNames: Record<string, string> = {};
+      assignees.forEach(assignee => {
+        userNames[assignee.id] = assignee.name;
+      });
       setAssignedUserNames(userNames);
     };
 
@@ -109,60 +200,23 @@ const ProjectDetails = () => {
     }
   }, [tasks]);
 
-  const fetchAssignedUserNames = async (tasks: Task[]) => {
-    const userNames: Record<number, string> = {};
-
-    for (const task of tasks) {
-      const assignedTo = task.assigned_to;
-
-      if (!assignedTo || userNames[assignedTo]) continue;
-
-      try {
-        const { data, error } = await supabase.auth.admin.getUserById(assignedTo.toString());
-
-        if (error) {
-          console.error(`Error fetching user by ID ${assignedTo}:`, error);
-          userNames[assignedTo] = 'Unknown User';
-        } else {
-          userNames[assignedTo] = data?.user?.user_metadata?.full_name || data?.user?.email.split('@')[0] || 'Unknown User';
-        }
-      } catch (err) {
-        console.error(`Unexpected error fetching user by ID ${assignedTo}:`, err);
-        userNames[assignedTo] = 'Unknown User';
-      }
-    }
-
-    return userNames;
-  };
-
   const fetchProjectDetails = async () => {
     if (!projectId || !user) return;
 
     try {
-      const { data, error } = await supabase
-        .from('projects')
-        .select('*')
-        .eq('id', projectId) // Use projectId as a string
-        .single();
-
-      if (error) {
-        console.error('Error fetching project:', error);
+      const data = await repository.projects.get(projectId);
+
+      if (!data) {
+        console.error('Project not found:', projectId);
         navigate('/projects');
         return;
       }
 
-      const projectData = {
+      setProject({
         ...data,
-        status: data.status as 'Planning' | 'In Progress' | 'On Hold' | 'Completed',
-        due_date: data.due_date || new Date().toISOString(),
-        description: data.description || '',
-        progress: data.progress || 0,
-        access_code: data.access_code || '',
-        isOwner: data.owner_id === user.id,
-        team_members: data.team_members || []
-      };
-
-      setProject(projectData);
+        isOwner: data.ownerId === user.id,
+        role: getProjectRole(data, user.id),
+      });
     } catch (error) {
       console.error('Error fetching project:', error);
       navigate('/projects');
@@ -173,23 +227,11 @@ const ProjectDetails = () => {
     if (!projectId) return;
 
     try {
-      const { data, error } = await supabase
-        .from('tasks')
-        .select('*')
-        .eq('project_id', Number(projectId)) // Convert projectId to number
-        .order('created_at', { ascending: false });
-
-      if (error) {
-        console.error('Error fetching tasks:', error);
-        return;
-      }
-
-      setTasks(
-        (data || []).map(task => ({
-          ...task,
-          status: task.status as 'To Do' | 'In Progress' | 'Completed',
-        }))
-      );
+      const data = await repository.tasks.listByProject(projectId);
+      setTasks(data);
+      setOpenBlockers(await dataService.getOpenBlockers(data));
+      setLinks(await repository.dependencies.listForTasks(data.map(task => task.id)));
+      setCommentCounts(await repository.comments.countByTasks(data.map(task => task.id)));
     } catch (error) {
       console.error('Error fetching tasks:', error);
     } finally {
@@ -197,25 +239,27 @@ const ProjectDetails = () => {
     }
   };
 
-  const handleCreateTask = async (taskData: Omit<Task, 'id'>) => {
+  const fetchTimeEntries = async () => {
+    if (!projectId) return;
+
     try {
-      const { data, error } = await supabase
-        .from('tasks')
-        .insert({
-          title: taskData.title,
-          description: taskData.description,
-          status: taskData.status,
-          due_date: taskData.due_date,
-          assigned_to: taskData.assigned_to,
-          project_id: taskData.project_id,
-        })
-        .select()
-        .single();
-
-      if (error) {
-        console.error('Error creating task:', error);
-        throw error;
-      }
+      setTimeEntries(await repository.timeEntries.listByProject(projectId));
+    } catch (error) {
+      console.error('Error fetching time entries:', error);
+    }
+  };
+
+  const reportError = (title: string, error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : String(error),
+      variant: 'destructive',
+    });
+  };
+
+  const handleCreateTask = async (taskData: NewTask) => {
+    try {
+      await repository.tasks.create(taskData);
 
       // Refresh tasks
       await fetchTasks();
@@ -225,47 +269,115 @@ const ProjectDetails = () => {
     }
   };
 
-  const handleUpdateTask = async (taskId: string, updates: Partial<Task>) => {
+  const handleUpdateTask = async (taskId: string, updates: TaskChanges) => {
     try {
-      const { error } = await supabase
-        .from('tasks')
-        .update(updates)
-        .eq('id', taskId);
-
-      if (error) {
-        console.error('Error updating task:', error);
-        return;
-      }
+      await repository.tasks.update(taskId, updates);
 
       // Refresh tasks
       await fetchTasks();
     } catch (error) {
       console.error('Error updating task:', error);
+      reportError('Could not update task', error);
     }
   };
 
-  const handleDeleteTask = async (taskId: string) => {
+  const handleMoveTask = async (taskId: string, changes: TaskChanges) => {
+    const task = tasks.find(t => t.id === taskId);
+    const warning = task && changes.status && getBlockedWarning(task, openBlockers[taskId], statuses, changes.status);
+    if (warning) toast(warning);
+
+    // Show the card in its new place right away
+    setTasks(prev => prev.map(task => task.id === taskId ? { ...task, ...changes } : task));
     try {
-      const { error } = await supabase
-        .from('tasks')
-        .delete()
-        .eq('id', taskId);
+      await repository.tasks.update(taskId, changes);
+    } catch (error) {
+      console.error('Error moving task:', error);
+      reportError('Could not move task', error);
+    } finally {
+      await fetchTasks();
+    }
+  };
 
-      if (error) {
-        console.error('Error deleting task:', error);
-        return;
-      }
+  const handleDeleteTask = async (taskId: string) => {
+    try {
+      await repository.tasks.remove(taskId);
 
       // Refresh tasks
       await fetchTasks();
     } catch (error) {
       console.error('Error deleting task:', error);
+      reportError('Could not delete task', error);
+    }
+  };
+
+  const handleChangeRole = async (userId: string, role: ProjectRole) => {
+    if (!project) return;
+
+    try {
+      await repository.members.updateRole(project.id, userId, role);
+      await fetchProjectDetails();
+    } catch (error) {
+      console.error('Error updating member role:', error);
+      reportError('Could not change role', error);
+    }
+  };
+
+  const handleRemoveMember = async (userId: string) => {
+    if (!project) return;
+
+    try {
+      await repository.members.remove(project.id, userId);
+      await fetchProjectDetails();
+    } catch (error) {
+      console.error('Error removing member:', error);
+      reportError('Could not remove member', error);
     }
   };
 
+  const handleDecideRequest = async (request: PendingRequest, approve: boolean) => {
+    if (!project) return;
+
+    try {
+      if (approve) {
+        await repository.joinRequests.approve(project.id, request.id);
+      } else {
+        await repository.joinRequests.reject(project.id, request.id);
+      }
+      toast({
+        title: approve ? 'Request approved' : 'Request declined',
+        description: approve
+          ? `${request.name} is now a member of this project.`
+          : `${request.name} has been notified.`,
+      });
+      await fetchProjectDetails();
+    } catch (error) {
+      console.error('Error deciding join request:', error);
+      reportError(approve ? 'Could not approve request' : 'Could not decline request', error);
+      await fetchJoinRequests();
+    }
+  };
+
+  const handleToggleApproval = async (requireApproval: boolean) => {
+    if (!project) return;
+
+    try {
+      await repository.projects.update(project.id, { requireApproval });
+      await fetchProjectDetails();
+    } catch (error) {
+      console.error('Error updating join settings:', error);
+      reportError('Could not update join settings', error);
+    }
+  };
+
+  const handleSaveWorkflow = async (statuses: WorkflowStatus[]) => {
+    if (!project) return;
+
+    await repository.projects.update(project.id, { statuses });
+    await fetchProjectDetails();
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
-      case 'To Do':
       case 'Planning':
         return 'bg-yellow-100 text-yellow-800';
       case 'In Progress':
@@ -279,34 +391,127 @@ const ProjectDetails = () => {
     }
   };
 
-  const getStatusIcon = (status: string) => {
-    switch (status) {
-      case 'To Do':
-        return <Clock className="h-4 w-4" />;
-      case 'In Progress':
-        return <AlertCircle className="h-4 w-4" />;
-      case 'Completed':
-        return <CheckCircle className="h-4 w-4" />;
-      default:
-        return <Clock className="h-4 w-4" />;
-    }
-  };
-
-  const isValidUUID = (str: string): boolean => {
-    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
-    return uuidRegex.test(str);
-  };
-
-  const getAssignedUserName = (assignedTo: number | null) => {
+  const getAssignedUserName = (assignedTo: string | null) => {
     if (!assignedTo) return 'Unassigned';
     return assignedUserNames[assignedTo] || 'Loading...';
   };
 
-  const tasksByStatus = {
-    'To Do': tasks.filter(task => task.status === 'To Do'),
-    'In Progress': tasks.filter(task => task.status === 'In Progress'),
-    'Completed': tasks.filter(task => task.status === 'Completed')
-  };
+  const allowed = (action: ProjectAction) => roleCan(project?.role ?? null, action);
+
+  const statuses = getProjectStatuses(project);
+  const isTaskDone = (task: Task) => isDoneStatus(statuses, task.status);
+  const doneCount = tasks.filter(isTaskDone).length;
+  const estimated = getCompletion(tasks, isTaskDone, 'estimate');
+  // Worked out from the tasks on screen, so it keeps up with changes made here
+  const progress = project ? getProjectProgress(project, tasks) : 0;
+  const timeLoggers = new Set(timeEntries.map(entry => entry.userId)).size;
+
+  const taskCounts = tasks.reduce<Record<string, number>>((counts, task) => {
+    counts[task.status] = (counts[task.status] || 0) + 1;
+    return counts;
+  }, {});
+
+  const getParentTitle = (parentId: string | null) =>
+    tasks.find(task => task.id === parentId)?.title;
+
+  const renderTaskCard = (task: Task) => (
+    <Card className="hover:shadow-md transition-shadow">
+      <CardContent className="p-4">
+        <div className="space-y-3">
+          <div className="flex items-start justify-between">
+            <div className="space-y-1">
+              {task.parentId && (
+                <p className="text-xs text-gray-500">Subtask of {getParentTitle(task.parentId) || 'another task'}</p>
+              )}
+              <h4 className="font-medium text-gray-900">
+                <button type="button" className="text-left hover:underline" onClick={() => openTask(task.id, fetchTasks)}>
+                  {task.title}
+                </button>
+              </h4>
+              <div className="flex items-center space-x-2">
+                <Badge className={PRIORITY_COLORS[task.priority]}>{task.priority}</Badge>
+                {task.estimate !== null && (
+                  <Badge variant="outline">{formatEstimate(task.estimate, project.estimateUnit)}</Badge>
+                )}
+                <TaskProgressBadge progress={getTaskProgress(task, tasks, { [task.projectId]: statuses })} />
+                <BlockedBadge blockers={openBlockers[task.id]} />
+                <CommentCountBadge count={commentCounts[task.id]} />
+              </div>
+            </div>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size="sm">
+                  <Edit className="h-4 w-4" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem
+                  disabled={!allowed('tasks:edit')}
+                  onClick={() => {
+                    setSelectedTask(task);
+                    setCreateTaskDialogOpen(true);
+                  }}
+                >
+                  <Edit className="mr-2 h-4 w-4" />
+                  Edit Task
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => setCommentTask(task)}>
+                  <MessageSquare className="mr-2 h-4 w-4" />
+                  Comments
+                </DropdownMenuItem>
+                {!task.parentId && (
+                  <DropdownMenuItem
+                    disabled={!allowed('tasks:create')}
+                    onClick={() => {
+                      setParentTask(task);
+                      setCreateTaskDialogOpen(true);
+                    }}
+                  >
+                    <ListPlus className="mr-2 h-4 w-4" />
+                    Add Subtask
+                  </DropdownMenuItem>
+                )}
+                <DropdownMenuItem
+                  className="text-red-600"
+                  disabled={!allowed('tasks:delete')}
+                  onClick={() => handleDeleteTask(task.id)}
+                >
+                  <Trash className="mr-2 h-4 w-4" />
+                  Delete Task
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </div>
+          
+          {task.description && (
+            <p className="text-sm text-gray-600 line-clamp-2">
+              {task.description}
+            </p>
+          )}
+          
+          <div className="flex items-center justify-between text-sm">
+            <div className="flex items-center space-x-1">
+              <User className="h-4 w-4 text-gray-400" />
+              <span className="text-gray-600">
+                {getAssignedUserName(task.assignedTo)}
+              </span>
+            </div>
+            {task.dueDate && (
+              <div className="flex items-center space-x-1 text-gray-500">
+                <Calendar className="h-4 w-4" />
+                <span>{new Date(task.dueDate).toLocaleDateString()}</span>
+                {task.recurrence && (
+                  <Repeat className="h-4 w-4" aria-label={describeRecurrence(task.recurrence)}>
+                    <title>{describeRecurrence(task.recurrence)}</title>
+                  </Repeat>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
 
   if (loading) {
     return (
@@ -346,7 +551,7 @@ const ProjectDetails = () => {
           <Badge className={getStatusColor(project.status)}>
             {project.status}
           </Badge>
-          {project.isOwner && (
+          {allowed('tasks:create') && (
             <Button onClick={() => {
               console.log('Add Task button clicked');
               console.log('Current createTaskDialogOpen state:', createTaskDialogOpen);
@@ -357,16 +562,16 @@ const ProjectDetails = () => {
               Add Task
             </Button>
           )}
-          {!project.isOwner && (
+          {!allowed('tasks:create') && (
             <div className="text-sm text-gray-500">
-              Only project owners can add tasks
+              You have view-only access to this project
             </div>
           )}
         </div>
       </div>
 
       {/* Project Overview */}
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
         <Card>
           <CardHeader className="pb-3">
             <CardTitle className="text-sm font-medium text-gray-600">Progress</CardTitle>
@@ -374,14 +579,34 @@ const ProjectDetails = () => {
           <CardContent>
             <div className="space-y-2">
               <div className="flex justify-between items-center">
-                <span className="text-2xl font-bold">{project.progress}%</span>
+                <span className="text-2xl font-bold">{progress}%</span>
                 <span className="text-sm text-gray-500">Complete</span>
               </div>
-              <Progress value={project.progress} className="h-2" />
+              <Progress value={progress} className="h-2" />
+              <p className="text-xs text-gray-500">
+                {project.progressMode === 'estimate'
+                  ? `${formatEstimate(estimated.done, project.estimateUnit)} of ${formatEstimate(estimated.total, project.estimateUnit)} done`
+                  : `${doneCount} of ${tasks.length} tasks done${project.progressMode === 'manual' ? ', progress set by hand' : ''}`}
+              </p>
             </div>
           </CardContent>
         </Card>
 
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-sm font-medium text-gray-600">Time Logged</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="flex items-center space-x-2">
+              <Clock className="h-5 w-5 text-gray-400" />
+              <span className="text-lg font-semibold">{formatDuration(getTotalMinutes(timeEntries))}</span>
+            </div>
+            <p className="text-xs text-gray-500 mt-2">
+              {timeEntries.length} {timeEntries.length === 1 ? 'entry' : 'entries'}, {timeLoggers} {timeLoggers === 1 ? 'person' : 'people'}
+            </p>
+          </CardContent>
+        </Card>
+
         <Card>
           <CardHeader className="pb-3">
             <CardTitle className="text-sm font-medium text-gray-600">Due Date</CardTitle>
@@ -390,7 +615,7 @@ const ProjectDetails = () => {
             <div className="flex items-center space-x-2">
               <Calendar className="h-5 w-5 text-gray-400" />
               <span className="text-lg font-semibold">
-                {new Date(project.due_date).toLocaleDateString()}
+                {new Date(project.dueDate).toLocaleDateString()}
               </span>
             </div>
           </CardContent>
@@ -403,7 +628,7 @@ const ProjectDetails = () => {
           <CardContent>
             <div className="flex items-center space-x-2">
               <Users className="h-5 w-5 text-gray-400" />
-              <span className="text-lg font-semibold">{project.team_members.length + 1}</span>
+              <span className="text-lg font-semibold">{project.members.length}</span>
               <span className="text-sm text-gray-500">members</span>
             </div>
           </CardContent>
@@ -412,134 +637,191 @@ const ProjectDetails = () => {
 
       {/* Tabs */}
       <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-        <TabsList className="grid w-full grid-cols-2">
+        <TabsList className="grid w-full grid-cols-5">
           <TabsTrigger value="tasks">Tasks ({tasks.length})</TabsTrigger>
-          <TabsTrigger value="team">Team ({project.team_members.length + 1})</TabsTrigger>
+          <TabsTrigger value="timeline">Timeline</TabsTrigger>
+          <TabsTrigger value="velocity">Velocity</TabsTrigger>
+          <TabsTrigger value="files">Files</TabsTrigger>
+          <TabsTrigger value="members">
+            Members ({project.members.length})
+            {joinRequests.length > 0 && (
+              <Badge className="ml-2 bg-red-500 text-white">{joinRequests.length}</Badge>
+            )}
+          </TabsTrigger>
         </TabsList>
 
         <TabsContent value="tasks" className="mt-6">
+          {allowed('project:edit') && (
+            <div className="flex justify-end mb-4">
+              <Button variant="outline" size="sm" onClick={() => setWorkflowDialogOpen(true)}>
+                <Columns className="mr-2 h-4 w-4" />
+                Edit Workflow
+              </Button>
+            </div>
+          )}
+
           {/* Task Kanban Board */}
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-            {Object.entries(tasksByStatus).map(([status, statusTasks]) => (
-              <div key={status} className="space-y-4">
-                <div className="flex items-center justify-between">
-                  <h3 className="font-semibold text-gray-900 flex items-center">
-                    {getStatusIcon(status)}
-                    <span className="ml-2">{status}</span>
-                    <Badge variant="secondary" className="ml-2">
-                      {statusTasks.length}
-                    </Badge>
-                  </h3>
-                </div>
-                
-                <div className="space-y-3">
-                  {statusTasks.map((task) => (
-                    <Card key={task.id} className="hover:shadow-md transition-shadow">
-                      <CardContent className="p-4">
-                        <div className="space-y-3">
-                          <div className="flex items-start justify-between">
-                            <h4 className="font-medium text-gray-900">{task.title}</h4>
-                            {project.isOwner && (
-                              <DropdownMenu>
-                                <DropdownMenuTrigger asChild>
-                                  <Button variant="ghost" size="sm">
-                                    <Edit className="h-4 w-4" />
-                                  </Button>
-                                </DropdownMenuTrigger>
-                                <DropdownMenuContent align="end">
-                                  <DropdownMenuItem
-                                    onClick={() => {
-                                      setSelectedTask(task);
-                                      setCreateTaskDialogOpen(true);
-                                    }}
-                                  >
-                                    <Edit className="mr-2 h-4 w-4" />
-                                    Edit Task
-                                  </DropdownMenuItem>
-                                  <DropdownMenuItem
-                                    className="text-red-600"
-                                    onClick={() => handleDeleteTask(task.id)}
-                                  >
-                                    <Trash className="mr-2 h-4 w-4" />
-                                    Delete Task
-                                  </DropdownMenuItem>
-                                </DropdownMenuContent>
-                              </DropdownMenu>
-                            )}
-                          </div>
-                          
-                          {task.description && (
-                            <p className="text-sm text-gray-600 line-clamp-2">
-                              {task.description}
-                            </p>
-                          )}
-                          
-                          <div className="flex items-center justify-between text-sm">
-                            <div className="flex items-center space-x-1">
-                              <User className="h-4 w-4 text-gray-400" />
-                              <span className="text-gray-600">
-                                {getAssignedUserName(task.assigned_to)}
-                              </span>
+          <KanbanView
+            tasks={tasks}
+            statuses={statuses}
+            onMoveTask={handleMoveTask}
+            renderCard={renderTaskCard}
+            onOpenTask={(task) => openTask(task.id, fetchTasks)}
+            readOnly={!allowed('tasks:edit')}
+          />
+        </TabsContent>
+
+        <TabsContent value="timeline" className="mt-6">
+          <TimelineView
+            tasks={tasks}
+            links={links}
+            projectDueDate={project.dueDate}
+            isDone={isTaskDone}
+            onReschedule={handleMoveTask}
+            readOnly={!allowed('tasks:edit')}
+          />
+        </TabsContent>
+
+        <TabsContent value="velocity" className="mt-6">
+          <VelocityChart tasks={tasks} unit={project.estimateUnit} isDone={isTaskDone} />
+        </TabsContent>
+
+        <TabsContent value="files" className="mt-6">
+          <Card>
+            <CardContent className="p-4">
+              <Attachments
+                projectId={project.id}
+                canUpload={allowed('tasks:edit')}
+                canDeleteAny={allowed('tasks:delete')}
+              />
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="members" className="mt-6">
+          <div className="space-y-6">
+            {allowed('members:manage') && (
+              <Card>
+                <CardContent className="p-4 space-y-4">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <Label htmlFor="requireApproval" className="font-medium">Require approval to join</Label>
+                      <p className="text-sm text-gray-500">
+                        People joining with an invite wait until an owner or admin approves them.
+                      </p>
+                    </div>
+                    <Switch
+                      id="requireApproval"
+                      checked={project.requireApproval}
+                      disabled={!allowed('project:edit')}
+                      onCheckedChange={handleToggleApproval}
+                    />
+                  </div>
+
+                  {(project.requireApproval || joinRequests.length > 0) && (
+                    <div className="space-y-2">
+                      <h4 className="text-sm font-semibold text-gray-900">
+                        Pending Requests ({joinRequests.length})
+                      </h4>
+                      {joinRequests.length > 0 ? (
+                        joinRequests.map(request => (
+                          <div key={request.id} className="flex items-center space-x-3 p-3 border rounded-md">
+                            <Avatar className="h-8 w-8">
+                              <AvatarFallback>{request.name.substring(0, 2).toUpperCase()}</AvatarFallback>
+                            </Avatar>
+                            <div className="flex-1 min-w-0">
+                              <p className="font-medium">{request.name}</p>
+                              <p className="text-xs text-gray-500 truncate">
+                                {request.email && `${request.email} · `}
+                                Requested {new Date(request.createdAt).toLocaleDateString()} as {ROLE_LABELS[request.role]}
+                              </p>
                             </div>
-                            {task.due_date && (
-                              <div className="flex items-center space-x-1 text-gray-500">
-                                <Calendar className="h-4 w-4" />
-                                <span>{new Date(task.due_date).toLocaleDateString()}</span>
-                              </div>
-                            )}
+                            <Button size="sm" onClick={() => handleDecideRequest(request, true)}>
+                              <Check className="mr-1 h-4 w-4" />
+                              Approve
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="text-red-600"
+                              onClick={() => handleDecideRequest(request, false)}
+                            >
+                              <X className="mr-1 h-4 w-4" />
+                              Reject
+                            </Button>
                           </div>
-                        </div>
-                      </CardContent>
-                    </Card>
-                  ))}
-                  
-                  {statusTasks.length === 0 && (
-                    <div className="text-center py-8 text-gray-500">
-                      <p>No {status.toLowerCase()} tasks</p>
+                        ))
+                      ) : (
+                        <p className="text-sm text-gray-500">No pending requests.</p>
+                      )}
                     </div>
                   )}
-                </div>
+                </CardContent>
+              </Card>
+            )}
+
+            <div className="space-y-4">
+              <div className="flex items-center justify-between">
+                <h3 className="text-lg font-semibold">Team Members</h3>
+                {allowed('members:manage') && (
+                  <Button variant="outline">
+                    <UserPlus className="mr-2 h-4 w-4" />
+                    Invite Member
+                  </Button>
+                )}
               </div>
-            ))}
-          </div>
-        </TabsContent>
-
-        <TabsContent value="team" className="mt-6">
-          {/* Team Members */}
-          <div className="space-y-4">
-            <div className="flex items-center justify-between">
-              <h3 className="text-lg font-semibold">Team Members</h3>
-              {project.isOwner && (
-                <Button variant="outline">
-                  <UserPlus className="mr-2 h-4 w-4" />
-                  Invite Member
-                </Button>
-              )}
-            </div>
-            
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
               
-              {/* Team Members */}
-              {Object.entries(colaboratorUserNames).map(([memberId, memberName], index) => (
-                <Card key={index}>
-                  <CardContent className="p-4">
-                    <div className="flex items-center space-x-3">
-                      <Avatar>
-                        <AvatarFallback>
-                          {memberName.substring(0, 2).toUpperCase()}
-                        </AvatarFallback>
-                      </Avatar>
-                      <div className="flex-1">
-                        <p className="font-medium">
-                          {memberName}
-                        </p>
-                        <p className="text-sm text-gray-500">Member</p>
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                
+                {/* Team Members */}
+                {members.map((member) => (
+                  <Card key={member.id}>
+                    <CardContent className="p-4">
+                      <div className="flex items-center space-x-3">
+                        <Avatar>
+                          <AvatarFallback>
+                            {member.name.substring(0, 2).toUpperCase()}
+                          </AvatarFallback>
+                        </Avatar>
+                        <div className="flex-1 min-w-0">
+                          <p className="font-medium">
+                            {member.name}
+                          </p>
+                          <p className="text-sm text-gray-500 truncate">{member.email}</p>
+                        </div>
+                        {allowed('members:manage') && member.role !== 'owner' ? (
+                          <div className="flex items-center space-x-1">
+                            <Select
+                              value={member.role}
+                              onValueChange={(value) => handleChangeRole(member.id, value as ProjectRole)}
+                            >
+                              <SelectTrigger className="h-8 w-[110px]">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {ASSIGNABLE_ROLES.map(role => (
+                                  <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="text-red-600"
+                              title="Remove member"
+                              onClick={() => handleRemoveMember(member.id)}
+                            >
+                              <Trash className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        ) : (
+                          <Badge variant="outline">{ROLE_LABELS[member.role]}</Badge>
+                        )}
                       </div>
-                      <Badge variant="outline">Member</Badge>
-                    </div>
-                  </CardContent>
-                </Card>
-              ))}
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
             </div>
           </div>
         </TabsContent>
@@ -551,7 +833,10 @@ const ProjectDetails = () => {
         onOpenChange={(open) => {
           console.log('CreateTaskDialog onOpenChange called with:', open);
           setCreateTaskDialogOpen(open);
-          if (!open) setSelectedTask(null);
+          if (!open) {
+            setSelectedTask(null);
+            setParentTask(null);
+          }
         }}
         onCreateTask={selectedTask ?
           async (taskData) => {
@@ -565,9 +850,39 @@ const ProjectDetails = () => {
           }
         }
         projectId={projectId || ''}
-        teamMembers={project?.team_members || []}
-        ownerEmail={user?.email}
+        memberIds={getMemberIds(project)}
+        ownerId={project?.ownerId}
+        canAssign={allowed('tasks:assign')}
         task={selectedTask}
+        statuses={statuses}
+        parentTask={parentTask}
+        subtasks={selectedTask ? getSubtasks(selectedTask, tasks) : []}
+        onDependenciesChange={fetchTasks}
+        onTimeChange={fetchTimeEntries}
+        onCommentsChange={fetchTasks}
+        canDeleteComments={allowed('tasks:delete')}
+        canUploadAttachments={allowed('tasks:edit')}
+        canDeleteAttachments={allowed('tasks:delete')}
+        estimateUnit={project.estimateUnit}
+      />
+
+      <TaskCommentsDialog
+        open={!!commentTask}
+        onOpenChange={(open) => {
+          if (!open) setCommentTask(null);
+        }}
+        task={commentTask}
+        memberIds={getMemberIds(project)}
+        canDeleteAny={allowed('tasks:delete')}
+        onChange={fetchTasks}
+      />
+
+      <WorkflowStatusesDialog
+        open={workflowDialogOpen}
+        onOpenChange={setWorkflowDialogOpen}
+        statuses={statuses}
+        taskCounts={taskCounts}
+        onSave={handleSaveWorkflow}
       />
     </div>
   );
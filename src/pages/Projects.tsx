@@ -19,21 +19,16 @@ import EditProjectDialog from '../components/EditProjectDialog';
 import JoinProjectDialog from '../components/JoinProjectDialog';
 import ShareProjectDialog from '../components/ShareProjectDialog';
 import ProjectCreatedDialog from '../components/ProjectCreatedDialog';
-import { supabase } from '@/integrations/supabase/client';
+import { repository, Project as ProjectRecord } from '@/services/repository';
 import { useAuth } from '@/contexts/AuthContext';
+import { ROLE_LABELS, getProjectRole, isProjectMember } from '@/services/membership';
+import { can } from '@/services/permissions';
+import { DEFAULT_INVITE_EXPIRY_DAYS, expiryFromDays } from '@/services/invites';
+import { DEFAULT_STATUSES } from '@/services/workflow';
 
-interface Project {
-  id: string;
-  name: string;
-  description: string;
-  status: 'Planning' | 'In Progress' | 'On Hold' | 'Completed';
-  progress: number;
-  dueDate: string;
-  teamMembers: string[];
-  createdAt: string;
-  ownerId: string;
-  accessCode?: string;
+interface Project extends ProjectRecord {
   isOwner?: boolean;
+  memberNames: string[];
 }
 
 const Projects = () => {
@@ -47,44 +42,29 @@ const Projects = () => {
   const [selectedProject, setSelectedProject] = useState<Project | null>(null);
   const [activeTab, setActiveTab] = useState('owned');
   const [projectCreatedDialogOpen, setProjectCreatedDialogOpen] = useState(false);
-  const [createdProjectData, setCreatedProjectData] = useState<{name: string, accessCode: string} | null>(null);
+  const [createdProjectData, setCreatedProjectData] = useState<{name: string, inviteCode: string, inviteExpiresAt: string | null} | null>(null);
 
-  const fetchProjects = async () => {
+  const fetchProjects = async (): Promise<Project[]> => {
     if (!user) return [];
 
     try {
-      const { data, error } = await supabase
-        .from('projects')
-        .select('id, name, description, status, progress, due_date, team_members, created_at, owner_id, access_code');
+      const data = await repository.projects.listForUser(user);
 
-      if (error) {
-        console.error('Error fetching projects:', error);
-        console.error('Error details:', error.message, error.details, error.hint);
-        return [];
-      }
-
-      console.log('Raw data from Supabase:', data);
-
-      if (!data) {
-        console.log('No data returned from Supabase');
-        return [];
-      }
+      // Resolve member names once for every project's avatars
+      const members = await repository.users.resolve(
+        data.flatMap(project => project.members.map(member => member.userId))
+      );
+      const names = new Map(members.map(member => [member.id, member.name]));
 
       return data.map(project => ({
-        id: project.id,
-        name: project.name || '',
-        description: project.description || '',
-        status: (project.status as 'Planning' | 'In Progress' | 'On Hold' | 'Completed') || 'Planning',
-        progress: project.progress || 0,
-        dueDate: project.due_date || new Date().toISOString(),
-        teamMembers: project.team_members || [],
-        createdAt: project.created_at,
-        ownerId: project.owner_id,
-        accessCode: project.access_code || '',
-        isOwner: project.owner_id === user.id,
+        ...project,
+        isOwner: project.ownerId === user.id,
+        memberNames: project.members
+          .filter(member => member.role !== 'owner')
+          .map(member => names.get(member.userId) || 'Unknown User'),
       }));
     } catch (err) {
-      console.error('Exception in fetchProjects:', err);
+      console.error('Error fetching projects:', err);
       return [];
     }
   };
@@ -98,46 +78,17 @@ const Projects = () => {
 
     if (user) {
       loadProjects();
+      // Progress and status follow the projects' tasks
+      return repository.projects.subscribe(loadProjects);
     }
   }, [user]);
 
   // Filter projects by ownership and team membership
   const ownedProjects = projects.filter(project => project.isOwner);
   const teamProjects = projects.filter(project =>
-    !project.isOwner &&
-    (project.teamMembers.includes(user?.email || '') ||
-     project.teamMembers.includes(user?.id || ''))
+    !project.isOwner && isProjectMember(project, user?.id)
   );
 
-  // Generate unique access code
-  const generateAccessCode = async () => {
-    const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
-    let accessCode = '';
-    let isUnique = false;
-
-    while (!isUnique) {
-      // Generate 8-character code
-      accessCode = '';
-      for (let i = 0; i < 8; i++) {
-        accessCode += chars.charAt(Math.floor(Math.random() * chars.length));
-      }
-
-      // Check if code already exists
-      const { data, error } = await supabase
-        .from('projects')
-        .select('id')
-        .eq('access_code', accessCode)
-        .single();
-
-      // If no data found, the code is unique
-      if (error && error.code === 'PGRST116') {
-        isUnique = true;
-      }
-    }
-
-    return accessCode;
-  };
-
   // Handle project joined callback
   const handleProjectJoined = async () => {
     const fetchedProjects = await fetchProjects();
@@ -172,44 +123,42 @@ const Projects = () => {
 
   const filteredProjects = getCurrentProjects();
 
-  const handleCreateProject = async (newProject: Omit<Project, 'id' | 'createdAt' | 'ownerId' | 'isOwner' | 'accessCode'>) => {
+  const handleCreateProject = async (newProject: Omit<Project, 'id' | 'createdAt' | 'ownerId' | 'isOwner' | 'members' | 'memberNames'>) => {
     if (!user) return;
 
     try {
-      // Generate unique access code
-      const accessCode = await generateAccessCode();
-
-      const { data, error } = await supabase
-        .from('projects')
-        .insert({
-          name: newProject.name,
-          description: newProject.description,
-          status: newProject.status,
-          progress: newProject.progress,
-          due_date: newProject.dueDate,
-          team_members: newProject.teamMembers,
-          owner_id: user.id,
-          access_code: accessCode,
-        })
-        .select('id, name, description, status, progress, due_date, team_members, created_at, owner_id, access_code')
-        .single();
-
-      if (error) {
-        console.error('Error creating project:', error);
-        alert(`Error creating project: ${error.message}`);
-        return;
-      }
+      const data = await repository.projects.create({
+        name: newProject.name,
+        description: newProject.description,
+        status: newProject.status,
+        progress: newProject.progress,
+        dueDate: newProject.dueDate,
+        ownerId: user.id,
+        requireApproval: false,
+        statuses: DEFAULT_STATUSES,
+        estimateUnit: 'points',
+        progressMode: 'count',
+        autoComplete: false,
+      });
 
       console.log('Project created successfully:', data);
 
-      // Show success dialog with access code
-      if (data.access_code) {
-        setCreatedProjectData({
-          name: data.name,
-          accessCode: data.access_code
-        });
-        setProjectCreatedDialogOpen(true);
-      }
+      // Start the project off with a member invite
+      const invite = await repository.invites.create({
+        projectId: data.id,
+        role: 'member',
+        expiresAt: expiryFromDays(DEFAULT_INVITE_EXPIRY_DAYS),
+        maxUses: null,
+        createdBy: user.id,
+      });
+
+      // Show success dialog with the invite code
+      setCreatedProjectData({
+        name: data.name,
+        inviteCode: invite.token,
+        inviteExpiresAt: invite.expiresAt
+      });
+      setProjectCreatedDialogOpen(true);
 
       // Close create dialog
       setCreateDialogOpen(false);
@@ -219,28 +168,22 @@ const Projects = () => {
       setProjects(fetchedProjects);
     } catch (error) {
       console.error('Error creating project:', error);
-      alert(`Error creating project: ${error}`);
+      alert(`Error creating project: ${error instanceof Error ? error.message : error}`);
     }
   };
 
   const handleEditProject = async (updatedProject: Project) => {
     try {
-      const { error } = await supabase
-        .from('projects')
-        .update({
-          name: updatedProject.name,
-          description: updatedProject.description,
-          status: updatedProject.status,
-          progress: updatedProject.progress,
-          due_date: updatedProject.dueDate,
-          team_members: updatedProject.teamMembers,
-        })
-        .eq('id', updatedProject.id);
-
-      if (error) {
-        console.error('Error updating project:', error);
-        return;
-      }
+      await repository.projects.update(updatedProject.id, {
+        name: updatedProject.name,
+        description: updatedProject.description,
+        status: updatedProject.status,
+        progress: updatedProject.progress,
+        dueDate: updatedProject.dueDate,
+        estimateUnit: updatedProject.estimateUnit,
+        progressMode: updatedProject.progressMode,
+        autoComplete: updatedProject.autoComplete,
+      });
 
       // Refresh the projects list
       const fetchedProjects = await fetchProjects();
@@ -253,15 +196,7 @@ const Projects = () => {
 
   const handleDeleteProject = async (projectId: string) => {
     try {
-      const { error } = await supabase
-        .from('projects')
-        .delete()
-        .eq('id', projectId);
-
-      if (error) {
-        console.error('Error deleting project:', error);
-        return;
-      }
+      await repository.projects.remove(projectId);
 
       // Refresh the projects list
       const fetchedProjects = await fetchProjects();
@@ -350,7 +285,7 @@ const Projects = () => {
                       </Badge>
                     </div>
                     <div className="flex items-center space-x-1" onClick={(e) => e.stopPropagation()}>
-                      {project.isOwner && project.accessCode && (
+                      {can(project, user?.id, 'members:manage') && (
                         <ShareProjectDialog project={project} />
                       )}
                       <DropdownMenu>
@@ -360,7 +295,7 @@ const Projects = () => {
                           </Button>
                         </DropdownMenuTrigger>
                         <DropdownMenuContent align="end">
-                          {project.isOwner && (
+                          {can(project, user?.id, 'project:edit') && (
                             <DropdownMenuItem
                               onClick={() => {
                                 setSelectedProject(project);
@@ -371,7 +306,7 @@ const Projects = () => {
                               Edit
                             </DropdownMenuItem>
                           )}
-                          {project.isOwner && (
+                          {can(project, user?.id, 'project:delete') && (
                             <DropdownMenuItem
                               onClick={() => handleDeleteProject(project.id)}
                               className="text-red-600"
@@ -404,30 +339,19 @@ const Projects = () => {
                     <div className="flex items-center space-x-1">
                       <Users className="h-4 w-4 text-gray-400" />
                       <div className="flex -space-x-1">
-                        {project.teamMembers.slice(0, 3).map((member, index) => (
+                        {project.memberNames.slice(0, 3).map((member, index) => (
                           <Avatar key={index} className="h-6 w-6 border-2 border-white">
-                            <AvatarFallback className="text-xs">{member.substring(0, 2).toUpperCase()}</AvatarFallback>
+                            <AvatarFallback className="text-xs">{member.split(' ').map(n => n[0]).join('').substring(0, 2).toUpperCase()}</AvatarFallback>
                           </Avatar>
                         ))}
-                        {project.teamMembers.length > 3 && (
+                        {project.memberNames.length > 3 && (
                           <div className="h-6 w-6 rounded-full bg-gray-200 border-2 border-white flex items-center justify-center">
-                            <span className="text-xs text-gray-600">+{project.teamMembers.length - 3}</span>
+                            <span className="text-xs text-gray-600">+{project.memberNames.length - 3}</span>
                           </div>
                         )}
                       </div>
                     </div>
                   </div>
-
-                  {project.accessCode && (
-                    <div className="pt-2 border-t">
-                      <div className="flex items-center justify-between">
-                        <span className="text-xs text-gray-500">Access Code:</span>
-                        <code className="text-xs font-mono bg-gray-100 px-2 py-1 rounded">
-                          {project.accessCode}
-                        </code>
-                      </div>
-                    </div>
-                  )}
                 </CardContent>
               </Card>
             ))}
@@ -461,8 +385,19 @@ const Projects = () => {
                       <DropdownMenuContent align="end">
                         <DropdownMenuItem disabled>
                           <Users className="mr-2 h-4 w-4" />
-                          Team Member
+                          {ROLE_LABELS[getProjectRole(project, user?.id) || 'member']}
                         </DropdownMenuItem>
+                        {can(project, user?.id, 'project:edit') && (
+                          <DropdownMenuItem
+                            onClick={() => {
+                              setSelectedProject(project);
+                              setEditDialogOpen(true);
+                            }}
+                          >
+                            <Edit className="mr-2 h-4 w-4" />
+                            Edit
+                          </DropdownMenuItem>
+                        )}
                       </DropdownMenuContent>
                       </DropdownMenu>
                     </div>
@@ -487,14 +422,14 @@ const Projects = () => {
                     <div className="flex items-center space-x-1">
                       <Users className="h-4 w-4 text-gray-400" />
                       <div className="flex -space-x-1">
-                        {project.teamMembers.slice(0, 3).map((member, index) => (
+                        {project.memberNames.slice(0, 3).map((member, index) => (
                           <Avatar key={index} className="h-6 w-6 border-2 border-white">
-                            <AvatarFallback className="text-xs">{member.substring(0, 2).toUpperCase()}</AvatarFallback>
+                            <AvatarFallback className="text-xs">{member.split(' ').map(n => n[0]).join('').substring(0, 2).toUpperCase()}</AvatarFallback>
                           </Avatar>
                         ))}
-                        {project.teamMembers.length > 3 && (
+                        {project.memberNames.length > 3 && (
                           <div className="h-6 w-6 rounded-full bg-gray-200 border-2 border-white flex items-center justify-center">
-                            <span className="text-xs text-gray-600">+{project.teamMembers.length - 3}</span>
+                            <span className="text-xs text-gray-600">+{project.memberNames.length - 3}</span>
                           </div>
                         )}
                       </div>
@@ -556,7 +491,8 @@ const Projects = () => {
           open={projectCreatedDialogOpen}
           onOpenChange={setProjectCreatedDialogOpen}
           projectName={createdProjectData.name}
-          accessCode={createdProjectData.accessCode}
+          inviteCode={createdProjectData.inviteCode}
+          inviteExpiresAt={createdProjectData.inviteExpiresAt}
         />
       )}
     </div>
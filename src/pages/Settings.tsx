@@ -9,7 +9,7 @@ import { Switch } from '@/components/ui/switch';
 import { Separator } from '@/components/ui/separator';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { useAuth } from '@/contexts/AuthContext';
-import { supabase } from '@/integrations/supabase/client';
+import { repository } from '@/services/repository';
 
 interface UserProfile {
   full_name: string;
@@ -99,20 +99,13 @@ const Settings = () => {
     setMessage(null);
 
     try {
-      // Update user metadata in Supabase Auth
-      const { error } = await supabase.auth.updateUser({
-        data: {
-          full_name: profile.full_name
-        }
-      });
-
-      if (error) {
-        setMessage({ type: 'error', text: `Error updating profile: ${error.message}` });
-      } else {
-        setMessage({ type: 'success', text: 'Profile updated successfully!' });
-      }
+      await repository.auth.updateProfile({ fullName: profile.full_name });
+      setMessage({ type: 'success', text: 'Profile updated successfully!' });
     } catch (error) {
-      setMessage({ type: 'error', text: 'An unexpected error occurred' });
+      setMessage({
+        type: 'error',
+        text: error instanceof Error ? `Error updating profile: ${error.message}` : 'An unexpected error occurred'
+      });
     } finally {
       setLoading(false);
     }
@@ -136,18 +129,14 @@ const Settings = () => {
     setMessage(null);
 
     try {
-      const { error } = await supabase.auth.updateUser({
-        password: passwordData.newPassword
-      });
-
-      if (error) {
-        setMessage({ type: 'error', text: `Error changing password: ${error.message}` });
-      } else {
-        setMessage({ type: 'success', text: 'Password changed successfully!' });
-        setPasswordData({ currentPassword: '', newPassword: '', confirmPassword: '' });
-      }
+      await repository.auth.updateProfile({ password: passwordData.newPassword });
+      setMessage({ type: 'success', text: 'Password changed successfully!' });
+      setPasswordData({ currentPassword: '', newPassword: '', confirmPassword: '' });
     } catch (error) {
-      setMessage({ type: 'error', text: 'An unexpected error occurred' });
+      setMessage({
+        type: 'error',
+        text: error instanceof Error ? `Error changing password: ${error.message}` : 'An unexpected error occurred'
+      });
     } finally {
       setLoading(false);
     }
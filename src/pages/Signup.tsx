@@ -7,7 +7,7 @@ import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Checkbox } from '@/components/ui/checkbox';
-import { supabase } from '@/integrations/supabase/client';
+import { repository, dataBackend } from '@/services/repository';
 
 const Signup = () => {
   const [formData, setFormData] = useState({
@@ -68,29 +68,23 @@ const Signup = () => {
     setLoading(true);
 
     try {
-      const { data, error } = await supabase.auth.signUp({
+      await repository.auth.signUp({
         email: formData.email,
         password: formData.password,
-        options: {
-          data: {
-            full_name: formData.fullName,
-          },
-        },
+        fullName: formData.fullName,
       });
 
-      if (error) {
-        setError(error.message);
-      } else {
-        setSuccess('Account created successfully! Please check your email to verify your account.');
-        console.log('Signup successful:', data);
-        
-        // Optionally redirect to login page after a delay
-        setTimeout(() => {
-          navigate('/login');
-        }, 3000);
-      }
+      setSuccess(dataBackend === 'local'
+        ? 'Account created successfully! You can now sign in.'
+        : 'Account created successfully! Please check your email to verify your account.');
+      console.log('Signup successful:', formData.email);
+      
+      // Optionally redirect to login page after a delay
+      setTimeout(() => {
+        navigate('/login');
+      }, 3000);
     } catch (err) {
-      setError('An unexpected error occurred');
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred');
       console.error('Signup error:', err);
     } finally {
       setLoading(false);
@@ -99,18 +93,9 @@ const Signup = () => {
 
   const handleGoogleSignup = async () => {
     try {
-      const { error } = await supabase.auth.signInWithOAuth({
-        provider: 'google',
-        options: {
-          redirectTo: `${window.location.origin}/`,
-        },
-      });
-
-      if (error) {
-        setError(error.message);
-      }
+      await repository.auth.signInWithGoogle(`${window.location.origin}/`);
     } catch (err) {
-      setError('Failed to sign up with Google');
+      setError(err instanceof Error ? err.message : 'Failed to sign up with Google');
       console.error('Google signup error:', err);
     }
   };
@@ -0,0 +1,20 @@
+import React from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { Card } from '@/components/ui/card';
+import TaskDetailPanel from '@/components/TaskDetailPanel';
+
+// A single task on its own page, so it can be linked to
+const TaskDetails = () => {
+  const { taskId } = useParams<{ taskId: string }>();
+  const navigate = useNavigate();
+
+  return (
+    <div className="max-w-3xl mx-auto">
+      <Card>
+        <TaskDetailPanel taskId={taskId} onOpenTask={(id) => navigate(`/tasks/${id}`)} />
+      </Card>
+    </div>
+  );
+};
+
+export default TaskDetails;
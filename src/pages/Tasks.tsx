@@ -1,10 +1,14 @@
-import React, { useState, useEffect } from 'react';
-import { Plus, Search, Filter, MoreHorizontal, Calendar, User, Edit, Trash, CheckCircle } from 'lucide-react';
+import React, { useState, useEffect, useCallback } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { Plus, Search, MoreHorizontal, Calendar, User, Edit, Trash, CheckCircle, Rows3, ArrowUpDown, Columns3, Table2 } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ToastAction } from '@/components/ui/toast';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -12,140 +16,126 @@ import {
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 import KanbanView from '@/components/KanbanView';
+import TaskTable from '@/components/TaskTable';
+import TaskProgressBadge from '@/components/TaskProgressBadge';
+import BlockedBadge from '@/components/BlockedBadge';
+import CommentCountBadge from '@/components/CommentCountBadge';
+import BulkActionBar from '@/components/BulkActionBar';
+import TaskFilterBar from '@/components/TaskFilterBar';
+import SaveViewDialog from '@/components/SaveViewDialog';
+import QuickAddTask from '@/components/QuickAddTask';
 
-import { supabase } from '@/integrations/supabase/client';
+import {
+  repository,
+  Project,
+  Task,
+  TaskStatus,
+  TaskChanges,
+  AppUser,
+  WorkflowStatus,
+} from '@/services/repository';
 import { useAuth } from '@/contexts/AuthContext';
-
-interface Task {
-  id: string;
-  title: string;
-  description: string;
-  status: 'To Do' | 'In Progress' | 'Completed';
-  due_date: string;
-  assigned_to: string | null;
-  project_id: string;
-  project_name?: string;
-  created_at?: string;
-}
-
-interface UserProfile {
-  id: string;
-  email: string;
-  full_name: string | null;
-}
+import { useTaskPanel } from '@/hooks/use-task-panel';
+import {
+  DEFAULT_STATUSES,
+  findStatus,
+  findStatusByName,
+  getDoneStatusId,
+  getInitialStatusId,
+  getStatusColor,
+  getStatusesByProject,
+  isDoneStatus,
+  mapStatus,
+  mergeStatuses,
+} from '@/services/workflow';
+import { getMemberIds } from '@/services/membership';
+import { can } from '@/services/permissions';
+import { PRIORITY_COLORS, byPriority } from '@/services/priority';
+import { getTaskProgress } from '@/services/subtasks';
+import { getBlockedWarning } from '@/services/dependencies';
+import { dataService } from '@/services/dataService';
+import { toast } from '@/hooks/use-toast';
+import { UNDO_DELAY, getSelectionRange, getUndoChanges, pluralizeTasks, setSelected } from '@/services/bulk';
+import { SWIMLANE_LABELS, SwimlaneGrouping, getSwimlaneId, getSwimlanes } from '@/services/swimlanes';
+import {
+  DEFAULT_FILTERS,
+  SORT_LABELS,
+  TaskFilters,
+  TaskSort,
+  countActiveFilters,
+  matchesFilters,
+  parseFilters,
+  toSearchParams,
+} from '@/services/taskFilters';
+import {
+  DEFAULT_TABLE_PREFERENCES,
+  TABLE_PREFERENCES_KEY,
+  TASKS_VIEW_KEY,
+  TablePreferences,
+  TasksView,
+  normalizeTablePreferences,
+} from '@/services/taskTable';
 
 const Tasks = () => {
   const { user } = useAuth();
+  const { openTask } = useTaskPanel();
   const [tasks, setTasks] = useState<Task[]>([]);
-  const [searchTerm, setSearchTerm] = useState('');
-  const [statusFilter, setStatusFilter] = useState('All');
-  const [userProfiles, setUserProfiles] = useState<{[key: string]: UserProfile}>({});
-
-  // Helper function to validate UUID format
-  const isValidUUID = (str: string): boolean => {
-    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
-    return uuidRegex.test(str);
-  };
+  // Filters live in the query string, so a view can be reloaded, shared or saved
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters = parseFilters(searchParams);
+  const [userProfiles, setUserProfiles] = useState<{[key: string]: AppUser}>({});
+  const [statusesByProject, setStatusesByProject] = useState<Record<string, WorkflowStatus[]>>({});
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [subtasks, setSubtasks] = useState<Task[]>([]);
+  const [openBlockers, setOpenBlockers] = useState<Record<string, Task[]>>({});
+  const [commentCounts, setCommentCounts] = useState<Record<string, number>>({});
+  const [swimlaneGrouping, setSwimlaneGrouping] = useState<SwimlaneGrouping>('none');
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  // Where the last click landed, so shift-click can select the range up to it
+  const [selectionAnchor, setSelectionAnchor] = useState<string | null>(null);
+  // Deleted in a batch but still undoable, so hidden until the delete goes through
+  const [pendingDeleteIds, setPendingDeleteIds] = useState<string[]>([]);
+  // Kept per user, so the chosen view and table columns follow them between devices
+  const [view, setView] = useState<TasksView>('board');
+  const [tablePreferences, setTablePreferences] = useState<TablePreferences>(DEFAULT_TABLE_PREFERENCES);
 
-  // Fetch user profile by ID
-  const fetchUserProfile = async (userId: string): Promise<UserProfile | null> => {
-    if (!isValidUUID(userId)) {
-      console.error(`Invalid UUID format for user ID: ${userId}`);
-      return null;
-    }
-
-    try {
-      const { data: userData, error: userError } = await supabase.auth.admin.getUserById(userId);
-      
-      if (userError) {
-        console.error(`Error fetching user ${userId}:`, userError);
-        return null;
-      }
-
-      if (userData?.user) {
-        return {
-          id: userData.user.id,
-          email: userData.user.email || '',
-          full_name: userData.user.user_metadata?.full_name || userData.user.user_metadata?.name || null
-        };
-      }
-    } catch (err) {
-      console.error(`Error fetching user ${userId}:`, err);
-    }
-    
-    return null;
-  };
-
-  // Fetch tasks assigned to current user
-  const fetchTasks = async () => {
+  // Fetch tasks across the user's projects; the assignee filter narrows them to the user's own by default
+  const fetchTasks = useCallback(async () => {
     if (!user) return [];
 
     try {
-      // Query tasks assigned to the current user's ID only
-      const { data, error } = await supabase
-        .from('tasks')
-        .select(`
-          id,
-          title,
-          description,
-          status,
-          due_date,
-          project_id,
-          assigned_to,
-          created_at,
-          projects (
-            name
-          )
-        `)
-        .eq('assigned_to', user.id) // Only query by user ID, not email
-        .order('created_at', { ascending: false });
-
-      if (error) {
-        console.error('Error fetching user tasks:', error);
-        return [];
-      }
+      const projects = await repository.projects.listForUser(user);
+      const data = await repository.tasks.listByProjects(projects.map(project => project.id));
+      setStatusesByProject(getStatusesByProject(projects));
+      setProjects(projects);
+      const [taskSubtasks, blockers, counts] = await Promise.all([
+        repository.tasks.listSubtasks(data.map(task => task.id)),
+        dataService.getOpenBlockers(data, getStatusesByProject(projects)),
+        repository.comments.countByTasks(data.map(task => task.id)),
+      ]);
+      setSubtasks(taskSubtasks);
+      setOpenBlockers(blockers);
+      setCommentCounts(counts);
 
-      console.log('Raw user tasks data from Supabase:', data);
-
-      if (!data) {
-        console.log('No user tasks data returned from Supabase');
-        return [];
-      }
-
-      // Collect unique user IDs for profile fetching
-      const userIds = [...new Set(data.map(task => task.assigned_to).filter(Boolean))];
-      
-      // Fetch user profiles for all assigned users
-      const profiles: {[key: string]: UserProfile} = {};
-      for (const userId of userIds) {
-        if (userId && !userProfiles[userId]) {
-          const profile = await fetchUserProfile(userId);
-          if (profile) {
-            profiles[userId] = profile;
-          }
-        }
-      }
+      // Fetch user profiles for all assigned users and project members, who get assignee swimlanes
+      const profiles: {[key: string]: AppUser} = {};
+      const assignees = await repository.users.resolve([
+        ...data.map(task => task.assignedTo).filter(Boolean),
+        ...projects.flatMap(getMemberIds),
+      ]);
+      assignees.forEach(profile => {
+        profiles[profile.id] = profile;
+      });
       
       // Update user profiles state
       setUserProfiles(prev => ({ ...prev, ...profiles }));
 
-      // Map database fields to frontend interface
-      return data.map(task => ({
-        id: task.id,
-        title: task.title || '',
-        description: task.description || '',
-        status: (task.status as 'To Do' | 'In Progress' | 'Completed') || 'To Do',
-        due_date: task.due_date || new Date().toISOString(),
-        assigned_to: task.assigned_to,
-        project_id: task.project_id,
-        project_name: task.projects?.name || 'Unknown Project',
-        created_at: task.created_at || new Date().toISOString(),
-      }));
+      return data;
     } catch (err) {
-      console.error('Exception in fetchTasks:', err);
+      console.error('Error fetching user tasks:', err);
       return [];
     }
-  };
+  }, [user]);
 
   // Load tasks on component mount
   useEffect(() => {
@@ -160,55 +150,225 @@ const Tasks = () => {
     }
   }, [user, fetchTasks]);
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'To Do':
-        return 'bg-gray-100 text-gray-800';
-      case 'In Progress':
-        return 'bg-blue-100 text-blue-800';
-      case 'Completed':
-        return 'bg-green-100 text-green-800';
-      default:
-        return 'bg-gray-100 text-gray-800';
-    }
+  useEffect(() => {
+    if (!user) return;
+
+    const loadPreferences = async () => {
+      try {
+        const [savedView, savedTable] = await Promise.all([
+          repository.preferences.get<TasksView>(user.id, TASKS_VIEW_KEY),
+          repository.preferences.get<TablePreferences>(user.id, TABLE_PREFERENCES_KEY),
+        ]);
+        if (savedView === 'board' || savedView === 'table') setView(savedView);
+        setTablePreferences(normalizeTablePreferences(savedTable));
+      } catch (error) {
+        console.error('Error loading task view preferences:', error);
+      }
+    };
+
+    loadPreferences();
+  }, [user]);
+
+  const savePreference = (key: string, value: unknown) => {
+    if (!user) return;
+    repository.preferences.set(user.id, key, value).catch(error => {
+      console.error('Error saving task view preferences:', error);
+    });
+  };
+
+  const handleViewChange = (next: TasksView) => {
+    setView(next);
+    savePreference(TASKS_VIEW_KEY, next);
   };
 
-  const filteredTasks = tasks.filter(task => {
-    const matchesSearch = task.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         (task.description && task.description.toLowerCase().includes(searchTerm.toLowerCase()));
-    const matchesStatus = statusFilter === 'All' || task.status === statusFilter;
-    return matchesSearch && matchesStatus;
-  });
+  const handleTablePreferencesChange = (preferences: TablePreferences) => {
+    setTablePreferences(preferences);
+    savePreference(TABLE_PREFERENCES_KEY, preferences);
+  };
+
+  const getTaskStatuses = (task: Task) => statusesByProject[task.projectId] || DEFAULT_STATUSES;
+
+  // Subtasks may be assigned to someone else, so they're fetched separately
+  const getProgress = (task: Task) => getTaskProgress(task, subtasks, statusesByProject);
+
+  // Subtasks stay in their parent's project, so tasks that have some can't change projects
+  const hasSubtasks = (task: Task) => subtasks.some(subtask => subtask.parentId === task.id);
+
+  // Columns and filter options across all workflows, statuses with the same name combined
+  const statusColumns = mergeStatuses(
+    Object.keys(statusesByProject).length ? Object.values(statusesByProject) : [DEFAULT_STATUSES]
+  );
+
+  const visibleTasks = tasks.filter(task => !pendingDeleteIds.includes(task.id));
+
+  const filteredTasks = visibleTasks.filter(task => matchesFilters(task, filters, user?.id, getTaskStatuses(task)));
+
+  // Tasks arrive newest first
+  if (filters.sort === 'priority') {
+    filteredTasks.sort(byPriority);
+  } else if (filters.sort === 'dueDate') {
+    filteredTasks.sort((a, b) => new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime());
+  }
+
+  const updateFilters = (changes: Partial<TaskFilters>) => {
+    setSearchParams(toSearchParams({ ...filters, ...changes }), { replace: true });
+  };
+
+  const handleStatusChange = async (taskId: string, newStatus: TaskStatus) => {
+    await handleMoveTask(taskId, { status: newStatus });
+  };
+
+  const warnIfBlocked = (task: Task, status: TaskStatus) => {
+    const warning = getBlockedWarning(task, openBlockers[task.id], getTaskStatuses(task), status);
+    if (warning) toast(warning);
+  };
+
+  const handleMoveTask = async (taskId: string, changes: TaskChanges) => {
+    const task = tasks.find(t => t.id === taskId);
+    if (task && changes.status) warnIfBlocked(task, changes.status);
+
+    // Show the move right away, then reload from the backend
+    setTasks(prev => prev.map(task => task.id === taskId ? { ...task, ...changes } : task));
 
-  const handleStatusChange = async (taskId: string, newStatus: Task['status']) => {
     try {
-      const { error } = await supabase
-        .from('tasks')
-        .update({ status: newStatus })
-        .eq('id', taskId);
-
-      if (error) {
-        console.error('Error updating task status:', error);
-        alert(`Error updating task status: ${error.message}`);
-        return;
-      }
+      await repository.tasks.update(taskId, changes);
 
       // Refresh the tasks list
       const fetchedTasks = await fetchTasks();
       setTasks(fetchedTasks);
     } catch (error) {
       console.error('Error updating task status:', error);
-      alert(`Error updating task status: ${error}`);
+      alert(`Error updating task status: ${error instanceof Error ? error.message : error}`);
+      setTasks(await fetchTasks());
     }
   };
 
+  // Edits made in the task panel show up here once saved
+  const handleOpenTask = (task: Task) => openTask(task.id, async () => setTasks(await fetchTasks()));
+
+  // Selection only counts tasks that are still listed, so filtering hides them from batch actions
+  const selectedTasks = filteredTasks.filter(task => selectedIds.has(task.id));
+
+  const handleSelect = (taskId: string, shiftKey: boolean) => {
+    const selected = !selectedIds.has(taskId);
+    const ids = shiftKey && selectionAnchor
+      ? getSelectionRange(filteredTasks.map(task => task.id), selectionAnchor, taskId)
+      : [taskId];
+    setSelectedIds(setSelected(selectedIds, ids, selected));
+    setSelectionAnchor(taskId);
+  };
+
+  const handleSelectAll = (selected: boolean) => {
+    setSelectedIds(selected ? new Set(filteredTasks.map(task => task.id)) : new Set());
+    setSelectionAnchor(null);
+  };
+
+  // Applies each task's changes, skipping tasks it returns null for, then offers one undo
+  // that puts back what every changed task had before
+  const runBatch = async (describe: (tasks: string) => string, changesFor: (task: Task) => TaskChanges | null) => {
+    const batch = selectedTasks
+      .map(task => ({ task, changes: changesFor(task) }))
+      .filter(({ changes }) => changes !== null);
+    const skipped = selectedTasks.length - batch.length;
+    setSelectedIds(new Set());
+
+    const applied: typeof batch = [];
+    for (const item of batch) {
+      try {
+        await repository.tasks.update(item.task.id, item.changes);
+        applied.push(item);
+      } catch (error) {
+        console.error('Error updating task in batch:', error);
+      }
+    }
+    setTasks(await fetchTasks());
+
+    const notes = [
+      skipped > 0 && `${pluralizeTasks(skipped)} skipped`,
+      batch.length > applied.length && `${pluralizeTasks(batch.length - applied.length)} couldn't be changed`,
+    ].filter(Boolean).join(', ');
+
+    if (applied.length === 0) {
+      toast({ variant: 'destructive', title: 'No tasks were changed', description: notes });
+      return;
+    }
+
+    const undo = async () => {
+      for (const { task, changes } of applied) {
+        try {
+          await repository.tasks.update(task.id, getUndoChanges(task, changes));
+        } catch (error) {
+          console.error('Error undoing batch change:', error);
+        }
+      }
+      setTasks(await fetchTasks());
+    };
+
+    toast({
+      title: describe(pluralizeTasks(applied.length)),
+      description: notes || undefined,
+      action: <ToastAction altText="Undo" onClick={undo}>Undo</ToastAction>,
+    });
+  };
+
+  // Tasks disappear right away but are only deleted once the undo toast has had its time
+  const handleBatchDelete = () => {
+    const ids = selectedTasks.map(task => task.id);
+    setSelectedIds(new Set());
+    setPendingDeleteIds(prev => [...prev, ...ids]);
+    const restore = () => setPendingDeleteIds(prev => prev.filter(id => !ids.includes(id)));
+
+    const timer = setTimeout(async () => {
+      let failed = 0;
+      for (const id of ids) {
+        try {
+          await repository.tasks.remove(id);
+        } catch (error) {
+          console.error('Error deleting task in batch:', error);
+          failed++;
+        }
+      }
+      setTasks(await fetchTasks());
+      restore();
+      if (failed > 0) {
+        toast({ variant: 'destructive', title: `${pluralizeTasks(failed)} couldn't be deleted` });
+      }
+    }, UNDO_DELAY);
+
+    toast({
+      title: `Deleted ${pluralizeTasks(ids.length)}`,
+      duration: UNDO_DELAY,
+      action: (
+        <ToastAction
+          altText="Undo"
+          onClick={() => {
+            clearTimeout(timer);
+            restore();
+          }}
+        >
+          Undo
+        </ToastAction>
+      ),
+    });
+  };
+
+  const getProject = (task: Task) => projects.find(project => project.id === task.projectId);
+
+  // Anyone in at least one selected task's project; tasks from other projects are skipped
+  const batchAssignees = [...new Set(selectedTasks.flatMap(task => {
+    const project = getProject(task);
+    return project ? getMemberIds(project) : [];
+  }))].map(id => userProfiles[id]).filter(Boolean);
+
+  const moveTargets = projects.filter(project => can(project, user?.id, 'tasks:create'));
+
   // Get display name for assigned user
   const getAssignedUserDisplay = (assignedTo: string | null) => {
     if (!assignedTo) return 'Unassigned';
     
     const profile = userProfiles[assignedTo];
     if (profile) {
-      return profile.full_name || profile.email.split('@')[0];
+      return profile.name;
     }
     
     // Fallback: if it's an email, show username part
@@ -224,8 +384,8 @@ const Tasks = () => {
     if (!assignedTo) return 'UN';
     
     const profile = userProfiles[assignedTo];
-    if (profile?.full_name) {
-      const names = profile.full_name.split(' ');
+    if (profile?.name) {
+      const names = profile.name.split(' ');
       return names.length > 1 
         ? `${names[0][0]}${names[1][0]}`.toUpperCase()
         : names[0].substring(0, 2).toUpperCase();
@@ -239,101 +399,243 @@ const Tasks = () => {
     return assignedTo.substring(0, 2).toUpperCase();
   };
 
+  const swimlanes = swimlaneGrouping === 'none'
+    ? undefined
+    : getSwimlanes(swimlaneGrouping, filteredTasks, projects, getAssignedUserDisplay, hasSubtasks);
+
+  const isDefaultAssignee = filters.assignees.join() === DEFAULT_FILTERS.assignees.join();
+  const people = [...new Set(projects.flatMap(getMemberIds))]
+    .filter(id => id !== user?.id)
+    .map(id => userProfiles[id])
+    .filter(Boolean);
+
   return (
     <div className="space-y-6">
       {/* Header */}
       <div className="flex items-center justify-between">
         <div>
           <h1 className="text-3xl font-bold text-gray-900">My Tasks</h1>
-          <p className="text-gray-600 mt-1">Tasks assigned to you across all projects</p>
+          <p className="text-gray-600 mt-1">
+            {isDefaultAssignee ? 'Tasks assigned to you across all projects' : 'Tasks across all your projects'}
+          </p>
         </div>
+        <SaveViewDialog query={searchParams.toString()} />
       </div>
 
+      {/* Quick Add */}
+      <QuickAddTask onCreated={async () => setTasks(await fetchTasks())} />
+
       {/* Filters and Search */}
       <div className="flex items-center space-x-4">
         <div className="relative flex-1 max-w-md">
           <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
           <Input
             placeholder="Search tasks..."
-            value={searchTerm}
-            onChange={(e) => setSearchTerm(e.target.value)}
+            value={filters.search}
+            onChange={(e) => updateFilters({ search: e.target.value })}
             className="pl-10"
           />
         </div>
         <DropdownMenu>
           <DropdownMenuTrigger asChild>
             <Button variant="outline">
-              <Filter className="mr-2 h-4 w-4" />
-              Status: {statusFilter}
+              <ArrowUpDown className="mr-2 h-4 w-4" />
+              Sort: {SORT_LABELS[filters.sort]}
             </Button>
           </DropdownMenuTrigger>
           <DropdownMenuContent>
-            <DropdownMenuItem onClick={() => setStatusFilter('All')}>All</DropdownMenuItem>
-            <DropdownMenuItem onClick={() => setStatusFilter('To Do')}>To Do</DropdownMenuItem>
-            <DropdownMenuItem onClick={() => setStatusFilter('In Progress')}>In Progress</DropdownMenuItem>
-            <DropdownMenuItem onClick={() => setStatusFilter('Completed')}>Completed</DropdownMenuItem>
+            {(Object.keys(SORT_LABELS) as TaskSort[]).map(sort => (
+              <DropdownMenuItem key={sort} onClick={() => updateFilters({ sort })}>
+                {SORT_LABELS[sort]}
+              </DropdownMenuItem>
+            ))}
           </DropdownMenuContent>
         </DropdownMenu>
+        <Tabs value={view} onValueChange={(value) => handleViewChange(value as TasksView)}>
+          <TabsList>
+            <TabsTrigger value="board" className="flex items-center">
+              <Columns3 className="mr-2 h-4 w-4" />
+              Board
+            </TabsTrigger>
+            <TabsTrigger value="table" className="flex items-center">
+              <Table2 className="mr-2 h-4 w-4" />
+              Table
+            </TabsTrigger>
+          </TabsList>
+        </Tabs>
+        {view === 'board' && (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline">
+                <Rows3 className="mr-2 h-4 w-4" />
+                Swimlanes: {SWIMLANE_LABELS[swimlaneGrouping]}
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent>
+              {(Object.keys(SWIMLANE_LABELS) as SwimlaneGrouping[]).map(grouping => (
+                <DropdownMenuItem key={grouping} onClick={() => setSwimlaneGrouping(grouping)}>
+                  {SWIMLANE_LABELS[grouping]}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
       </div>
 
-      {/* Kanban View */}
-      <KanbanView tasks={tasks} onStatusChange={handleStatusChange} />
-
-      {/* Tasks List */}
-      <div className="space-y-4">
-        {filteredTasks.map((task) => (
-          <Card key={task.id} className="hover:shadow-md transition-shadow">
-            <CardContent className="p-6">
-              <div className="flex items-start justify-between">
-                <div className="flex-1">
-                  <div className="flex items-center space-x-3 mb-2">
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => handleStatusChange(task.id, task.status === 'Completed' ? 'To Do' : 'Completed')}
-                      className="p-0 h-6 w-6"
-                    >
-                      <CheckCircle className={`h-5 w-5 ${task.status === 'Completed' ? 'text-green-500' : 'text-gray-300'}`} />
-                    </Button>
-                    <h3 className={`font-semibold text-lg ${task.status === 'Completed' ? 'line-through text-gray-500' : 'text-gray-900'}`}>
-                      {task.title}
-                    </h3>
-                    <Badge className={getStatusColor(task.status)}>
-                      {task.status}
-                    </Badge>
-                  </div>
-                  
-                  <p className="text-gray-600 mb-3">{task.description || 'No description available'}</p>
-                  
-                  <div className="flex items-center space-x-6 text-sm text-gray-500">
-                    <div className="flex items-center">
-                      <User className="h-4 w-4 mr-1" />
-                      <Avatar className="h-6 w-6 mr-2">
-                        <AvatarFallback className="text-xs">
-                          {getAvatarInitials(task.assigned_to)}
-                        </AvatarFallback>
-                      </Avatar>
-                      {getAssignedUserDisplay(task.assigned_to)}
-                    </div>
-                    <div className="flex items-center">
-                      <Calendar className="h-4 w-4 mr-1" />
-                      Due {new Date(task.due_date).toLocaleDateString()}
+      <TaskFilterBar
+        filters={filters}
+        onChange={updateFilters}
+        statuses={statusColumns}
+        projects={projects}
+        people={people}
+      />
+
+      {/* Board or Table */}
+      {view === 'board' ? (
+        <KanbanView
+          tasks={filteredTasks}
+          statuses={statusColumns}
+          statusesByProject={statusesByProject}
+          onMoveTask={handleMoveTask}
+          getProgress={getProgress}
+          getBlockers={(task) => openBlockers[task.id] || []}
+          getCommentCount={(task) => commentCounts[task.id] || 0}
+          onOpenTask={handleOpenTask}
+          lanes={swimlanes}
+          laneOf={(task) => getSwimlaneId(swimlaneGrouping, task)}
+        />
+      ) : filteredTasks.length > 0 && (
+        <TaskTable
+          tasks={filteredTasks}
+          preferences={tablePreferences}
+          onPreferencesChange={handleTablePreferencesChange}
+          projects={projects}
+          statuses={statusColumns}
+          getTaskStatuses={getTaskStatuses}
+          hasSubtasks={hasSubtasks}
+          people={Object.values(userProfiles)}
+          getUserName={getAssignedUserDisplay}
+          onUpdateTask={(task, changes) => handleMoveTask(task.id, changes)}
+          onOpenTask={handleOpenTask}
+          selectedIds={selectedIds}
+          onSelect={handleSelect}
+        />
+      )}
+
+      {/* Batch Actions */}
+      {filteredTasks.length > 0 && (
+        <BulkActionBar
+          total={filteredTasks.length}
+          selectedCount={selectedTasks.length}
+          onSelectAll={handleSelectAll}
+          statuses={statusColumns}
+          assignees={batchAssignees}
+          projects={moveTargets}
+          onSetStatus={(column) => runBatch(tasks => `Updated ${tasks}`, task => {
+            // Matched by name, as on the board; tasks whose workflow lacks it are skipped
+            const status = findStatusByName(getTaskStatuses(task), column.name);
+            return status ? { status: status.id } : null;
+          })}
+          onAssign={(userId) => runBatch(tasks => `${userId ? 'Reassigned' : 'Unassigned'} ${tasks}`, task => {
+            const project = getProject(task);
+            return !userId || (project && getMemberIds(project).includes(userId)) ? { assignedTo: userId } : null;
+          })}
+          onSetDueDate={(dueDate) => runBatch(tasks => `Rescheduled ${tasks}`, () => ({ dueDate }))}
+          onSetPriority={(priority) => runBatch(tasks => `Updated ${tasks}`, () => ({ priority }))}
+          onMove={(project) => runBatch(tasks => `Moved ${tasks} to ${project.name}`, task => {
+            // Subtasks stay with their parent, and parents with their subtasks
+            if (task.parentId || hasSubtasks(task) || task.projectId === project.id) return null;
+            const targetStatuses = statusesByProject[project.id] || DEFAULT_STATUSES;
+            return { projectId: project.id, status: mapStatus(getTaskStatuses(task), task.status, targetStatuses) };
+          })}
+          onDelete={handleBatchDelete}
+        />
+      )}
+
+      {/* Tasks List, below the board */}
+      {view === 'board' && (
+        <div className="space-y-4">
+          {filteredTasks.map((task) => {
+            const taskStatuses = getTaskStatuses(task);
+            const done = isDoneStatus(taskStatuses, task.status);
+            return (
+              <Card
+                key={task.id}
+                className={`hover:shadow-md transition-shadow ${selectedIds.has(task.id) ? 'ring-2 ring-blue-300' : ''}`}
+              >
+                <CardContent className="p-6">
+                  <div className="flex items-start justify-between">
+                    <div className="flex-1">
+                      <div className="flex items-center space-x-3 mb-2">
+                        <Checkbox
+                          checked={selectedIds.has(task.id)}
+                          // Handled on click, which knows whether shift was held
+                          onClick={(e) => {
+                            e.preventDefault();
+                            handleSelect(task.id, e.shiftKey);
+                          }}
+                          aria-label={`Select ${task.title}`}
+                        />
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleStatusChange(
+                            task.id,
+                            done ? getInitialStatusId(taskStatuses) : getDoneStatusId(taskStatuses)
+                          )}
+                          className="p-0 h-6 w-6"
+                        >
+                          <CheckCircle className={`h-5 w-5 ${done ? 'text-green-500' : 'text-gray-300'}`} />
+                        </Button>
+                        <h3 className={`font-semibold text-lg ${done ? 'line-through text-gray-500' : 'text-gray-900'}`}>
+                          <button type="button" className="text-left hover:underline" onClick={() => handleOpenTask(task)}>
+                            {task.title}
+                          </button>
+                        </h3>
+                        <Badge className={getStatusColor(taskStatuses, task.status)}>
+                          {findStatus(taskStatuses, task.status).name}
+                        </Badge>
+                        <Badge className={PRIORITY_COLORS[task.priority]}>
+                          {task.priority}
+                        </Badge>
+                        <TaskProgressBadge progress={getProgress(task)} />
+                        <BlockedBadge blockers={openBlockers[task.id]} />
+                        <CommentCountBadge count={commentCounts[task.id]} />
+                      </div>
+                    
+                      <p className="text-gray-600 mb-3">{task.description || 'No description available'}</p>
+                    
+                      <div className="flex items-center space-x-6 text-sm text-gray-500">
+                        <div className="flex items-center">
+                          <User className="h-4 w-4 mr-1" />
+                          <Avatar className="h-6 w-6 mr-2">
+                            <AvatarFallback className="text-xs">
+                              {getAvatarInitials(task.assignedTo)}
+                            </AvatarFallback>
+                          </Avatar>
+                          {getAssignedUserDisplay(task.assignedTo)}
+                        </div>
+                        <div className="flex items-center">
+                          <Calendar className="h-4 w-4 mr-1" />
+                          Due {new Date(task.dueDate).toLocaleDateString()}
+                        </div>
+                        <div>Project: {task.projectName}</div>
+                      </div>
                     </div>
-                    <div>Project: {task.project_name}</div>
+                  
                   </div>
-                </div>
-                
-              </div>
-            </CardContent>
-          </Card>
-        ))}
-      </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
 
       {filteredTasks.length === 0 && (
         <div className="text-center py-12">
           <h3 className="text-lg font-medium text-gray-900 mb-2">No tasks found</h3>
           <p className="text-gray-600 mb-4">
-            {searchTerm || statusFilter !== 'All' 
+            {filters.search || countActiveFilters(filters) > 0
               ? 'Try adjusting your search or filters' 
               : 'Get started by joining a project'
             }
@@ -3,7 +3,9 @@ import { Users, Mail, Phone, User } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
-import { supabase } from '@/integrations/supabase/client';
+import { repository, Task, ProjectRole } from '@/services/repository';
+import { PROJECT_ROLES, ROLE_LABELS } from '@/services/membership';
+import { DEFAULT_STATUSES, getStatusesByProject, isDoneStatus } from '@/services/workflow';
 import { useAuth } from '@/contexts/AuthContext';
 import { useNavigate } from 'react-router-dom';
 
@@ -41,30 +43,12 @@ const Team = () => {
     try {
       setLoading(true);
 
-      // Get current user's ID
-      const { data: { user: currentUser }, error: currentUserError } = 
-        await supabase.auth.getUser();
-      
-      if (currentUserError || !currentUser) {
-        console.error('Error getting current user:', currentUserError);
-        return;
-      }
-
-      const currentUserId = currentUser.id;
-      const currentUserEmail = currentUser.email || '';
+      const currentUserId = authUser.id;
 
       // Fetch projects where user is owner or team member
-      const { data: projects, error: projectsError } = await supabase
-        .from('projects')
-        .select('id, name, owner_id, team_members')
-        .or(`owner_id.eq.${currentUserId},team_members.cs.{${currentUserId}},team_members.cs.{${currentUserEmail}}`);
-      
-      if (projectsError) {
-        console.error('Error fetching projects:', projectsError);
-        return;
-      }
+      const projects = await repository.projects.listForUser(authUser);
 
-      if (!projects || projects.length === 0) {
+      if (projects.length === 0) {
         setTeamMembers([]);
         setStats({ totalProjects: 0, totalTasks: 0, activeTasks: 0 });
         return;
@@ -72,84 +56,46 @@ const Team = () => {
 
       const projectIds = projects.map(p => p.id);
 
-      // Fetch all tasks for these projects to get assigned_to IDs
-      const { data: tasks, error: tasksError } = await supabase
-        .from('tasks')
-        .select('id, assigned_to, project_id, status')
-        .in('project_id', projectIds);
-
-      if (tasksError) {
+      // Fetch all tasks for these projects to get assignees
+      let tasks: Task[] = [];
+      try {
+        tasks = await repository.tasks.listByProjects(projectIds);
+      } catch (tasksError) {
         console.error('Error fetching tasks:', tasksError);
       }
 
-      // Collect all unique user IDs from projects and tasks
+      // Collect every member and assignee, keeping each user's highest project role
       const allUserIds = new Set<string>();
-      const userProjects = new Map<string, string[]>();
+      const userProjects = new Map<string, Set<string>>();
       const userTasks = new Map<string, number>();
-      const userRoles = new Map<string, { isOwner: boolean; isAssignee: boolean }>();
+      const userRoles = new Map<string, ProjectRole>();
 
-      // Process project owners and team members
-      for (const project of projects) {
-        // Add project owner
-        if (project.owner_id) {
-          allUserIds.add(project.owner_id);
-          if (!userProjects.has(project.owner_id)) {
-            userProjects.set(project.owner_id, []);
-          }
-          userProjects.get(project.owner_id)?.push(project.name);
-          userRoles.set(project.owner_id, { 
-            isOwner: true, 
-            isAssignee: userRoles.get(project.owner_id)?.isAssignee || false 
-          });
+      const addProject = (userId: string, projectName: string) => {
+        allUserIds.add(userId);
+        if (!userProjects.has(userId)) {
+          userProjects.set(userId, new Set());
         }
+        userProjects.get(userId)?.add(projectName);
+      };
 
-        // Add team members
-        if (project.team_members && Array.isArray(project.team_members)) {
-          for (const memberId of project.team_members) {
-            // Only add if it's a valid UUID (user ID)
-            if (/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(memberId)) {
-              allUserIds.add(memberId);
-              if (!userProjects.has(memberId)) {
-                userProjects.set(memberId, []);
-              }
-              userProjects.get(memberId)?.push(project.name);
-              userRoles.set(memberId, { 
-                isOwner: userRoles.get(memberId)?.isOwner || false,
-                isAssignee: userRoles.get(memberId)?.isAssignee || false 
-              });
-            }
+      for (const project of projects) {
+        for (const member of project.members) {
+          addProject(member.userId, project.name);
+          const currentRole = userRoles.get(member.userId);
+          if (!currentRole || PROJECT_ROLES.indexOf(member.role) < PROJECT_ROLES.indexOf(currentRole)) {
+            userRoles.set(member.userId, member.role);
           }
         }
       }
 
       // Process task assignees
-      if (tasks) {
-        for (const task of tasks) {
-          if (task.assigned_to) {
-            allUserIds.add(task.assigned_to);
-            
-            // Count tasks per user
-            const currentCount = userTasks.get(task.assigned_to) || 0;
-            userTasks.set(task.assigned_to, currentCount + 1);
-
-            // Mark as assignee
-            const currentRole = userRoles.get(task.assigned_to) || { isOwner: false, isAssignee: false };
-            userRoles.set(task.assigned_to, { 
-              ...currentRole, 
-              isAssignee: true 
-            });
-
-            // Add project name if not already there
-            const projectName = projects.find(p => p.id === task.project_id)?.name;
-            if (projectName) {
-              if (!userProjects.has(task.assigned_to)) {
-                userProjects.set(task.assigned_to, []);
-              }
-              const userProjectList = userProjects.get(task.assigned_to);
-              if (userProjectList && !userProjectList.includes(projectName)) {
-                userProjectList.push(projectName);
-              }
-            }
+      for (const task of tasks) {
+        if (task.assignedTo) {
+          userTasks.set(task.assignedTo, (userTasks.get(task.assignedTo) || 0) + 1);
+
+          const projectName = projects.find(p => p.id === task.projectId)?.name;
+          if (projectName) {
+            addProject(task.assignedTo, projectName);
           }
         }
       }
@@ -157,71 +103,38 @@ const Team = () => {
       // Remove current user from the list to show only other team members
       allUserIds.delete(currentUserId);
 
-      // Fetch user information for all collected user IDs
-      const teamMembersList: TeamMember[] = [];
+      const resolvedUsers = await repository.users.resolve(Array.from(allUserIds));
+      const teamMembersMap = new Map<string, TeamMember>();
 
       for (const userId of Array.from(allUserIds)) {
-        try {
-          // Fetch user information using Supabase auth admin
-          const { data: userData, error: userError } = 
-            await supabase.auth.admin.getUserById(userId);
-          
-          let userEmail = '';
-          let userName = '';
-
-          if (userError || !userData.user) {
-            console.warn(`Failed to fetch user for ID: ${userId}`, userError);
-            userEmail = 'unknown@example.com';
-            userName = 'Unknown User';
-          } else {
-            userEmail = userData.user.email || 'unknown@example.com';
-            userName = userData.user.user_metadata?.full_name || 
-                       userData.user.user_metadata?.name || 
-                       userEmail.split('@')[0] || 
-                       'Unknown User';
-          }
+        const resolved = resolvedUsers.find(u => u.id === userId);
+        const projectRole = userRoles.get(userId);
+        const taskCount = userTasks.get(userId) || 0;
 
-          const roleInfo = userRoles.get(userId) || { isOwner: false, isAssignee: false };
-          let role = 'Team Member';
-          if (roleInfo.isOwner && roleInfo.isAssignee) {
-            role = 'Project Owner & Task Assignee';
-          } else if (roleInfo.isOwner) {
-            role = 'Project Owner';
-          } else if (roleInfo.isAssignee) {
-            role = 'Task Assignee';
-          }
-
-          teamMembersList.push({
-            id: userId,
-            email: userEmail,
-            name: userName,
-            role: role,
-            projects: [...new Set(userProjects.get(userId) || [])], // Remove duplicates
-            tasks: userTasks.get(userId) || 0,
-            isOwner: roleInfo.isOwner
-          });
-        } catch (error) {
-          console.error('Error processing user:', userId, error);
-          
-          // Add with minimal info if user fetch fails
-          const roleInfo = userRoles.get(userId) || { isOwner: false, isAssignee: false };
-          teamMembersList.push({
-            id: userId,
-            email: 'unknown@example.com',
-            name: 'Unknown User',
-            role: roleInfo.isOwner ? 'Project Owner' : 'Team Member',
-            projects: userProjects.get(userId) || [],
-            tasks: userTasks.get(userId) || 0,
-            isOwner: roleInfo.isOwner
-          });
+        let role = projectRole ? `Project ${ROLE_LABELS[projectRole]}` : 'Team Member';
+        if (taskCount > 0) {
+          role = projectRole ? `${role} & Task Assignee` : 'Task Assignee';
         }
+
+        teamMembersMap.set(userId, {
+          id: userId,
+          email: resolved?.email || 'unknown@example.com',
+          name: resolved?.name || 'Unknown User',
+          role,
+          projects: Array.from(userProjects.get(userId) || []),
+          tasks: taskCount,
+          isOwner: projectRole === 'owner'
+        });
       }
 
+      const teamMembersList = Array.from(teamMembersMap.values());
+
       // Calculate statistics
-      const totalTasks = tasks ? tasks.length : 0;
-      const activeTasks = tasks ? tasks.filter(task => 
-        task.status && !['completed', 'cancelled'].includes(task.status.toLowerCase())
-      ).length : 0;
+      const totalTasks = tasks.length;
+      const statusesByProject = getStatusesByProject(projects);
+      const activeTasks = tasks.filter(task =>
+        !isDoneStatus(statusesByProject[task.projectId] || DEFAULT_STATUSES, task.status)
+      ).length;
 
       setTeamMembers(teamMembersList);
       setStats({
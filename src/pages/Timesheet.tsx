@@ -0,0 +1,173 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { ChevronLeft, ChevronRight, Clock } from 'lucide-react';
+import { addDays, addWeeks, format, isSameDay, startOfWeek } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { repository, Project, Task, TimeEntry } from '@/services/repository';
+import { useAuth } from '@/contexts/AuthContext';
+import { formatDuration, getEntryMinutes, getMinutesBy, getTotalMinutes } from '@/services/timeTracking';
+
+// Weeks run Monday to Sunday
+const getWeekStart = (date: Date) => startOfWeek(date, { weekStartsOn: 1 });
+
+const Timesheet = () => {
+  const { user } = useAuth();
+  const [weekStart, setWeekStart] = useState(() => getWeekStart(new Date()));
+  const [entries, setEntries] = useState<TimeEntry[]>([]);
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchEntries = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      setLoading(true);
+      const weekEntries = await repository.timeEntries.listForUser(
+        user.id,
+        weekStart.toISOString(),
+        addWeeks(weekStart, 1).toISOString()
+      );
+      const [userProjects, entryTasks] = await Promise.all([
+        repository.projects.listForUser(user),
+        repository.tasks.listByIds([...new Set(weekEntries.map(entry => entry.taskId))]),
+      ]);
+      setEntries(weekEntries);
+      setProjects(userProjects);
+      setTasks(entryTasks);
+    } catch (error) {
+      console.error('Error fetching timesheet:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user, weekStart]);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [fetchEntries]);
+
+  const days = Array.from({ length: 7 }, (_, i) => addDays(weekStart, i));
+  const projectTotals = getMinutesBy(entries, 'projectId');
+  const projectIds = Object.keys(projectTotals);
+
+  const getProjectName = (id: string) => projects.find(project => project.id === id)?.name || 'Former project';
+  const getTaskTitle = (id: string) => tasks.find(task => task.id === id)?.title || 'Deleted task';
+  const getDayMinutes = (day: Date, projectId?: string) => getTotalMinutes(entries.filter(entry =>
+    isSameDay(new Date(entry.startedAt), day) && (!projectId || entry.projectId === projectId)
+  ));
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Timesheet</h1>
+          <p className="text-gray-600 mt-1">Hours you logged this week, by project</p>
+        </div>
+        <div className="flex items-center space-x-2">
+          <Button variant="outline" size="icon" onClick={() => setWeekStart(addWeeks(weekStart, -1))} aria-label="Previous week">
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" onClick={() => setWeekStart(getWeekStart(new Date()))}>
+            {format(weekStart, 'MMM d')} – {format(addDays(weekStart, 6), 'MMM d, yyyy')}
+          </Button>
+          <Button variant="outline" size="icon" onClick={() => setWeekStart(addWeeks(weekStart, 1))} aria-label="Next week">
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Clock className="h-5 w-5 mr-2" />
+            Week Total: {formatDuration(getTotalMinutes(entries))}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="text-center py-8">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600 mx-auto"></div>
+            </div>
+          ) : projectIds.length === 0 ? (
+            <p className="text-gray-500 text-center py-8">
+              No time logged this week. Start a timer or log time from a task.
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Project</TableHead>
+                  {days.map(day => (
+                    <TableHead key={day.toISOString()} className="text-right">{format(day, 'EEE d')}</TableHead>
+                  ))}
+                  <TableHead className="text-right">Total</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {projectIds.map(projectId => (
+                  <TableRow key={projectId}>
+                    <TableCell className="font-medium">{getProjectName(projectId)}</TableCell>
+                    {days.map(day => {
+                      const minutes = getDayMinutes(day, projectId);
+                      return (
+                        <TableCell key={day.toISOString()} className="text-right text-gray-600">
+                          {minutes ? formatDuration(minutes) : '–'}
+                        </TableCell>
+                      );
+                    })}
+                    <TableCell className="text-right font-medium">{formatDuration(projectTotals[projectId])}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+              <TableFooter>
+                <TableRow>
+                  <TableCell>Total</TableCell>
+                  {days.map(day => (
+                    <TableCell key={day.toISOString()} className="text-right">{formatDuration(getDayMinutes(day))}</TableCell>
+                  ))}
+                  <TableCell className="text-right">{formatDuration(getTotalMinutes(entries))}</TableCell>
+                </TableRow>
+              </TableFooter>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {entries.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Entries</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {entries.map(entry => (
+              <div key={entry.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg text-sm">
+                <div>
+                  <p className="font-medium text-gray-900">{getTaskTitle(entry.taskId)}</p>
+                  <p className="text-gray-600">
+                    {getProjectName(entry.projectId)} · {format(new Date(entry.startedAt), 'EEE, MMM d')}
+                    {entry.note && ` · ${entry.note}`}
+                  </p>
+                </div>
+                <span className="font-medium">
+                  {entry.durationMinutes === null ? `Running (${formatDuration(getEntryMinutes(entry))})` : formatDuration(entry.durationMinutes)}
+                </span>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default Timesheet;
@@ -0,0 +1,27 @@
+import { Attachment } from '@/services/repository';
+
+// Matches the limit on the Supabase attachments bucket
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+
+// For example "820 B", "14.2 KB" or "3.1 MB"
+export const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+export const isImage = (attachment: Pick<Attachment, 'contentType'>): boolean =>
+  attachment.contentType.startsWith('image/');
+
+// Returns an error message, or null when the file can be uploaded
+export const validateAttachment = (file: File): string | null => {
+  if (file.size === 0) return `${file.name} is empty`;
+  if (file.size > MAX_ATTACHMENT_SIZE) {
+    return `${file.name} is larger than ${formatFileSize(MAX_ATTACHMENT_SIZE)}`;
+  }
+  return null;
+};
+
+// Files are kept under their project, with a random folder so names never clash
+export const getAttachmentPath = (projectId: string, fileName: string): string =>
+  `${projectId}/${crypto.randomUUID()}/${fileName.replace(/[^\w.-]+/g, '_')}`;
@@ -0,0 +1,25 @@
+import { Task, TaskChanges } from '@/services/repository';
+
+// How long a batch delete waits, with its undo toast showing, before tasks are removed
+export const UNDO_DELAY = 6000;
+
+// The ids from one id to another inclusive, in list order, for shift-click selection
+export const getSelectionRange = (orderedIds: string[], fromId: string, toId: string): string[] => {
+  const from = orderedIds.indexOf(fromId);
+  const to = orderedIds.indexOf(toId);
+  if (from === -1 || to === -1) return [toId];
+  return orderedIds.slice(Math.min(from, to), Math.max(from, to) + 1);
+};
+
+// A copy of the selection with the given ids added or removed
+export const setSelected = (selection: Set<string>, ids: string[], selected: boolean): Set<string> => {
+  const next = new Set(selection);
+  ids.forEach(id => (selected ? next.add(id) : next.delete(id)));
+  return next;
+};
+
+// The task's values before the changes, which undo them when applied
+export const getUndoChanges = (task: Task, changes: TaskChanges): TaskChanges =>
+  Object.fromEntries(Object.keys(changes).map(key => [key, task[key as keyof TaskChanges]]));
+
+export const pluralizeTasks = (count: number): string => `${count} ${count === 1 ? 'task' : 'tasks'}`;
@@ -0,0 +1,38 @@
+import { AppUser } from '@/services/repository';
+
+export const MAX_COMMENT_LENGTH = 5000;
+
+// Matches @[Name](userId), capturing the name and the user ID
+export const MENTION_PATTERN = /@\[([^\]\n]+)\]\(([^)\s]+)\)/g;
+
+export const formatMention = (user: AppUser): string => `@[${user.name.replace(/[[\]]/g, '')}](${user.id})`;
+
+// Each mentioned user once, in order of first mention
+export const getMentionedUserIds = (body: string): string[] =>
+  [...new Set([...body.matchAll(MENTION_PATTERN)].map(match => match[2]))];
+
+// Users mentioned in the edited body who weren't mentioned before
+export const getNewMentions = (before: string, after: string): string[] => {
+  const previous = new Set(getMentionedUserIds(before));
+  return getMentionedUserIds(after).filter(userId => !previous.has(userId));
+};
+
+// Replaces mentions with @Name, for notifications and other plain text
+export const toPlainText = (body: string): string => body.replace(MENTION_PATTERN, '@$1');
+
+// Returns an error message, or null for a valid comment
+export const validateComment = (body: string): string | null => {
+  if (!body.trim()) return 'Write a comment first';
+  if (body.length > MAX_COMMENT_LENGTH) return `Comments can be at most ${MAX_COMMENT_LENGTH} characters`;
+  return null;
+};
+
+/**
+ * The partial mention being typed just before the cursor, such as "ja" in "thanks @ja",
+ * or null when the cursor isn't in one. `start` is the index of the @.
+ */
+export const getMentionQuery = (text: string, cursor: number): { query: string; start: number } | null => {
+  const match = /(^|\s)@([^\s@[\]]*)$/.exec(text.slice(0, cursor));
+  if (!match) return null;
+  return { query: match[2], start: cursor - match[2].length - 1 };
+};
@@ -1,5 +1,11 @@
-import { supabase } from '@/integrations/supabase/client';
 import { User } from '@supabase/supabase-js';
+import { isBefore, isToday, parseISO, startOfToday } from 'date-fns';
+import { repository, Project, Task, WorkflowStatus } from '@/services/repository';
+import { findStatus, getProjectStatuses, getStatusesByProject, isDoneStatus } from '@/services/workflow';
+import { byPriority } from '@/services/priority';
+import { TaskProgress, getTaskProgress } from '@/services/subtasks';
+import { getOpenBlockers } from '@/services/dependencies';
+import { getProjectProgress } from '@/services/progress';
 
 export interface DashboardStats {
   totalProjects: number;
@@ -10,33 +16,23 @@ export interface DashboardStats {
   teamMembers: number;
 }
 
-export interface ProjectData {
-  id: string; // Changed to string to match urlid
-  name: string;
-  description: string;
-  status: 'Planning' | 'In Progress' | 'On Hold' | 'Completed';
-  progress: number;
-  dueDate: string;
-  teamMembers: string[]; // Changed to string[] to match _text
-  createdAt: string;
-  ownerId: string; // Changed to string to match urlid
-  accessCode?: string;
+export interface ProjectData extends Project {
   isOwner?: boolean;
   taskCount?: number;
   completedTasks?: number;
+  memberNames?: string[];
 }
 
-export interface TaskData {
-  id: number;
-  title: string;
-  description: string;
-  status: 'To Do' | 'In Progress' | 'Completed';
-  dueDate: string;
-  assignedTo: string; // Changed to string to match urlid
-  projectId: number;
+export interface TaskData extends Omit<Task, 'assignedTo' | 'projectName'> {
+  assignedTo: string;
   projectName: string;
-  createdAt: string;
-  priority: 'Low' | 'Medium' | 'High';
+  // Resolved against the task's project workflow
+  statusName: string;
+  done: boolean;
+  // Subtasks and checklist items done, null when the task has neither
+  progress: TaskProgress | null;
+  // Tasks this one is blocked by that aren't done yet
+  blockers: Task[];
 }
 
 export interface ActivityData {
@@ -60,54 +56,31 @@ export interface UserData {
 class DataService {
   async getDashboardStats(user: User): Promise<DashboardStats> {
     try {
-      const { data: projects, error: projectsError } = await supabase
-        .from('projects')
-        .select('id, status, team_members, owner_id')
-        .or(`owner_id.eq.${user.id},team_members.cs.{${user.id}}`);
-
-      if (projectsError) throw projectsError;
-
-      const { data: tasks, error: tasksError } = await supabase
-        .from('tasks')
-        .select('id, status, due_date, project_id, assigned_to, projects (name)')
-        .eq('assigned_to', user.id);
-
-      if (tasksError) throw tasksError;
-
-      const mappedTasks = tasks?.map(task => ({
-        id: task.id,
-        title: task.title || '',
-        description: task.description || '',
-        status: (task.status as 'To Do' | 'In Progress' | 'Completed') || 'To Do',
-        dueDate: task.due_date || new Date().toISOString(),
-        assignedTo: task.assigned_to.toString(), // Convert to string
-        projectId: task.project_id,
-        projectName: task.projects?.name || 'Unknown Project',
-        createdAt: task.created_at || new Date().toISOString(),
-        priority: (task.priority as 'Low' | 'Medium' | 'High') || 'Medium', // Use actual priority
-      }));
-
-      const totalProjects = projects?.length || 0;
-      const activeProjects = projects?.filter(p => p.status === 'In Progress').length || 0;
-      const totalTasks = mappedTasks?.length || 0;
-      const activeTasks = mappedTasks?.filter(t => t.status !== 'Completed').length || 0;
+      const [projects, tasks] = await Promise.all([
+        repository.projects.listForUser(user),
+        this.getAssignedTasks(user),
+      ]);
+
+      const totalProjects = projects.length;
+      const activeProjects = projects.filter(p => p.status === 'In Progress').length;
+      const totalTasks = tasks.length;
+      const activeTasks = tasks.filter(t => !t.done).length;
       
       const nextWeek = new Date();
       nextWeek.setDate(nextWeek.getDate() + 7);
-      const dueSoonTasks = mappedTasks?.filter(t => 
+      const dueSoonTasks = tasks.filter(t => 
         t.dueDate && 
         new Date(t.dueDate) <= nextWeek && 
-        t.status !== 'Completed'
-      ).length || 0;
-
-      const allMembers = new Set<string>(); // Changed to string
-      projects?.forEach(project => {
-        if (project.team_members) {
-          project.team_members.forEach(member => allMembers.add(member));
-        }
-        if (project.owner_id !== user.id) {
-          allMembers.add(project.owner_id);
-        }
+        !t.done
+      ).length;
+
+      const allMembers = new Set<string>();
+      projects.forEach(project => {
+        project.members.forEach(member => {
+          if (member.userId !== user.id) {
+            allMembers.add(member.userId);
+          }
+        });
       });
 
       const teamMembers = allMembers.size;
@@ -128,41 +101,26 @@ class DataService {
 
   async getRecentProjects(user: User, limit: number = 3): Promise<ProjectData[]> {
     try {
-      const { data: projects, error } = await supabase
-        .from('projects')
-        .select('*')
-        .or(`owner_id.eq.${user.id},team_members.cs.{${user.id}}`)
-        .order('created_at', { ascending: false })
-        .limit(limit);
-
-      if (error) throw error;
-
-      if (!projects) return [];
+      const projects = (await repository.projects.listForUser(user)).slice(0, limit);
 
       const projectsWithTasks = await Promise.all(
         projects.map(async (project) => {
-          const { data: tasks } = await supabase
-            .from('tasks')
-            .select('id, status')
-            .eq('project_id', project.id);
+          const [tasks, members] = await Promise.all([
+            repository.tasks.listByProject(project.id),
+            repository.users.resolve(project.members.map(member => member.userId)),
+          ]);
 
-          const taskCount = tasks?.length || 0;
-          const completedTasks = tasks?.filter(t => t.status === 'Completed').length || 0;
+          const statuses = getProjectStatuses(project);
+          const taskCount = tasks.length;
+          const completedTasks = tasks.filter(t => isDoneStatus(statuses, t.status)).length;
 
           return {
-            id: project.id.toString(),
-            name: project.name,
-            description: project.description || '',
-            status: project.status as 'Planning' | 'In Progress' | 'On Hold' | 'Completed',
-            progress: project.progress || 0,
-            dueDate: project.due_date || new Date().toISOString(),
-            teamMembers: project.team_members || [],
-            createdAt: project.created_at,
-            ownerId: project.owner_id.toString(),
-            accessCode: project.access_code || '',
-            isOwner: project.owner_id === user.id,
+            ...project,
+            progress: getProjectProgress(project, tasks),
+            isOwner: project.ownerId === user.id,
             taskCount,
-            completedTasks
+            completedTasks,
+            memberNames: members.map(member => member.name)
           };
         })
       );
@@ -176,64 +134,69 @@ class DataService {
 
   async getRecentTasks(user: User, limit: number = 5): Promise<TaskData[]> {
     try {
-      const { data: tasks, error } = await supabase
-        .from('tasks')
-        .select(`
-          id,
-          title,
-          description,
-          status,
-          due_date,
-          assigned_to,
-          project_id,
-          created_at,
-          priority,
-          projects (
-            name
-          )
-        `)
-        .eq('assigned_to', user.id)
-        .order('created_at', { ascending: false })
-        .limit(limit);
-
-      if (error) throw error;
-
-      if (!tasks) return [];
-
-      return tasks.map(task => ({
-        id: task.id,
-        title: task.title || '',
-        description: task.description || '',
-        status: task.status as 'To Do' | 'In Progress' | 'Completed',
-        dueDate: task.due_date || new Date().toISOString(),
-        assignedTo: task.assigned_to.toString(),
-        projectId: task.project_id,
-        projectName: task.projects?.name || 'Unknown Project',
-        createdAt: task.created_at,
-        priority: (task.priority as 'Low' | 'Medium' | 'High') || 'Medium',
-      }));
+      const tasks = await this.getAssignedTasks(user);
+      return tasks.slice(0, limit);
     } catch (error) {
       console.error('Error fetching recent tasks:', error);
       return [];
     }
   }
 
-  async getUsers(): Promise<UserData[]> {
+  // Open tasks due today or already overdue, highest priority first
+  async getDueTasks(user: User, due: 'today' | 'overdue'): Promise<TaskData[]> {
+    try {
+      const tasks = await this.getAssignedTasks(user);
+
+      return tasks
+        .filter(task => {
+          if (task.done || !task.dueDate) return false;
+          const dueDate = parseISO(task.dueDate);
+          return due === 'today' ? isToday(dueDate) : isBefore(dueDate, startOfToday());
+        })
+        .sort(byPriority);
+    } catch (error) {
+      console.error('Error fetching due tasks:', error);
+      return [];
+    }
+  }
+
+  // Open blockers of each task, keyed by task id. Blockers can be in other projects,
+  // so missing tasks and workflows are fetched as needed.
+  async getOpenBlockers(
+    tasks: Task[],
+    statusesByProject: Record<string, WorkflowStatus[]> = {}
+  ): Promise<Record<string, Task[]>> {
     try {
-      const { data: users, error } = await supabase
-        .from('users')
-        .select('id, name, email, role')
-        .order('name');
+      const links = await repository.dependencies.listForTasks(tasks.map(task => task.id));
+      const taskIds = new Set(tasks.map(task => task.id));
+      const blockers = await repository.tasks.listByIds(
+        [...new Set(links.map(link => link.blockedById))].filter(id => !taskIds.has(id))
+      );
 
-      if (error) throw error;
+      const workflows = { ...statusesByProject };
+      const missingProjects = [...new Set([...tasks, ...blockers].map(task => task.projectId))]
+        .filter(id => !workflows[id]);
+      const projects = await Promise.all(missingProjects.map(id => repository.projects.get(id)));
+      projects.filter(Boolean).forEach(project => {
+        workflows[project.id] = getProjectStatuses(project);
+      });
+
+      return getOpenBlockers(tasks, links, [...tasks, ...blockers], workflows);
+    } catch (error) {
+      console.error('Error fetching blockers:', error);
+      return {};
+    }
+  }
 
-      if (!users) return [];
+  async getUsers(): Promise<UserData[]> {
+    try {
+      const users = await repository.users.list();
 
       return users.map(user => ({
-        id: user.id.toString(),
-        name: user.name || user.email || 'Unknown User',
-        email: user.email || '',
-        role: user.role || 'user'
+        id: user.id,
+        name: user.name,
+        email: user.email,
+        role: 'user'
       }));
     } catch (error) {
       console.error('Error fetching users:', error);
@@ -251,15 +214,15 @@ class DataService {
       recentTasks.forEach((task, index) => {
         activities.push({
           id: `task-${task.id}`,
-          type: task.status === 'Completed' ? 'task_completed' : 'task_created',
+          type: task.done ? 'task_completed' : 'task_created',
           userId: user.id,
           userName: user.user_metadata?.full_name || user.email?.split('@')[0] || 'You',
-          message: task.status === 'Completed' 
+          message: task.done
             ? `completed "${task.title}" task`
             : `created "${task.title}" task`,
           time: this.getRelativeTime(task.createdAt),
-          projectId: task.projectId.toString(),
-          taskId: task.id.toString()
+          projectId: task.projectId,
+          taskId: task.id
         });
       });
 
@@ -284,6 +247,31 @@ class DataService {
     }
   }
 
+  private async getAssignedTasks(user: User): Promise<TaskData[]> {
+    const [tasks, projects] = await Promise.all([
+      repository.tasks.listByAssignee(user.id),
+      repository.projects.listForUser(user),
+    ]);
+    const statusesByProject = getStatusesByProject(projects);
+    const [subtasks, blockers] = await Promise.all([
+      repository.tasks.listSubtasks(tasks.map(task => task.id)),
+      this.getOpenBlockers(tasks, statusesByProject),
+    ]);
+
+    return tasks.map(task => {
+      const statuses = getProjectStatuses({ statuses: statusesByProject[task.projectId] });
+      return {
+        ...task,
+        assignedTo: task.assignedTo || '',
+        projectName: task.projectName || 'Unknown Project',
+        statusName: findStatus(statuses, task.status).name,
+        done: isDoneStatus(statuses, task.status),
+        progress: getTaskProgress(task, subtasks, statusesByProject),
+        blockers: blockers[task.id] || [],
+      };
+    });
+  }
+
   private getRelativeTime(dateString: string): string {
     const date = new Date(dateString);
     const now = new Date();
@@ -0,0 +1,60 @@
+import { Task, TaskDependency, TaskStatus, WorkflowStatus } from '@/services/repository';
+import { getInitialStatusId, getProjectStatuses, isDoneStatus } from '@/services/workflow';
+
+export const DEPENDENCY_CYCLE_MESSAGE = 'These tasks already depend on each other, so this link would create a cycle';
+
+type Link = Pick<TaskDependency, 'taskId' | 'blockedById'>;
+
+// True when blockedById already waits on taskId, directly or through other tasks
+export const createsCycle = (links: Link[], taskId: string, blockedById: string): boolean => {
+  const seen = new Set<string>();
+  const pending = [blockedById];
+
+  while (pending.length) {
+    const current = pending.pop();
+    if (current === taskId) return true;
+    if (seen.has(current)) continue;
+    seen.add(current);
+    links.filter(link => link.taskId === current).forEach(link => pending.push(link.blockedById));
+  }
+  return false;
+};
+
+// Blockers that aren't done yet for each open task, keyed by task id. Blockers missing from knownTasks are skipped.
+export const getOpenBlockers = (
+  tasks: Task[],
+  links: Link[],
+  knownTasks: Task[],
+  statusesByProject: Record<string, WorkflowStatus[]>
+): Record<string, Task[]> => {
+  const isOpen = (task: Task) =>
+    !isDoneStatus(getProjectStatuses({ statuses: statusesByProject[task.projectId] }), task.status);
+
+  return tasks.reduce<Record<string, Task[]>>((blockers, task) => {
+    if (!isOpen(task)) return blockers;
+    const open = links
+      .filter(link => link.taskId === task.id)
+      .map(link => knownTasks.find(known => known.id === link.blockedById))
+      .filter(blocker => blocker && isOpen(blocker));
+    if (open.length) blockers[task.id] = open;
+    return blockers;
+  }, {});
+};
+
+// Moving a task out of its workflow's first status counts as starting it
+export const isStartingWork = (statuses: WorkflowStatus[], from: TaskStatus, to: TaskStatus): boolean =>
+  from !== to && to !== getInitialStatusId(statuses);
+
+export const describeBlockers = (blockers: Pick<Task, 'title'>[]): string =>
+  `Waiting on ${blockers.map(blocker => `"${blocker.title}"`).join(', ')}`;
+
+// Moves still go through, but starting a task with open blockers gets this warning; null otherwise
+export const getBlockedWarning = (
+  task: Pick<Task, 'title' | 'status'>,
+  blockers: Pick<Task, 'title'>[] | undefined,
+  statuses: WorkflowStatus[],
+  status: TaskStatus
+): { title: string; description: string } | null =>
+  blockers?.length && isStartingWork(statuses, task.status, status)
+    ? { title: `"${task.title}" is still blocked`, description: describeBlockers(blockers) }
+    : null;
@@ -0,0 +1,74 @@
+import { addWeeks, format, isBefore, startOfWeek } from 'date-fns';
+import { EstimateUnit, ProgressMode, Task } from '@/services/repository';
+
+export const ESTIMATE_UNIT_LABELS: Record<EstimateUnit, string> = {
+  hours: 'Hours',
+  points: 'Story points',
+};
+
+export const PROGRESS_MODE_LABELS: Record<ProgressMode, string> = {
+  count: 'Number of tasks done',
+  estimate: 'Estimates of tasks done',
+  manual: 'Set by hand',
+};
+
+// For example "3 pts", "1 pt" or "4.5h"
+export const formatEstimate = (estimate: number, unit: EstimateUnit): string =>
+  unit === 'hours' ? `${estimate}h` : `${estimate} ${estimate === 1 ? 'pt' : 'pts'}`;
+
+// Returns an error message, or null for a valid estimate; an empty value clears it
+export const validateEstimate = (value: string): string | null => {
+  if (!value.trim()) return null;
+  const estimate = Number(value);
+  return Number.isFinite(estimate) && estimate >= 0 ? null : 'The estimate must be a number of zero or more';
+};
+
+export interface Completion {
+  done: number;
+  total: number;
+}
+
+// Done and total work, adding up estimates in estimate mode and counting tasks otherwise. Unestimated tasks weigh nothing by estimate.
+export const getCompletion = (tasks: Task[], isDone: (task: Task) => boolean, mode: ProgressMode): Completion => {
+  const weigh = (task: Task) => mode === 'estimate' ? task.estimate ?? 0 : 1;
+  return tasks.reduce<Completion>((completion, task) => ({
+    done: completion.done + (isDone(task) ? weigh(task) : 0),
+    total: completion.total + weigh(task),
+  }), { done: 0, total: 0 });
+};
+
+export const getCompletionPercent = ({ done, total }: Completion): number =>
+  total ? Math.round((done / total) * 100) : 0;
+
+export interface VelocityWeek {
+  // Monday the week starts on, such as "Oct 13"
+  week: string;
+  completed: number;
+}
+
+/**
+ * Estimates completed in each of the last `weeks` weeks, oldest first and ending
+ * with the current week. Tasks count in the week they were completed.
+ */
+export const getVelocity = (tasks: Task[], weeks = 8, now = new Date()): VelocityWeek[] => {
+  const current = startOfWeek(now, { weekStartsOn: 1 });
+  return Array.from({ length: weeks }, (_, i) => {
+    const start = addWeeks(current, i - weeks + 1);
+    const end = addWeeks(start, 1);
+    const completed = tasks
+      .filter(task => {
+        if (!task.completedAt) return false;
+        const completedAt = new Date(task.completedAt);
+        return !isBefore(completedAt, start) && isBefore(completedAt, end);
+      })
+      .reduce((total, task) => total + (task.estimate ?? 0), 0);
+    return { week: format(start, 'MMM d'), completed };
+  });
+};
+
+// Average over the weeks given, leaving out the unfinished current week
+export const getAverageVelocity = (velocity: VelocityWeek[]): number => {
+  const finished = velocity.slice(0, -1);
+  if (!finished.length) return 0;
+  return finished.reduce((total, week) => total + week.completed, 0) / finished.length;
+};
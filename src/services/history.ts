@@ -0,0 +1,45 @@
+import { TaskEvent, TaskHistoryField } from '@/services/repository';
+
+export const HISTORY_FIELDS: TaskHistoryField[] = [
+  'title',
+  'description',
+  'status',
+  'assignedTo',
+  'priority',
+  'startDate',
+  'dueDate',
+  'estimate',
+  'projectId',
+];
+
+export const HISTORY_FIELD_LABELS: Record<TaskHistoryField, string> = {
+  title: 'title',
+  description: 'description',
+  status: 'status',
+  assignedTo: 'assignee',
+  priority: 'priority',
+  startDate: 'start date',
+  dueDate: 'due date',
+  estimate: 'estimate',
+  projectId: 'project',
+};
+
+/**
+ * What happened, without who did it: "created the task", "changed the status from To Do to
+ * Done", "cleared the due date". `formatValue` turns stored values, such as user ids, into text.
+ */
+export const describeEvent = (
+  event: TaskEvent,
+  formatValue: (field: TaskHistoryField, value: string) => string = (_field, value) => value
+): string => {
+  if (!event.field) return 'created the task';
+
+  const label = HISTORY_FIELD_LABELS[event.field];
+  if (event.field === 'description') return `edited the ${label}`;
+  if (event.to === null) return `cleared the ${label}`;
+
+  const to = formatValue(event.field, event.to);
+  return event.from === null
+    ? `set the ${label} to ${to}`
+    : `changed the ${label} from ${formatValue(event.field, event.from)} to ${to}`;
+};
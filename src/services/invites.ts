@@ -0,0 +1,64 @@
+import { InviteStatus, ProjectInvite } from '@/services/repository';
+
+const TOKEN_CHARS = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const TOKEN_LENGTH = 8;
+
+// Readable 8-character code, ambiguous characters (0/O, 1/I) left out
+export const generateInviteToken = (): string => {
+  const bytes = crypto.getRandomValues(new Uint8Array(TOKEN_LENGTH));
+  return Array.from(bytes, byte => TOKEN_CHARS[byte % TOKEN_CHARS.length]).join('');
+};
+
+export const normalizeInviteToken = (token: string): string => token.trim().toUpperCase();
+
+export const getInviteStatus = (
+  invite: Pick<ProjectInvite, 'expiresAt' | 'maxUses' | 'useCount' | 'revokedAt'>,
+  now: Date = new Date()
+): InviteStatus => {
+  if (invite.revokedAt) return 'revoked';
+  if (invite.expiresAt && new Date(invite.expiresAt) <= now) return 'expired';
+  if (invite.maxUses !== null && invite.useCount >= invite.maxUses) return 'used_up';
+  return 'active';
+};
+
+export const INVITE_STATUS_MESSAGES: Record<Exclude<InviteStatus, 'active'>, string> = {
+  expired: 'This invite has expired',
+  revoked: 'This invite has been revoked',
+  used_up: 'This invite has reached its maximum number of uses',
+};
+
+// A user who enters this many unknown codes within the cooldown has to wait out the cooldown.
+// 20261020080000_invite_attempts.sql applies the same limits in Supabase.
+export const MAX_FAILED_INVITE_ATTEMPTS = 5;
+export const INVITE_COOLDOWN_MINUTES = 15;
+export const INVITE_COOLDOWN_MESSAGE = `Too many invalid invite codes, try again in ${INVITE_COOLDOWN_MINUTES} minutes`;
+
+// Limits given to access codes carried over from before invites existed
+export const MIGRATED_CODE_EXPIRY_DAYS = 30;
+export const MIGRATED_CODE_MAX_USES = 25;
+
+export const getInviteLink = (token: string): string => `${window.location.origin}/join/${token}`;
+
+// Expiry choices offered when creating an invite, in days (null = never)
+export const INVITE_EXPIRY_OPTIONS: { label: string; days: number | null }[] = [
+  { label: '1 day', days: 1 },
+  { label: '7 days', days: 7 },
+  { label: '30 days', days: 30 },
+  { label: 'Never', days: null },
+];
+
+export const DEFAULT_INVITE_EXPIRY_DAYS = 7;
+
+export const expiryFromDays = (days: number | null): string | null =>
+  days === null ? null : new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString();
+
+export const buildInviteMessage = (projectName: string, token: string, expiresAt: string | null): string => {
+  const expiry = expiresAt ? `\nThe invite expires on ${new Date(expiresAt).toLocaleDateString()}.\n` : '';
+  return `Hi! I'd like to invite you to collaborate on my project "${projectName}" in Task Nexus Pro.
+
+Join with one click: ${getInviteLink(token)}
+
+Or go to the Projects page, click "Join Project" and enter this invite code: ${token}
+${expiry}
+Looking forward to working together!`;
+};
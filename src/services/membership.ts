@@ -0,0 +1,28 @@
+import { Project, ProjectRole } from '@/services/repository';
+
+export const PROJECT_ROLES: ProjectRole[] = ['owner', 'admin', 'member', 'viewer'];
+
+export const ROLE_LABELS: Record<ProjectRole, string> = {
+  owner: 'Owner',
+  admin: 'Admin',
+  member: 'Member',
+  viewer: 'Viewer',
+};
+
+// Roles that can be handed out to other members; ownership stays with the project creator
+export const ASSIGNABLE_ROLES: ProjectRole[] = ['admin', 'member', 'viewer'];
+
+export const getProjectRole = (project: Project | null | undefined, userId: string | undefined): ProjectRole | null => {
+  if (!project || !userId) return null;
+  if (project.ownerId === userId) return 'owner';
+  return project.members.find(member => member.userId === userId)?.role || null;
+};
+
+export const isProjectMember = (project: Project | null | undefined, userId: string | undefined): boolean =>
+  getProjectRole(project, userId) !== null;
+
+export const isProjectOwner = (project: Project | null | undefined, userId: string | undefined): boolean =>
+  getProjectRole(project, userId) === 'owner';
+
+export const getMemberIds = (project: Project | null | undefined): string[] =>
+  project ? project.members.map(member => member.userId) : [];
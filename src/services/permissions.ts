@@ -0,0 +1,54 @@
+import { Project, ProjectRole } from '@/services/repository';
+import { getProjectRole } from '@/services/membership';
+
+export type ProjectAction =
+  | 'project:view'
+  | 'project:edit'
+  | 'project:delete'
+  | 'members:manage'
+  | 'tasks:create'
+  | 'tasks:edit'
+  | 'tasks:delete'
+  | 'tasks:assign';
+
+// Roles allowed to perform each action. Keep in sync with has_project_permission() in supabase/migrations.
+export const PERMISSIONS: Record<ProjectAction, ProjectRole[]> = {
+  'project:view': ['owner', 'admin', 'member', 'viewer'],
+  'project:edit': ['owner', 'admin'],
+  'project:delete': ['owner'],
+  'members:manage': ['owner', 'admin'],
+  'tasks:create': ['owner', 'admin', 'member'],
+  'tasks:edit': ['owner', 'admin', 'member'],
+  'tasks:delete': ['owner', 'admin'],
+  'tasks:assign': ['owner', 'admin', 'member'],
+};
+
+const ACTION_DESCRIPTIONS: Record<ProjectAction, string> = {
+  'project:view': 'view this project',
+  'project:edit': 'edit this project',
+  'project:delete': 'delete this project',
+  'members:manage': 'manage members of this project',
+  'tasks:create': 'create tasks in this project',
+  'tasks:edit': 'edit tasks in this project',
+  'tasks:delete': 'delete tasks in this project',
+  'tasks:assign': 'assign tasks in this project',
+};
+
+export class PermissionDeniedError extends Error {
+  constructor(public action: ProjectAction) {
+    super(`You don't have permission to ${ACTION_DESCRIPTIONS[action]}`);
+    this.name = 'PermissionDeniedError';
+  }
+}
+
+export const roleCan = (role: ProjectRole | null, action: ProjectAction): boolean =>
+  role !== null && PERMISSIONS[action].includes(role);
+
+export const can = (project: Project | null | undefined, userId: string | undefined, action: ProjectAction): boolean =>
+  roleCan(getProjectRole(project, userId), action);
+
+export const assertCan = (project: Project | null | undefined, userId: string | undefined, action: ProjectAction) => {
+  if (!can(project, userId, action)) {
+    throw new PermissionDeniedError(action);
+  }
+};
@@ -0,0 +1,15 @@
+import { Task, TaskPriority } from '@/services/repository';
+
+// Highest first
+export const TASK_PRIORITIES: TaskPriority[] = ['High', 'Medium', 'Low'];
+
+export const PRIORITY_COLORS: Record<TaskPriority, string> = {
+  High: 'bg-red-100 text-red-800',
+  Medium: 'bg-yellow-100 text-yellow-800',
+  Low: 'bg-green-100 text-green-800',
+};
+
+// Highest priority first, then earliest due date
+export const byPriority = (a: Pick<Task, 'priority' | 'dueDate'>, b: Pick<Task, 'priority' | 'dueDate'>): number =>
+  TASK_PRIORITIES.indexOf(a.priority) - TASK_PRIORITIES.indexOf(b.priority) ||
+  new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime();
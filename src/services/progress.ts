@@ -0,0 +1,18 @@
+import { Project, Task } from '@/services/repository';
+import { getProjectStatuses, isDoneStatus } from '@/services/workflow';
+import { getCompletion, getCompletionPercent } from '@/services/estimates';
+
+type ProgressProject = Pick<Project, 'progress' | 'progressMode' | 'statuses'>;
+
+// Percent complete, worked out from the project's tasks unless progress is set by hand
+export const getProjectProgress = (project: ProgressProject, tasks: Task[]): number => {
+  if (project.progressMode === 'manual') return project.progress;
+  const statuses = getProjectStatuses(project);
+  return getCompletionPercent(getCompletion(tasks, task => isDoneStatus(statuses, task.status), project.progressMode));
+};
+
+// A project with no tasks isn't finished, whatever its progress
+export const areAllTasksDone = (project: Pick<Project, 'statuses'>, tasks: Task[]): boolean => {
+  const statuses = getProjectStatuses(project);
+  return tasks.length > 0 && tasks.every(task => isDoneStatus(statuses, task.status));
+};
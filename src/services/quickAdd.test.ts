@@ -0,0 +1,333 @@
+import { describe, expect, it } from 'vitest';
+import { AppUser, Project } from '@/services/repository';
+import { findPerson, findProject, parseQuickAdd, toDueDateValue } from '@/services/quickAdd';
+
+// Monday, October 19, 2026, 10:00
+const NOW = new Date(2026, 9, 19, 10, 0);
+
+const people: AppUser[] = [
+  { id: 'u1', name: 'Sara Lee', email: 'sara.lee@example.com' },
+  { id: 'u2', name: 'Sarah Kim', email: 'skim@example.com' },
+  { id: 'u3', name: 'Tom Hall', email: 'tom@example.com' },
+];
+
+const projects = [
+  { id: 'p1', name: 'Website Redesign' },
+  { id: 'p2', name: 'Website Launch' },
+  { id: 'p3', name: 'Mobile App' },
+] as Project[];
+
+const parse = (text: string) => parseQuickAdd(text, projects, people, NOW);
+
+const on = (month: number, day: number, year = 2026) => new Date(year, month, day);
+const at = (month: number, day: number, hours: number, minutes = 0) => new Date(2026, month, day, hours, minutes);
+
+describe('parseQuickAdd', () => {
+  it('splits a full line into its parts', () => {
+    const result = parse('Draft release notes fri 3pm !high @tom #mobile');
+
+    expect(result.title).toBe('Draft release notes');
+    expect(result.dueDate).toEqual(at(9, 23, 15));
+    expect(result.hasTime).toBe(true);
+    expect(result.priority).toBe('High');
+    expect(result.assignee?.id).toBe('u3');
+    expect(result.project?.id).toBe('p3');
+  });
+
+  it('leaves plain text as the title', () => {
+    const result = parse('Water the plants');
+
+    expect(result.title).toBe('Water the plants');
+    expect(result.dueDate).toBeNull();
+    expect(result.hasTime).toBe(false);
+    expect(result.priority).toBeNull();
+    expect(result.assignee).toBeNull();
+    expect(result.project).toBeNull();
+  });
+
+  describe('days', () => {
+    it.each([
+      ['today', on(9, 19)],
+      ['tomorrow', on(9, 20)],
+      ['tmrw', on(9, 20)],
+      ['fri', on(9, 23)],
+      ['friday', on(9, 23)],
+      ['wed', on(9, 21)],
+      ['sun', on(9, 25)],
+    ])('reads "%s"', (text, expected) => {
+      expect(parse(`Task ${text}`).dueDate).toEqual(expected);
+    });
+
+    it('takes a weekday that is today to mean a week out', () => {
+      expect(parse('Task mon').dueDate).toEqual(on(9, 26));
+    });
+
+    it('reads "next" and a weekday as the one after the coming one', () => {
+      expect(parse('Task next fri').dueDate).toEqual(on(9, 30));
+      expect(parse('Task next mon').dueDate).toEqual(on(10, 2));
+    });
+
+    it('reads "next week" as the start of next week', () => {
+      expect(parse('Task next week').dueDate).toEqual(on(9, 26));
+    });
+
+    it.each([
+      ['in 1 day', on(9, 20)],
+      ['in 3 days', on(9, 22)],
+      ['in 1 week', on(9, 26)],
+      ['in 2 weeks', on(10, 2)],
+    ])('reads "%s"', (text, expected) => {
+      expect(parse(`Task ${text}`).dueDate).toEqual(expected);
+    });
+
+    it('leaves "in" without an amount and unit in the title', () => {
+      const result = parse('Meet in 3 places');
+
+      expect(result.title).toBe('Meet in 3 places');
+      expect(result.dueDate).toBeNull();
+    });
+
+    it.each([
+      ['nov 3', on(10, 3)],
+      ['3 nov', on(10, 3)],
+      ['november 3rd', on(10, 3)],
+      ['dec 25', on(11, 25)],
+      ['oct 19', on(9, 19)],
+    ])('reads "%s" as this year', (text, expected) => {
+      expect(parse(`Task ${text}`).dueDate).toEqual(expected);
+    });
+
+    it.each([
+      ['jan 5', on(0, 5, 2027)],
+      ['5 jan', on(0, 5, 2027)],
+      ['jan 5th', on(0, 5, 2027)],
+      ['oct 18', on(9, 18, 2027)],
+    ])('rolls "%s" over to next year once it has passed', (text, expected) => {
+      expect(parse(`Task ${text}`).dueDate).toEqual(expected);
+    });
+
+    it('leaves a day the month does not have in the title', () => {
+      const result = parse('Task feb 30');
+
+      expect(result.title).toBe('Task feb 30');
+      expect(result.dueDate).toBeNull();
+    });
+
+    it('reads ISO dates', () => {
+      expect(parse('Task 2026-11-03').dueDate).toEqual(on(10, 3));
+      expect(parse('Task 2027-01-31').dueDate).toEqual(on(0, 31, 2027));
+    });
+
+    it.each(['2026-02-30', '2026-13-01', '2026-04-31'])('leaves the invalid date %s in the title', (text) => {
+      const result = parse(`Pay rent ${text}`);
+
+      expect(result.title).toBe(`Pay rent ${text}`);
+      expect(result.dueDate).toBeNull();
+    });
+
+    it.each([
+      'Fix constructor bug',
+      'Fix next constructor bug',
+      'Fix constructor 5 bug',
+      'Fix 5 __proto__ bug',
+    ])('leaves inherited object keys in "%s" in the title', (text) => {
+      const result = parse(text);
+
+      expect(result.title).toBe(text);
+      expect(result.dueDate).toBeNull();
+    });
+
+    it('drops "on", "by" and "due" before a date', () => {
+      expect(parse('Ship it on fri').title).toBe('Ship it');
+      expect(parse('Ship it by fri').title).toBe('Ship it');
+      expect(parse('Ship it due fri').title).toBe('Ship it');
+    });
+
+    it('keeps "on" in the title when no date follows', () => {
+      expect(parse('Work on docs').title).toBe('Work on docs');
+    });
+
+    it('uses the first date and leaves the rest in the title', () => {
+      const result = parse('Task fri sat');
+
+      expect(result.dueDate).toEqual(on(9, 23));
+      expect(result.title).toBe('Task sat');
+    });
+  });
+
+  describe('times', () => {
+    it.each([
+      ['3pm', 15, 0],
+      ['3:30pm', 15, 30],
+      ['3 pm', 15, 0],
+      ['11am', 11, 0],
+      ['12pm', 12, 0],
+      ['15:00', 15, 0],
+      ['23:59', 23, 59],
+      ['10:00', 10, 0],
+      ['noon', 12, 0],
+    ])('reads "%s" as today when it is now or later', (text, hours, minutes) => {
+      const result = parse(`Task ${text}`);
+
+      expect(result.dueDate).toEqual(at(9, 19, hours, minutes));
+      expect(result.hasTime).toBe(true);
+      expect(result.title).toBe('Task');
+    });
+
+    it.each([
+      ['9am', 9, 0],
+      ['12am', 0, 0],
+      ['midnight', 0, 0],
+      ['08:15', 8, 15],
+      ['09:59', 9, 59],
+    ])('rolls "%s" over to tomorrow once it has passed', (text, hours, minutes) => {
+      expect(parse(`Task ${text}`).dueDate).toEqual(at(9, 20, hours, minutes));
+    });
+
+    it('puts a time on the given day without rolling it over', () => {
+      expect(parse('Task fri 9am').dueDate).toEqual(at(9, 23, 9));
+      expect(parse('Task 9am today').dueDate).toEqual(at(9, 19, 9));
+    });
+
+    it('drops "at" before a time', () => {
+      expect(parse('Call at 4pm').title).toBe('Call');
+    });
+
+    it.each(['3', '13pm', '0am', '25:00', '3:75pm', 'at'])('leaves "%s" in the title', (text) => {
+      const result = parse(`Task ${text}`);
+
+      expect(result.title).toBe(`Task ${text}`);
+      expect(result.dueDate).toBeNull();
+    });
+  });
+
+  describe('priorities', () => {
+    it.each([
+      ['!high', 'High'],
+      ['!h', 'High'],
+      ['!medium', 'Medium'],
+      ['!med', 'Medium'],
+      ['!m', 'Medium'],
+      ['!low', 'Low'],
+      ['!l', 'Low'],
+      ['!HIGH', 'High'],
+    ])('reads "%s"', (text, expected) => {
+      const result = parse(`Task ${text}`);
+
+      expect(result.priority).toBe(expected);
+      expect(result.title).toBe('Task');
+    });
+
+    it('leaves unknown priorities in the title', () => {
+      const result = parse('Task !urgent');
+
+      expect(result.priority).toBeNull();
+      expect(result.title).toBe('Task !urgent');
+    });
+
+    it.each(['!constructor', '!__proto__'])('leaves "%s" in the title', (text) => {
+      const result = parse(`Email ${text}`);
+
+      expect(result.priority).toBeNull();
+      expect(result.title).toBe(`Email ${text}`);
+    });
+
+    it('uses the first priority', () => {
+      expect(parse('Task !low !high').priority).toBe('Low');
+    });
+  });
+
+  describe('assignees and projects', () => {
+    it('prefers an exact match over prefix matches', () => {
+      // "sara" is also the start of "Sarah Kim"
+      expect(parse('Task @sara').assignee?.id).toBe('u1');
+      expect(parse('Task @sarahkim').assignee?.id).toBe('u2');
+    });
+
+    it('takes a single prefix match', () => {
+      expect(parse('Task @to').assignee?.id).toBe('u3');
+      expect(parse('Task @ski').assignee?.id).toBe('u2');
+    });
+
+    it('reports ambiguous and unknown people', () => {
+      const ambiguous = parse('Task @sar');
+      expect(ambiguous.assignee).toBeNull();
+      expect(ambiguous.unknownAssignee).toBe('sar');
+      expect(ambiguous.title).toBe('Task');
+
+      expect(parse('Task @nobody').unknownAssignee).toBe('nobody');
+    });
+
+    it('matches projects by name without spaces or punctuation', () => {
+      expect(parse('Task #website-redesign').project?.id).toBe('p1');
+      expect(parse('Task #WebsiteLaunch').project?.id).toBe('p2');
+      expect(parse('Task #mob').project?.id).toBe('p3');
+    });
+
+    it('reports ambiguous and unknown projects', () => {
+      const ambiguous = parse('Task #website');
+      expect(ambiguous.project).toBeNull();
+      expect(ambiguous.unknownProject).toBe('website');
+
+      expect(parse('Task #nowhere').unknownProject).toBe('nowhere');
+    });
+
+    it('keeps a lone @ or # in the title', () => {
+      expect(parse('Meet @ the # sign').title).toBe('Meet @ the # sign');
+    });
+  });
+
+  describe('punctuation', () => {
+    it('ignores trailing punctuation on recognised words', () => {
+      const result = parse('Call the bank fri, 3pm; !high, @tom. #mobile;');
+
+      expect(result.title).toBe('Call the bank');
+      expect(result.dueDate).toEqual(at(9, 23, 15));
+      expect(result.priority).toBe('High');
+      expect(result.assignee?.id).toBe('u3');
+      expect(result.project?.id).toBe('p3');
+    });
+
+    it('strips trailing punctuation from unknown references', () => {
+      expect(parse('Task @nobody,').unknownAssignee).toBe('nobody');
+      expect(parse('Task #nowhere.').unknownProject).toBe('nowhere');
+    });
+
+    it('keeps punctuation in the title', () => {
+      expect(parse('Fix login, then deploy').title).toBe('Fix login, then deploy');
+    });
+  });
+});
+
+describe('findPerson', () => {
+  it('matches by full name, first name or email', () => {
+    expect(findPerson(people, 'Tom Hall')?.id).toBe('u3');
+    expect(findPerson(people, 'tom')?.id).toBe('u3');
+    expect(findPerson(people, 'sara.lee')?.id).toBe('u1');
+  });
+
+  it('returns null for an empty query', () => {
+    expect(findPerson(people, '')).toBeNull();
+  });
+});
+
+describe('findProject', () => {
+  it('returns null when several projects share the prefix', () => {
+    expect(findProject(projects, 'web')).toBeNull();
+  });
+});
+
+describe('toDueDateValue', () => {
+  it('stores a plain day without a time', () => {
+    expect(toDueDateValue({ dueDate: on(10, 3), hasTime: false }, NOW)).toBe('2026-11-03');
+  });
+
+  it('stores a timestamp when a time was given', () => {
+    const dueDate = at(9, 19, 15);
+    expect(toDueDateValue({ dueDate, hasTime: true }, NOW)).toBe(dueDate.toISOString());
+  });
+
+  it('falls back to today', () => {
+    expect(toDueDateValue({ dueDate: null, hasTime: false }, NOW)).toBe('2026-10-19');
+  });
+});
@@ -0,0 +1,279 @@
+import { addDays, addWeeks, format, isBefore, isValid, setHours, setMinutes, startOfDay, startOfWeek } from 'date-fns';
+import { AppUser, Project, TaskPriority } from '@/services/repository';
+
+/**
+ * Parses quick-add text such as "Draft release notes fri 3pm !high @sara #website" into a task.
+ * Recognised, anywhere in the text:
+ * - due date: today, tomorrow, a weekday ("fri", "next fri"), "next week", "in 3 days",
+ *   "in 2 weeks", "jan 5", "5 jan" or 2026-01-05, optionally after "on", "by" or "due"
+ * - time: 3pm, 3:30pm, 15:00, noon or midnight, optionally after "at"
+ * - priority: !high, !medium or !low, or !h, !m and !l
+ * - assignee: @ and a name, first name or the start of an email address
+ * - project: # and the project's name, without spaces
+ * The first match of each kind is used; everything else is the title.
+ */
+
+export interface QuickAddResult {
+  title: string;
+  // Null when the text has no date or time
+  dueDate: Date | null;
+  // Whether dueDate has a time of day, rather than only a day
+  hasTime: boolean;
+  priority: TaskPriority | null;
+  assignee: AppUser | null;
+  project: Project | null;
+  // @ and # references that matched no one, or more than one, without the prefix
+  unknownAssignee: string | null;
+  unknownProject: string | null;
+}
+
+const PRIORITY_TOKENS: Record<string, TaskPriority> = {
+  high: 'High',
+  h: 'High',
+  medium: 'Medium',
+  med: 'Medium',
+  m: 'Medium',
+  low: 'Low',
+  l: 'Low',
+};
+
+// `in` would also match inherited keys such as "constructor"
+const isToken = (table: Record<string, unknown>, word: string): boolean =>
+  Object.prototype.hasOwnProperty.call(table, word);
+
+const WEEKDAYS: Record<string, number> = {
+  sun: 0, sunday: 0,
+  mon: 1, monday: 1,
+  tue: 2, tues: 2, tuesday: 2,
+  wed: 3, weds: 3, wednesday: 3,
+  thu: 4, thur: 4, thurs: 4, thursday: 4,
+  fri: 5, friday: 5,
+  sat: 6, saturday: 6,
+};
+
+const MONTHS: Record<string, number> = {
+  jan: 0, january: 0,
+  feb: 1, february: 1,
+  mar: 2, march: 2,
+  apr: 3, april: 3,
+  may: 4,
+  jun: 5, june: 5,
+  jul: 6, july: 6,
+  aug: 7, august: 7,
+  sep: 8, sept: 8, september: 8,
+  oct: 9, october: 9,
+  nov: 10, november: 10,
+  dec: 11, december: 11,
+};
+
+// Words that may introduce a date or time, dropped along with it
+const DATE_PREFIXES = ['on', 'by', 'due'];
+const TIME_PREFIXES = ['at'];
+
+interface Match<T> {
+  value: T;
+  // Tokens used, from the current one
+  length: number;
+}
+
+interface TimeOfDay {
+  hours: number;
+  minutes: number;
+}
+
+// Lowercase letters and digits only, so "Website Redesign" matches #website-redesign
+const normalize = (value: string): string => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Trailing punctuation isn't part of a word: "fri," is still Friday
+const word = (token: string | undefined): string => (token || '').toLowerCase().replace(/[.,;]+$/, '');
+
+// The coming day of the week, a week out when that is today
+const nextWeekday = (today: Date, weekday: number): Date =>
+  addDays(today, (weekday - today.getDay() + 7) % 7 || 7);
+
+// Day and month without a year: this year, or next year once the day has passed
+const upcomingDay = (today: Date, month: number, day: number): Date | null => {
+  const date = new Date(today.getFullYear(), month, day);
+  if (date.getMonth() !== month) return null;
+  return isBefore(date, today) ? new Date(today.getFullYear() + 1, month, day) : date;
+};
+
+const matchDay = (tokens: string[], i: number, today: Date): Match<Date> | null => {
+  const first = word(tokens[i]);
+  const second = word(tokens[i + 1]);
+
+  if (first === 'today' || first === 'tod') return { value: today, length: 1 };
+  if (first === 'tomorrow' || first === 'tmr' || first === 'tmrw') return { value: addDays(today, 1), length: 1 };
+  if (isToken(WEEKDAYS, first)) return { value: nextWeekday(today, WEEKDAYS[first]), length: 1 };
+
+  if (first === 'next') {
+    if (second === 'week') return { value: addWeeks(startOfWeek(today, { weekStartsOn: 1 }), 1), length: 2 };
+    if (isToken(WEEKDAYS, second)) return { value: addWeeks(nextWeekday(today, WEEKDAYS[second]), 1), length: 2 };
+  }
+
+  if (first === 'in' && /^\d+$/.test(second)) {
+    const amount = Number(second);
+    const unit = word(tokens[i + 2]);
+    if (unit === 'day' || unit === 'days') return { value: addDays(today, amount), length: 3 };
+    if (unit === 'week' || unit === 'weeks') return { value: addWeeks(today, amount), length: 3 };
+  }
+
+  const iso = first.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (iso) {
+    const date = new Date(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3]));
+    // Out of range days and months roll over, so 2026-02-30 would otherwise be March 2
+    const exact = date.getMonth() === Number(iso[2]) - 1 && date.getDate() === Number(iso[3]);
+    return isValid(date) && exact ? { value: date, length: 1 } : null;
+  }
+
+  // "jan 5" or "5 jan"
+  const monthFirst = isToken(MONTHS, first) && /^\d{1,2}(st|nd|rd|th)?$/.test(second);
+  const dayFirst = isToken(MONTHS, second) && /^\d{1,2}(st|nd|rd|th)?$/.test(first);
+  if (monthFirst || dayFirst) {
+    const date = monthFirst
+      ? upcomingDay(today, MONTHS[first], parseInt(second, 10))
+      : upcomingDay(today, MONTHS[second], parseInt(first, 10));
+    return date ? { value: date, length: 2 } : null;
+  }
+
+  return null;
+};
+
+const matchTime = (tokens: string[], i: number): Match<TimeOfDay> | null => {
+  const first = word(tokens[i]);
+
+  if (first === 'noon') return { value: { hours: 12, minutes: 0 }, length: 1 };
+  if (first === 'midnight') return { value: { hours: 0, minutes: 0 }, length: 1 };
+
+  // 3pm, 3:30pm, or "3 pm" across two tokens
+  const twelveHour = first.match(/^(\d{1,2})(?::(\d{2}))?(am|pm)?$/);
+  if (twelveHour) {
+    const suffix = twelveHour[3] || (['am', 'pm'].includes(word(tokens[i + 1])) ? word(tokens[i + 1]) : null);
+    let hours = Number(twelveHour[1]);
+    const minutes = Number(twelveHour[2] || 0);
+    if (minutes > 59) return null;
+
+    if (suffix) {
+      if (hours < 1 || hours > 12) return null;
+      if (suffix === 'pm' && hours < 12) hours += 12;
+      if (suffix === 'am' && hours === 12) hours = 0;
+      return { value: { hours, minutes }, length: twelveHour[3] ? 1 : 2 };
+    }
+
+    // Without am or pm only 24-hour times with minutes count, so "3" stays in the title
+    if (twelveHour[2] && hours <= 23) return { value: { hours, minutes }, length: 1 };
+  }
+
+  return null;
+};
+
+// Exact matches win; otherwise a single prefix match
+const findByName = <T>(items: T[], query: string, namesOf: (item: T) => string[]): T | null => {
+  const key = normalize(query);
+  if (!key) return null;
+
+  const exact = items.filter(item => namesOf(item).some(name => normalize(name) === key));
+  if (exact.length === 1) return exact[0];
+  if (exact.length > 1) return null;
+
+  const partial = items.filter(item => namesOf(item).some(name => normalize(name).startsWith(key)));
+  return partial.length === 1 ? partial[0] : null;
+};
+
+const personNames = (person: AppUser): string[] =>
+  [person.name, person.name.split(/\s+/)[0], person.email.split('@')[0]].filter(Boolean);
+
+export const findPerson = (people: AppUser[], query: string): AppUser | null =>
+  findByName(people, query, personNames);
+
+export const findProject = (projects: Project[], query: string): Project | null =>
+  findByName(projects, query, project => [project.name]);
+
+export const parseQuickAdd = (
+  text: string,
+  projects: Project[],
+  people: AppUser[],
+  now: Date = new Date()
+): QuickAddResult => {
+  const tokens = text.trim().split(/\s+/).filter(Boolean);
+  const today = startOfDay(now);
+  const titleTokens: string[] = [];
+  const result: QuickAddResult = {
+    title: '',
+    dueDate: null,
+    hasTime: false,
+    priority: null,
+    assignee: null,
+    project: null,
+    unknownAssignee: null,
+    unknownProject: null,
+  };
+  let day: Date | null = null;
+  let time: TimeOfDay | null = null;
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    const lower = word(token);
+
+    const priority = lower.match(/^!(\w+)$/);
+    if (priority && isToken(PRIORITY_TOKENS, priority[1]) && !result.priority) {
+      result.priority = PRIORITY_TOKENS[priority[1]];
+      continue;
+    }
+
+    if (!time) {
+      const prefixed = TIME_PREFIXES.includes(lower) ? 1 : 0;
+      const match = matchTime(tokens, i + prefixed);
+      if (match) {
+        time = match.value;
+        i += prefixed + match.length - 1;
+        continue;
+      }
+    }
+
+    if (token.length > 1 && token.startsWith('@') && !result.assignee && !result.unknownAssignee) {
+      const name = token.slice(1).replace(/[.,;]+$/, '');
+      result.assignee = findPerson(people, name);
+      if (!result.assignee) result.unknownAssignee = name;
+      continue;
+    }
+
+    if (token.length > 1 && token.startsWith('#') && !result.project && !result.unknownProject) {
+      const name = token.slice(1).replace(/[.,;]+$/, '');
+      result.project = findProject(projects, name);
+      if (!result.project) result.unknownProject = name;
+      continue;
+    }
+
+    if (!day) {
+      const prefixed = DATE_PREFIXES.includes(lower) ? 1 : 0;
+      const match = matchDay(tokens, i + prefixed, today);
+      if (match) {
+        day = match.value;
+        i += prefixed + match.length - 1;
+        continue;
+      }
+    }
+
+    titleTokens.push(token);
+  }
+
+  if (time) {
+    // A time on its own means its next occurrence: today, or tomorrow once it has passed
+    const at = (date: Date) => setMinutes(setHours(date, time.hours), time.minutes);
+    const due = at(day || today);
+    result.dueDate = !day && isBefore(due, now) ? at(addDays(today, 1)) : due;
+    result.hasTime = true;
+  } else {
+    result.dueDate = day;
+  }
+
+  result.title = titleTokens.join(' ');
+  return result;
+};
+
+// The stored due date: a plain day, or a full timestamp when a time was given
+export const toDueDateValue = (result: Pick<QuickAddResult, 'dueDate' | 'hasTime'>, now: Date = new Date()): string => {
+  if (!result.dueDate) return format(now, 'yyyy-MM-dd');
+  return result.hasTime ? result.dueDate.toISOString() : format(result.dueDate, 'yyyy-MM-dd');
+};
@@ -0,0 +1,15 @@
+import { Task } from '@/services/repository';
+
+// Ranks are floats so a card can be placed between two others without renumbering the column
+export const rankBetween = (before?: number, after?: number): number => {
+  if (before === undefined && after === undefined) return 0;
+  if (before === undefined) return after - 1;
+  if (after === undefined) return before + 1;
+  return (before + after) / 2;
+};
+
+// Rank for a new task placed above everything else in the project
+export const topRank = (tasks: Pick<Task, 'rank'>[]): number =>
+  tasks.length ? Math.min(...tasks.map(task => task.rank)) - 1 : 0;
+
+export const byRank = (a: Pick<Task, 'rank'>, b: Pick<Task, 'rank'>): number => a.rank - b.rank;
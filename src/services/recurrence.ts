@@ -0,0 +1,142 @@
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  differenceInCalendarDays,
+  getDaysInMonth,
+  isAfter,
+  setDate,
+  startOfMonth,
+  startOfWeek,
+} from 'date-fns';
+import { NewTask, RecurrenceFrequency, Task, TaskRecurrence, WorkflowStatus } from '@/services/repository';
+import { getInitialStatusId } from '@/services/workflow';
+import { toDateValue, toDay } from '@/services/timeline';
+
+export const FREQUENCY_LABELS: Record<RecurrenceFrequency, string> = {
+  daily: 'Daily',
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+};
+
+const FREQUENCY_UNITS: Record<RecurrenceFrequency, string> = {
+  daily: 'day',
+  weekly: 'week',
+  monthly: 'month',
+};
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export const DEFAULT_RECURRENCE: TaskRecurrence = {
+  frequency: 'weekly',
+  interval: 1,
+  weekdays: [],
+  monthDay: null,
+  until: null,
+  count: null,
+};
+
+// The occurrence after one due on dueDate, ignoring end conditions
+const stepRecurrence = (recurrence: TaskRecurrence, dueDate: Date): Date => {
+  const interval = Math.max(1, recurrence.interval);
+
+  if (recurrence.frequency === 'daily') return addDays(dueDate, interval);
+
+  if (recurrence.frequency === 'weekly') {
+    const weekdays = recurrence.weekdays.length ? [...recurrence.weekdays].sort((a, b) => a - b) : [dueDate.getDay()];
+    // Later in the same week, otherwise the first chosen day of the next week in the cycle
+    const later = weekdays.find(day => day > dueDate.getDay());
+    if (later !== undefined) return addDays(dueDate, later - dueDate.getDay());
+    return addDays(addWeeks(startOfWeek(dueDate), interval), weekdays[0]);
+  }
+
+  const month = addMonths(startOfMonth(dueDate), interval);
+  return setDate(month, Math.min(recurrence.monthDay ?? dueDate.getDate(), getDaysInMonth(month)));
+};
+
+// Null once the end condition is reached
+export const getNextDueDate = (recurrence: TaskRecurrence, dueDate: string): Date | null => {
+  if (recurrence.count !== null && recurrence.count <= 1) return null;
+  const next = stepRecurrence(recurrence, toDay(dueDate));
+  if (recurrence.until && isAfter(next, toDay(recurrence.until))) return null;
+  return next;
+};
+
+// The schedule as seen from the occurrence after this one
+const advance = (recurrence: TaskRecurrence): TaskRecurrence => ({
+  ...recurrence,
+  count: recurrence.count === null ? null : recurrence.count - 1,
+});
+
+/**
+ * The task to create when a recurring task is completed: a fresh copy due on the
+ * next date, in its workflow's first status with the checklist unticked. Returns
+ * null when the schedule has ended.
+ */
+export const getNextOccurrence = (task: Task, statuses: WorkflowStatus[]): NewTask | null => {
+  if (!task.recurrence) return null;
+  const next = getNextDueDate(task.recurrence, task.dueDate);
+  if (!next) return null;
+
+  const shift = differenceInCalendarDays(next, toDay(task.dueDate));
+  return {
+    title: task.title,
+    description: task.description,
+    status: getInitialStatusId(statuses),
+    startDate: task.startDate ? toDateValue(addDays(toDay(task.startDate), shift)) : null,
+    dueDate: toDateValue(next),
+    assignedTo: task.assignedTo,
+    projectId: task.projectId,
+    priority: task.priority,
+    estimate: task.estimate,
+    parentId: task.parentId,
+    checklist: task.checklist.map(item => ({ ...item, id: crypto.randomUUID(), done: false })),
+    recurrence: advance(task.recurrence),
+    createdBy: task.createdBy,
+  };
+};
+
+// Due dates of the occurrences after this task, up to and including `until`
+export const getUpcomingOccurrences = (task: Pick<Task, 'dueDate' | 'recurrence'>, until: Date, limit = 100): Date[] => {
+  const dates: Date[] = [];
+  let recurrence = task.recurrence;
+  let dueDate = task.dueDate;
+
+  while (recurrence && dates.length < limit) {
+    const next = getNextDueDate(recurrence, dueDate);
+    if (!next || isAfter(next, until)) break;
+    dates.push(next);
+    recurrence = advance(recurrence);
+    dueDate = toDateValue(next);
+  }
+  return dates;
+};
+
+// Returns an error message, or null when the schedule can be saved
+export const validateRecurrence = (recurrence: TaskRecurrence, dueDate: string): string | null => {
+  if (!Number.isInteger(recurrence.interval) || recurrence.interval < 1) return 'The repeat interval must be a whole number above zero';
+  if (recurrence.monthDay !== null && (!Number.isInteger(recurrence.monthDay) || recurrence.monthDay < 1 || recurrence.monthDay > 31)) {
+    return 'The day of the month must be between 1 and 31';
+  }
+  if (recurrence.count !== null && (!Number.isInteger(recurrence.count) || recurrence.count < 1)) {
+    return 'The number of occurrences must be a whole number above zero';
+  }
+  if (recurrence.until && dueDate && recurrence.until < dueDate.slice(0, 10)) return 'The repeat end date must be on or after the due date';
+  return null;
+};
+
+// For example "Every 2 weeks on Mon, Thu, 5 occurrences left"
+export const describeRecurrence = (recurrence: TaskRecurrence): string => {
+  const unit = FREQUENCY_UNITS[recurrence.frequency];
+  let text = recurrence.interval === 1 ? `Every ${unit}` : `Every ${recurrence.interval} ${unit}s`;
+
+  if (recurrence.frequency === 'weekly' && recurrence.weekdays.length) {
+    text += ` on ${[...recurrence.weekdays].sort((a, b) => a - b).map(day => WEEKDAY_LABELS[day]).join(', ')}`;
+  }
+  if (recurrence.frequency === 'monthly' && recurrence.monthDay) {
+    text += ` on day ${recurrence.monthDay}`;
+  }
+  if (recurrence.until) text += `, until ${toDay(recurrence.until).toLocaleDateString()}`;
+  if (recurrence.count !== null) text += `, ${recurrence.count} occurrence${recurrence.count === 1 ? '' : 's'} left`;
+  return text;
+};
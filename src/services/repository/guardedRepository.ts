@@ -0,0 +1,548 @@
+import { User } from '@supabase/supabase-js';
+import {
+  AppNotification,
+  Attachment,
+  AttachmentRepository,
+  AuthRepository,
+  CommentRepository,
+  DataRepository,
+  DependencyRepository,
+  InvitePreview,
+  InviteRepository,
+  JoinRequest,
+  JoinRequestRepository,
+  JoinRequestStatus,
+  JoinResult,
+  MemberRepository,
+  MessageRepository,
+  NewAttachment,
+  NewComment,
+  NewInvite,
+  NewProject,
+  NewSavedView,
+  NewTask,
+  NewTimeEntry,
+  NotificationRepository,
+  PreferenceRepository,
+  Project,
+  ProjectChanges,
+  ProjectInvite,
+  ProjectMember,
+  ProjectRepository,
+  ProjectRole,
+  SavedView,
+  SavedViewRepository,
+  Task,
+  TaskChanges,
+  TaskComment,
+  TaskDependency,
+  TaskEvent,
+  TaskRepository,
+  TimeEntry,
+  TimeEntryRepository,
+  UserRepository,
+} from './types';
+import { ProjectAction, PermissionDeniedError, assertCan } from '@/services/permissions';
+import { getProjectRole, isProjectMember } from '@/services/membership';
+
+/**
+ * Checks the permission matrix before every project, member and task mutation.
+ * The Supabase RLS policies enforce the same rules server side; this layer gives
+ * both backends consistent behaviour and readable errors.
+ */
+class PermissionChecker {
+  constructor(private inner: DataRepository) {}
+
+  async currentUserId(): Promise<string> {
+    const session = await this.inner.auth.getSession();
+    if (!session) throw new Error('Not signed in');
+    return session.user.id;
+  }
+
+  async project(projectId: string): Promise<Project> {
+    const project = await this.inner.projects.get(projectId);
+    if (!project) throw new Error('Project not found');
+    return project;
+  }
+
+  async task(taskId: string): Promise<Task> {
+    const task = await this.inner.tasks.get(taskId);
+    if (!task) throw new Error('Task not found');
+    return task;
+  }
+
+  async require(projectId: string, action: ProjectAction): Promise<{ project: Project; userId: string }> {
+    const [project, userId] = await Promise.all([this.project(projectId), this.currentUserId()]);
+    assertCan(project, userId, action);
+    return { project, userId };
+  }
+}
+
+class GuardedProjectRepository implements ProjectRepository {
+  constructor(private inner: ProjectRepository, private checker: PermissionChecker) {}
+
+  listForUser(user: User): Promise<Project[]> {
+    return this.inner.listForUser(user);
+  }
+
+  get(id: string): Promise<Project | null> {
+    return this.inner.get(id);
+  }
+
+  async create(project: NewProject): Promise<Project> {
+    const userId = await this.checker.currentUserId();
+    if (project.ownerId !== userId) {
+      throw new Error('Projects can only be created for yourself');
+    }
+    return this.inner.create(project);
+  }
+
+  async update(id: string, changes: ProjectChanges): Promise<void> {
+    await this.checker.require(id, 'project:edit');
+    return this.inner.update(id, changes);
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.checker.require(id, 'project:delete');
+    return this.inner.remove(id);
+  }
+  subscribe(onChange: () => void): () => void {
+    return this.inner.subscribe(onChange);
+  }
+}
+
+class GuardedMemberRepository implements MemberRepository {
+  constructor(private inner: MemberRepository, private checker: PermissionChecker) {}
+
+  // Nobody can grant ownership or change the owner's membership
+  private async requireManageable(projectId: string, userId: string, role?: ProjectRole) {
+    const { project } = await this.checker.require(projectId, 'members:manage');
+    if (role === 'owner' || getProjectRole(project, userId) === 'owner') {
+      throw new PermissionDeniedError('members:manage');
+    }
+  }
+
+  async add(projectId: string, userId: string, role: ProjectRole): Promise<ProjectMember> {
+    await this.requireManageable(projectId, userId, role);
+    return this.inner.add(projectId, userId, role);
+  }
+
+  async updateRole(projectId: string, userId: string, role: ProjectRole): Promise<void> {
+    await this.requireManageable(projectId, userId, role);
+    return this.inner.updateRole(projectId, userId, role);
+  }
+
+  async remove(projectId: string, userId: string): Promise<void> {
+    // Members may always leave a project they don't own
+    const [project, currentUserId] = await Promise.all([
+      this.checker.project(projectId),
+      this.checker.currentUserId(),
+    ]);
+    if (userId !== currentUserId || getProjectRole(project, userId) === 'owner') {
+      await this.requireManageable(projectId, userId);
+    }
+    return this.inner.remove(projectId, userId);
+  }
+}
+
+class GuardedInviteRepository implements InviteRepository {
+  constructor(private inner: InviteRepository, private checker: PermissionChecker) {}
+
+  async listByProject(projectId: string): Promise<ProjectInvite[]> {
+    await this.checker.require(projectId, 'members:manage');
+    return this.inner.listByProject(projectId);
+  }
+
+  async create(invite: NewInvite): Promise<ProjectInvite> {
+    const { userId } = await this.checker.require(invite.projectId, 'members:manage');
+    if (invite.role === 'owner' || invite.createdBy !== userId) {
+      throw new PermissionDeniedError('members:manage');
+    }
+    return this.inner.create(invite);
+  }
+
+  async revoke(projectId: string, id: string): Promise<void> {
+    await this.checker.require(projectId, 'members:manage');
+    return this.inner.revoke(projectId, id);
+  }
+
+  async preview(token: string, userId: string): Promise<InvitePreview | null> {
+    if (userId !== await this.checker.currentUserId()) {
+      throw new Error('You can only look up invites yourself');
+    }
+    return this.inner.preview(token, userId);
+  }
+
+  async redeem(token: string, userId: string): Promise<JoinResult> {
+    if (userId !== await this.checker.currentUserId()) {
+      throw new Error('You can only join projects yourself');
+    }
+    return this.inner.redeem(token, userId);
+  }
+}
+
+class GuardedJoinRequestRepository implements JoinRequestRepository {
+  constructor(private inner: JoinRequestRepository, private checker: PermissionChecker) {}
+
+  async listByProject(projectId: string, status?: JoinRequestStatus): Promise<JoinRequest[]> {
+    await this.checker.require(projectId, 'members:manage');
+    return this.inner.listByProject(projectId, status);
+  }
+
+  async approve(projectId: string, id: string): Promise<void> {
+    await this.checker.require(projectId, 'members:manage');
+    return this.inner.approve(projectId, id);
+  }
+
+  async reject(projectId: string, id: string): Promise<void> {
+    await this.checker.require(projectId, 'members:manage');
+    return this.inner.reject(projectId, id);
+  }
+}
+
+class GuardedNotificationRepository implements NotificationRepository {
+  constructor(private inner: NotificationRepository, private checker: PermissionChecker) {}
+
+  private async requireSelf(userId: string) {
+    if (userId !== await this.checker.currentUserId()) {
+      throw new Error('You can only access your own notifications');
+    }
+  }
+
+  async listForUser(userId: string): Promise<AppNotification[]> {
+    await this.requireSelf(userId);
+    return this.inner.listForUser(userId);
+  }
+
+  async markRead(userId: string, id: string): Promise<void> {
+    await this.requireSelf(userId);
+    return this.inner.markRead(userId, id);
+  }
+
+  async markAllRead(userId: string): Promise<void> {
+    await this.requireSelf(userId);
+    return this.inner.markAllRead(userId);
+  }
+
+  subscribe(userId: string, onChange: () => void): () => void {
+    return this.inner.subscribe(userId, onChange);
+  }
+}
+
+class GuardedSavedViewRepository implements SavedViewRepository {
+  constructor(private inner: SavedViewRepository, private checker: PermissionChecker) {}
+
+  private async requireSelf(userId: string) {
+    if (userId !== await this.checker.currentUserId()) {
+      throw new Error('You can only access your own views');
+    }
+  }
+
+  async listForUser(userId: string): Promise<SavedView[]> {
+    await this.requireSelf(userId);
+    return this.inner.listForUser(userId);
+  }
+
+  async create(view: NewSavedView): Promise<SavedView> {
+    await this.requireSelf(view.userId);
+    return this.inner.create(view);
+  }
+
+  async remove(userId: string, id: string): Promise<void> {
+    await this.requireSelf(userId);
+    return this.inner.remove(userId, id);
+  }
+
+  subscribe(userId: string, onChange: () => void): () => void {
+    return this.inner.subscribe(userId, onChange);
+  }
+}
+
+class GuardedPreferenceRepository implements PreferenceRepository {
+  constructor(private inner: PreferenceRepository, private checker: PermissionChecker) {}
+
+  private async requireSelf(userId: string) {
+    if (userId !== await this.checker.currentUserId()) {
+      throw new Error('You can only access your own preferences');
+    }
+  }
+
+  async get<T>(userId: string, key: string): Promise<T | null> {
+    await this.requireSelf(userId);
+    return this.inner.get<T>(userId, key);
+  }
+
+  async set<T>(userId: string, key: string, value: T): Promise<void> {
+    await this.requireSelf(userId);
+    return this.inner.set(userId, key, value);
+  }
+}
+
+const assertAssignable = (project: Project, assignedTo: string | null | undefined) => {
+  if (assignedTo && !isProjectMember(project, assignedTo)) {
+    throw new Error('Tasks can only be assigned to members of their project');
+  }
+};
+
+class GuardedTaskRepository implements TaskRepository {
+  constructor(private inner: TaskRepository, private checker: PermissionChecker) {}
+
+  get(id: string): Promise<Task | null> {
+    return this.inner.get(id);
+  }
+
+  listByIds(ids: string[]): Promise<Task[]> {
+    return this.inner.listByIds(ids);
+  }
+
+  listByProject(projectId: string): Promise<Task[]> {
+    return this.inner.listByProject(projectId);
+  }
+
+  listByProjects(projectIds: string[]): Promise<Task[]> {
+    return this.inner.listByProjects(projectIds);
+  }
+
+  listByAssignee(userId: string): Promise<Task[]> {
+    return this.inner.listByAssignee(userId);
+  }
+
+  listSubtasks(parentIds: string[]): Promise<Task[]> {
+    return this.inner.listSubtasks(parentIds);
+  }
+
+  listHistory(taskId: string): Promise<TaskEvent[]> {
+    return this.inner.listHistory(taskId);
+  }
+
+  async create(task: NewTask): Promise<Task> {
+    const { project, userId } = await this.checker.require(task.projectId, 'tasks:create');
+    if (task.assignedTo && task.assignedTo !== userId) {
+      assertCan(project, userId, 'tasks:assign');
+    }
+    assertAssignable(project, task.assignedTo);
+    return this.inner.create({ ...task, createdBy: userId });
+  }
+
+  async update(id: string, changes: TaskChanges): Promise<void> {
+    const task = await this.checker.task(id);
+    const { project, userId } = await this.checker.require(task.projectId, 'tasks:edit');
+
+    const reassigned = changes.assignedTo !== undefined && changes.assignedTo !== task.assignedTo;
+    const moved = changes.projectId !== undefined && changes.projectId !== task.projectId;
+    if (reassigned) {
+      assertCan(project, userId, 'tasks:assign');
+    }
+    const target = moved ? (await this.checker.require(changes.projectId, 'tasks:create')).project : project;
+    if (reassigned || moved) {
+      assertAssignable(target, reassigned ? changes.assignedTo : task.assignedTo);
+    }
+    return this.inner.update(id, changes);
+  }
+
+  async remove(id: string): Promise<void> {
+    const task = await this.checker.task(id);
+    await this.checker.require(task.projectId, 'tasks:delete');
+    return this.inner.remove(id);
+  }
+}
+
+// Linking needs edit rights on the blocked task and access to the blocker's project
+class GuardedDependencyRepository implements DependencyRepository {
+  constructor(private inner: DependencyRepository, private checker: PermissionChecker) {}
+
+  listForTasks(taskIds: string[]): Promise<TaskDependency[]> {
+    return this.inner.listForTasks(taskIds);
+  }
+
+  async add(taskId: string, blockedById: string): Promise<void> {
+    const [task, blocker] = await Promise.all([this.checker.task(taskId), this.checker.task(blockedById)]);
+    await this.checker.require(task.projectId, 'tasks:edit');
+    await this.checker.require(blocker.projectId, 'project:view');
+    return this.inner.add(taskId, blockedById);
+  }
+
+  async remove(taskId: string, blockedById: string): Promise<void> {
+    const task = await this.checker.task(taskId);
+    await this.checker.require(task.projectId, 'tasks:edit');
+    return this.inner.remove(taskId, blockedById);
+  }
+}
+
+class GuardedCommentRepository implements CommentRepository {
+  constructor(private inner: CommentRepository, private checker: PermissionChecker) {}
+
+  private async requireComment(id: string): Promise<{ comment: TaskComment; userId: string }> {
+    const [comment, userId] = await Promise.all([this.inner.get(id), this.checker.currentUserId()]);
+    if (!comment) throw new Error('Comment not found');
+    return { comment, userId };
+  }
+
+  get(id: string): Promise<TaskComment | null> {
+    return this.inner.get(id);
+  }
+
+  listByTask(taskId: string): Promise<TaskComment[]> {
+    return this.inner.listByTask(taskId);
+  }
+
+  countByTasks(taskIds: string[]): Promise<Record<string, number>> {
+    return this.inner.countByTasks(taskIds);
+  }
+
+  // Any member can join the discussion, viewers included
+  async create(comment: NewComment): Promise<TaskComment> {
+    const task = await this.checker.task(comment.taskId);
+    const { userId } = await this.checker.require(task.projectId, 'project:view');
+    if (comment.authorId !== userId) throw new Error('You can only comment as yourself');
+    return this.inner.create(comment);
+  }
+
+  async update(id: string, body: string): Promise<void> {
+    const { comment, userId } = await this.requireComment(id);
+    if (comment.authorId !== userId) throw new Error('You can only edit your own comments');
+    return this.inner.update(id, body);
+  }
+
+  // Authors can delete their comments, and so can those allowed to delete the task
+  async remove(id: string): Promise<void> {
+    const { comment, userId } = await this.requireComment(id);
+    if (comment.authorId !== userId) {
+      const task = await this.checker.task(comment.taskId);
+      await this.checker.require(task.projectId, 'tasks:delete');
+    }
+    return this.inner.remove(id);
+  }
+}
+
+class GuardedAttachmentRepository implements AttachmentRepository {
+  constructor(private inner: AttachmentRepository, private checker: PermissionChecker) {}
+
+  get(id: string): Promise<Attachment | null> {
+    return this.inner.get(id);
+  }
+
+  async listByProject(projectId: string): Promise<Attachment[]> {
+    await this.checker.require(projectId, 'project:view');
+    return this.inner.listByProject(projectId);
+  }
+
+  listByTask(taskId: string): Promise<Attachment[]> {
+    return this.inner.listByTask(taskId);
+  }
+
+  // Anyone who can edit tasks can add files, to the project or to one of its tasks
+  async upload(attachment: NewAttachment): Promise<Attachment> {
+    const { userId } = await this.checker.require(attachment.projectId, 'tasks:edit');
+    if (attachment.uploadedBy !== userId) throw new Error('You can only upload files as yourself');
+    if (attachment.taskId) {
+      const task = await this.checker.task(attachment.taskId);
+      if (task.projectId !== attachment.projectId) throw new Error('The task belongs to another project');
+    }
+    return this.inner.upload(attachment);
+  }
+
+  async download(attachment: Attachment): Promise<Blob> {
+    await this.checker.require(attachment.projectId, 'project:view');
+    return this.inner.download(attachment);
+  }
+
+  // Uploaders can delete their files, and so can those allowed to delete tasks
+  async remove(id: string): Promise<void> {
+    const [attachment, userId] = await Promise.all([this.inner.get(id), this.checker.currentUserId()]);
+    if (!attachment) throw new Error('Attachment not found');
+    if (attachment.uploadedBy !== userId) {
+      await this.checker.require(attachment.projectId, 'tasks:delete');
+    }
+    return this.inner.remove(id);
+  }
+}
+
+// Time is logged by people who can edit the task, and only ever for themselves
+class GuardedTimeEntryRepository implements TimeEntryRepository {
+  constructor(private inner: TimeEntryRepository, private checker: PermissionChecker) {}
+
+  private async requireOwnEntry(id: string) {
+    const [entry, userId] = await Promise.all([this.inner.get(id), this.checker.currentUserId()]);
+    if (!entry) throw new Error('Time entry not found');
+    if (entry.userId !== userId) throw new Error('You can only change your own time entries');
+  }
+
+  get(id: string): Promise<TimeEntry | null> {
+    return this.inner.get(id);
+  }
+
+  listByTask(taskId: string): Promise<TimeEntry[]> {
+    return this.inner.listByTask(taskId);
+  }
+
+  async listByProject(projectId: string): Promise<TimeEntry[]> {
+    await this.checker.require(projectId, 'project:view');
+    return this.inner.listByProject(projectId);
+  }
+
+  async listForUser(userId: string, from: string, to: string): Promise<TimeEntry[]> {
+    if (userId !== await this.checker.currentUserId()) {
+      throw new Error('You can only view your own timesheet');
+    }
+    return this.inner.listForUser(userId, from, to);
+  }
+
+  getRunning(userId: string): Promise<TimeEntry | null> {
+    return this.inner.getRunning(userId);
+  }
+
+  async create(entry: NewTimeEntry): Promise<TimeEntry> {
+    const task = await this.checker.task(entry.taskId);
+    const { userId } = await this.checker.require(task.projectId, 'tasks:edit');
+    if (entry.userId !== userId) throw new Error('You can only log your own time');
+    return this.inner.create(entry);
+  }
+
+  async stop(id: string): Promise<void> {
+    await this.requireOwnEntry(id);
+    return this.inner.stop(id);
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.requireOwnEntry(id);
+    return this.inner.remove(id);
+  }
+}
+
+export class GuardedRepository implements DataRepository {
+  auth: AuthRepository;
+  projects: ProjectRepository;
+  members: MemberRepository;
+  invites: InviteRepository;
+  joinRequests: JoinRequestRepository;
+  notifications: NotificationRepository;
+  tasks: TaskRepository;
+  dependencies: DependencyRepository;
+  comments: CommentRepository;
+  attachments: AttachmentRepository;
+  timeEntries: TimeEntryRepository;
+  savedViews: SavedViewRepository;
+  preferences: PreferenceRepository;
+  users: UserRepository;
+  messages: MessageRepository;
+
+  constructor(inner: DataRepository) {
+    const checker = new PermissionChecker(inner);
+    this.auth = inner.auth;
+    this.projects = new GuardedProjectRepository(inner.projects, checker);
+    this.members = new GuardedMemberRepository(inner.members, checker);
+    this.invites = new GuardedInviteRepository(inner.invites, checker);
+    this.joinRequests = new GuardedJoinRequestRepository(inner.joinRequests, checker);
+    this.notifications = new GuardedNotificationRepository(inner.notifications, checker);
+    this.tasks = new GuardedTaskRepository(inner.tasks, checker);
+    this.dependencies = new GuardedDependencyRepository(inner.dependencies, checker);
+    this.comments = new GuardedCommentRepository(inner.comments, checker);
+    this.attachments = new GuardedAttachmentRepository(inner.attachments, checker);
+    this.timeEntries = new GuardedTimeEntryRepository(inner.timeEntries, checker);
+    this.savedViews = new GuardedSavedViewRepository(inner.savedViews, checker);
+    this.preferences = new GuardedPreferenceRepository(inner.preferences, checker);
+    this.users = inner.users;
+    this.messages = inner.messages;
+  }
+}
@@ -0,0 +1,23 @@
+import { supabase, isSupabaseConfigured } from '@/integrations/supabase/client';
+import { GuardedRepository } from './guardedRepository';
+import { LocalRepository } from './localRepository';
+import { SupabaseRepository } from './supabaseRepository';
+import { DataRepository } from './types';
+
+export * from './types';
+
+export type DataBackend = 'supabase' | 'local';
+
+// VITE_DATA_BACKEND=local runs the app entirely in the browser, without a Supabase project
+const resolveBackend = (): DataBackend => {
+  const configured = import.meta.env.VITE_DATA_BACKEND;
+  if (configured === 'local' || configured === 'supabase') return configured;
+  return isSupabaseConfigured ? 'supabase' : 'local';
+};
+
+export const dataBackend = resolveBackend();
+
+// Every mutation is checked against the role permission matrix before reaching the backend
+export const repository: DataRepository = new GuardedRepository(
+  dataBackend === 'supabase' ? new SupabaseRepository(supabase) : new LocalRepository()
+);
@@ -0,0 +1,1491 @@
+import { User, Session } from '@supabase/supabase-js';
+import {
+  AppNotification,
+  AppUser,
+  Attachment,
+  AttachmentRepository,
+  AuthRepository,
+  CommentRepository,
+  DataRepository,
+  DependencyRepository,
+  EstimateUnit,
+  FileStorage,
+  InvitePreview,
+  InviteRepository,
+  JoinRequest,
+  JoinRequestRepository,
+  JoinRequestStatus,
+  JoinResult,
+  MemberRepository,
+  Message,
+  MessageRepository,
+  NewAttachment,
+  NewComment,
+  NewInvite,
+  NewMessage,
+  NewProject,
+  NewSavedView,
+  NewTask,
+  NewTimeEntry,
+  NotificationRepository,
+  NotificationType,
+  PreferenceRepository,
+  ProgressMode,
+  Project,
+  ProjectChanges,
+  ProjectInvite,
+  ProjectMember,
+  ProjectRepository,
+  ProjectRole,
+  SavedView,
+  SavedViewRepository,
+  SignUpInput,
+  Task,
+  TaskChanges,
+  TaskComment,
+  TaskDependency,
+  TaskEvent,
+  TaskHistoryField,
+  TaskRepository,
+  TimeEntry,
+  TimeEntryRepository,
+  UserPreference,
+  UserRepository,
+  WorkflowStatus,
+} from './types';
+import {
+  INVITE_COOLDOWN_MESSAGE,
+  INVITE_COOLDOWN_MINUTES,
+  INVITE_STATUS_MESSAGES,
+  MAX_FAILED_INVITE_ATTEMPTS,
+  MIGRATED_CODE_EXPIRY_DAYS,
+  MIGRATED_CODE_MAX_USES,
+  expiryFromDays,
+  generateInviteToken,
+  getInviteStatus,
+  normalizeInviteToken,
+} from '@/services/invites';
+import { findStatus, getDoneStatusId, getProjectStatuses, isDoneStatus } from '@/services/workflow';
+import { getNextOccurrence } from '@/services/recurrence';
+import { getElapsedMinutes } from '@/services/timeTracking';
+import { topRank } from '@/services/ranking';
+import { areAllTasksDone, getProjectProgress } from '@/services/progress';
+import { getMentionedUserIds, getNewMentions, toPlainText } from '@/services/comments';
+import { getAttachmentPath } from '@/services/attachments';
+import { DEPENDENCY_CYCLE_MESSAGE, createsCycle } from '@/services/dependencies';
+import { HISTORY_FIELDS } from '@/services/history';
+
+const STORAGE_KEY = 'taskflow:db';
+const SESSION_KEY = 'taskflow:session';
+
+interface LocalUser extends AppUser {
+  passwordHash: string;
+  createdAt: string;
+}
+
+// Members live in their own table and are attached when projects are read.
+// teamMembers and accessCode are only present on projects saved before memberships and invites existed,
+// requireApproval, statuses and the estimate settings are missing on projects saved before those existed.
+type StoredProject = Omit<Project, 'members' | 'requireApproval' | 'statuses' | 'estimateUnit' | 'progressMode' | 'autoComplete'> & {
+  requireApproval?: boolean;
+  statuses?: WorkflowStatus[];
+  estimateUnit?: EstimateUnit;
+  progressMode?: ProgressMode;
+  autoComplete?: boolean;
+  teamMembers?: string[];
+  accessCode?: string;
+};
+type StoredTask = Omit<Task, 'projectName'>;
+
+// Unknown invite codes entered by a user since their count last started over
+interface InviteFailure {
+  userId: string;
+  failedCount: number;
+  lastFailedAt: string;
+}
+
+interface LocalDatabase {
+  users: LocalUser[];
+  projects: StoredProject[];
+  members: ProjectMember[];
+  invites: ProjectInvite[];
+  inviteFailures: InviteFailure[];
+  joinRequests: JoinRequest[];
+  notifications: AppNotification[];
+  tasks: StoredTask[];
+  dependencies: TaskDependency[];
+  timeEntries: TimeEntry[];
+  comments: TaskComment[];
+  taskEvents: TaskEvent[];
+  attachments: Attachment[];
+  savedViews: SavedView[];
+  preferences: UserPreference[];
+  messages: Message[];
+}
+
+type TableName = keyof LocalDatabase;
+
+const emptyDatabase = (): LocalDatabase => ({
+  users: [],
+  projects: [],
+  members: [],
+  invites: [],
+  inviteFailures: [],
+  joinRequests: [],
+  notifications: [],
+  tasks: [],
+  dependencies: [],
+  timeEntries: [],
+  comments: [],
+  taskEvents: [],
+  attachments: [],
+  savedViews: [],
+  preferences: [],
+  messages: [],
+});
+
+const hashPassword = async (password: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(password));
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+const toSupabaseUser = (user: LocalUser): User => ({
+  id: user.id,
+  email: user.email,
+  aud: 'authenticated',
+  role: 'authenticated',
+  app_metadata: { provider: 'local' },
+  user_metadata: { full_name: user.name },
+  created_at: user.createdAt,
+});
+
+const toSession = (user: LocalUser): Session => ({
+  access_token: `local-${user.id}`,
+  refresh_token: `local-${user.id}`,
+  token_type: 'bearer',
+  expires_in: 60 * 60 * 24 * 365,
+  user: toSupabaseUser(user),
+});
+
+/**
+ * Thin wrapper around localStorage holding every table in a single JSON document.
+ * Writes notify listeners in this tab directly and other tabs through the storage event.
+ */
+class LocalStore {
+  private listeners = new Set<(table: TableName) => void>();
+
+  constructor(private storage: Storage) {
+    window.addEventListener('storage', (event) => {
+      if (event.key !== STORAGE_KEY) return;
+      (Object.keys(emptyDatabase()) as TableName[]).forEach(table => this.emit(table));
+    });
+  }
+
+  private load(): LocalDatabase {
+    try {
+      const raw = this.storage.getItem(STORAGE_KEY);
+      return raw ? { ...emptyDatabase(), ...JSON.parse(raw) } : emptyDatabase();
+    } catch (error) {
+      console.error('Error reading local database:', error);
+      return emptyDatabase();
+    }
+  }
+
+  read<T extends TableName>(table: T): LocalDatabase[T] {
+    return this.load()[table];
+  }
+
+  write<T extends TableName>(table: T, rows: LocalDatabase[T]) {
+    const database = this.load();
+    database[table] = rows;
+    this.storage.setItem(STORAGE_KEY, JSON.stringify(database));
+    this.emit(table);
+  }
+
+  subscribe(listener: (table: TableName) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private emit(table: TableName) {
+    this.listeners.forEach(listener => listener(table));
+  }
+}
+
+/**
+ * Keeps attachment contents in IndexedDB, which unlike localStorage copes with large
+ * binary files. The database is opened on first use.
+ */
+class IndexedDbFileStorage implements FileStorage {
+  private database: Promise<IDBDatabase> | null = null;
+
+  constructor(private name = 'taskflow:files') {}
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      this.database = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.name, 1);
+        request.onupgradeneeded = () => request.result.createObjectStore('files');
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.database;
+  }
+
+  private async run<T>(mode: IDBTransactionMode, action: (files: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const database = await this.open();
+    return new Promise((resolve, reject) => {
+      const request = action(database.transaction('files', mode).objectStore('files'));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async upload(path: string, file: File): Promise<void> {
+    await this.run('readwrite', files => files.put(file, path));
+  }
+
+  async download(path: string): Promise<Blob> {
+    const file = await this.run<Blob | undefined>('readonly', files => files.get(path));
+    if (!file) throw new Error('File not found');
+    return file;
+  }
+
+  async remove(paths: string[]): Promise<void> {
+    await Promise.all(paths.map(path => this.run('readwrite', files => files.delete(path))));
+  }
+}
+
+// Moves legacy teamMembers entries (user IDs or emails) into the members table
+const migrateTeamMembers = (store: LocalStore) => {
+  const projects = store.read('projects');
+  if (!projects.some(project => project.teamMembers)) return;
+
+  const users = store.read('users');
+  const members = store.read('members');
+  const hasMember = (projectId: string, userId: string) =>
+    members.some(member => member.projectId === projectId && member.userId === userId);
+
+  for (const project of projects) {
+    if (!hasMember(project.id, project.ownerId)) {
+      members.push({ projectId: project.id, userId: project.ownerId, role: 'owner', joinedAt: project.createdAt });
+    }
+
+    for (const identifier of project.teamMembers || []) {
+      const user = users.find(u => u.id === identifier || u.email === identifier.toLowerCase());
+      if (!user || hasMember(project.id, user.id)) continue;
+      members.push({ projectId: project.id, userId: user.id, role: 'member', joinedAt: project.createdAt });
+    }
+  }
+
+  store.write('members', members);
+  store.write('projects', projects.map(({ teamMembers: _legacy, ...project }) => project));
+};
+
+// Turns legacy permanent access codes into invites that keep working for a while
+const migrateAccessCodes = (store: LocalStore) => {
+  const projects = store.read('projects');
+  if (!projects.some(project => project.accessCode)) return;
+
+  const invites = store.read('invites');
+  for (const project of projects) {
+    if (!project.accessCode || invites.some(invite => invite.token === project.accessCode)) continue;
+    invites.push({
+      id: crypto.randomUUID(),
+      projectId: project.id,
+      token: project.accessCode,
+      role: 'member',
+      expiresAt: expiryFromDays(MIGRATED_CODE_EXPIRY_DAYS),
+      maxUses: MIGRATED_CODE_MAX_USES,
+      useCount: 0,
+      createdBy: project.ownerId,
+      createdAt: project.createdAt,
+      revokedAt: null,
+    });
+  }
+
+  store.write('invites', invites);
+  store.write('projects', projects.map(({ accessCode: _legacy, ...project }) => project));
+};
+
+// Gives tasks saved before cards had an order a rank, newest first like the old boards
+const migrateTaskRanks = (store: LocalStore) => {
+  const tasks = store.read('tasks');
+  if (!tasks.some(task => task.rank === undefined)) return;
+
+  const byNewest = [...tasks].sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  store.write('tasks', tasks.map(task => task.rank === undefined
+    ? { ...task, rank: byNewest.filter(t => t.projectId === task.projectId).indexOf(task) }
+    : task));
+};
+
+// Tasks saved before priorities were stored showed as Medium
+const migrateTaskPriorities = (store: LocalStore) => {
+  const tasks = store.read('tasks');
+  if (!tasks.some(task => task.priority === undefined)) return;
+
+  store.write('tasks', tasks.map(task => task.priority === undefined ? { ...task, priority: 'Medium' as const } : task));
+};
+
+// Tasks saved before subtasks and checklists existed are top-level with an empty checklist
+const migrateTaskChecklists = (store: LocalStore) => {
+  const tasks = store.read('tasks');
+  if (!tasks.some(task => task.checklist === undefined)) return;
+
+  store.write('tasks', tasks.map(task => task.checklist === undefined
+    ? { ...task, parentId: task.parentId ?? null, checklist: [] }
+    : task));
+};
+
+// Tasks saved before start dates existed have none
+const migrateTaskStartDates = (store: LocalStore) => {
+  const tasks = store.read('tasks');
+  if (!tasks.some(task => task.startDate === undefined)) return;
+
+  store.write('tasks', tasks.map(task => task.startDate === undefined ? { ...task, startDate: null } : task));
+};
+
+// Tasks saved before recurring tasks existed don't repeat
+const migrateTaskRecurrence = (store: LocalStore) => {
+  const tasks = store.read('tasks');
+  if (!tasks.some(task => task.recurrence === undefined)) return;
+
+  store.write('tasks', tasks.map(task => task.recurrence === undefined ? { ...task, recurrence: null } : task));
+};
+
+// Nobody knows who created tasks saved before creators were recorded
+const migrateTaskCreators = (store: LocalStore) => {
+  const tasks = store.read('tasks');
+  if (!tasks.some(task => task.createdBy === undefined)) return;
+
+  store.write('tasks', tasks.map(task => task.createdBy === undefined ? { ...task, createdBy: null } : task));
+};
+
+// Tasks saved before estimates existed have none, and no record of when they were completed
+const migrateTaskEstimates = (store: LocalStore) => {
+  const tasks = store.read('tasks');
+  if (!tasks.some(task => task.estimate === undefined)) return;
+
+  store.write('tasks', tasks.map(task => task.estimate === undefined
+    ? { ...task, estimate: null, completedAt: null }
+    : task));
+};
+
+// Storage errors are only logged, as the records are gone either way
+const removeAttachments = (store: LocalStore, files: FileStorage, matches: (attachment: Attachment) => boolean) => {
+  const attachments = store.read('attachments');
+  const removed = attachments.filter(matches);
+  if (removed.length === 0) return;
+
+  store.write('attachments', attachments.filter(attachment => !matches(attachment)));
+  files.remove(removed.map(attachment => attachment.path)).catch(error => {
+    console.error('Error removing attachment files:', error);
+  });
+};
+
+/**
+ * Works out each project's progress from its tasks, unless it is set by hand. With
+ * `complete`, projects that complete themselves move to Completed once every task is done.
+ */
+const syncProjectProgress = (store: LocalStore, projectIds: string[], complete = true) => {
+  const tasks = store.read('tasks');
+  let changed = false;
+  const projects = store.read('projects').map(stored => {
+    if (!projectIds.includes(stored.id)) return stored;
+    const project = { ...stored, statuses: getProjectStatuses(stored), progressMode: stored.progressMode ?? 'count' };
+    const projectTasks = tasks.filter(task => task.projectId === stored.id);
+    const progress = getProjectProgress(project, projectTasks);
+    const status = complete && stored.autoComplete && areAllTasksDone(project, projectTasks) ? 'Completed' : stored.status;
+    if (progress === stored.progress && status === stored.status) return stored;
+    changed = true;
+    return { ...stored, progress, status };
+  });
+  if (changed) store.write('projects', projects);
+};
+
+// Progress used to be set by hand; bring projects saved before that in line with their tasks
+const migrateProjectProgress = (store: LocalStore) => {
+  syncProjectProgress(store, store.read('projects').map(project => project.id), false);
+};
+
+const MANAGER_ROLES: ProjectRole[] = ['owner', 'admin'];
+
+// Links, logged time, comments, history and attachments go with their tasks
+const removeTaskRecords = (store: LocalStore, files: FileStorage, taskIds: string[]) => {
+  store.write('dependencies', store.read('dependencies').filter(link =>
+    !taskIds.includes(link.taskId) && !taskIds.includes(link.blockedById)
+  ));
+  store.write('timeEntries', store.read('timeEntries').filter(entry => !taskIds.includes(entry.taskId)));
+  store.write('comments', store.read('comments').filter(comment => !taskIds.includes(comment.taskId)));
+  store.write('taskEvents', store.read('taskEvents').filter(event => !taskIds.includes(event.taskId)));
+  removeAttachments(store, files, attachment => taskIds.includes(attachment.taskId));
+};
+
+const getManagerIds = (store: LocalStore, projectId: string): string[] =>
+  store
+    .read('members')
+    .filter(member => member.projectId === projectId && MANAGER_ROLES.includes(member.role))
+    .map(member => member.userId);
+
+const getUserName = (store: LocalStore, userId: string): string =>
+  store.read('users').find(user => user.id === userId)?.name || 'Someone';
+
+const notify = (
+  store: LocalStore,
+  userIds: string[],
+  notification: { type: NotificationType; title: string; body: string; link: string | null }
+) => {
+  if (userIds.length === 0) return;
+
+  const createdAt = new Date().toISOString();
+  store.write('notifications', [
+    ...store.read('notifications'),
+    ...userIds.map(userId => ({ ...notification, id: crypto.randomUUID(), userId, read: false, createdAt })),
+  ]);
+};
+
+class LocalAuthRepository implements AuthRepository {
+  private listeners = new Set<(session: Session | null) => void>();
+
+  constructor(private store: LocalStore, private storage: Storage) {}
+
+  private currentUser(): LocalUser | null {
+    const userId = this.storage.getItem(SESSION_KEY);
+    if (!userId) return null;
+    return this.store.read('users').find(user => user.id === userId) || null;
+  }
+
+  private setCurrentUser(user: LocalUser | null) {
+    if (user) {
+      this.storage.setItem(SESSION_KEY, user.id);
+    } else {
+      this.storage.removeItem(SESSION_KEY);
+    }
+    const session = user ? toSession(user) : null;
+    this.listeners.forEach(listener => listener(session));
+  }
+
+  async getSession(): Promise<Session | null> {
+    const user = this.currentUser();
+    return user ? toSession(user) : null;
+  }
+
+  onAuthStateChange(callback: (session: Session | null) => void): () => void {
+    this.listeners.add(callback);
+    return () => {
+      this.listeners.delete(callback);
+    };
+  }
+
+  async signIn(email: string, password: string): Promise<Session> {
+    const passwordHash = await hashPassword(password);
+    const user = this.store
+      .read('users')
+      .find(u => u.email.toLowerCase() === email.trim().toLowerCase() && u.passwordHash === passwordHash);
+
+    if (!user) {
+      throw new Error('Invalid login credentials');
+    }
+
+    this.setCurrentUser(user);
+    return toSession(user);
+  }
+
+  async signInWithGoogle(): Promise<void> {
+    throw new Error('Google sign-in is not available with the local data backend');
+  }
+
+  async signUp({ email, password, fullName }: SignUpInput): Promise<void> {
+    const users = this.store.read('users');
+    const normalizedEmail = email.trim().toLowerCase();
+
+    if (users.some(user => user.email.toLowerCase() === normalizedEmail)) {
+      throw new Error('User already registered');
+    }
+
+    const user: LocalUser = {
+      id: crypto.randomUUID(),
+      email: normalizedEmail,
+      name: fullName || normalizedEmail.split('@')[0],
+      passwordHash: await hashPassword(password),
+      createdAt: new Date().toISOString(),
+    };
+
+    this.store.write('users', [...users, user]);
+  }
+
+  async resetPassword(): Promise<void> {
+    throw new Error('Password reset emails are not available with the local data backend');
+  }
+
+  async updateProfile(changes: { fullName?: string; password?: string }): Promise<void> {
+    const current = this.currentUser();
+    if (!current) throw new Error('Not signed in');
+
+    const updated: LocalUser = {
+      ...current,
+      ...(changes.fullName !== undefined && { name: changes.fullName }),
+      ...(changes.password !== undefined && { passwordHash: await hashPassword(changes.password) }),
+    };
+
+    this.store.write('users', this.store.read('users').map(user => user.id === updated.id ? updated : user));
+    this.setCurrentUser(updated);
+  }
+
+  async signOut(): Promise<void> {
+    this.setCurrentUser(null);
+  }
+}
+
+class LocalProjectRepository implements ProjectRepository {
+  constructor(private store: LocalStore, private files: FileStorage) {}
+
+  private withMembers(project: StoredProject): Project {
+    return {
+      ...project,
+      requireApproval: project.requireApproval ?? false,
+      statuses: getProjectStatuses(project),
+      estimateUnit: project.estimateUnit ?? 'points',
+      progressMode: project.progressMode ?? 'count',
+      autoComplete: project.autoComplete ?? false,
+      members: this.store.read('members').filter(member => member.projectId === project.id),
+    };
+  }
+
+  async listForUser(user: User): Promise<Project[]> {
+    const projectIds = new Set(
+      this.store
+        .read('members')
+        .filter(member => member.userId === user.id)
+        .map(member => member.projectId)
+    );
+
+    return this.store
+      .read('projects')
+      .filter(project => projectIds.has(project.id))
+      .map(project => this.withMembers(project))
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  }
+
+  async get(id: string): Promise<Project | null> {
+    const project = this.store.read('projects').find(p => p.id === id);
+    return project ? this.withMembers(project) : null;
+  }
+
+  async create(project: NewProject): Promise<Project> {
+    const created: StoredProject = {
+      ...project,
+      id: crypto.randomUUID(),
+      createdAt: new Date().toISOString(),
+    };
+    this.store.write('projects', [...this.store.read('projects'), created]);
+    this.store.write('members', [
+      ...this.store.read('members'),
+      { projectId: created.id, userId: created.ownerId, role: 'owner', joinedAt: created.createdAt },
+    ]);
+    return this.withMembers(created);
+  }
+
+  async update(id: string, changes: ProjectChanges): Promise<void> {
+    const projects = this.store.read('projects');
+    const before = projects.find(project => project.id === id);
+    this.store.write('projects', projects.map(project => project.id === id ? { ...project, ...changes } : project));
+    // Turning on auto-completion completes a project whose tasks are already done
+    syncProjectProgress(this.store, [id], Boolean(changes.autoComplete && !before?.autoComplete));
+  }
+
+  async remove(id: string): Promise<void> {
+    this.store.write('projects', this.store.read('projects').filter(project => project.id !== id));
+    this.store.write('members', this.store.read('members').filter(member => member.projectId !== id));
+    this.store.write('invites', this.store.read('invites').filter(invite => invite.projectId !== id));
+    this.store.write('joinRequests', this.store.read('joinRequests').filter(request => request.projectId !== id));
+    const taskIds = this.store.read('tasks').filter(task => task.projectId === id).map(task => task.id);
+    this.store.write('tasks', this.store.read('tasks').filter(task => task.projectId !== id));
+    removeTaskRecords(this.store, this.files, taskIds);
+    removeAttachments(this.store, this.files, attachment => attachment.projectId === id);
+  }
+
+  subscribe(onChange: () => void): () => void {
+    return this.store.subscribe((table) => {
+      if (table === 'projects') onChange();
+    });
+  }
+}
+
+class LocalMemberRepository implements MemberRepository {
+  constructor(private store: LocalStore) {}
+
+  async add(projectId: string, userId: string, role: ProjectRole): Promise<ProjectMember> {
+    const members = this.store.read('members');
+    if (members.some(member => member.projectId === projectId && member.userId === userId)) {
+      throw new Error('User is already a member of this project');
+    }
+
+    const created: ProjectMember = { projectId, userId, role, joinedAt: new Date().toISOString() };
+    this.store.write('members', [...members, created]);
+    return created;
+  }
+
+  async updateRole(projectId: string, userId: string, role: ProjectRole): Promise<void> {
+    this.store.write(
+      'members',
+      this.store
+        .read('members')
+        .map(member => member.projectId === projectId && member.userId === userId ? { ...member, role } : member)
+    );
+  }
+
+  async remove(projectId: string, userId: string): Promise<void> {
+    this.store.write(
+      'members',
+      this.store.read('members').filter(member => !(member.projectId === projectId && member.userId === userId))
+    );
+  }
+}
+
+class LocalInviteRepository implements InviteRepository {
+  constructor(private store: LocalStore, private members: MemberRepository) {}
+
+  async listByProject(projectId: string): Promise<ProjectInvite[]> {
+    return this.store
+      .read('invites')
+      .filter(invite => invite.projectId === projectId)
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  }
+
+  async create(invite: NewInvite): Promise<ProjectInvite> {
+    const invites = this.store.read('invites');
+    let token = generateInviteToken();
+    while (invites.some(existing => existing.token === token)) {
+      token = generateInviteToken();
+    }
+
+    const created: ProjectInvite = {
+      ...invite,
+      id: crypto.randomUUID(),
+      token,
+      useCount: 0,
+      createdAt: new Date().toISOString(),
+      revokedAt: null,
+    };
+    this.store.write('invites', [...invites, created]);
+    return created;
+  }
+
+  async revoke(projectId: string, id: string): Promise<void> {
+    this.store.write(
+      'invites',
+      this.store
+        .read('invites')
+        .map(invite => invite.projectId === projectId && invite.id === id
+          ? { ...invite, revokedAt: new Date().toISOString() }
+          : invite)
+    );
+  }
+
+  async preview(token: string, userId: string): Promise<InvitePreview | null> {
+    this.checkAttempts(userId);
+    const invite = this.findByToken(token);
+    const project = invite && this.store.read('projects').find(p => p.id === invite.projectId);
+    if (!invite || !project) {
+      this.recordFailure(userId);
+      return null;
+    }
+
+    return {
+      projectId: project.id,
+      projectName: project.name,
+      role: invite.role,
+      expiresAt: invite.expiresAt,
+      status: getInviteStatus(invite),
+    };
+  }
+
+  async redeem(token: string, userId: string): Promise<JoinResult> {
+    this.checkAttempts(userId);
+    const invite = this.findByToken(token);
+    const project = invite && this.store.read('projects').find(p => p.id === invite.projectId);
+    if (!invite || !project) {
+      this.recordFailure(userId);
+      throw new Error('Invalid invite code');
+    }
+
+    const existing = this.store
+      .read('members')
+      .find(member => member.projectId === project.id && member.userId === userId);
+    if (existing) {
+      return { projectId: project.id, projectName: project.name, role: existing.role, outcome: 'already_member' };
+    }
+
+    const status = getInviteStatus(invite);
+    if (status !== 'active') throw new Error(INVITE_STATUS_MESSAGES[status]);
+
+    this.store.write(
+      'invites',
+      this.store
+        .read('invites')
+        .map(i => i.id === invite.id ? { ...i, useCount: i.useCount + 1 } : i)
+    );
+
+    if (project.requireApproval) {
+      this.requestToJoin(project, userId, invite.role);
+      return { projectId: project.id, projectName: project.name, role: invite.role, outcome: 'requested' };
+    }
+
+    await this.members.add(project.id, userId, invite.role);
+    return { projectId: project.id, projectName: project.name, role: invite.role, outcome: 'joined' };
+  }
+
+  // Re-using an invite while a request is pending doesn't file (or notify about) a second one
+  private requestToJoin(project: StoredProject, userId: string, role: ProjectRole) {
+    const requests = this.store.read('joinRequests');
+    const pending = requests.some(request =>
+      request.projectId === project.id && request.userId === userId && request.status === 'pending'
+    );
+    if (pending) return;
+
+    this.store.write('joinRequests', [
+      ...requests,
+      {
+        id: crypto.randomUUID(),
+        projectId: project.id,
+        userId,
+        role,
+        status: 'pending',
+        createdAt: new Date().toISOString(),
+        decidedAt: null,
+        decidedBy: null,
+      },
+    ]);
+
+    notify(this.store, getManagerIds(this.store, project.id), {
+      type: 'join_requested',
+      title: 'New join request',
+      body: `${getUserName(this.store, userId)} asked to join ${project.name}`,
+      link: `/projects/${project.id}?tab=members`,
+    });
+  }
+
+  private isRecent(failure: InviteFailure): boolean {
+    return Date.now() - new Date(failure.lastFailedAt).getTime() < INVITE_COOLDOWN_MINUTES * 60 * 1000;
+  }
+
+  private checkAttempts(userId: string) {
+    const failure = this.store.read('inviteFailures').find(f => f.userId === userId);
+    if (failure && failure.failedCount >= MAX_FAILED_INVITE_ATTEMPTS && this.isRecent(failure)) {
+      throw new Error(INVITE_COOLDOWN_MESSAGE);
+    }
+  }
+
+  // The count starts over once the last failure is older than the cooldown
+  private recordFailure(userId: string) {
+    const failures = this.store.read('inviteFailures');
+    const previous = failures.find(f => f.userId === userId);
+    const failedCount = previous && this.isRecent(previous) ? previous.failedCount + 1 : 1;
+    this.store.write('inviteFailures', [
+      ...failures.filter(f => f.userId !== userId),
+      { userId, failedCount, lastFailedAt: new Date().toISOString() },
+    ]);
+  }
+
+  private findByToken(token: string): ProjectInvite | undefined {
+    const normalized = normalizeInviteToken(token);
+    return this.store.read('invites').find(invite => invite.token === normalized);
+  }
+}
+
+class LocalJoinRequestRepository implements JoinRequestRepository {
+  constructor(private store: LocalStore, private storage: Storage, private members: MemberRepository) {}
+
+  async listByProject(projectId: string, status?: JoinRequestStatus): Promise<JoinRequest[]> {
+    return this.store
+      .read('joinRequests')
+      .filter(request => request.projectId === projectId && (!status || request.status === status))
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  }
+
+  async approve(projectId: string, id: string): Promise<void> {
+    await this.decide(projectId, id, true);
+  }
+
+  async reject(projectId: string, id: string): Promise<void> {
+    await this.decide(projectId, id, false);
+  }
+
+  private async decide(projectId: string, id: string, approve: boolean) {
+    const request = this.store
+      .read('joinRequests')
+      .find(r => r.projectId === projectId && r.id === id);
+    const project = this.store.read('projects').find(p => p.id === projectId);
+    if (!request || !project) throw new Error('Join request not found');
+    if (request.status !== 'pending') throw new Error('This join request has already been handled');
+
+    const deciderId = this.storage.getItem(SESSION_KEY);
+    const alreadyMember = this.store
+      .read('members')
+      .some(member => member.projectId === projectId && member.userId === request.userId);
+    if (approve && !alreadyMember) {
+      await this.members.add(projectId, request.userId, request.role);
+    }
+
+    const status: JoinRequestStatus = approve ? 'approved' : 'rejected';
+    this.store.write(
+      'joinRequests',
+      this.store
+        .read('joinRequests')
+        .map(r => r.id === id ? { ...r, status, decidedAt: new Date().toISOString(), decidedBy: deciderId } : r)
+    );
+
+    notify(this.store, [request.userId], approve
+      ? {
+        type: 'join_approved',
+        title: 'Join request approved',
+        body: `You're now a member of ${project.name}`,
+        link: `/projects/${projectId}`,
+      }
+      : {
+        type: 'join_rejected',
+        title: 'Join request declined',
+        body: `Your request to join ${project.name} was declined`,
+        link: null,
+      });
+
+    const requesterName = getUserName(this.store, request.userId);
+    const deciderName = deciderId ? getUserName(this.store, deciderId) : 'Someone';
+    notify(this.store, getManagerIds(this.store, projectId).filter(userId => userId !== deciderId), {
+      type: approve ? 'join_approved' : 'join_rejected',
+      title: approve ? 'Join request approved' : 'Join request declined',
+      body: `${deciderName} ${approve ? 'approved' : 'declined'} ${requesterName}'s request to join ${project.name}`,
+      link: `/projects/${projectId}?tab=members`,
+    });
+  }
+}
+
+class LocalNotificationRepository implements NotificationRepository {
+  constructor(private store: LocalStore) {}
+
+  async listForUser(userId: string): Promise<AppNotification[]> {
+    return this.store
+      .read('notifications')
+      .filter(notification => notification.userId === userId)
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+      .slice(0, 50);
+  }
+
+  async markRead(userId: string, id: string): Promise<void> {
+    this.store.write(
+      'notifications',
+      this.store
+        .read('notifications')
+        .map(n => n.userId === userId && n.id === id ? { ...n, read: true } : n)
+    );
+  }
+
+  async markAllRead(userId: string): Promise<void> {
+    this.store.write(
+      'notifications',
+      this.store.read('notifications').map(n => n.userId === userId ? { ...n, read: true } : n)
+    );
+  }
+
+  subscribe(_userId: string, onChange: () => void): () => void {
+    return this.store.subscribe((table) => {
+      if (table === 'notifications') onChange();
+    });
+  }
+}
+
+class LocalSavedViewRepository implements SavedViewRepository {
+  constructor(private store: LocalStore) {}
+
+  async listForUser(userId: string): Promise<SavedView[]> {
+    return this.store
+      .read('savedViews')
+      .filter(view => view.userId === userId)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async create(view: NewSavedView): Promise<SavedView> {
+    const created: SavedView = {
+      ...view,
+      id: crypto.randomUUID(),
+      createdAt: new Date().toISOString(),
+    };
+    this.store.write('savedViews', [...this.store.read('savedViews'), created]);
+    return created;
+  }
+
+  async remove(userId: string, id: string): Promise<void> {
+    this.store.write(
+      'savedViews',
+      this.store.read('savedViews').filter(view => !(view.userId === userId && view.id === id))
+    );
+  }
+
+  subscribe(_userId: string, onChange: () => void): () => void {
+    return this.store.subscribe((table) => {
+      if (table === 'savedViews') onChange();
+    });
+  }
+}
+
+class LocalPreferenceRepository implements PreferenceRepository {
+  constructor(private store: LocalStore) {}
+
+  async get<T>(userId: string, key: string): Promise<T | null> {
+    const preference = this.store
+      .read('preferences')
+      .find(preference => preference.userId === userId && preference.key === key);
+    return preference ? preference.value as T : null;
+  }
+
+  async set<T>(userId: string, key: string, value: T): Promise<void> {
+    this.store.write('preferences', [
+      ...this.store.read('preferences').filter(preference => !(preference.userId === userId && preference.key === key)),
+      { userId, key, value, updatedAt: new Date().toISOString() },
+    ]);
+  }
+}
+
+class LocalTaskRepository implements TaskRepository {
+  constructor(private store: LocalStore, private storage: Storage, private files: FileStorage) {}
+
+  private withProjectNames(tasks: StoredTask[]): Task[] {
+    const projects = this.store.read('projects');
+    return tasks
+      .map(task => ({
+        ...task,
+        projectName: projects.find(project => project.id === task.projectId)?.name || 'Unknown Project',
+      }))
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  }
+
+  async get(id: string): Promise<Task | null> {
+    const task = this.store.read('tasks').find(t => t.id === id);
+    return task ? this.withProjectNames([task])[0] : null;
+  }
+
+  async listByIds(ids: string[]): Promise<Task[]> {
+    return this.withProjectNames(this.store.read('tasks').filter(task => ids.includes(task.id)));
+  }
+
+  async listByProject(projectId: string): Promise<Task[]> {
+    return this.listByProjects([projectId]);
+  }
+
+  async listByProjects(projectIds: string[]): Promise<Task[]> {
+    return this.withProjectNames(
+      this.store.read('tasks').filter(task => projectIds.includes(task.projectId))
+    );
+  }
+
+  async listByAssignee(userId: string): Promise<Task[]> {
+    return this.withProjectNames(
+      this.store.read('tasks').filter(task => task.assignedTo === userId)
+    );
+  }
+
+  async listSubtasks(parentIds: string[]): Promise<Task[]> {
+    return this.withProjectNames(
+      this.store.read('tasks').filter(task => task.parentId !== null && parentIds.includes(task.parentId))
+    );
+  }
+
+  async listHistory(taskId: string): Promise<TaskEvent[]> {
+    return this.store
+      .read('taskEvents')
+      .filter(event => event.taskId === taskId)
+      .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+  }
+
+  // Credited to whoever is signed in
+  private record(events: Pick<TaskEvent, 'taskId' | 'field' | 'from' | 'to'>[]) {
+    if (events.length === 0) return;
+    const userId = this.storage.getItem(SESSION_KEY);
+    const createdAt = new Date().toISOString();
+    this.store.write('taskEvents', [
+      ...this.store.read('taskEvents'),
+      ...events.map(event => ({ ...event, id: crypto.randomUUID(), userId, createdAt })),
+    ]);
+  }
+
+  private recordCreated(task: StoredTask) {
+    this.record([{ taskId: task.id, field: null, from: null, to: null }]);
+  }
+
+  // One event for each history field that changed
+  private recordChanges(before: StoredTask, after: StoredTask) {
+    const projects = this.store.read('projects');
+    const projectOf = (task: StoredTask) => projects.find(project => project.id === task.projectId);
+    const valueOf = (task: StoredTask, field: TaskHistoryField): string | null => {
+      if (field === 'description') return null;
+      if (field === 'status') return findStatus(getProjectStatuses(projectOf(task)), task.status).name;
+      if (field === 'projectId') return projectOf(task)?.name ?? null;
+      const value = task[field];
+      return value === null || value === undefined ? null : String(value);
+    };
+
+    this.record(
+      HISTORY_FIELDS
+        .filter(field => before[field] !== after[field])
+        .map(field => ({ taskId: after.id, field, from: valueOf(before, field), to: valueOf(after, field) }))
+    );
+  }
+
+  // Subtasks stay in their parent's project, so a task that has some can't move to another one
+  private checkParent(tasks: StoredTask[], parentId: string | null | undefined, projectId: string, id?: string) {
+    if (id && tasks.some(task => task.parentId === id && task.projectId !== projectId)) {
+      throw new Error('Tasks with subtasks cannot be moved to another project');
+    }
+    if (!parentId) return;
+    const parent = tasks.find(task => task.id === parentId);
+    if (!parent || parent.projectId !== projectId || parent.id === id) {
+      throw new Error('Subtasks must belong to the same project as their parent');
+    }
+  }
+
+  // Once every subtask of a parent is done, move the parent to its first done status
+  private completeParent(parentId: string | null) {
+    if (!parentId) return;
+    const tasks = this.store.read('tasks');
+    const parent = tasks.find(task => task.id === parentId);
+    if (!parent) return;
+
+    const projects = this.store.read('projects');
+    const statusesOf = (task: StoredTask) =>
+      getProjectStatuses(projects.find(project => project.id === task.projectId));
+    const subtasks = tasks.filter(task => task.parentId === parentId);
+    const parentStatuses = statusesOf(parent);
+    if (
+      isDoneStatus(parentStatuses, parent.status) ||
+      !subtasks.every(task => isDoneStatus(statusesOf(task), task.status))
+    ) return;
+
+    const completed = { ...parent, status: getDoneStatusId(parentStatuses), completedAt: new Date().toISOString() };
+    this.store.write('tasks', tasks.map(task => task.id === parentId ? completed : task));
+    this.recordChanges(parent, completed);
+    this.repeat(parent, completed);
+  }
+
+  // Completing a recurring task hands its schedule to a new task due on the next date
+  private repeat(before: StoredTask, task: StoredTask) {
+    if (!task.recurrence) return;
+    const statuses = getProjectStatuses(this.store.read('projects').find(project => project.id === task.projectId));
+    if (isDoneStatus(statuses, before.status) || !isDoneStatus(statuses, task.status)) return;
+
+    const next = getNextOccurrence(task, statuses);
+    const tasks = this.store.read('tasks').map(t => t.id === task.id ? { ...t, recurrence: null } : t);
+    if (!next) {
+      this.store.write('tasks', tasks);
+      return;
+    }
+    const created = this.build(next, tasks);
+    this.store.write('tasks', [...tasks, created]);
+    this.recordCreated(created);
+  }
+
+  // Stamps completedAt when a task moves into a done status, and clears it when it moves out
+  private withCompletion(task: StoredTask): StoredTask {
+    const project = this.store.read('projects').find(p => p.id === task.projectId);
+    const done = isDoneStatus(getProjectStatuses(project), task.status);
+    if (done === Boolean(task.completedAt)) return task;
+    return { ...task, completedAt: done ? new Date().toISOString() : null };
+  }
+
+  // Fills in the defaults a NewTask may leave out
+  private build(task: NewTask, tasks: StoredTask[]): StoredTask {
+    return this.withCompletion({
+      ...task,
+      priority: task.priority ?? 'Medium',
+      startDate: task.startDate ?? null,
+      parentId: task.parentId ?? null,
+      checklist: task.checklist ?? [],
+      recurrence: task.recurrence ?? null,
+      estimate: task.estimate ?? null,
+      createdBy: task.createdBy ?? null,
+      completedAt: null,
+      rank: task.rank ?? topRank(tasks.filter(t => t.projectId === task.projectId)),
+      id: crypto.randomUUID(),
+      createdAt: new Date().toISOString(),
+    });
+  }
+
+  async create(task: NewTask): Promise<Task> {
+    const tasks = this.store.read('tasks');
+    this.checkParent(tasks, task.parentId, task.projectId);
+    const created = this.build(task, tasks);
+    this.store.write('tasks', [...tasks, created]);
+    this.recordCreated(created);
+    this.completeParent(created.parentId);
+    syncProjectProgress(this.store, [created.projectId]);
+    return this.withProjectNames([created])[0];
+  }
+
+  async update(id: string, changes: TaskChanges): Promise<void> {
+    const tasks = this.store.read('tasks');
+    const task = tasks.find(t => t.id === id);
+    if (!task) return;
+
+    const updated = this.withCompletion({ ...task, ...changes });
+    if (changes.parentId !== undefined || changes.projectId !== undefined) {
+      this.checkParent(tasks, updated.parentId, updated.projectId, id);
+    }
+    this.store.write('tasks', tasks.map(t => t.id === id ? updated : t));
+    this.recordChanges(task, updated);
+    // Attachments follow the task to its new project
+    if (updated.projectId !== task.projectId) {
+      this.store.write('attachments', this.store.read('attachments').map(attachment =>
+        attachment.taskId === id ? { ...attachment, projectId: updated.projectId } : attachment
+      ));
+    }
+    if (changes.status !== undefined) {
+      this.repeat(task, updated);
+      this.completeParent(updated.parentId);
+    }
+    syncProjectProgress(this.store, [task.projectId, updated.projectId]);
+  }
+
+  async remove(id: string): Promise<void> {
+    // Subtasks go with their parent
+    const tasks = this.store.read('tasks');
+    const removed = new Set([id]);
+    let size = 0;
+    while (removed.size !== size) {
+      size = removed.size;
+      tasks.forEach(task => {
+        if (task.parentId && removed.has(task.parentId)) removed.add(task.id);
+      });
+    }
+    this.store.write('tasks', tasks.filter(task => !removed.has(task.id)));
+    removeTaskRecords(this.store, this.files, [...removed]);
+    const projectId = tasks.find(task => task.id === id)?.projectId;
+    if (projectId) syncProjectProgress(this.store, [projectId]);
+  }
+}
+
+class LocalDependencyRepository implements DependencyRepository {
+  constructor(private store: LocalStore) {}
+
+  async listForTasks(taskIds: string[]): Promise<TaskDependency[]> {
+    return this.store
+      .read('dependencies')
+      .filter(link => taskIds.includes(link.taskId) || taskIds.includes(link.blockedById));
+  }
+
+  async add(taskId: string, blockedById: string): Promise<void> {
+    const links = this.store.read('dependencies');
+    if (links.some(link => link.taskId === taskId && link.blockedById === blockedById)) return;
+    if (createsCycle(links, taskId, blockedById)) throw new Error(DEPENDENCY_CYCLE_MESSAGE);
+
+    this.store.write('dependencies', [...links, { taskId, blockedById, createdAt: new Date().toISOString() }]);
+  }
+
+  async remove(taskId: string, blockedById: string): Promise<void> {
+    this.store.write(
+      'dependencies',
+      this.store.read('dependencies').filter(link => !(link.taskId === taskId && link.blockedById === blockedById))
+    );
+  }
+}
+
+class LocalCommentRepository implements CommentRepository {
+  constructor(private store: LocalStore) {}
+
+  // Only members of the task's project hear about mentions, and never the author
+  private notifyMentioned(comment: TaskComment, userIds: string[]) {
+    const task = this.store.read('tasks').find(t => t.id === comment.taskId);
+    if (!task) return;
+    const memberIds = this.store
+      .read('members')
+      .filter(member => member.projectId === task.projectId)
+      .map(member => member.userId);
+
+    notify(this.store, userIds.filter(userId => userId !== comment.authorId && memberIds.includes(userId)), {
+      type: 'mentioned',
+      title: `${getUserName(this.store, comment.authorId)} mentioned you`,
+      body: `On ${task.title}: ${toPlainText(comment.body).slice(0, 140)}`,
+      link: `/projects/${task.projectId}?task=${task.id}`,
+    });
+  }
+
+  async get(id: string): Promise<TaskComment | null> {
+    return this.store.read('comments').find(comment => comment.id === id) || null;
+  }
+
+  async listByTask(taskId: string): Promise<TaskComment[]> {
+    return this.store
+      .read('comments')
+      .filter(comment => comment.taskId === taskId)
+      .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+  }
+
+  async countByTasks(taskIds: string[]): Promise<Record<string, number>> {
+    return this.store.read('comments').reduce<Record<string, number>>((counts, comment) => {
+      if (taskIds.includes(comment.taskId)) counts[comment.taskId] = (counts[comment.taskId] || 0) + 1;
+      return counts;
+    }, {});
+  }
+
+  async create(comment: NewComment): Promise<TaskComment> {
+    if (!this.store.read('tasks').some(task => task.id === comment.taskId)) throw new Error('Task not found');
+
+    const created: TaskComment = {
+      ...comment,
+      id: crypto.randomUUID(),
+      createdAt: new Date().toISOString(),
+      editedAt: null,
+    };
+    this.store.write('comments', [...this.store.read('comments'), created]);
+    this.notifyMentioned(created, getMentionedUserIds(created.body));
+    return created;
+  }
+
+  async update(id: string, body: string): Promise<void> {
+    const comment = await this.get(id);
+    if (!comment) return;
+
+    const updated = { ...comment, body, editedAt: new Date().toISOString() };
+    this.store.write('comments', this.store.read('comments').map(c => c.id === id ? updated : c));
+    this.notifyMentioned(updated, getNewMentions(comment.body, body));
+  }
+
+  async remove(id: string): Promise<void> {
+    this.store.write('comments', this.store.read('comments').filter(comment => comment.id !== id));
+  }
+}
+
+class LocalAttachmentRepository implements AttachmentRepository {
+  constructor(private store: LocalStore, private files: FileStorage) {}
+
+  private newestFirst(attachments: Attachment[]): Attachment[] {
+    return attachments.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  }
+
+  async get(id: string): Promise<Attachment | null> {
+    return this.store.read('attachments').find(attachment => attachment.id === id) || null;
+  }
+
+  async listByProject(projectId: string): Promise<Attachment[]> {
+    return this.newestFirst(this.store.read('attachments').filter(attachment =>
+      attachment.projectId === projectId && attachment.taskId === null
+    ));
+  }
+
+  async listByTask(taskId: string): Promise<Attachment[]> {
+    return this.newestFirst(this.store.read('attachments').filter(attachment => attachment.taskId === taskId));
+  }
+
+  async upload({ file, ...attachment }: NewAttachment): Promise<Attachment> {
+    const path = getAttachmentPath(attachment.projectId, file.name);
+    await this.files.upload(path, file);
+
+    const created: Attachment = {
+      ...attachment,
+      id: crypto.randomUUID(),
+      name: file.name,
+      size: file.size,
+      contentType: file.type || 'application/octet-stream',
+      path,
+      createdAt: new Date().toISOString(),
+    };
+    this.store.write('attachments', [...this.store.read('attachments'), created]);
+    return created;
+  }
+
+  download(attachment: Attachment): Promise<Blob> {
+    return this.files.download(attachment.path);
+  }
+
+  async remove(id: string): Promise<void> {
+    const attachment = await this.get(id);
+    if (!attachment) return;
+
+    this.store.write('attachments', this.store.read('attachments').filter(a => a.id !== id));
+    await this.files.remove([attachment.path]);
+  }
+}
+
+class LocalTimeEntryRepository implements TimeEntryRepository {
+  constructor(private store: LocalStore) {}
+
+  private newestFirst(entries: TimeEntry[]): TimeEntry[] {
+    return entries.sort((a, b) => new Date(b.startedAt).getTime() - new Date(a.startedAt).getTime());
+  }
+
+  async get(id: string): Promise<TimeEntry | null> {
+    return this.store.read('timeEntries').find(entry => entry.id === id) || null;
+  }
+
+  async listByTask(taskId: string): Promise<TimeEntry[]> {
+    return this.newestFirst(this.store.read('timeEntries').filter(entry => entry.taskId === taskId));
+  }
+
+  async listByProject(projectId: string): Promise<TimeEntry[]> {
+    return this.newestFirst(this.store.read('timeEntries').filter(entry => entry.projectId === projectId));
+  }
+
+  async listForUser(userId: string, from: string, to: string): Promise<TimeEntry[]> {
+    const start = new Date(from).getTime();
+    const end = new Date(to).getTime();
+    return this.newestFirst(this.store.read('timeEntries').filter(entry => {
+      const startedAt = new Date(entry.startedAt).getTime();
+      return entry.userId === userId && startedAt >= start && startedAt < end;
+    }));
+  }
+
+  async getRunning(userId: string): Promise<TimeEntry | null> {
+    return this.store.read('timeEntries').find(entry => entry.userId === userId && entry.durationMinutes === null) || null;
+  }
+
+  async create(entry: NewTimeEntry): Promise<TimeEntry> {
+    const task = this.store.read('tasks').find(t => t.id === entry.taskId);
+    if (!task) throw new Error('Task not found');
+
+    if (entry.durationMinutes === null) {
+      const running = await this.getRunning(entry.userId);
+      if (running) await this.stop(running.id);
+    }
+    const created: TimeEntry = {
+      ...entry,
+      id: crypto.randomUUID(),
+      projectId: task.projectId,
+      createdAt: new Date().toISOString(),
+    };
+    this.store.write('timeEntries', [...this.store.read('timeEntries'), created]);
+    return created;
+  }
+
+  async stop(id: string): Promise<void> {
+    this.store.write('timeEntries', this.store.read('timeEntries').map(entry =>
+      entry.id === id && entry.durationMinutes === null
+        ? { ...entry, durationMinutes: getElapsedMinutes(entry.startedAt) }
+        : entry
+    ));
+  }
+
+  async remove(id: string): Promise<void> {
+    this.store.write('timeEntries', this.store.read('timeEntries').filter(entry => entry.id !== id));
+  }
+}
+
+class LocalUserRepository implements UserRepository {
+  constructor(private store: LocalStore) {}
+
+  async resolve(userIds: string[]): Promise<AppUser[]> {
+    const users = this.store.read('users');
+    const unique = [...new Set(userIds.filter(Boolean))];
+
+    return unique
+      .map(userId => users.find(user => user.id === userId))
+      .filter((user): user is LocalUser => Boolean(user))
+      .map(({ id, email, name }) => ({ id, email, name }));
+  }
+
+  async list(): Promise<AppUser[]> {
+    return this.store
+      .read('users')
+      .map(({ id, email, name }) => ({ id, email, name }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+}
+
+class LocalMessageRepository implements MessageRepository {
+  constructor(private store: LocalStore) {}
+
+  async listByRoom(room: string): Promise<Message[]> {
+    return this.store
+      .read('messages')
+      .filter(message => message.room === room)
+      .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+  }
+
+  async listForUser(userId: string): Promise<Message[]> {
+    return this.store
+      .read('messages')
+      .filter(message => message.senderId === userId || message.receiverId === userId)
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  }
+
+  async send(message: NewMessage): Promise<Message> {
+    const created: Message = {
+      ...message,
+      id: crypto.randomUUID(),
+      createdAt: new Date().toISOString(),
+    };
+    this.store.write('messages', [...this.store.read('messages'), created]);
+    return created;
+  }
+
+  subscribe(
+    room: string,
+    onMessage: (message: Message) => void,
+    onStatus?: (connected: boolean) => void
+  ): () => void {
+    const seen = new Set(this.store.read('messages').map(message => message.id));
+
+    const unsubscribe = this.store.subscribe((table) => {
+      if (table !== 'messages') return;
+      this.store.read('messages').forEach(message => {
+        if (seen.has(message.id)) return;
+        seen.add(message.id);
+        if (message.room === room) onMessage(message);
+      });
+    });
+
+    onStatus?.(true);
+    return unsubscribe;
+  }
+}
+
+export class LocalRepository implements DataRepository {
+  auth: AuthRepository;
+  projects: ProjectRepository;
+  members: MemberRepository;
+  invites: InviteRepository;
+  joinRequests: JoinRequestRepository;
+  notifications: NotificationRepository;
+  tasks: TaskRepository;
+  dependencies: DependencyRepository;
+  comments: CommentRepository;
+  attachments: AttachmentRepository;
+  timeEntries: TimeEntryRepository;
+  savedViews: SavedViewRepository;
+  preferences: PreferenceRepository;
+  users: UserRepository;
+  messages: MessageRepository;
+
+  constructor(storage: Storage = window.localStorage) {
+    const store = new LocalStore(storage);
+    migrateTeamMembers(store);
+    migrateAccessCodes(store);
+    migrateTaskRanks(store);
+    migrateTaskPriorities(store);
+    migrateTaskChecklists(store);
+    migrateTaskStartDates(store);
+    migrateTaskRecurrence(store);
+    migrateTaskEstimates(store);
+    migrateTaskCreators(store);
+    migrateProjectProgress(store);
+    const files = new IndexedDbFileStorage();
+    this.auth = new LocalAuthRepository(store, storage);
+    this.projects = new LocalProjectRepository(store, files);
+    this.members = new LocalMemberRepository(store);
+    this.invites = new LocalInviteRepository(store, this.members);
+    this.joinRequests = new LocalJoinRequestRepository(store, storage, this.members);
+    this.notifications = new LocalNotificationRepository(store);
+    this.tasks = new LocalTaskRepository(store, storage, files);
+    this.dependencies = new LocalDependencyRepository(store);
+    this.comments = new LocalCommentRepository(store);
+    this.attachments = new LocalAttachmentRepository(store, files);
+    this.timeEntries = new LocalTimeEntryRepository(store);
+    this.savedViews = new LocalSavedViewRepository(store);
+    this.preferences = new LocalPreferenceRepository(store);
+    this.users = new LocalUserRepository(store);
+    this.messages = new LocalMessageRepository(store);
+  }
+}
@@ -0,0 +1,1341 @@
+import { SupabaseClient, User, Session } from '@supabase/supabase-js';
+import type { Database, Json } from '@/integrations/supabase/types';
+import {
+  AppNotification,
+  AppUser,
+  Attachment,
+  AttachmentRepository,
+  AuthRepository,
+  ChecklistItem,
+  CommentRepository,
+  DataRepository,
+  DependencyRepository,
+  EstimateUnit,
+  FileStorage,
+  InviteRepository,
+  InvitePreview,
+  InviteStatus,
+  JoinOutcome,
+  JoinRequest,
+  JoinRequestRepository,
+  JoinRequestStatus,
+  JoinResult,
+  MemberRepository,
+  Message,
+  MessageRepository,
+  NewInvite,
+  NewAttachment,
+  NewComment,
+  NewMessage,
+  NewProject,
+  NewSavedView,
+  NewTask,
+  NewTimeEntry,
+  NotificationRepository,
+  NotificationType,
+  PreferenceRepository,
+  ProgressMode,
+  Project,
+  ProjectChanges,
+  ProjectInvite,
+  ProjectMember,
+  ProjectRepository,
+  ProjectRole,
+  ProjectStatus,
+  SavedView,
+  SavedViewRepository,
+  SignUpInput,
+  Task,
+  TaskChanges,
+  TaskComment,
+  TaskDependency,
+  TaskEvent,
+  TaskHistoryField,
+  TaskPriority,
+  TaskRecurrence,
+  TaskRepository,
+  TaskStatus,
+  TimeEntry,
+  TimeEntryRepository,
+  UserRepository,
+  WorkflowStatus,
+} from './types';
+import { generateInviteToken, normalizeInviteToken } from '@/services/invites';
+import { getProjectStatuses } from '@/services/workflow';
+import { getElapsedMinutes } from '@/services/timeTracking';
+import { getAttachmentPath } from '@/services/attachments';
+
+type Client = SupabaseClient<Database>;
+type MemberRow = Database['public']['Tables']['project_members']['Row'];
+type ProjectRow = Database['public']['Tables']['projects']['Row'] & {
+  project_members?: Omit<MemberRow, 'project_id'>[];
+};
+type TaskRow = Database['public']['Tables']['tasks']['Row'] & { projects?: { name: string } | null };
+type DependencyRow = Database['public']['Tables']['task_dependencies']['Row'];
+type TimeEntryRow = Database['public']['Tables']['time_entries']['Row'];
+type CommentRow = Database['public']['Tables']['task_comments']['Row'];
+type TaskEventRow = Database['public']['Tables']['task_events']['Row'];
+type AttachmentRow = Database['public']['Tables']['attachments']['Row'];
+type MessageRow = Database['public']['Tables']['messages']['Row'];
+type InviteRow = Database['public']['Tables']['project_invites']['Row'];
+type JoinRequestRow = Database['public']['Tables']['project_join_requests']['Row'];
+type NotificationRow = Database['public']['Tables']['notifications']['Row'];
+type SavedViewRow = Database['public']['Tables']['saved_views']['Row'];
+type UserRow = Pick<Database['public']['Tables']['users']['Row'], 'id' | 'name' | 'email'>;
+
+const PROJECT_COLUMNS = `
+  id,
+  name,
+  description,
+  status,
+  progress,
+  due_date,
+  created_at,
+  owner_id,
+  require_approval,
+  statuses,
+  estimate_unit,
+  progress_mode,
+  auto_complete,
+  project_members (
+    user_id,
+    role,
+    created_at
+  )
+`;
+const TASK_COLUMNS = `
+  id,
+  title,
+  description,
+  status,
+  start_date,
+  due_date,
+  assigned_to,
+  project_id,
+  priority,
+  parent_id,
+  checklist,
+  recurrence,
+  estimate,
+  completed_at,
+  rank,
+  created_by,
+  created_at,
+  projects (
+    name
+  )
+`;
+
+const isValidUUID = (str: string): boolean => {
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+  return uuidRegex.test(str);
+};
+
+const toMember = (projectId: string, row: Omit<MemberRow, 'project_id'>): ProjectMember => ({
+  projectId,
+  userId: row.user_id,
+  role: row.role as ProjectRole,
+  joinedAt: row.created_at,
+});
+
+const toInvite = (row: InviteRow): ProjectInvite => ({
+  id: row.id,
+  projectId: row.project_id,
+  token: row.token,
+  role: row.role as ProjectRole,
+  expiresAt: row.expires_at,
+  maxUses: row.max_uses,
+  useCount: row.use_count,
+  createdBy: row.created_by,
+  createdAt: row.created_at,
+  revokedAt: row.revoked_at,
+});
+
+const toJoinRequest = (row: JoinRequestRow): JoinRequest => ({
+  id: row.id,
+  projectId: row.project_id,
+  userId: row.user_id,
+  role: row.role as ProjectRole,
+  status: row.status as JoinRequestStatus,
+  createdAt: row.created_at,
+  decidedAt: row.decided_at,
+  decidedBy: row.decided_by,
+});
+
+const toNotification = (row: NotificationRow): AppNotification => ({
+  id: row.id,
+  userId: row.user_id,
+  type: row.type as NotificationType,
+  title: row.title,
+  body: row.body,
+  link: row.link,
+  read: row.read,
+  createdAt: row.created_at,
+});
+
+const toSavedView = (row: SavedViewRow): SavedView => ({
+  id: row.id,
+  userId: row.user_id,
+  name: row.name,
+  query: row.query,
+  createdAt: row.created_at,
+});
+
+const toProject = (row: ProjectRow): Project => ({
+  id: row.id.toString(),
+  name: row.name || '',
+  description: row.description || '',
+  status: (row.status as ProjectStatus) || 'Planning',
+  progress: row.progress || 0,
+  dueDate: row.due_date || new Date().toISOString(),
+  members: (row.project_members || []).map(member => toMember(row.id.toString(), member)),
+  createdAt: row.created_at,
+  ownerId: row.owner_id.toString(),
+  requireApproval: row.require_approval,
+  statuses: getProjectStatuses({ statuses: row.statuses as unknown as WorkflowStatus[] }),
+  estimateUnit: (row.estimate_unit as EstimateUnit) || 'points',
+  progressMode: (row.progress_mode as ProgressMode) || 'count',
+  autoComplete: row.auto_complete,
+});
+
+const toTask = (row: TaskRow): Task => ({
+  id: row.id.toString(),
+  title: row.title || '',
+  description: row.description || '',
+  status: (row.status as TaskStatus) || 'To Do',
+  startDate: row.start_date,
+  dueDate: row.due_date || new Date().toISOString(),
+  assignedTo: row.assigned_to ? row.assigned_to.toString() : null,
+  projectId: row.project_id ? row.project_id.toString() : '',
+  projectName: row.projects?.name || 'Unknown Project',
+  priority: (row.priority as TaskPriority) || 'Medium',
+  parentId: row.parent_id ? row.parent_id.toString() : null,
+  checklist: (row.checklist as unknown as ChecklistItem[]) || [],
+  recurrence: row.recurrence as unknown as TaskRecurrence | null,
+  estimate: row.estimate,
+  completedAt: row.completed_at,
+  rank: row.rank,
+  createdBy: row.created_by,
+  createdAt: row.created_at || new Date().toISOString(),
+});
+
+const toTaskEvent = (row: TaskEventRow): TaskEvent => ({
+  id: row.id,
+  taskId: row.task_id.toString(),
+  userId: row.user_id,
+  field: row.field as TaskHistoryField | null,
+  from: row.from_value,
+  to: row.to_value,
+  createdAt: row.created_at,
+});
+
+const toDependency = (row: DependencyRow): TaskDependency => ({
+  taskId: row.task_id.toString(),
+  blockedById: row.blocked_by_id.toString(),
+  createdAt: row.created_at,
+});
+
+const toTimeEntry = (row: TimeEntryRow): TimeEntry => ({
+  id: row.id,
+  taskId: row.task_id.toString(),
+  projectId: row.project_id,
+  userId: row.user_id,
+  startedAt: row.started_at,
+  durationMinutes: row.duration_minutes,
+  note: row.note,
+  createdAt: row.created_at,
+});
+
+const toComment = (row: CommentRow): TaskComment => ({
+  id: row.id,
+  taskId: row.task_id.toString(),
+  authorId: row.author_id,
+  body: row.body,
+  createdAt: row.created_at,
+  editedAt: row.edited_at,
+});
+
+const toAttachment = (row: AttachmentRow): Attachment => ({
+  id: row.id,
+  projectId: row.project_id,
+  taskId: row.task_id === null ? null : row.task_id.toString(),
+  name: row.name,
+  size: row.size,
+  contentType: row.content_type,
+  path: row.path,
+  uploadedBy: row.uploaded_by,
+  createdAt: row.created_at,
+});
+
+const toMessage = (row: MessageRow): Message => ({
+  id: row.id,
+  content: row.content,
+  room: row.room,
+  createdAt: row.created_at,
+  senderId: row.sender_id,
+  receiverId: row.receiver_id,
+  senderName: row.sender_name || undefined,
+});
+
+const toAppUser = (row: UserRow): AppUser => ({
+  id: row.id,
+  email: row.email || '',
+  name: row.name || row.email || 'Unknown User',
+});
+
+class SupabaseAuthRepository implements AuthRepository {
+  constructor(private client: Client) {}
+
+  async getSession(): Promise<Session | null> {
+    const { data: { session }, error } = await this.client.auth.getSession();
+    if (error) throw error;
+    return session;
+  }
+
+  onAuthStateChange(callback: (session: Session | null) => void): () => void {
+    const { data: { subscription } } = this.client.auth.onAuthStateChange((_event, session) => {
+      callback(session);
+    });
+    return () => subscription.unsubscribe();
+  }
+
+  async signIn(email: string, password: string): Promise<Session> {
+    const { data, error } = await this.client.auth.signInWithPassword({ email, password });
+    if (error) throw error;
+    return data.session;
+  }
+
+  async signInWithGoogle(redirectTo: string): Promise<void> {
+    const { error } = await this.client.auth.signInWithOAuth({
+      provider: 'google',
+      options: { redirectTo },
+    });
+    if (error) throw error;
+  }
+
+  async signUp({ email, password, fullName }: SignUpInput): Promise<void> {
+    const { error } = await this.client.auth.signUp({
+      email,
+      password,
+      options: {
+        data: {
+          full_name: fullName,
+        },
+      },
+    });
+    if (error) throw error;
+  }
+
+  async resetPassword(email: string, redirectTo: string): Promise<void> {
+    const { error } = await this.client.auth.resetPasswordForEmail(email, { redirectTo });
+    if (error) throw error;
+  }
+
+  async updateProfile(changes: { fullName?: string; password?: string }): Promise<void> {
+    const { error } = await this.client.auth.updateUser({
+      ...(changes.fullName !== undefined && { data: { full_name: changes.fullName } }),
+      ...(changes.password !== undefined && { password: changes.password }),
+    });
+    if (error) throw error;
+  }
+
+  async signOut(): Promise<void> {
+    const { error } = await this.client.auth.signOut();
+    if (error) throw error;
+  }
+}
+
+class SupabaseProjectRepository implements ProjectRepository {
+  constructor(private client: Client) {}
+
+  async listForUser(user: User): Promise<Project[]> {
+    const { data: memberships, error: membershipError } = await this.client
+      .from('project_members')
+      .select('project_id')
+      .eq('user_id', user.id);
+
+    if (membershipError) throw membershipError;
+    if (!memberships || memberships.length === 0) return [];
+
+    const { data, error } = await this.client
+      .from('projects')
+      .select(PROJECT_COLUMNS)
+      .in('id', memberships.map(membership => membership.project_id))
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return (data || []).map(toProject);
+  }
+
+  async get(id: string): Promise<Project | null> {
+    const { data, error } = await this.client
+      .from('projects')
+      .select(PROJECT_COLUMNS)
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? toProject(data) : null;
+  }
+
+  async create(project: NewProject): Promise<Project> {
+    // The owner's membership is added by the projects_add_owner_membership trigger
+    const { data, error } = await this.client
+      .from('projects')
+      .insert({
+        name: project.name,
+        description: project.description,
+        status: project.status,
+        progress: project.progress,
+        due_date: project.dueDate,
+        owner_id: project.ownerId,
+        require_approval: project.requireApproval,
+        statuses: project.statuses as unknown as Json,
+        estimate_unit: project.estimateUnit,
+        progress_mode: project.progressMode,
+        auto_complete: project.autoComplete,
+      })
+      .select(PROJECT_COLUMNS)
+      .single();
+
+    if (error) throw error;
+    return toProject(data);
+  }
+
+  async update(id: string, changes: ProjectChanges): Promise<void> {
+    const { error } = await this.client
+      .from('projects')
+      .update({
+        name: changes.name,
+        description: changes.description,
+        status: changes.status,
+        progress: changes.progress,
+        due_date: changes.dueDate,
+        require_approval: changes.requireApproval,
+        statuses: changes.statuses as unknown as Json,
+        estimate_unit: changes.estimateUnit,
+        progress_mode: changes.progressMode,
+        auto_complete: changes.autoComplete,
+      })
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+
+  async remove(id: string): Promise<void> {
+    const { error } = await this.client
+      .from('projects')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+
+  // Row level security limits the changes sent to projects the user is a member of.
+  // Each subscriber gets its own channel, so closing one leaves the others open.
+  subscribe(onChange: () => void): () => void {
+    const channel = this.client.channel(`projects:${crypto.randomUUID()}`)
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'projects',
+      }, () => {
+        onChange();
+      })
+      .subscribe();
+
+    return () => {
+      this.client.removeChannel(channel);
+    };
+  }
+}
+
+class SupabaseMemberRepository implements MemberRepository {
+  constructor(private client: Client) {}
+
+  async add(projectId: string, userId: string, role: ProjectRole): Promise<ProjectMember> {
+    const { data, error } = await this.client
+      .from('project_members')
+      .insert({ project_id: projectId, user_id: userId, role })
+      .select('user_id, role, created_at')
+      .single();
+
+    if (error) throw error;
+    return toMember(projectId, data);
+  }
+
+  async updateRole(projectId: string, userId: string, role: ProjectRole): Promise<void> {
+    const { error } = await this.client
+      .from('project_members')
+      .update({ role })
+      .eq('project_id', projectId)
+      .eq('user_id', userId);
+
+    if (error) throw error;
+  }
+
+  async remove(projectId: string, userId: string): Promise<void> {
+    const { error } = await this.client
+      .from('project_members')
+      .delete()
+      .eq('project_id', projectId)
+      .eq('user_id', userId);
+
+    if (error) throw error;
+  }
+}
+
+class SupabaseInviteRepository implements InviteRepository {
+  constructor(private client: Client) {}
+
+  async listByProject(projectId: string): Promise<ProjectInvite[]> {
+    const { data, error } = await this.client
+      .from('project_invites')
+      .select('*')
+      .eq('project_id', projectId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return (data || []).map(toInvite);
+  }
+
+  async create(invite: NewInvite): Promise<ProjectInvite> {
+    const { data, error } = await this.client
+      .from('project_invites')
+      .insert({
+        project_id: invite.projectId,
+        token: generateInviteToken(),
+        role: invite.role,
+        expires_at: invite.expiresAt,
+        max_uses: invite.maxUses,
+        created_by: invite.createdBy,
+      })
+      .select('*')
+      .single();
+
+    if (error) throw error;
+    return toInvite(data);
+  }
+
+  async revoke(projectId: string, id: string): Promise<void> {
+    const { error } = await this.client
+      .from('project_invites')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('project_id', projectId)
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+
+  // Invitees aren't members yet, so preview and redeem go through security definer functions
+  async preview(token: string): Promise<InvitePreview | null> {
+    const { data, error } = await this.client
+      .rpc('get_invite_preview', { invite_token: normalizeInviteToken(token) })
+      .maybeSingle();
+
+    if (error) throw new Error(error.message);
+    if (!data) return null;
+
+    return {
+      projectId: data.project_id,
+      projectName: data.project_name,
+      role: data.role as ProjectRole,
+      expiresAt: data.expires_at,
+      status: data.status as InviteStatus,
+    };
+  }
+
+  async redeem(token: string): Promise<JoinResult> {
+    const { data, error } = await this.client
+      .rpc('redeem_project_invite', { invite_token: normalizeInviteToken(token) })
+      .maybeSingle();
+
+    // The function raises readable messages for expired and used up invites, and returns
+    // nothing for unknown ones so the failed attempt it records isn't rolled back
+    if (error) throw new Error(error.message);
+    if (!data) throw new Error('Invalid invite code');
+
+    return {
+      projectId: data.project_id,
+      projectName: data.project_name,
+      role: data.role as ProjectRole,
+      outcome: data.outcome as JoinOutcome,
+    };
+  }
+}
+
+class SupabaseJoinRequestRepository implements JoinRequestRepository {
+  constructor(private client: Client) {}
+
+  async listByProject(projectId: string, status?: JoinRequestStatus): Promise<JoinRequest[]> {
+    let query = this.client
+      .from('project_join_requests')
+      .select('*')
+      .eq('project_id', projectId);
+
+    if (status) {
+      query = query.eq('status', status);
+    }
+
+    const { data, error } = await query.order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return (data || []).map(toJoinRequest);
+  }
+
+  async approve(projectId: string, id: string): Promise<void> {
+    await this.decide(projectId, id, true);
+  }
+
+  async reject(projectId: string, id: string): Promise<void> {
+    await this.decide(projectId, id, false);
+  }
+
+  // Membership and notifications are written by the decide_join_request function
+  private async decide(projectId: string, id: string, approve: boolean): Promise<void> {
+    const { error } = await this.client.rpc('decide_join_request', {
+      project: projectId,
+      request_id: id,
+      approve,
+    });
+
+    if (error) throw new Error(error.message);
+  }
+}
+
+class SupabaseNotificationRepository implements NotificationRepository {
+  constructor(private client: Client) {}
+
+  async listForUser(userId: string): Promise<AppNotification[]> {
+    const { data, error } = await this.client
+      .from('notifications')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(50);
+
+    if (error) throw error;
+    return (data || []).map(toNotification);
+  }
+
+  async markRead(userId: string, id: string): Promise<void> {
+    const { error } = await this.client
+      .from('notifications')
+      .update({ read: true })
+      .eq('user_id', userId)
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+
+  async markAllRead(userId: string): Promise<void> {
+    const { error } = await this.client
+      .from('notifications')
+      .update({ read: true })
+      .eq('user_id', userId)
+      .eq('read', false);
+
+    if (error) throw error;
+  }
+
+  subscribe(userId: string, onChange: () => void): () => void {
+    const channel = this.client.channel(`notifications:${userId}`)
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'notifications',
+        filter: `user_id=eq.${userId}`,
+      }, () => {
+        onChange();
+      })
+      .subscribe();
+
+    return () => {
+      this.client.removeChannel(channel);
+    };
+  }
+}
+
+class SupabaseSavedViewRepository implements SavedViewRepository {
+  constructor(private client: Client) {}
+
+  async listForUser(userId: string): Promise<SavedView[]> {
+    const { data, error } = await this.client
+      .from('saved_views')
+      .select('*')
+      .eq('user_id', userId)
+      .order('name');
+
+    if (error) throw error;
+    return (data || []).map(toSavedView);
+  }
+
+  async create(view: NewSavedView): Promise<SavedView> {
+    const { data, error } = await this.client
+      .from('saved_views')
+      .insert({ user_id: view.userId, name: view.name, query: view.query })
+      .select('*')
+      .single();
+
+    if (error) throw error;
+    return toSavedView(data);
+  }
+
+  async remove(userId: string, id: string): Promise<void> {
+    const { error } = await this.client
+      .from('saved_views')
+      .delete()
+      .eq('user_id', userId)
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+
+  subscribe(userId: string, onChange: () => void): () => void {
+    const channel = this.client.channel(`saved_views:${userId}`)
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'saved_views',
+        filter: `user_id=eq.${userId}`,
+      }, () => {
+        onChange();
+      })
+      .subscribe();
+
+    return () => {
+      this.client.removeChannel(channel);
+    };
+  }
+}
+
+class SupabasePreferenceRepository implements PreferenceRepository {
+  constructor(private client: Client) {}
+
+  async get<T>(userId: string, key: string): Promise<T | null> {
+    const { data, error } = await this.client
+      .from('user_preferences')
+      .select('value')
+      .eq('user_id', userId)
+      .eq('key', key)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? data.value as unknown as T : null;
+  }
+
+  async set<T>(userId: string, key: string, value: T): Promise<void> {
+    const { error } = await this.client
+      .from('user_preferences')
+      .upsert({
+        user_id: userId,
+        key,
+        value: value as unknown as Json,
+        updated_at: new Date().toISOString(),
+      });
+
+    if (error) throw error;
+  }
+}
+
+class SupabaseTaskRepository implements TaskRepository {
+  constructor(private client: Client) {}
+
+  async get(id: string): Promise<Task | null> {
+    const { data, error } = await this.client
+      .from('tasks')
+      .select(TASK_COLUMNS)
+      .eq('id', Number(id))
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? toTask(data) : null;
+  }
+
+  async listByIds(ids: string[]): Promise<Task[]> {
+    if (ids.length === 0) return [];
+
+    const { data, error } = await this.client
+      .from('tasks')
+      .select(TASK_COLUMNS)
+      .in('id', ids.map(Number));
+
+    if (error) throw error;
+    return (data || []).map(toTask);
+  }
+
+  async listByProject(projectId: string): Promise<Task[]> {
+    return this.listByProjects([projectId]);
+  }
+
+  async listByProjects(projectIds: string[]): Promise<Task[]> {
+    if (projectIds.length === 0) return [];
+
+    const { data, error } = await this.client
+      .from('tasks')
+      .select(TASK_COLUMNS)
+      .in('project_id', projectIds)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return (data || []).map(toTask);
+  }
+
+  async listByAssignee(userId: string): Promise<Task[]> {
+    const { data, error } = await this.client
+      .from('tasks')
+      .select(TASK_COLUMNS)
+      .eq('assigned_to', userId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return (data || []).map(toTask);
+  }
+
+  async listSubtasks(parentIds: string[]): Promise<Task[]> {
+    if (parentIds.length === 0) return [];
+
+    const { data, error } = await this.client
+      .from('tasks')
+      .select(TASK_COLUMNS)
+      .in('parent_id', parentIds.map(Number))
+      .order('rank', { ascending: true });
+
+    if (error) throw error;
+    return (data || []).map(toTask);
+  }
+
+  async listHistory(taskId: string): Promise<TaskEvent[]> {
+    const { data, error } = await this.client
+      .from('task_events')
+      .select('*')
+      .eq('task_id', Number(taskId))
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return (data || []).map(toTaskEvent);
+  }
+
+  async create(task: NewTask): Promise<Task> {
+    const { data, error } = await this.client
+      .from('tasks')
+      .insert({
+        title: task.title,
+        description: task.description,
+        status: task.status,
+        start_date: task.startDate,
+        due_date: task.dueDate,
+        assigned_to: task.assignedTo,
+        project_id: task.projectId,
+        priority: task.priority,
+        parent_id: task.parentId ? Number(task.parentId) : null,
+        checklist: task.checklist as unknown as Json,
+        recurrence: task.recurrence as unknown as Json,
+        estimate: task.estimate,
+        rank: task.rank,
+        created_by: task.createdBy,
+      })
+      .select(TASK_COLUMNS)
+      .single();
+
+    if (error) throw error;
+    return toTask(data);
+  }
+
+  // Completing a recurring task creates its next occurrence in the tasks_repeat trigger
+  async update(id: string, changes: TaskChanges): Promise<void> {
+    const { error } = await this.client
+      .from('tasks')
+      .update({
+        title: changes.title,
+        description: changes.description,
+        status: changes.status,
+        start_date: changes.startDate,
+        due_date: changes.dueDate,
+        assigned_to: changes.assignedTo,
+        project_id: changes.projectId,
+        priority: changes.priority,
+        parent_id: changes.parentId === undefined ? undefined : changes.parentId ? Number(changes.parentId) : null,
+        checklist: changes.checklist as unknown as Json,
+        recurrence: changes.recurrence as unknown as Json,
+        estimate: changes.estimate,
+        rank: changes.rank,
+      })
+      .eq('id', Number(id));
+
+    if (error) throw error;
+  }
+
+  async remove(id: string): Promise<void> {
+    const { error } = await this.client
+      .from('tasks')
+      .delete()
+      .eq('id', Number(id));
+
+    if (error) throw error;
+  }
+}
+
+class SupabaseDependencyRepository implements DependencyRepository {
+  constructor(private client: Client) {}
+
+  async listForTasks(taskIds: string[]): Promise<TaskDependency[]> {
+    if (taskIds.length === 0) return [];
+
+    const ids = taskIds.map(Number).join(',');
+    const { data, error } = await this.client
+      .from('task_dependencies')
+      .select('task_id, blocked_by_id, created_at')
+      .or(`task_id.in.(${ids}),blocked_by_id.in.(${ids})`);
+
+    if (error) throw error;
+    return (data || []).map(toDependency);
+  }
+
+  async add(taskId: string, blockedById: string): Promise<void> {
+    // Cycles are rejected by a trigger
+    const { error } = await this.client
+      .from('task_dependencies')
+      .upsert(
+        { task_id: Number(taskId), blocked_by_id: Number(blockedById) },
+        { onConflict: 'task_id,blocked_by_id', ignoreDuplicates: true }
+      );
+
+    if (error) throw new Error(error.message);
+  }
+
+  async remove(taskId: string, blockedById: string): Promise<void> {
+    const { error } = await this.client
+      .from('task_dependencies')
+      .delete()
+      .eq('task_id', Number(taskId))
+      .eq('blocked_by_id', Number(blockedById));
+
+    if (error) throw error;
+  }
+}
+
+// Mentions are turned into notifications by the notify_comment_mentions trigger
+class SupabaseCommentRepository implements CommentRepository {
+  constructor(private client: Client) {}
+
+  async get(id: string): Promise<TaskComment | null> {
+    const { data, error } = await this.client
+      .from('task_comments')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? toComment(data) : null;
+  }
+
+  async listByTask(taskId: string): Promise<TaskComment[]> {
+    const { data, error } = await this.client
+      .from('task_comments')
+      .select('*')
+      .eq('task_id', Number(taskId))
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return (data || []).map(toComment);
+  }
+
+  async countByTasks(taskIds: string[]): Promise<Record<string, number>> {
+    if (taskIds.length === 0) return {};
+
+    const { data, error } = await this.client
+      .from('task_comments')
+      .select('task_id')
+      .in('task_id', taskIds.map(Number));
+
+    if (error) throw error;
+    return (data || []).reduce<Record<string, number>>((counts, row) => {
+      const taskId = row.task_id.toString();
+      counts[taskId] = (counts[taskId] || 0) + 1;
+      return counts;
+    }, {});
+  }
+
+  async create(comment: NewComment): Promise<TaskComment> {
+    const { data, error } = await this.client
+      .from('task_comments')
+      .insert({
+        task_id: Number(comment.taskId),
+        author_id: comment.authorId,
+        body: comment.body,
+      })
+      .select('*')
+      .single();
+
+    if (error) throw error;
+    return toComment(data);
+  }
+
+  async update(id: string, body: string): Promise<void> {
+    const { error } = await this.client
+      .from('task_comments')
+      .update({ body, edited_at: new Date().toISOString() })
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+
+  async remove(id: string): Promise<void> {
+    const { error } = await this.client
+      .from('task_comments')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+}
+
+// Files live in a private bucket, readable by members of the project in the path's first folder
+class SupabaseFileStorage implements FileStorage {
+  constructor(private client: Client, private bucket = 'attachments') {}
+
+  async upload(path: string, file: File): Promise<void> {
+    const { error } = await this.client.storage
+      .from(this.bucket)
+      .upload(path, file, { contentType: file.type || undefined });
+
+    if (error) throw error;
+  }
+
+  async download(path: string): Promise<Blob> {
+    const { data, error } = await this.client.storage
+      .from(this.bucket)
+      .download(path);
+
+    if (error) throw error;
+    return data;
+  }
+
+  async remove(paths: string[]): Promise<void> {
+    if (paths.length === 0) return;
+
+    const { error } = await this.client.storage
+      .from(this.bucket)
+      .remove(paths);
+
+    if (error) throw error;
+  }
+}
+
+class SupabaseAttachmentRepository implements AttachmentRepository {
+  constructor(private client: Client, private files: FileStorage) {}
+
+  async get(id: string): Promise<Attachment | null> {
+    const { data, error } = await this.client
+      .from('attachments')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? toAttachment(data) : null;
+  }
+
+  async listByProject(projectId: string): Promise<Attachment[]> {
+    const { data, error } = await this.client
+      .from('attachments')
+      .select('*')
+      .eq('project_id', projectId)
+      .is('task_id', null)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return (data || []).map(toAttachment);
+  }
+
+  async listByTask(taskId: string): Promise<Attachment[]> {
+    const { data, error } = await this.client
+      .from('attachments')
+      .select('*')
+      .eq('task_id', Number(taskId))
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return (data || []).map(toAttachment);
+  }
+
+  async upload({ file, ...attachment }: NewAttachment): Promise<Attachment> {
+    const path = getAttachmentPath(attachment.projectId, file.name);
+    await this.files.upload(path, file);
+
+    const { data, error } = await this.client
+      .from('attachments')
+      .insert({
+        project_id: attachment.projectId,
+        task_id: attachment.taskId === null ? null : Number(attachment.taskId),
+        name: file.name,
+        size: file.size,
+        content_type: file.type || 'application/octet-stream',
+        path,
+        uploaded_by: attachment.uploadedBy,
+      })
+      .select('*')
+      .single();
+
+    if (error) {
+      // Don't leave the file behind without a record
+      await this.files.remove([path]).catch(() => undefined);
+      throw error;
+    }
+    return toAttachment(data);
+  }
+
+  download(attachment: Attachment): Promise<Blob> {
+    return this.files.download(attachment.path);
+  }
+
+  async remove(id: string): Promise<void> {
+    const attachment = await this.get(id);
+    if (!attachment) return;
+
+    // The file goes first, since access to it is checked against its record
+    await this.files.remove([attachment.path]);
+    const { error } = await this.client
+      .from('attachments')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+}
+
+class SupabaseTimeEntryRepository implements TimeEntryRepository {
+  constructor(private client: Client) {}
+
+  async get(id: string): Promise<TimeEntry | null> {
+    const { data, error } = await this.client
+      .from('time_entries')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? toTimeEntry(data) : null;
+  }
+
+  async listByTask(taskId: string): Promise<TimeEntry[]> {
+    const { data, error } = await this.client
+      .from('time_entries')
+      .select('*')
+      .eq('task_id', Number(taskId))
+      .order('started_at', { ascending: false });
+
+    if (error) throw error;
+    return (data || []).map(toTimeEntry);
+  }
+
+  async listByProject(projectId: string): Promise<TimeEntry[]> {
+    const { data, error } = await this.client
+      .from('time_entries')
+      .select('*')
+      .eq('project_id', projectId)
+      .order('started_at', { ascending: false });
+
+    if (error) throw error;
+    return (data || []).map(toTimeEntry);
+  }
+
+  async listForUser(userId: string, from: string, to: string): Promise<TimeEntry[]> {
+    const { data, error } = await this.client
+      .from('time_entries')
+      .select('*')
+      .eq('user_id', userId)
+      .gte('started_at', from)
+      .lt('started_at', to)
+      .order('started_at', { ascending: false });
+
+    if (error) throw error;
+    return (data || []).map(toTimeEntry);
+  }
+
+  async getRunning(userId: string): Promise<TimeEntry | null> {
+    const { data, error } = await this.client
+      .from('time_entries')
+      .select('*')
+      .eq('user_id', userId)
+      .is('duration_minutes', null)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? toTimeEntry(data) : null;
+  }
+
+  async create(entry: NewTimeEntry): Promise<TimeEntry> {
+    if (entry.durationMinutes === null) {
+      const running = await this.getRunning(entry.userId);
+      if (running) await this.stop(running.id);
+    }
+
+    // The project is filled in from the task by a trigger
+    const { data, error } = await this.client
+      .from('time_entries')
+      .insert({
+        task_id: Number(entry.taskId),
+        user_id: entry.userId,
+        started_at: entry.startedAt,
+        duration_minutes: entry.durationMinutes,
+        note: entry.note,
+      })
+      .select('*')
+      .single();
+
+    if (error) throw error;
+    return toTimeEntry(data);
+  }
+
+  async stop(id: string): Promise<void> {
+    const entry = await this.get(id);
+    if (!entry || entry.durationMinutes !== null) return;
+
+    const { error } = await this.client
+      .from('time_entries')
+      .update({ duration_minutes: getElapsedMinutes(entry.startedAt) })
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+
+  async remove(id: string): Promise<void> {
+    const { error } = await this.client
+      .from('time_entries')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+}
+
+class SupabaseUserRepository implements UserRepository {
+  constructor(private client: Client) {}
+
+  async resolve(userIds: string[]): Promise<AppUser[]> {
+    const ids = [...new Set(userIds.filter(isValidUUID))];
+    if (ids.length === 0) return [];
+
+    const { data, error } = await this.client
+      .from('users')
+      .select('id, name, email')
+      .in('id', ids);
+
+    if (error) throw error;
+    return (data || []).map(toAppUser);
+  }
+
+  async list(): Promise<AppUser[]> {
+    const { data, error } = await this.client
+      .from('users')
+      .select('id, name, email')
+      .order('name');
+
+    if (error) throw error;
+    return (data || []).map(toAppUser);
+  }
+}
+
+class SupabaseMessageRepository implements MessageRepository {
+  constructor(private client: Client) {}
+
+  async listByRoom(room: string): Promise<Message[]> {
+    const { data, error } = await this.client
+      .from('messages')
+      .select('*')
+      .eq('room', room)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return (data || []).map(toMessage);
+  }
+
+  async listForUser(userId: string): Promise<Message[]> {
+    const { data, error } = await this.client
+      .from('messages')
+      .select('*')
+      .or(`sender_id.eq.${userId},receiver_id.eq.${userId}`)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return (data || []).map(toMessage);
+  }
+
+  async send(message: NewMessage): Promise<Message> {
+    const { data, error } = await this.client
+      .from('messages')
+      .insert({
+        content: message.content,
+        sender_id: message.senderId,
+        receiver_id: message.receiverId,
+        room: message.room,
+        sender_name: message.senderName,
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return toMessage(data);
+  }
+
+  subscribe(
+    room: string,
+    onMessage: (message: Message) => void,
+    onStatus?: (connected: boolean) => void
+  ): () => void {
+    const channel = this.client.channel(`room:${room}`)
+      .on('postgres_changes', {
+        event: 'INSERT',
+        schema: 'public',
+        table: 'messages',
+        filter: `room=eq.${room}`,
+      }, (payload) => {
+        onMessage(toMessage(payload.new as MessageRow));
+      })
+      .subscribe((status) => {
+        onStatus?.(status === 'SUBSCRIBED');
+      });
+
+    return () => {
+      this.client.removeChannel(channel);
+    };
+  }
+}
+
+export class SupabaseRepository implements DataRepository {
+  auth: AuthRepository;
+  projects: ProjectRepository;
+  members: MemberRepository;
+  invites: InviteRepository;
+  joinRequests: JoinRequestRepository;
+  notifications: NotificationRepository;
+  tasks: TaskRepository;
+  dependencies: DependencyRepository;
+  comments: CommentRepository;
+  attachments: AttachmentRepository;
+  timeEntries: TimeEntryRepository;
+  savedViews: SavedViewRepository;
+  preferences: PreferenceRepository;
+  users: UserRepository;
+  messages: MessageRepository;
+
+  constructor(client: Client) {
+    this.auth = new SupabaseAuthRepository(client);
+    this.projects = new SupabaseProjectRepository(client);
+    this.members = new SupabaseMemberRepository(client);
+    this.invites = new SupabaseInviteRepository(client);
+    this.joinRequests = new SupabaseJoinRequestRepository(client);
+    this.notifications = new SupabaseNotificationRepository(client);
+    this.tasks = new SupabaseTaskRepository(client);
+    this.dependencies = new SupabaseDependencyRepository(client);
+    this.comments = new SupabaseCommentRepository(client);
+    this.attachments = new SupabaseAttachmentRepository(client, new SupabaseFileStorage(client));
+    this.timeEntries = new SupabaseTimeEntryRepository(client);
+    this.savedViews = new SupabaseSavedViewRepository(client);
+    this.preferences = new SupabasePreferenceRepository(client);
+    this.users = new SupabaseUserRepository(client);
+    this.messages = new SupabaseMessageRepository(client);
+  }
+}
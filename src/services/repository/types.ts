@@ -0,0 +1,487 @@
+import { User, Session } from '@supabase/supabase-js';
+
+export type ProjectStatus = 'Planning' | 'In Progress' | 'On Hold' | 'Completed';
+// Id of one of the project's workflow statuses
+export type TaskStatus = string;
+
+export type StatusCategory = 'open' | 'done';
+
+export interface WorkflowStatus {
+  // Stable key stored on tasks; the default statuses use their names so older tasks still match
+  id: string;
+  name: string;
+  category: StatusCategory;
+  color: string;
+  // Optional work-in-progress limit; the board warns when a column holds more tasks
+  wipLimit?: number | null;
+}
+export type ProjectRole = 'owner' | 'admin' | 'member' | 'viewer';
+
+export interface ProjectMember {
+  projectId: string;
+  userId: string;
+  role: ProjectRole;
+  joinedAt: string;
+}
+
+export type JoinOutcome = 'joined' | 'already_member' | 'requested';
+
+export interface JoinResult {
+  projectId: string;
+  projectName: string;
+  role: ProjectRole;
+  // 'requested' when the project requires approval and a join request is pending
+  outcome: JoinOutcome;
+}
+
+export type JoinRequestStatus = 'pending' | 'approved' | 'rejected';
+
+export interface JoinRequest {
+  id: string;
+  projectId: string;
+  userId: string;
+  // Role granted on approval, taken from the invite that was used
+  role: ProjectRole;
+  status: JoinRequestStatus;
+  createdAt: string;
+  decidedAt: string | null;
+  decidedBy: string | null;
+}
+
+export type NotificationType = 'join_requested' | 'join_approved' | 'join_rejected' | 'mentioned';
+
+export interface AppNotification {
+  id: string;
+  userId: string;
+  type: NotificationType;
+  title: string;
+  body: string;
+  // In-app route opened when the notification is clicked
+  link: string | null;
+  read: boolean;
+  createdAt: string;
+}
+
+export interface ProjectInvite {
+  id: string;
+  projectId: string;
+  // Short code typed into "Join Project", also used in /join/:token links
+  token: string;
+  role: ProjectRole;
+  // Null means the invite never expires / can be used any number of times
+  expiresAt: string | null;
+  maxUses: number | null;
+  useCount: number;
+  createdBy: string;
+  createdAt: string;
+  revokedAt: string | null;
+}
+
+export type InviteStatus = 'active' | 'expired' | 'revoked' | 'used_up';
+
+// What an invitee sees before joining, readable without being a member
+export interface InvitePreview {
+  projectId: string;
+  projectName: string;
+  role: ProjectRole;
+  expiresAt: string | null;
+  status: InviteStatus;
+}
+
+// What task estimates are measured in, chosen per project
+export type EstimateUnit = 'hours' | 'points';
+
+// Whether progress counts done tasks, adds up their estimates, or is set by hand
+export type ProgressMode = 'count' | 'estimate' | 'manual';
+
+export interface Project {
+  id: string;
+  name: string;
+  description: string;
+  status: ProjectStatus;
+  // Percent complete; kept up to date from the tasks unless progressMode is 'manual'
+  progress: number;
+  dueDate: string;
+  // Includes the owner, with the 'owner' role
+  members: ProjectMember[];
+  createdAt: string;
+  ownerId: string;
+  // Joining through an invite creates a join request for owners and admins to approve
+  requireApproval: boolean;
+  // Ordered task statuses, used for Kanban columns, filters and progress
+  statuses: WorkflowStatus[];
+  estimateUnit: EstimateUnit;
+  progressMode: ProgressMode;
+  // Moves the project to Completed once every task in it is done
+  autoComplete: boolean;
+}
+
+export type TaskPriority = 'Low' | 'Medium' | 'High';
+
+export interface ChecklistItem {
+  id: string;
+  title: string;
+  done: boolean;
+}
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly';
+
+// Repeats every `interval` days, weeks or months, like an iCalendar RRULE
+export interface TaskRecurrence {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  // Weekly only: days of the week, 0 for Sunday; empty repeats on the due date's weekday
+  weekdays: number[];
+  // Monthly only: day of the month, moved to the last day in shorter months; null uses the due date's day
+  monthDay: number | null;
+  // End conditions: no occurrences due after this date, or only this many more counting the current one
+  until: string | null;
+  count: number | null;
+}
+
+export interface Task {
+  id: string;
+  title: string;
+  description: string;
+  status: TaskStatus;
+  // When work is planned to begin; the timeline draws tasks without one on their due date
+  startDate: string | null;
+  dueDate: string;
+  assignedTo: string | null;
+  projectId: string;
+  projectName?: string;
+  priority: TaskPriority;
+  // Set on subtasks, which always belong to their parent's project
+  parentId: string | null;
+  checklist: ChecklistItem[];
+  // Completing a recurring task creates its next occurrence, which takes over the schedule
+  recurrence: TaskRecurrence | null;
+  // In the project's estimate unit; null when not estimated
+  estimate: number | null;
+  // Set by the backend when the task moves into a done status, and cleared when it is reopened
+  completedAt: string | null;
+  // Position within its board column, lowest first
+  rank: number;
+  // Null for tasks created before creators were recorded
+  createdBy: string | null;
+  createdAt: string;
+}
+
+// taskId can't start until blockedById is done; the two may be in different projects
+export interface TaskDependency {
+  taskId: string;
+  blockedById: string;
+  createdAt: string;
+}
+
+// Task fields whose changes are kept in the task's history
+export type TaskHistoryField =
+  | 'title'
+  | 'description'
+  | 'status'
+  | 'assignedTo'
+  | 'priority'
+  | 'startDate'
+  | 'dueDate'
+  | 'estimate'
+  | 'projectId';
+
+// The task's creation when field is null, otherwise a change to that field. Status and project
+// changes keep names, as ids mean little once the task moves; description changes keep no text.
+export interface TaskEvent {
+  id: string;
+  taskId: string;
+  // Null when nobody was signed in, such as changes made by the backend itself
+  userId: string | null;
+  field: TaskHistoryField | null;
+  from: string | null;
+  to: string | null;
+  createdAt: string;
+}
+
+// Time someone spent on a task. It counts towards the project the task was in when it was logged.
+export interface TimeEntry {
+  id: string;
+  taskId: string;
+  projectId: string;
+  userId: string;
+  startedAt: string;
+  // Null while the entry is a running timer
+  durationMinutes: number | null;
+  note: string;
+  createdAt: string;
+}
+
+export interface TaskComment {
+  id: string;
+  taskId: string;
+  authorId: string;
+  // Markdown, with mentions written as @[Name](userId)
+  body: string;
+  createdAt: string;
+  // Null until the comment is edited
+  editedAt: string | null;
+}
+
+// A file on a project, or on one of its tasks when taskId is set
+export interface Attachment {
+  id: string;
+  projectId: string;
+  taskId: string | null;
+  name: string;
+  // In bytes
+  size: number;
+  contentType: string;
+  // Where the file is kept in storage
+  path: string;
+  uploadedBy: string;
+  createdAt: string;
+}
+
+// A named set of Tasks page filters, kept as the query string that encodes them
+export interface SavedView {
+  id: string;
+  userId: string;
+  name: string;
+  query: string;
+  createdAt: string;
+}
+
+// A setting kept per user rather than per browser, such as the task table's columns
+export interface UserPreference {
+  userId: string;
+  key: string;
+  value: unknown;
+  updatedAt: string;
+}
+
+export interface AppUser {
+  id: string;
+  email: string;
+  name: string;
+}
+
+export interface Message {
+  id: string;
+  content: string;
+  room: string;
+  createdAt: string;
+  senderId: string;
+  receiverId: string;
+  senderName?: string;
+}
+
+export type NewProject = Omit<Project, 'id' | 'createdAt' | 'members'>;
+export type ProjectChanges = Partial<Omit<Project, 'id' | 'createdAt' | 'ownerId' | 'members'>>;
+// New tasks go to the top of their column unless a rank is given, with Medium priority unless set
+export type NewTask = Omit<
+  Task,
+  'id' | 'createdAt' | 'projectName' | 'rank' | 'priority' | 'parentId' | 'checklist' | 'startDate' | 'recurrence' | 'estimate' | 'completedAt' | 'createdBy'
+> & {
+  startDate?: string | null;
+  rank?: number;
+  priority?: TaskPriority;
+  parentId?: string | null;
+  checklist?: ChecklistItem[];
+  recurrence?: TaskRecurrence | null;
+  estimate?: number | null;
+  // Set to the signed-in user when left out
+  createdBy?: string | null;
+};
+// Who created a task never changes
+export type TaskChanges = Partial<Omit<NewTask, 'createdBy'>>;
+export type NewMessage = Omit<Message, 'id' | 'createdAt'>;
+// The project is taken from the task
+export type NewTimeEntry = Omit<TimeEntry, 'id' | 'createdAt' | 'projectId'>;
+export type NewComment = Pick<TaskComment, 'taskId' | 'authorId' | 'body'>;
+export type NewAttachment = Pick<Attachment, 'projectId' | 'taskId' | 'uploadedBy'> & { file: File };
+export type NewSavedView = Pick<SavedView, 'userId' | 'name' | 'query'>;
+export type NewInvite = Pick<ProjectInvite, 'projectId' | 'role' | 'expiresAt' | 'maxUses' | 'createdBy'>;
+
+export interface SignUpInput {
+  email: string;
+  password: string;
+  fullName: string;
+}
+
+export interface AuthRepository {
+  getSession(): Promise<Session | null>;
+  // Returns an unsubscribe function
+  onAuthStateChange(callback: (session: Session | null) => void): () => void;
+  signIn(email: string, password: string): Promise<Session>;
+  signInWithGoogle(redirectTo: string): Promise<void>;
+  signUp(input: SignUpInput): Promise<void>;
+  resetPassword(email: string, redirectTo: string): Promise<void>;
+  updateProfile(changes: { fullName?: string; password?: string }): Promise<void>;
+  signOut(): Promise<void>;
+}
+
+export interface ProjectRepository {
+  // Projects the user is a member of, owned ones included
+  listForUser(user: User): Promise<Project[]>;
+  get(id: string): Promise<Project | null>;
+  // Also records the owner's membership
+  create(project: NewProject): Promise<Project>;
+  update(id: string, changes: ProjectChanges): Promise<void>;
+  remove(id: string): Promise<void>;
+  // Called whenever one of the user's projects changes, progress included; returns an unsubscribe function
+  subscribe(onChange: () => void): () => void;
+}
+
+export interface MemberRepository {
+  add(projectId: string, userId: string, role: ProjectRole): Promise<ProjectMember>;
+  updateRole(projectId: string, userId: string, role: ProjectRole): Promise<void>;
+  remove(projectId: string, userId: string): Promise<void>;
+}
+
+export interface InviteRepository {
+  listByProject(projectId: string): Promise<ProjectInvite[]>;
+  // Generates a fresh token
+  create(invite: NewInvite): Promise<ProjectInvite>;
+  revoke(projectId: string, id: string): Promise<void>;
+  // Null when no invite has this token. Unknown tokens count as failed attempts for the user,
+  // and both methods throw while the user has to wait after too many of them.
+  preview(token: string, userId: string): Promise<InvitePreview | null>;
+  // Adds the user to the project with the invite's role, or files a join request when the
+  // project requires approval; throws when the invite can't be used
+  redeem(token: string, userId: string): Promise<JoinResult>;
+}
+
+export interface JoinRequestRepository {
+  listByProject(projectId: string, status?: JoinRequestStatus): Promise<JoinRequest[]>;
+  // Approving adds the member; both decisions notify the requester and the project's managers
+  approve(projectId: string, id: string): Promise<void>;
+  reject(projectId: string, id: string): Promise<void>;
+}
+
+export interface NotificationRepository {
+  // Newest first
+  listForUser(userId: string): Promise<AppNotification[]>;
+  markRead(userId: string, id: string): Promise<void>;
+  markAllRead(userId: string): Promise<void>;
+  // Called whenever the user's notifications change; returns an unsubscribe function
+  subscribe(userId: string, onChange: () => void): () => void;
+}
+
+export interface DependencyRepository {
+  // Links where any of the tasks is either the blocked task or the blocker
+  listForTasks(taskIds: string[]): Promise<TaskDependency[]>;
+  // Throws when the link would create a cycle
+  add(taskId: string, blockedById: string): Promise<void>;
+  remove(taskId: string, blockedById: string): Promise<void>;
+}
+
+export interface TimeEntryRepository {
+  get(id: string): Promise<TimeEntry | null>;
+  listByTask(taskId: string): Promise<TimeEntry[]>;
+  listByProject(projectId: string): Promise<TimeEntry[]>;
+  // Entries the user started from `from` up to, but not including, `to`
+  listForUser(userId: string, from: string, to: string): Promise<TimeEntry[]>;
+  getRunning(userId: string): Promise<TimeEntry | null>;
+  // An entry without a duration starts a timer, stopping the user's running timer first
+  create(entry: NewTimeEntry): Promise<TimeEntry>;
+  // Records the time since a running timer started
+  stop(id: string): Promise<void>;
+  remove(id: string): Promise<void>;
+}
+
+export interface CommentRepository {
+  get(id: string): Promise<TaskComment | null>;
+  // Oldest first
+  listByTask(taskId: string): Promise<TaskComment[]>;
+  // Number of comments on each task; tasks without comments are left out
+  countByTasks(taskIds: string[]): Promise<Record<string, number>>;
+  // Project members mentioned in the comment are notified, the author excepted
+  create(comment: NewComment): Promise<TaskComment>;
+  // Only members newly mentioned by the edit are notified
+  update(id: string, body: string): Promise<void>;
+  remove(id: string): Promise<void>;
+}
+
+// Where attachment contents live: Supabase Storage, or IndexedDB with the local backend
+export interface FileStorage {
+  upload(path: string, file: File): Promise<void>;
+  download(path: string): Promise<Blob>;
+  remove(paths: string[]): Promise<void>;
+}
+
+export interface AttachmentRepository {
+  get(id: string): Promise<Attachment | null>;
+  // Files on the project itself rather than on its tasks, newest first
+  listByProject(projectId: string): Promise<Attachment[]>;
+  // Newest first
+  listByTask(taskId: string): Promise<Attachment[]>;
+  // Stores the file, then records it
+  upload(attachment: NewAttachment): Promise<Attachment>;
+  download(attachment: Attachment): Promise<Blob>;
+  // Removes the record and the stored file
+  remove(id: string): Promise<void>;
+}
+
+export interface SavedViewRepository {
+  // By name
+  listForUser(userId: string): Promise<SavedView[]>;
+  create(view: NewSavedView): Promise<SavedView>;
+  remove(userId: string, id: string): Promise<void>;
+  // Called whenever the user's views change; returns an unsubscribe function
+  subscribe(userId: string, onChange: () => void): () => void;
+}
+
+export interface PreferenceRepository {
+  // Null when the user hasn't set it yet
+  get<T>(userId: string, key: string): Promise<T | null>;
+  set<T>(userId: string, key: string, value: T): Promise<void>;
+}
+
+export interface TaskRepository {
+  get(id: string): Promise<Task | null>;
+  // Tasks the user can't see are skipped
+  listByIds(ids: string[]): Promise<Task[]>;
+  listByProject(projectId: string): Promise<Task[]>;
+  listByProjects(projectIds: string[]): Promise<Task[]>;
+  listByAssignee(userId: string): Promise<Task[]>;
+  // Direct subtasks of the given tasks
+  listSubtasks(parentIds: string[]): Promise<Task[]>;
+  // Oldest first, starting with the task's creation
+  listHistory(taskId: string): Promise<TaskEvent[]>;
+  create(task: NewTask): Promise<Task>;
+  update(id: string, changes: TaskChanges): Promise<void>;
+  remove(id: string): Promise<void>;
+}
+
+export interface UserRepository {
+  // Unknown IDs are skipped
+  resolve(userIds: string[]): Promise<AppUser[]>;
+  list(): Promise<AppUser[]>;
+}
+
+export interface MessageRepository {
+  listByRoom(room: string): Promise<Message[]>;
+  // Messages the user sent or received, newest first
+  listForUser(userId: string): Promise<Message[]>;
+  send(message: NewMessage): Promise<Message>;
+  // Returns an unsubscribe function
+  subscribe(
+    room: string,
+    onMessage: (message: Message) => void,
+    onStatus?: (connected: boolean) => void
+  ): () => void;
+}
+
+export interface DataRepository {
+  auth: AuthRepository;
+  projects: ProjectRepository;
+  members: MemberRepository;
+  invites: InviteRepository;
+  joinRequests: JoinRequestRepository;
+  notifications: NotificationRepository;
+  tasks: TaskRepository;
+  dependencies: DependencyRepository;
+  comments: CommentRepository;
+  attachments: AttachmentRepository;
+  timeEntries: TimeEntryRepository;
+  savedViews: SavedViewRepository;
+  preferences: PreferenceRepository;
+  users: UserRepository;
+  messages: MessageRepository;
+}
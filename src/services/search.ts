@@ -0,0 +1,85 @@
+// Ranks and highlights command palette results. Every word of the query has to appear in one
+// of an item's fields; matches at the start of the text or of a word rank above ones inside a word.
+
+interface Ranked<T> {
+  item: T;
+  score: number;
+}
+
+// [start, end) offsets into the text
+export type HighlightRange = [number, number];
+
+const getWords = (query: string): string[] =>
+  query.toLowerCase().split(/\s+/).filter(Boolean);
+
+const scoreWord = (text: string, word: string): number => {
+  const index = text.indexOf(word);
+  if (index === -1) return 0;
+  if (index === 0) return text.length === word.length ? 100 : 60;
+  // The start of a later word
+  return /[\s\-_/#@.]/.test(text[index - 1]) ? 40 : 20;
+};
+
+/**
+ * Items that match the query, best first. `fieldsOf` returns the item's searchable text, most
+ * important first; matches in later fields count for half. Ties keep their original order.
+ */
+export const rankItems = <T>(
+  items: T[],
+  query: string,
+  fieldsOf: (item: T) => (string | null | undefined)[],
+  limit = Infinity
+): T[] => {
+  const words = getWords(query);
+  if (words.length === 0) return [];
+
+  const ranked: Ranked<T>[] = [];
+  items.forEach(item => {
+    const fields = fieldsOf(item).map(field => (field || '').toLowerCase());
+    let score = 0;
+    for (const word of words) {
+      const best = Math.max(...fields.map((field, i) => scoreWord(field, word) / (i === 0 ? 1 : 2)));
+      if (!best) return;
+      score += best;
+    }
+    ranked.push({ item, score });
+  });
+
+  return ranked
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(result => result.item);
+};
+
+// Where the query's words appear in the text, merged and in order
+export const getHighlightRanges = (text: string, query: string): HighlightRange[] => {
+  const lower = text.toLowerCase();
+  const ranges: HighlightRange[] = [];
+  getWords(query).forEach(word => {
+    let index = lower.indexOf(word);
+    while (index !== -1) {
+      ranges.push([index, index + word.length]);
+      index = lower.indexOf(word, index + word.length);
+    }
+  });
+
+  return ranges
+    .sort((a, b) => a[0] - b[0])
+    .reduce<HighlightRange[]>((merged, range) => {
+      const last = merged[merged.length - 1];
+      if (last && range[0] <= last[1]) {
+        last[1] = Math.max(last[1], range[1]);
+      } else {
+        merged.push([...range]);
+      }
+      return merged;
+    }, []);
+};
+
+// A window of the text around the first match, for long bodies such as messages
+export const getSnippet = (text: string, query: string, length = 80): string => {
+  if (text.length <= length) return text;
+  const first = getHighlightRanges(text, query)[0];
+  const start = first ? Math.max(0, Math.min(first[0] - 20, text.length - length)) : 0;
+  return `${start > 0 ? '…' : ''}${text.slice(start, start + length)}${start + length < text.length ? '…' : ''}`;
+};
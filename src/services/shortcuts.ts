@@ -0,0 +1,129 @@
+export type ShortcutScope = 'global' | 'page' | 'dialog';
+
+export interface Shortcut {
+  // Space-separated steps, each a key with optional modifiers: "c", "g p", "shift+arrowright", "mod+k".
+  // "mod" is Cmd on a Mac and Ctrl elsewhere.
+  keys: string;
+  description: string;
+  // Dialog shortcuts only run while a dialog is open, and the others only while none is.
+  // A page shortcut takes over a global one with the same keys.
+  scope: ShortcutScope;
+  // Heading in the shortcuts overlay
+  group: string;
+  // Returning false lets the key through, such as when there's nothing to act on
+  handler: (e: KeyboardEvent) => void | boolean;
+}
+
+export type ShortcutBinding = Pick<Shortcut, 'keys' | 'scope'>;
+
+export const SCOPE_LABELS: Record<ShortcutScope, string> = {
+  global: 'Everywhere',
+  page: 'On this page',
+  dialog: 'In dialogs',
+};
+
+// How long to wait for the next step of a sequence such as "g p"
+export const SEQUENCE_TIMEOUT = 1000;
+
+const MODIFIERS = ['mod', 'alt', 'shift'];
+
+const KEY_LABELS: Record<string, string> = {
+  arrowleft: '←',
+  arrowright: '→',
+  arrowup: '↑',
+  arrowdown: '↓',
+  enter: 'Enter',
+  escape: 'Esc',
+  space: 'Space',
+};
+
+// Lowercase, with modifiers in a fixed order, so bindings compare as plain strings
+export const normalizeKeys = (keys: string): string =>
+  keys
+    .trim()
+    .toLowerCase()
+    .split(/\s+/)
+    .map(step => {
+      const parts = step.split('+');
+      const key = parts.pop();
+      return [...MODIFIERS.filter(modifier => parts.includes(modifier)), key].join('+');
+    })
+    .join(' ');
+
+// The step a key press stands for, or null for a modifier pressed on its own
+export const eventToStep = (e: Pick<KeyboardEvent, 'key' | 'ctrlKey' | 'metaKey' | 'altKey' | 'shiftKey'>): string | null => {
+  const key = e.key.toLowerCase();
+  if (['control', 'meta', 'alt', 'shift'].includes(key)) return null;
+
+  const modifiers: string[] = [];
+  if (e.ctrlKey || e.metaKey) modifiers.push('mod');
+  if (e.altKey) modifiers.push('alt');
+  // Shift is part of typing symbols like "?", so it only counts for letters and named keys
+  if (e.shiftKey && (key.length > 1 || /[a-z]/.test(key))) modifiers.push('shift');
+  return [...modifiers, key === ' ' ? 'space' : key].join('+');
+};
+
+// Keys typed into a field belong to the field, apart from ones held with Cmd or Ctrl
+export const isTypingTarget = (target: EventTarget | null): boolean => {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+};
+
+const isPrefix = (a: string, b: string) => b.startsWith(`${a} `);
+
+/**
+ * The binding the candidate clashes with, if any: the same keys in the same scope, or a
+ * sequence that starts with the other's keys, which would never get past its first step.
+ * Keys are expected to be normalized.
+ */
+export const findConflict = <T extends ShortcutBinding>(existing: T[], candidate: ShortcutBinding): T | null =>
+  existing.find(other =>
+    // Dialog shortcuts never run alongside the others
+    (other.scope === 'dialog') === (candidate.scope === 'dialog') && (
+      (other.scope === candidate.scope && other.keys === candidate.keys) ||
+      isPrefix(other.keys, candidate.keys) ||
+      isPrefix(candidate.keys, other.keys)
+    )
+  ) || null;
+
+// The shortcuts that can run right now, page ones ahead of the global ones they replace
+export const getActiveShortcuts = <T extends ShortcutBinding>(shortcuts: T[], dialogOpen: boolean): T[] => {
+  if (dialogOpen) return shortcuts.filter(shortcut => shortcut.scope === 'dialog');
+
+  const page = shortcuts.filter(shortcut => shortcut.scope === 'page');
+  const global = shortcuts.filter(shortcut =>
+    shortcut.scope === 'global' && !page.some(other => other.keys === shortcut.keys)
+  );
+  return [...page, ...global];
+};
+
+/**
+ * Follows a key press on from the steps already pressed. Returns the shortcut to run, or the
+ * steps to keep while a longer sequence may still match. A step that breaks off a sequence is
+ * tried again on its own.
+ */
+export const matchSequence = <T extends Pick<Shortcut, 'keys'>>(
+  shortcuts: T[],
+  pending: string[],
+  step: string
+): { match: T | null; pending: string[] } => {
+  const attempts = pending.length ? [[...pending, step], [step]] : [[step]];
+  for (const steps of attempts) {
+    const keys = steps.join(' ');
+    const match = shortcuts.find(shortcut => shortcut.keys === keys);
+    if (match) return { match, pending: [] };
+    if (shortcuts.some(shortcut => isPrefix(keys, shortcut.keys))) return { match: null, pending: steps };
+  }
+  return { match: null, pending: [] };
+};
+
+// Key caps for each step, such as [["Ctrl", "K"]] or [["G"], ["P"]]
+export const formatKeys = (keys: string, isMac: boolean): string[][] =>
+  keys.split(' ').map(step =>
+    step.split('+').map(part => {
+      if (part === 'mod') return isMac ? '⌘' : 'Ctrl';
+      if (part === 'alt') return isMac ? '⌥' : 'Alt';
+      if (part === 'shift') return 'Shift';
+      return KEY_LABELS[part] || part.toUpperCase();
+    })
+  );
@@ -0,0 +1,26 @@
+import { Task, WorkflowStatus } from '@/services/repository';
+import { getProjectStatuses, isDoneStatus } from '@/services/workflow';
+
+export interface TaskProgress {
+  done: number;
+  total: number;
+}
+
+export const getSubtasks = (task: Pick<Task, 'id'>, tasks: Task[]): Task[] =>
+  tasks.filter(t => t.parentId === task.id);
+
+// Done subtasks and checked checklist items out of all of them, null when the task has neither
+export const getTaskProgress = (
+  task: Task,
+  tasks: Task[],
+  statusesByProject: Record<string, WorkflowStatus[]>
+): TaskProgress | null => {
+  const subtasks = getSubtasks(task, tasks);
+  const total = subtasks.length + task.checklist.length;
+  if (total === 0) return null;
+
+  const doneSubtasks = subtasks.filter(subtask =>
+    isDoneStatus(getProjectStatuses({ statuses: statusesByProject[subtask.projectId] }), subtask.status)
+  ).length;
+  return { done: doneSubtasks + task.checklist.filter(item => item.done).length, total };
+};
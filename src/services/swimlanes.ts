@@ -0,0 +1,88 @@
+import { Project, Task, TaskChanges } from '@/services/repository';
+import { getMemberIds } from '@/services/membership';
+import { TASK_PRIORITIES } from '@/services/priority';
+
+export type SwimlaneGrouping = 'none' | 'assignee' | 'priority' | 'project';
+
+export const SWIMLANE_LABELS: Record<SwimlaneGrouping, string> = {
+  none: 'None',
+  assignee: 'Assignee',
+  priority: 'Priority',
+  project: 'Project',
+};
+
+export interface Swimlane {
+  id: string;
+  label: string;
+  // Applied to a task dropped into the lane
+  changes: TaskChanges;
+  // Whether a task may be moved into the lane
+  accepts: (task: Task) => boolean;
+}
+
+const UNASSIGNED_LANE = 'unassigned';
+
+export const getSwimlaneId = (grouping: SwimlaneGrouping, task: Task): string => {
+  switch (grouping) {
+    case 'assignee':
+      return task.assignedTo || UNASSIGNED_LANE;
+    case 'priority':
+      return task.priority;
+    case 'project':
+      return task.projectId;
+    default:
+      return '';
+  }
+};
+
+// Lanes in display order. Assignee lanes cover every member of the given projects, so a task
+// can be handed to someone who has nothing yet; they only accept tasks from projects that person is in.
+export const getSwimlanes = (
+  grouping: SwimlaneGrouping,
+  tasks: Task[],
+  projects: Project[],
+  getUserName: (userId: string) => string,
+  hasSubtasks: (task: Task) => boolean
+): Swimlane[] => {
+  const getTaskProject = (task: Task) => projects.find(project => project.id === task.projectId);
+
+  switch (grouping) {
+    case 'assignee': {
+      const userIds = [...new Set([
+        ...projects.flatMap(getMemberIds),
+        ...tasks.map(task => task.assignedTo).filter(Boolean),
+      ])];
+      const people: Swimlane[] = userIds
+        .map(userId => ({
+          id: userId,
+          label: getUserName(userId),
+          changes: { assignedTo: userId },
+          accepts: (task: Task) => getMemberIds(getTaskProject(task)).includes(userId),
+        }))
+        .sort((a, b) => a.label.localeCompare(b.label));
+      return [
+        ...people,
+        { id: UNASSIGNED_LANE, label: 'Unassigned', changes: { assignedTo: null }, accepts: () => true },
+      ];
+    }
+    case 'priority':
+      return TASK_PRIORITIES.map(priority => ({
+        id: priority,
+        label: priority,
+        changes: { priority },
+        accepts: () => true,
+      }));
+    case 'project':
+      return projects.map(project => ({
+        id: project.id,
+        label: project.name,
+        changes: { projectId: project.id },
+        // Subtasks stay in their parent's project, and parents with their subtasks
+        accepts: (task: Task) =>
+          !task.parentId && !hasSubtasks(task) &&
+          (!task.assignedTo || getMemberIds(project).includes(task.assignedTo)),
+      }));
+    default:
+      return [];
+  }
+};
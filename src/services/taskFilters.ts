@@ -0,0 +1,135 @@
+import { Task, TaskPriority, WorkflowStatus } from '@/services/repository';
+import { TASK_PRIORITIES } from '@/services/priority';
+import { findStatus, isDoneStatus } from '@/services/workflow';
+import { toDateValue } from '@/services/timeline';
+
+export type TaskSort = 'newest' | 'priority' | 'dueDate';
+
+export const SORT_LABELS: Record<TaskSort, string> = {
+  newest: 'Newest',
+  priority: 'Priority',
+  dueDate: 'Due Date',
+};
+
+// Stands for whoever opens the link, so a shared "my tasks" view shows each person their own
+export const ME = 'me';
+export const UNASSIGNED = 'unassigned';
+// In the URL only: the assignee filter is off, rather than left at its default of ME
+const ANYONE = 'anyone';
+
+export interface TaskFilters {
+  search: string;
+  // Status names, matched across workflows the way the board matches its columns
+  statuses: string[];
+  projectIds: string[];
+  // User IDs, ME or UNASSIGNED
+  assignees: string[];
+  priorities: TaskPriority[];
+  // Inclusive, as yyyy-MM-dd
+  dueFrom: string | null;
+  dueTo: string | null;
+  // Open tasks due before today
+  overdue: boolean;
+  // User IDs or ME
+  creators: string[];
+  sort: TaskSort;
+}
+
+// Without a query string the page shows the viewer's own tasks, newest first
+export const DEFAULT_FILTERS: TaskFilters = {
+  search: '',
+  statuses: [],
+  projectIds: [],
+  assignees: [ME],
+  priorities: [],
+  dueFrom: null,
+  dueTo: null,
+  overdue: false,
+  creators: [],
+  sort: 'newest',
+};
+
+const isDateValue = (value: string | null): boolean => !!value && /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+const sameList = (a: string[], b: string[]): boolean =>
+  a.length === b.length && a.every(value => b.includes(value));
+
+// Unknown values are dropped, so hand-edited or outdated links still open
+export const parseFilters = (params: URLSearchParams): TaskFilters => {
+  const assignees = params.getAll('assignee');
+  const sort = params.get('sort') as TaskSort;
+  return {
+    search: params.get('q') || '',
+    statuses: params.getAll('status'),
+    projectIds: params.getAll('project'),
+    assignees: assignees.length === 0 ? DEFAULT_FILTERS.assignees : assignees.filter(id => id !== ANYONE),
+    priorities: params.getAll('priority').filter((p): p is TaskPriority => TASK_PRIORITIES.includes(p as TaskPriority)),
+    dueFrom: isDateValue(params.get('from')) ? params.get('from') : null,
+    dueTo: isDateValue(params.get('to')) ? params.get('to') : null,
+    overdue: params.get('overdue') === '1',
+    creators: params.getAll('createdBy'),
+    sort: Object.prototype.hasOwnProperty.call(SORT_LABELS, sort) ? sort : DEFAULT_FILTERS.sort,
+  };
+};
+
+// Leaves out whatever is at its default, so the plain page has a plain URL
+export const toSearchParams = (filters: TaskFilters): URLSearchParams => {
+  const params = new URLSearchParams();
+  if (filters.search) params.set('q', filters.search);
+  filters.statuses.forEach(status => params.append('status', status));
+  filters.projectIds.forEach(id => params.append('project', id));
+  if (filters.assignees.length === 0) {
+    params.set('assignee', ANYONE);
+  } else if (!sameList(filters.assignees, DEFAULT_FILTERS.assignees)) {
+    filters.assignees.forEach(id => params.append('assignee', id));
+  }
+  filters.priorities.forEach(priority => params.append('priority', priority));
+  if (filters.dueFrom) params.set('from', filters.dueFrom);
+  if (filters.dueTo) params.set('to', filters.dueTo);
+  if (filters.overdue) params.set('overdue', '1');
+  filters.creators.forEach(id => params.append('createdBy', id));
+  if (filters.sort !== DEFAULT_FILTERS.sort) params.set('sort', filters.sort);
+  return params;
+};
+
+// Filters that differ from the defaults; search and sort aren't counted
+export const countActiveFilters = (filters: TaskFilters): number =>
+  [
+    filters.statuses.length > 0,
+    filters.projectIds.length > 0,
+    !sameList(filters.assignees, DEFAULT_FILTERS.assignees),
+    filters.priorities.length > 0,
+    !!(filters.dueFrom || filters.dueTo),
+    filters.overdue,
+    filters.creators.length > 0,
+  ].filter(Boolean).length;
+
+/**
+ * Whether the task passes every filter. `userId` stands in for ME, and `statuses` is the
+ * task's own workflow.
+ */
+export const matchesFilters = (
+  task: Task,
+  filters: TaskFilters,
+  userId: string,
+  statuses: WorkflowStatus[],
+  today: Date = new Date()
+): boolean => {
+  const resolve = (ids: string[]) => ids.map(id => (id === ME ? userId : id));
+  const search = filters.search.toLowerCase();
+  const statusName = findStatus(statuses, task.status).name.toLowerCase();
+  const dueDay = task.dueDate ? task.dueDate.slice(0, 10) : null;
+
+  if (search && !task.title.toLowerCase().includes(search) && !task.description?.toLowerCase().includes(search)) {
+    return false;
+  }
+  if (filters.statuses.length && !filters.statuses.some(name => name.toLowerCase() === statusName)) return false;
+  if (filters.projectIds.length && !filters.projectIds.includes(task.projectId)) return false;
+  if (filters.assignees.length && !resolve(filters.assignees).includes(task.assignedTo || UNASSIGNED)) return false;
+  if (filters.priorities.length && !filters.priorities.includes(task.priority)) return false;
+  if (filters.dueFrom && (!dueDay || dueDay < filters.dueFrom)) return false;
+  if (filters.dueTo && (!dueDay || dueDay > filters.dueTo)) return false;
+  if (filters.overdue && (!dueDay || dueDay >= toDateValue(today) || isDoneStatus(statuses, task.status))) return false;
+  if (filters.creators.length && !resolve(filters.creators).includes(task.createdBy)) return false;
+  return true;
+};
@@ -0,0 +1,172 @@
+import { format } from 'date-fns';
+import { Task } from '@/services/repository';
+import { TASK_PRIORITIES } from '@/services/priority';
+
+export type TaskColumn = 'title' | 'project' | 'assignee' | 'status' | 'priority' | 'dueDate' | 'createdAt';
+
+// Default order
+export const TASK_COLUMNS: TaskColumn[] = ['title', 'project', 'assignee', 'status', 'priority', 'dueDate', 'createdAt'];
+
+export const COLUMN_LABELS: Record<TaskColumn, string> = {
+  title: 'Title',
+  project: 'Project',
+  assignee: 'Assignee',
+  status: 'Status',
+  priority: 'Priority',
+  dueDate: 'Due Date',
+  createdAt: 'Created',
+};
+
+// In pixels
+export const DEFAULT_COLUMN_WIDTHS: Record<TaskColumn, number> = {
+  title: 320,
+  project: 160,
+  assignee: 160,
+  status: 140,
+  priority: 110,
+  dueDate: 140,
+  createdAt: 130,
+};
+
+export const MIN_COLUMN_WIDTH = 80;
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface TableSort {
+  column: TaskColumn;
+  direction: SortDirection;
+}
+
+// Saved per user under TABLE_PREFERENCES_KEY
+export interface TablePreferences {
+  hidden: TaskColumn[];
+  widths: Partial<Record<TaskColumn, number>>;
+  // Null keeps the page's own sort
+  sort: TableSort | null;
+  groupBy: TaskColumn | null;
+}
+
+export const TABLE_PREFERENCES_KEY = 'tasks.table';
+
+export const DEFAULT_TABLE_PREFERENCES: TablePreferences = {
+  hidden: [],
+  widths: {},
+  sort: null,
+  groupBy: null,
+};
+
+export type TasksView = 'board' | 'table';
+
+export const TASKS_VIEW_KEY = 'tasks.view';
+
+// How a task reads in the columns that show something other than its own fields
+export interface ColumnValues {
+  getProjectName: (task: Task) => string;
+  getAssigneeName: (task: Task) => string;
+  getStatusName: (task: Task) => string;
+  // Position in the board's columns, so statuses sort in workflow order
+  getStatusPosition: (task: Task) => number;
+}
+
+export interface TaskGroup {
+  label: string;
+  tasks: Task[];
+}
+
+const isColumn = (value: unknown): value is TaskColumn => TASK_COLUMNS.includes(value as TaskColumn);
+
+// Saved preferences over the defaults, dropping anything that no longer matches a column.
+// The title always stays visible, so there's something to open each task from.
+export const normalizeTablePreferences = (saved: Partial<TablePreferences> | null): TablePreferences => {
+  if (!saved) return DEFAULT_TABLE_PREFERENCES;
+
+  const widths = Object.fromEntries(
+    Object.entries(saved.widths || {}).filter(([column, width]) =>
+      isColumn(column) && typeof width === 'number' && width >= MIN_COLUMN_WIDTH
+    )
+  );
+  return {
+    hidden: (saved.hidden || []).filter(column => isColumn(column) && column !== 'title'),
+    widths,
+    sort: saved.sort && isColumn(saved.sort.column) && ['asc', 'desc'].includes(saved.sort.direction)
+      ? saved.sort
+      : null,
+    groupBy: isColumn(saved.groupBy) ? saved.groupBy : null,
+  };
+};
+
+export const getColumnWidth = (preferences: TablePreferences, column: TaskColumn): number =>
+  preferences.widths[column] || DEFAULT_COLUMN_WIDTHS[column];
+
+// Clicking a header sorts by it ascending, then descending, then goes back to the page's sort
+export const getNextSort = (sort: TableSort | null, column: TaskColumn): TableSort | null => {
+  if (sort?.column !== column) return { column, direction: 'asc' };
+  return sort.direction === 'asc' ? { column, direction: 'desc' } : null;
+};
+
+const getSortValue = (task: Task, column: TaskColumn, values: ColumnValues): string | number => {
+  switch (column) {
+    case 'title':
+      return task.title.toLowerCase();
+    case 'project':
+      return values.getProjectName(task).toLowerCase();
+    case 'assignee':
+      return values.getAssigneeName(task).toLowerCase();
+    case 'status':
+      return values.getStatusPosition(task);
+    case 'priority':
+      return TASK_PRIORITIES.indexOf(task.priority);
+    case 'dueDate':
+      return new Date(task.dueDate).getTime();
+    case 'createdAt':
+      return new Date(task.createdAt).getTime();
+  }
+};
+
+const compare = (a: string | number, b: string | number): number =>
+  typeof a === 'number' && typeof b === 'number' ? a - b : String(a).localeCompare(String(b));
+
+// A sorted copy; ties keep their order. Priority sorts highest first when ascending.
+export const sortTasks = (tasks: Task[], sort: TableSort | null, values: ColumnValues): Task[] => {
+  if (!sort) return tasks;
+  const sign = sort.direction === 'asc' ? 1 : -1;
+  return [...tasks].sort((a, b) =>
+    sign * compare(getSortValue(a, sort.column, values), getSortValue(b, sort.column, values))
+  );
+};
+
+const getGroupLabel = (task: Task, column: TaskColumn, values: ColumnValues): string => {
+  switch (column) {
+    case 'title':
+      return task.title;
+    case 'project':
+      return values.getProjectName(task);
+    case 'assignee':
+      return values.getAssigneeName(task);
+    case 'status':
+      return values.getStatusName(task);
+    case 'priority':
+      return task.priority;
+    // Dates group by day
+    case 'dueDate':
+      return format(new Date(task.dueDate), 'MMM d, yyyy');
+    case 'createdAt':
+      return format(new Date(task.createdAt), 'MMM d, yyyy');
+  }
+};
+
+// Groups in the column's own ascending order, each keeping the tasks' order
+export const groupTasks = (tasks: Task[], column: TaskColumn, values: ColumnValues): TaskGroup[] => {
+  const groups = new Map<string, { group: TaskGroup; value: string | number }>();
+  tasks.forEach(task => {
+    const label = getGroupLabel(task, column, values);
+    if (!groups.has(label)) {
+      groups.set(label, { group: { label, tasks: [] }, value: getSortValue(task, column, values) });
+    }
+    groups.get(label).group.tasks.push(task);
+  });
+
+  return [...groups.values()]
+    .sort((a, b) => compare(a.value, b.value))
+    .map(entry => entry.group);
+};
@@ -0,0 +1,55 @@
+import { TimeEntry } from '@/services/repository';
+
+// Time since a timer started, in whole minutes
+export const getElapsedMinutes = (startedAt: string, now = new Date()): number =>
+  Math.max(0, Math.round((now.getTime() - new Date(startedAt).getTime()) / 60000));
+
+// Running timers count up to now
+export const getEntryMinutes = (entry: Pick<TimeEntry, 'startedAt' | 'durationMinutes'>, now = new Date()): number =>
+  entry.durationMinutes ?? getElapsedMinutes(entry.startedAt, now);
+
+export const getTotalMinutes = (entries: Pick<TimeEntry, 'startedAt' | 'durationMinutes'>[], now = new Date()): number =>
+  entries.reduce((total, entry) => total + getEntryMinutes(entry, now), 0);
+
+// Totals keyed by any field of the entry, such as projectId or taskId
+export const getMinutesBy = <K extends keyof TimeEntry>(entries: TimeEntry[], key: K, now = new Date()): Record<string, number> =>
+  entries.reduce<Record<string, number>>((totals, entry) => {
+    const id = String(entry[key]);
+    totals[id] = (totals[id] || 0) + getEntryMinutes(entry, now);
+    return totals;
+  }, {});
+
+// For example "2h 05m", "45m"
+export const formatDuration = (minutes: number): string => {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (!hours) return `${rest}m`;
+  return `${hours}h ${String(rest).padStart(2, '0')}m`;
+};
+
+// A running timer's clock, such as "1:02:03"
+export const formatTimer = (startedAt: string, now = new Date()): string => {
+  const seconds = Math.max(0, Math.floor((now.getTime() - new Date(startedAt).getTime()) / 1000));
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${Math.floor(seconds / 3600)}:${pad(Math.floor(seconds / 60) % 60)}:${pad(seconds % 60)}`;
+};
+
+/**
+ * Reads a typed duration as minutes: "1:30", "1.5", "1.5h", "90m" and "1h 30m"
+ * all mean an hour and a half. Returns null for anything else or zero.
+ */
+export const parseDuration = (text: string): number | null => {
+  const value = text.trim().toLowerCase();
+  let minutes: number | null = null;
+
+  const clock = value.match(/^(\d+):([0-5]\d)$/);
+  const units = value.match(/^(?:(\d+(?:\.\d+)?)\s*h)?\s*(?:(\d+)\s*m)?$/);
+  if (clock) {
+    minutes = Number(clock[1]) * 60 + Number(clock[2]);
+  } else if (/^\d+(\.\d+)?$/.test(value)) {
+    minutes = Math.round(Number(value) * 60);
+  } else if (units && (units[1] || units[2])) {
+    minutes = Math.round(Number(units[1] || 0) * 60) + Number(units[2] || 0);
+  }
+  return minutes ? minutes : null;
+};
@@ -0,0 +1,89 @@
+import { addDays, differenceInCalendarDays, format, max, parseISO } from 'date-fns';
+import { Task, TaskDependency } from '@/services/repository';
+
+type Link = Pick<TaskDependency, 'taskId' | 'blockedById'>;
+
+export interface TaskSpan {
+  start: Date;
+  end: Date;
+}
+
+// Dates are stored either as plain days or full timestamps; the timeline only cares about the day
+export const toDay = (value: string): Date => parseISO(value.slice(0, 10));
+
+export const toDateValue = (date: Date): string => format(date, 'yyyy-MM-dd');
+
+// Tasks without a start date are drawn as a single day on their due date
+export const getTaskSpan = (task: Pick<Task, 'startDate' | 'dueDate'>): TaskSpan => {
+  const end = toDay(task.dueDate);
+  const start = task.startDate ? toDay(task.startDate) : end;
+  return { start: start > end ? end : start, end };
+};
+
+export type RescheduleMode = 'move' | 'start' | 'end';
+
+// New dates after dragging a bar, or one of its edges, by a number of days
+export const shiftTaskSpan = (
+  task: Pick<Task, 'startDate' | 'dueDate'>,
+  mode: RescheduleMode,
+  days: number
+): Pick<Task, 'startDate' | 'dueDate'> => {
+  const { start, end } = getTaskSpan(task);
+
+  if (mode === 'start') {
+    const newStart = addDays(start, days);
+    return { startDate: toDateValue(newStart > end ? end : newStart), dueDate: toDateValue(end) };
+  }
+  if (mode === 'end') {
+    const newEnd = addDays(end, days);
+    return {
+      startDate: task.startDate ? toDateValue(start) : null,
+      dueDate: toDateValue(newEnd < start ? start : newEnd),
+    };
+  }
+  return {
+    startDate: task.startDate ? toDateValue(addDays(start, days)) : null,
+    dueDate: toDateValue(addDays(end, days)),
+  };
+};
+
+/**
+ * Ids of open tasks with no slack: pushing any of them back a day would push a
+ * task that waits on it, or the project itself, past the deadline. Each task must
+ * finish the day before the tasks it blocks start. Without a project due date the
+ * latest task decides the deadline.
+ */
+export const getCriticalPath = (
+  tasks: Task[],
+  links: Link[],
+  projectDueDate: string | null,
+  isDone: (task: Task) => boolean
+): Set<string> => {
+  const open = tasks.filter(task => !isDone(task));
+  if (!open.length) return new Set();
+
+  const spans = new Map(open.map(task => [task.id, getTaskSpan(task)]));
+  const deadline = projectDueDate ? toDay(projectDueDate) : max([...spans.values()].map(span => span.end));
+  const latestFinish = new Map<string, Date>();
+
+  // Links are acyclic, so walking the tasks each one blocks always terminates
+  const getLatestFinish = (taskId: string): Date => {
+    const cached = latestFinish.get(taskId);
+    if (cached) return cached;
+
+    let finish = deadline;
+    for (const link of links) {
+      if (link.blockedById !== taskId || !spans.has(link.taskId)) continue;
+      const { start, end } = spans.get(link.taskId);
+      const latestStart = addDays(getLatestFinish(link.taskId), -differenceInCalendarDays(end, start));
+      const mustFinish = addDays(latestStart, -1);
+      if (mustFinish < finish) finish = mustFinish;
+    }
+    latestFinish.set(taskId, finish);
+    return finish;
+  };
+
+  return new Set(open
+    .filter(task => differenceInCalendarDays(getLatestFinish(task.id), spans.get(task.id).end) <= 0)
+    .map(task => task.id));
+};
@@ -0,0 +1,88 @@
+import { Project, StatusCategory, WorkflowStatus } from '@/services/repository';
+
+// Projects start with the three statuses tasks used before workflows were configurable
+export const DEFAULT_STATUSES: WorkflowStatus[] = [
+  { id: 'To Do', name: 'To Do', category: 'open', color: 'gray' },
+  { id: 'In Progress', name: 'In Progress', category: 'open', color: 'blue' },
+  { id: 'Completed', name: 'Completed', category: 'done', color: 'green' },
+];
+
+export const CATEGORY_LABELS: Record<StatusCategory, string> = {
+  open: 'Open',
+  done: 'Done',
+};
+
+// Badge classes for each color a status can be given
+export const STATUS_COLORS: Record<string, string> = {
+  gray: 'bg-gray-100 text-gray-800',
+  yellow: 'bg-yellow-100 text-yellow-800',
+  orange: 'bg-orange-100 text-orange-800',
+  blue: 'bg-blue-100 text-blue-800',
+  purple: 'bg-purple-100 text-purple-800',
+  red: 'bg-red-100 text-red-800',
+  green: 'bg-green-100 text-green-800',
+};
+
+export const getProjectStatuses = (project: { statuses?: WorkflowStatus[] } | null | undefined): WorkflowStatus[] =>
+  project?.statuses?.length ? project.statuses : DEFAULT_STATUSES;
+
+// Statuses per project id, for pages that list tasks from several projects
+export const getStatusesByProject = (projects: Pick<Project, 'id' | 'statuses'>[]): Record<string, WorkflowStatus[]> =>
+  Object.fromEntries(projects.map(project => [project.id, getProjectStatuses(project)]));
+
+// Falls back to a plain open status for ids the workflow no longer has
+export const findStatus = (statuses: WorkflowStatus[], statusId: string): WorkflowStatus =>
+  statuses.find(status => status.id === statusId) || { id: statusId, name: statusId, category: 'open', color: 'gray' };
+
+export const getStatusColor = (statuses: WorkflowStatus[], statusId: string): string =>
+  STATUS_COLORS[findStatus(statuses, statusId).color] || STATUS_COLORS.gray;
+
+export const isDoneStatus = (statuses: WorkflowStatus[], statusId: string): boolean =>
+  findStatus(statuses, statusId).category === 'done';
+
+// A workflow's status with the given name, null when it has none
+export const findStatusByName = (statuses: WorkflowStatus[], name: string): WorkflowStatus | null =>
+  statuses.find(status => status.name.toLowerCase() === name.toLowerCase()) || null;
+
+// Where new tasks start, and where tasks go when they are checked off or reopened
+export const getInitialStatusId = (statuses: WorkflowStatus[]): string =>
+  (statuses.find(status => status.category === 'open') || statuses[0]).id;
+
+export const getDoneStatusId = (statuses: WorkflowStatus[]): string =>
+  (statuses.find(status => status.category === 'done') || statuses[statuses.length - 1]).id;
+
+// Where a task lands when it moves to another workflow: the status with the same name, or the start
+export const mapStatus = (from: WorkflowStatus[], statusId: string, to: WorkflowStatus[]): string =>
+  findStatusByName(to, findStatus(from, statusId).name)?.id || getInitialStatusId(to);
+
+// Combines several workflows into one list of columns, matching statuses by name
+export const mergeStatuses = (workflows: WorkflowStatus[][]): WorkflowStatus[] => {
+  const merged: WorkflowStatus[] = [];
+  for (const statuses of workflows) {
+    for (const status of statuses) {
+      if (!merged.some(existing => existing.name.toLowerCase() === status.name.toLowerCase())) {
+        merged.push(status);
+      }
+    }
+  }
+  // Open columns first, keeping each workflow's own order within a category
+  return [
+    ...merged.filter(status => status.category === 'open'),
+    ...merged.filter(status => status.category === 'done'),
+  ];
+};
+
+// Returns an error message, or null when the workflow can be saved
+export const validateStatuses = (statuses: WorkflowStatus[]): string | null => {
+  if (statuses.some(status => !status.name.trim())) return 'Every status needs a name';
+
+  const names = statuses.map(status => status.name.trim().toLowerCase());
+  if (new Set(names).size !== names.length) return 'Status names must be unique';
+
+  if (!statuses.some(status => status.category === 'open')) return 'Add at least one open status';
+  if (!statuses.some(status => status.category === 'done')) return 'Add at least one done status';
+
+  const limits = statuses.map(status => status.wipLimit).filter(limit => limit !== undefined && limit !== null);
+  if (limits.some(limit => !Number.isInteger(limit) || limit < 1)) return 'WIP limits must be whole numbers above zero';
+  return null;
+};
@@ -0,0 +1,52 @@
+-- Normalized project membership replacing projects.team_members.
+-- team_members held a mix of user IDs and emails; both are resolved to auth users here.
+
+create type public.project_role as enum ('owner', 'admin', 'member', 'viewer');
+
+create table public.project_members (
+  project_id uuid not null references public.projects (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  role public.project_role not null default 'member',
+  created_at timestamptz not null default now(),
+  primary key (project_id, user_id)
+);
+
+create index project_members_user_id_idx on public.project_members (user_id);
+
+-- Every project owner becomes an 'owner' member
+insert into public.project_members (project_id, user_id, role, created_at)
+select p.id, p.owner_id, 'owner', p.created_at
+from public.projects p
+on conflict do nothing;
+
+-- Existing team members, whether stored as a user ID or an email
+insert into public.project_members (project_id, user_id, role)
+select distinct p.id, u.id, 'member'::public.project_role
+from public.projects p
+cross join lateral unnest(coalesce(p.team_members, '{}')) as member(identifier)
+join auth.users u
+  on u.id::text = member.identifier
+  or lower(u.email) = lower(member.identifier)
+where u.id <> p.owner_id
+on conflict do nothing;
+
+-- New projects get their owner membership automatically
+create function public.add_project_owner_membership()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.project_members (project_id, user_id, role)
+  values (new.id, new.owner_id, 'owner')
+  on conflict (project_id, user_id) do update set role = 'owner';
+  return new;
+end;
+$$;
+
+create trigger projects_add_owner_membership
+after insert on public.projects
+for each row execute function public.add_project_owner_membership();
+
+alter table public.projects drop column team_members;
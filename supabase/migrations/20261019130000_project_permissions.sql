@@ -0,0 +1,188 @@
+-- Row level security for projects, memberships and tasks, following the role permission
+-- matrix in src/services/permissions.ts. Keep both in sync.
+
+-- The caller's role in a project, null when they are not a member
+create function public.project_role_of(project uuid)
+returns public.project_role
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select role from public.project_members
+  where project_id = project and user_id = auth.uid();
+$$;
+
+create function public.has_project_permission(project uuid, action text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(
+    case action
+      when 'project:view' then public.project_role_of(project) in ('owner', 'admin', 'member', 'viewer')
+      when 'project:edit' then public.project_role_of(project) in ('owner', 'admin')
+      when 'project:delete' then public.project_role_of(project) = 'owner'
+      when 'members:manage' then public.project_role_of(project) in ('owner', 'admin')
+      when 'tasks:create' then public.project_role_of(project) in ('owner', 'admin', 'member')
+      when 'tasks:edit' then public.project_role_of(project) in ('owner', 'admin', 'member')
+      when 'tasks:delete' then public.project_role_of(project) in ('owner', 'admin')
+      when 'tasks:assign' then public.project_role_of(project) in ('owner', 'admin', 'member')
+    end,
+    false
+  );
+$$;
+
+-- Projects
+
+alter table public.projects enable row level security;
+
+-- Owners are matched directly too, so an insert can return the new row before the
+-- owner membership trigger has run
+create policy "Members can view projects"
+on public.projects for select
+using (owner_id = auth.uid() or public.has_project_permission(id, 'project:view'));
+
+create policy "Users can create their own projects"
+on public.projects for insert
+with check (owner_id = auth.uid());
+
+create policy "Owners and admins can edit projects"
+on public.projects for update
+using (public.has_project_permission(id, 'project:edit'))
+with check (public.has_project_permission(id, 'project:edit'));
+
+create policy "Owners can delete projects"
+on public.projects for delete
+using (public.has_project_permission(id, 'project:delete'));
+
+-- Ownership can't be transferred through a plain update
+create function public.prevent_owner_change()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.owner_id <> old.owner_id then
+    raise exception 'The project owner cannot be changed';
+  end if;
+  return new;
+end;
+$$;
+
+create trigger projects_prevent_owner_change
+before update on public.projects
+for each row execute function public.prevent_owner_change();
+
+-- Memberships
+
+alter table public.project_members enable row level security;
+
+create policy "Members can view fellow members"
+on public.project_members for select
+using (public.has_project_permission(project_id, 'project:view'));
+
+create policy "Managers can add members"
+on public.project_members for insert
+with check (
+  role <> 'owner'
+  and public.has_project_permission(project_id, 'members:manage')
+);
+
+create policy "Managers can change member roles"
+on public.project_members for update
+using (
+  role <> 'owner'
+  and public.has_project_permission(project_id, 'members:manage')
+)
+with check (role <> 'owner');
+
+create policy "Managers can remove members and members can leave"
+on public.project_members for delete
+using (
+  role <> 'owner'
+  and (
+    user_id = auth.uid()
+    or public.has_project_permission(project_id, 'members:manage')
+  )
+);
+
+-- Joining with an access code happens before the caller can see the project
+create function public.join_project_by_access_code(code text)
+returns table (project_id uuid, project_name text, role public.project_role, joined boolean)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  target public.projects%rowtype;
+  existing public.project_role;
+begin
+  if auth.uid() is null then
+    raise exception 'Not signed in';
+  end if;
+
+  select * into target from public.projects p where p.access_code = code;
+  if not found then
+    return;
+  end if;
+
+  select pm.role into existing
+  from public.project_members pm
+  where pm.project_id = target.id and pm.user_id = auth.uid();
+
+  if existing is null then
+    insert into public.project_members (project_id, user_id, role)
+    values (target.id, auth.uid(), 'member');
+  end if;
+
+  return query select target.id, target.name, coalesce(existing, 'member'::public.project_role), existing is null;
+end;
+$$;
+
+-- Tasks
+
+alter table public.tasks enable row level security;
+
+create policy "Members can view tasks"
+on public.tasks for select
+using (public.has_project_permission(project_id, 'project:view'));
+
+create policy "Contributors can create tasks"
+on public.tasks for insert
+with check (
+  public.has_project_permission(project_id, 'tasks:create')
+  and (
+    assigned_to is null
+    or assigned_to = auth.uid()
+    or public.has_project_permission(project_id, 'tasks:assign')
+  )
+);
+
+create policy "Contributors can edit tasks"
+on public.tasks for update
+using (public.has_project_permission(project_id, 'tasks:edit'))
+with check (public.has_project_permission(project_id, 'tasks:create'));
+
+create policy "Owners and admins can delete tasks"
+on public.tasks for delete
+using (public.has_project_permission(project_id, 'tasks:delete'));
+
+-- Policies can't compare old and new rows, so reassignment is checked in a trigger
+create function public.check_task_assignment()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.assigned_to is distinct from old.assigned_to
+    and not public.has_project_permission(new.project_id, 'tasks:assign') then
+    raise exception 'You don''t have permission to assign tasks in this project';
+  end if;
+  return new;
+end;
+$$;
+
+create trigger tasks_check_assignment
+before update on public.tasks
+for each row execute function public.check_task_assignment();
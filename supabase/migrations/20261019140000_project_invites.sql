@@ -0,0 +1,121 @@
+-- Expiring, revocable invites replacing the permanent projects.access_code.
+
+create table public.project_invites (
+  id uuid primary key default gen_random_uuid(),
+  project_id uuid not null references public.projects (id) on delete cascade,
+  token text not null unique,
+  role public.project_role not null default 'member' check (role <> 'owner'),
+  expires_at timestamptz,
+  max_uses integer check (max_uses > 0),
+  use_count integer not null default 0,
+  created_by uuid not null references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  revoked_at timestamptz
+);
+
+create index project_invites_project_id_idx on public.project_invites (project_id);
+
+-- Existing access codes keep working as never-expiring member invites until revoked
+insert into public.project_invites (project_id, token, role, created_by, created_at)
+select id, upper(access_code), 'member', owner_id, created_at
+from public.projects
+where access_code is not null and access_code <> ''
+on conflict (token) do nothing;
+
+drop function public.join_project_by_access_code(text);
+alter table public.projects drop column access_code;
+
+alter table public.project_invites enable row level security;
+
+create policy "Managers can view invites"
+on public.project_invites for select
+using (public.has_project_permission(project_id, 'members:manage'));
+
+create policy "Managers can create invites"
+on public.project_invites for insert
+with check (
+  created_by = auth.uid()
+  and public.has_project_permission(project_id, 'members:manage')
+);
+
+create policy "Managers can revoke invites"
+on public.project_invites for update
+using (public.has_project_permission(project_id, 'members:manage'))
+with check (public.has_project_permission(project_id, 'members:manage'));
+
+-- Invitees aren't members yet, so previewing and redeeming go through security definer functions
+
+create function public.invite_status(invite public.project_invites)
+returns text
+language sql
+stable
+as $$
+  select case
+    when invite.revoked_at is not null then 'revoked'
+    when invite.expires_at is not null and invite.expires_at <= now() then 'expired'
+    when invite.max_uses is not null and invite.use_count >= invite.max_uses then 'used_up'
+    else 'active'
+  end;
+$$;
+
+create function public.get_invite_preview(invite_token text)
+returns table (project_id uuid, project_name text, role public.project_role, expires_at timestamptz, status text)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select i.project_id, p.name, i.role, i.expires_at, public.invite_status(i)
+  from public.project_invites i
+  join public.projects p on p.id = i.project_id
+  where i.token = upper(invite_token)
+    and auth.uid() is not null;
+$$;
+
+create function public.redeem_project_invite(invite_token text)
+returns table (project_id uuid, project_name text, role public.project_role, joined boolean)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  invite public.project_invites%rowtype;
+  target_name text;
+  existing public.project_role;
+begin
+  if auth.uid() is null then
+    raise exception 'Not signed in';
+  end if;
+
+  -- Lock the invite so concurrent redemptions can't exceed max_uses
+  select * into invite from public.project_invites i where i.token = upper(invite_token) for update;
+  if not found then
+    raise exception 'Invalid invite code';
+  end if;
+
+  select p.name into target_name from public.projects p where p.id = invite.project_id;
+
+  select pm.role into existing
+  from public.project_members pm
+  where pm.project_id = invite.project_id and pm.user_id = auth.uid();
+
+  if existing is not null then
+    return query select invite.project_id, target_name, existing, false;
+    return;
+  end if;
+
+  case public.invite_status(invite)
+    when 'revoked' then raise exception 'This invite has been revoked';
+    when 'expired' then raise exception 'This invite has expired';
+    when 'used_up' then raise exception 'This invite has reached its maximum number of uses';
+    else null;
+  end case;
+
+  insert into public.project_members (project_id, user_id, role)
+  values (invite.project_id, auth.uid(), invite.role);
+
+  update public.project_invites i set use_count = i.use_count + 1 where i.id = invite.id;
+
+  return query select invite.project_id, target_name, invite.role, true;
+end;
+$$;
@@ -0,0 +1,230 @@
+-- Optional owner approval for joining a project, plus in-app notifications for the decision.
+
+alter table public.projects add column require_approval boolean not null default false;
+
+create table public.project_join_requests (
+  id uuid primary key default gen_random_uuid(),
+  project_id uuid not null references public.projects (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  role public.project_role not null default 'member' check (role <> 'owner'),
+  status text not null default 'pending' check (status in ('pending', 'approved', 'rejected')),
+  created_at timestamptz not null default now(),
+  decided_at timestamptz,
+  decided_by uuid references auth.users (id) on delete set null
+);
+
+create index project_join_requests_project_id_idx on public.project_join_requests (project_id);
+
+-- At most one open request per user and project
+create unique index project_join_requests_pending_idx
+on public.project_join_requests (project_id, user_id)
+where status = 'pending';
+
+alter table public.project_join_requests enable row level security;
+
+create policy "Managers and requesters can view join requests"
+on public.project_join_requests for select
+using (user_id = auth.uid() or public.has_project_permission(project_id, 'members:manage'));
+
+-- Requests are only written by redeem_project_invite and decide_join_request
+
+create table public.notifications (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  type text not null,
+  title text not null,
+  body text not null default '',
+  link text,
+  read boolean not null default false,
+  created_at timestamptz not null default now()
+);
+
+create index notifications_user_id_idx on public.notifications (user_id, created_at desc);
+
+alter table public.notifications enable row level security;
+
+create policy "Users can view their notifications"
+on public.notifications for select
+using (user_id = auth.uid());
+
+create policy "Users can mark their notifications read"
+on public.notifications for update
+using (user_id = auth.uid())
+with check (user_id = auth.uid());
+
+alter publication supabase_realtime add table public.notifications;
+
+create function public.display_name_of(target uuid)
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(u.raw_user_meta_data ->> 'full_name', split_part(u.email, '@', 1), 'Someone')
+  from auth.users u
+  where u.id = target;
+$$;
+
+-- Notifies every owner and admin of a project, optionally leaving one user out
+create function public.notify_project_managers(
+  project uuid,
+  notification_type text,
+  notification_title text,
+  notification_body text,
+  notification_link text,
+  skip_user uuid default null
+)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  insert into public.notifications (user_id, type, title, body, link)
+  select pm.user_id, notification_type, notification_title, notification_body, notification_link
+  from public.project_members pm
+  where pm.project_id = project
+    and pm.role in ('owner', 'admin')
+    and pm.user_id is distinct from skip_user;
+$$;
+
+-- Redeeming now reports an outcome instead of a joined flag
+drop function public.redeem_project_invite(text);
+
+create function public.redeem_project_invite(invite_token text)
+returns table (project_id uuid, project_name text, role public.project_role, outcome text)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  invite public.project_invites%rowtype;
+  target public.projects%rowtype;
+  existing public.project_role;
+begin
+  if auth.uid() is null then
+    raise exception 'Not signed in';
+  end if;
+
+  -- Lock the invite so concurrent redemptions can't exceed max_uses
+  select * into invite from public.project_invites i where i.token = upper(invite_token) for update;
+  if not found then
+    raise exception 'Invalid invite code';
+  end if;
+
+  select * into target from public.projects p where p.id = invite.project_id;
+
+  select pm.role into existing
+  from public.project_members pm
+  where pm.project_id = invite.project_id and pm.user_id = auth.uid();
+
+  if existing is not null then
+    return query select invite.project_id, target.name, existing, 'already_member'::text;
+    return;
+  end if;
+
+  case public.invite_status(invite)
+    when 'revoked' then raise exception 'This invite has been revoked';
+    when 'expired' then raise exception 'This invite has expired';
+    when 'used_up' then raise exception 'This invite has reached its maximum number of uses';
+    else null;
+  end case;
+
+  update public.project_invites i set use_count = i.use_count + 1 where i.id = invite.id;
+
+  if target.require_approval then
+    -- Re-using an invite while a request is pending doesn't file (or notify about) a second one
+    if not exists (
+      select 1 from public.project_join_requests r
+      where r.project_id = target.id and r.user_id = auth.uid() and r.status = 'pending'
+    ) then
+      insert into public.project_join_requests (project_id, user_id, role)
+      values (target.id, auth.uid(), invite.role);
+
+      perform public.notify_project_managers(
+        target.id,
+        'join_requested',
+        'New join request',
+        public.display_name_of(auth.uid()) || ' asked to join ' || target.name,
+        '/projects/' || target.id || '?tab=members'
+      );
+    end if;
+
+    return query select target.id, target.name, invite.role, 'requested'::text;
+    return;
+  end if;
+
+  insert into public.project_members (project_id, user_id, role)
+  values (invite.project_id, auth.uid(), invite.role);
+
+  return query select invite.project_id, target.name, invite.role, 'joined'::text;
+end;
+$$;
+
+create function public.decide_join_request(project uuid, request_id uuid, approve boolean)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  request public.project_join_requests%rowtype;
+  target_name text;
+  requester_name text;
+begin
+  if not public.has_project_permission(project, 'members:manage') then
+    raise exception 'You don''t have permission to manage members of this project';
+  end if;
+
+  select * into request
+  from public.project_join_requests r
+  where r.id = request_id and r.project_id = project
+  for update;
+
+  if not found then
+    raise exception 'Join request not found';
+  end if;
+  if request.status <> 'pending' then
+    raise exception 'This join request has already been handled';
+  end if;
+
+  update public.project_join_requests r
+  set status = case when approve then 'approved' else 'rejected' end,
+      decided_at = now(),
+      decided_by = auth.uid()
+  where r.id = request.id;
+
+  if approve then
+    insert into public.project_members (project_id, user_id, role)
+    values (project, request.user_id, request.role)
+    on conflict do nothing;
+  end if;
+
+  select p.name into target_name from public.projects p where p.id = project;
+  requester_name := public.display_name_of(request.user_id);
+
+  if approve then
+    insert into public.notifications (user_id, type, title, body, link)
+    values (
+      request.user_id, 'join_approved', 'Join request approved',
+      'You''re now a member of ' || target_name, '/projects/' || project
+    );
+  else
+    insert into public.notifications (user_id, type, title, body, link)
+    values (
+      request.user_id, 'join_rejected', 'Join request declined',
+      'Your request to join ' || target_name || ' was declined', null
+    );
+  end if;
+
+  perform public.notify_project_managers(
+    project,
+    case when approve then 'join_approved' else 'join_rejected' end,
+    case when approve then 'Join request approved' else 'Join request declined' end,
+    public.display_name_of(auth.uid()) || case when approve then ' approved ' else ' declined ' end
+      || requester_name || '''s request to join ' || target_name,
+    '/projects/' || project || '?tab=members',
+    auth.uid()
+  );
+end;
+$$;
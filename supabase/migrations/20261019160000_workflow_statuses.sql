@@ -0,0 +1,13 @@
+-- Per-project task workflows. Each status is { id, name, category: 'open' | 'done', color },
+-- and tasks.status stores the status id. The defaults reuse the old status names as ids,
+-- so existing tasks keep their column.
+
+alter table public.projects
+add column statuses jsonb not null default '[
+  { "id": "To Do", "name": "To Do", "category": "open", "color": "gray" },
+  { "id": "In Progress", "name": "In Progress", "category": "open", "color": "blue" },
+  { "id": "Completed", "name": "Completed", "category": "done", "color": "green" }
+]'::jsonb;
+
+alter table public.projects
+add constraint projects_statuses_is_array check (jsonb_typeof(statuses) = 'array' and jsonb_array_length(statuses) > 0);
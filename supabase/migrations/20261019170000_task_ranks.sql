@@ -0,0 +1,36 @@
+-- Persisted card order on the Kanban board. Ranks are floats so a card can be dropped
+-- between two others without renumbering; lowest rank is shown first.
+
+alter table public.tasks add column rank double precision;
+
+-- Keep the order the boards showed so far: newest first within each project
+update public.tasks t
+set rank = ordered.position
+from (
+  select id, row_number() over (partition by project_id order by created_at desc) - 1 as position
+  from public.tasks
+) ordered
+where ordered.id = t.id;
+
+-- New tasks without an explicit rank go to the top of their project
+create function public.set_task_rank()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.rank is null then
+    select coalesce(min(t.rank) - 1, 0) into new.rank
+    from public.tasks t
+    where t.project_id = new.project_id;
+  end if;
+  return new;
+end;
+$$;
+
+create trigger tasks_set_rank
+before insert on public.tasks
+for each row execute function public.set_task_rank();
+
+alter table public.tasks alter column rank set not null;
+
+create index tasks_project_rank_idx on public.tasks (project_id, rank);
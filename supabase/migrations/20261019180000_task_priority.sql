@@ -0,0 +1,8 @@
+-- Task priority, shown on task lists and used for board swimlanes. Existing tasks were
+-- always displayed as Medium, so they keep that.
+
+alter table public.tasks
+add column priority text not null default 'Medium';
+
+alter table public.tasks
+add constraint tasks_priority_check check (priority in ('Low', 'Medium', 'High'));
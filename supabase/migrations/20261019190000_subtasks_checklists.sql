@@ -0,0 +1,92 @@
+-- Subtasks are ordinary tasks with a parent in the same project, and each task carries a
+-- checklist of { id, title, done } items. Deleting a task deletes its subtasks.
+
+alter table public.tasks
+add column parent_id bigint references public.tasks (id) on delete cascade;
+
+alter table public.tasks
+add column checklist jsonb not null default '[]'::jsonb;
+
+alter table public.tasks
+add constraint tasks_checklist_is_array check (jsonb_typeof(checklist) = 'array');
+
+alter table public.tasks
+add constraint tasks_not_own_parent check (parent_id is null or parent_id <> id);
+
+create index tasks_parent_id_idx on public.tasks (parent_id);
+
+-- True when the status is a done status in the project's workflow
+create function public.is_done_status(p_project_id uuid, p_status text)
+returns boolean
+language sql
+stable
+as $$
+  select exists (
+    select 1
+    from public.projects p, jsonb_array_elements(p.statuses) s
+    where p.id = p_project_id
+      and s ->> 'id' = p_status
+      and s ->> 'category' = 'done'
+  );
+$$;
+
+-- Subtasks stay in their parent's project
+create function public.check_task_parent()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.parent_id is not null and not exists (
+    select 1 from public.tasks t where t.id = new.parent_id and t.project_id = new.project_id
+  ) then
+    raise exception 'Subtasks must belong to the same project as their parent';
+  end if;
+  return new;
+end;
+$$;
+
+create trigger tasks_check_parent
+before insert or update of parent_id, project_id on public.tasks
+for each row execute function public.check_task_parent();
+
+-- Once every subtask of a parent is done, move the parent to its workflow's first done status
+create function public.complete_parent_task()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_parent public.tasks%rowtype;
+  v_done_status text;
+begin
+  if new.parent_id is null or not public.is_done_status(new.project_id, new.status) then
+    return new;
+  end if;
+
+  select * into v_parent from public.tasks where id = new.parent_id;
+  if not found or public.is_done_status(v_parent.project_id, v_parent.status) then
+    return new;
+  end if;
+
+  if exists (
+    select 1 from public.tasks t
+    where t.parent_id = new.parent_id
+      and not public.is_done_status(t.project_id, t.status)
+  ) then
+    return new;
+  end if;
+
+  select s ->> 'id' into v_done_status
+  from public.projects p, jsonb_array_elements(p.statuses) s
+  where p.id = v_parent.project_id and s ->> 'category' = 'done'
+  limit 1;
+
+  update public.tasks set status = v_done_status where id = v_parent.id;
+  return new;
+end;
+$$;
+
+create trigger tasks_complete_parent
+after insert or update of status on public.tasks
+for each row execute function public.complete_parent_task();
@@ -0,0 +1,67 @@
+-- "Blocked by" links between tasks, possibly in different projects. A task can't start
+-- until every task it is blocked by is done.
+
+create table public.task_dependencies (
+  task_id bigint not null references public.tasks (id) on delete cascade,
+  blocked_by_id bigint not null references public.tasks (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (task_id, blocked_by_id),
+  check (task_id <> blocked_by_id)
+);
+
+create index task_dependencies_blocked_by_id_idx on public.task_dependencies (blocked_by_id);
+
+-- Reject links that would close a loop: the blocker may not already wait on the task
+create function public.check_task_dependency_cycle()
+returns trigger
+language plpgsql
+as $$
+begin
+  if exists (
+    with recursive upstream (id) as (
+      select new.blocked_by_id
+      union
+      select d.blocked_by_id
+      from public.task_dependencies d
+      join upstream u on d.task_id = u.id
+    )
+    select 1 from upstream where id = new.task_id
+  ) then
+    raise exception 'These tasks already depend on each other, so this link would create a cycle';
+  end if;
+  return new;
+end;
+$$;
+
+create trigger task_dependencies_check_cycle
+before insert or update on public.task_dependencies
+for each row execute function public.check_task_dependency_cycle();
+
+alter table public.task_dependencies enable row level security;
+
+-- Links are visible when either task is, and editing the blocked task controls its links
+create policy "Members can view dependencies"
+on public.task_dependencies for select
+using (
+  exists (select 1 from public.tasks t where t.id = task_id)
+  or exists (select 1 from public.tasks t where t.id = blocked_by_id)
+);
+
+create policy "Contributors can link their tasks"
+on public.task_dependencies for insert
+with check (
+  exists (
+    select 1 from public.tasks t
+    where t.id = task_id and public.has_project_permission(t.project_id, 'tasks:edit')
+  )
+  and exists (select 1 from public.tasks t where t.id = blocked_by_id)
+);
+
+create policy "Contributors can unlink their tasks"
+on public.task_dependencies for delete
+using (
+  exists (
+    select 1 from public.tasks t
+    where t.id = task_id and public.has_project_permission(t.project_id, 'tasks:edit')
+  )
+);
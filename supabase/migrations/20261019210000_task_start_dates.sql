@@ -0,0 +1,6 @@
+-- Planned start dates for the project timeline. Existing tasks have none and are drawn on their due date.
+
+alter table public.tasks add column start_date date;
+
+alter table public.tasks
+add constraint tasks_start_before_due check (start_date is null or due_date is null or start_date <= due_date::date);
@@ -0,0 +1,8 @@
+-- Recurring tasks keep their schedule as { frequency, interval, weekdays, monthDay, until, count }.
+-- Completing one creates the next occurrence, which takes the schedule over, so only the
+-- latest occurrence in a series has a recurrence.
+
+alter table public.tasks add column recurrence jsonb;
+
+alter table public.tasks
+add constraint tasks_recurrence_is_object check (recurrence is null or jsonb_typeof(recurrence) = 'object');
@@ -0,0 +1,64 @@
+-- Time logged against tasks, either with a timer or entered by hand. A running timer has
+-- no duration yet, and each user has at most one. Entries keep the project the task was
+-- in when they were logged, so moving a task doesn't move hours already billed.
+
+create table public.time_entries (
+  id uuid primary key default gen_random_uuid(),
+  task_id bigint not null references public.tasks (id) on delete cascade,
+  project_id uuid not null references public.projects (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  started_at timestamptz not null default now(),
+  duration_minutes integer check (duration_minutes is null or duration_minutes >= 0),
+  note text not null default '',
+  created_at timestamptz not null default now()
+);
+
+create index time_entries_task_id_idx on public.time_entries (task_id);
+create index time_entries_project_id_idx on public.time_entries (project_id);
+create index time_entries_user_started_idx on public.time_entries (user_id, started_at);
+
+create unique index time_entries_one_running_timer_idx
+on public.time_entries (user_id)
+where duration_minutes is null;
+
+-- The project always comes from the task
+create function public.set_time_entry_project()
+returns trigger
+language plpgsql
+as $$
+begin
+  select t.project_id into new.project_id
+  from public.tasks t
+  where t.id = new.task_id;
+  return new;
+end;
+$$;
+
+create trigger time_entries_set_project
+before insert on public.time_entries
+for each row execute function public.set_time_entry_project();
+
+alter table public.time_entries enable row level security;
+
+create policy "Members can view project time"
+on public.time_entries for select
+using (public.has_project_permission(project_id, 'project:view'));
+
+create policy "Contributors can log their own time"
+on public.time_entries for insert
+with check (
+  user_id = auth.uid()
+  and exists (
+    select 1 from public.tasks t
+    where t.id = task_id and public.has_project_permission(t.project_id, 'tasks:edit')
+  )
+);
+
+create policy "Users can stop their own timers"
+on public.time_entries for update
+using (user_id = auth.uid())
+with check (user_id = auth.uid());
+
+create policy "Users can delete their own time"
+on public.time_entries for delete
+using (user_id = auth.uid());
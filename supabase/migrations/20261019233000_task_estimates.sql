@@ -0,0 +1,37 @@
+-- Optional estimates on tasks, in the unit the project chooses, and the time each task
+-- was completed so velocity can be reported by week. Progress can be weighted by
+-- estimate instead of task count.
+
+alter table public.projects
+add column estimate_unit text not null default 'points' check (estimate_unit in ('hours', 'points')),
+add column progress_mode text not null default 'count' check (progress_mode in ('count', 'estimate'));
+
+alter table public.tasks
+add column estimate numeric check (estimate is null or estimate >= 0),
+add column completed_at timestamptz;
+
+create index tasks_completed_at_idx on public.tasks (project_id, completed_at);
+
+-- Stamped when a task moves into a done status and cleared when it is reopened
+create function public.set_task_completed_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  if public.is_done_status(new.project_id, new.status) then
+    new.completed_at := coalesce(new.completed_at, now());
+  else
+    new.completed_at := null;
+  end if;
+  return new;
+end;
+$$;
+
+create trigger tasks_set_completed_at
+before insert or update of status, project_id on public.tasks
+for each row execute function public.set_task_completed_at();
+
+-- Tasks that are already done have no completion time, so use when they were created
+update public.tasks
+set completed_at = created_at
+where public.is_done_status(project_id, status);
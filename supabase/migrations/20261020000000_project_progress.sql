@@ -0,0 +1,107 @@
+-- Project progress is worked out from the project's tasks, counted or weighted by estimate,
+-- unless the project sets it by hand. Projects can also move to Completed on their own
+-- once every task is done.
+
+alter table public.projects
+drop constraint projects_progress_mode_check;
+
+alter table public.projects
+add constraint projects_progress_mode_check check (progress_mode in ('count', 'estimate', 'manual'));
+
+alter table public.projects
+add column auto_complete boolean not null default false;
+
+-- True when the status is a done status in the given workflow
+create function public.is_done_in(p_statuses jsonb, p_status text)
+returns boolean
+language sql
+immutable
+as $$
+  select exists (
+    select 1
+    from jsonb_array_elements(p_statuses) s
+    where s ->> 'id' = p_status
+      and s ->> 'category' = 'done'
+  );
+$$;
+
+-- Percent of the project's tasks that are done, by count or by estimate
+create function public.project_task_progress(p_project_id uuid, p_statuses jsonb, p_mode text)
+returns integer
+language sql
+stable
+as $$
+  select coalesce(round(100.0 * sum(w.weight) filter (where w.done) / nullif(sum(w.weight), 0)), 0)::integer
+  from (
+    select
+      case when p_mode = 'estimate' then coalesce(t.estimate, 0) else 1 end as weight,
+      public.is_done_in(p_statuses, t.status) as done
+    from public.tasks t
+    where t.project_id = p_project_id
+  ) w;
+$$;
+
+-- A project with no tasks isn't finished
+create function public.project_tasks_done(p_project_id uuid, p_statuses jsonb)
+returns boolean
+language sql
+stable
+as $$
+  select exists (select 1 from public.tasks t where t.project_id = p_project_id)
+    and not exists (
+      select 1 from public.tasks t
+      where t.project_id = p_project_id
+        and not public.is_done_in(p_statuses, t.status)
+    );
+$$;
+
+-- Every update recomputes progress, so it can't be set by hand outside manual mode.
+-- Turning on auto-completion completes a project whose tasks are already done.
+create function public.set_project_progress()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.progress_mode <> 'manual' then
+    new.progress := public.project_task_progress(new.id, new.statuses, new.progress_mode);
+  end if;
+
+  if new.auto_complete and not old.auto_complete and public.project_tasks_done(new.id, new.statuses) then
+    new.status := 'Completed';
+  end if;
+  return new;
+end;
+$$;
+
+create trigger projects_set_progress
+before update on public.projects
+for each row execute function public.set_project_progress();
+
+-- Task changes touch their projects, which recomputes progress. Members who can't edit the
+-- project still move it along, hence security definer.
+create function public.sync_project_progress()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.projects p
+  set progress = p.progress,
+      status = case
+        when p.auto_complete and public.project_tasks_done(p.id, p.statuses) then 'Completed'
+        else p.status
+      end
+  where p.id in (old.project_id, new.project_id);
+  return null;
+end;
+$$;
+
+create trigger tasks_sync_project_progress
+after insert or delete or update of status, project_id, estimate on public.tasks
+for each row execute function public.sync_project_progress();
+
+-- Bring existing projects in line with their tasks
+update public.projects set progress = progress;
+
+alter publication supabase_realtime add table public.projects;
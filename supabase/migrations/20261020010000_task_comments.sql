@@ -0,0 +1,96 @@
+-- A comment thread on each task. Bodies are Markdown with mentions written as
+-- @[Name](user id); mentioned project members get a notification.
+
+create table public.task_comments (
+  id uuid primary key default gen_random_uuid(),
+  task_id bigint not null references public.tasks (id) on delete cascade,
+  author_id uuid not null references auth.users (id) on delete cascade,
+  body text not null check (length(trim(body)) > 0 and length(body) <= 5000),
+  created_at timestamptz not null default now(),
+  edited_at timestamptz
+);
+
+create index task_comments_task_id_idx on public.task_comments (task_id, created_at);
+
+alter table public.task_comments enable row level security;
+
+create policy "Members can view comments"
+on public.task_comments for select
+using (
+  exists (
+    select 1 from public.tasks t
+    where t.id = task_id and public.has_project_permission(t.project_id, 'project:view')
+  )
+);
+
+-- Viewers can join the discussion too
+create policy "Members can comment as themselves"
+on public.task_comments for insert
+with check (
+  author_id = auth.uid()
+  and exists (
+    select 1 from public.tasks t
+    where t.id = task_id and public.has_project_permission(t.project_id, 'project:view')
+  )
+);
+
+create policy "Authors can edit their comments"
+on public.task_comments for update
+using (author_id = auth.uid())
+with check (author_id = auth.uid());
+
+create policy "Authors and task deleters can delete comments"
+on public.task_comments for delete
+using (
+  author_id = auth.uid()
+  or exists (
+    select 1 from public.tasks t
+    where t.id = task_id and public.has_project_permission(t.project_id, 'tasks:delete')
+  )
+);
+
+-- User IDs mentioned in a comment body
+create function public.comment_mentions(p_body text)
+returns setof uuid
+language sql
+immutable
+as $$
+  select distinct m[1]::uuid
+  from regexp_matches(coalesce(p_body, ''), '@\[[^]\n]+\]\(([0-9a-fA-F-]{36})\)', 'g') m;
+$$;
+
+-- Notifies members mentioned for the first time, leaving out the author
+create function public.notify_comment_mentions()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_task public.tasks%rowtype;
+begin
+  select * into v_task from public.tasks where id = new.task_id;
+
+  insert into public.notifications (user_id, type, title, body, link)
+  select
+    pm.user_id,
+    'mentioned',
+    public.display_name_of(new.author_id) || ' mentioned you',
+    'On ' || v_task.title || ': '
+      || left(regexp_replace(new.body, '@\[([^]\n]+)\]\([^)\s]+\)', '@\1', 'g'), 140),
+    '/projects/' || v_task.project_id || '?task=' || v_task.id
+  from public.project_members pm
+  where pm.project_id = v_task.project_id
+    and pm.user_id <> new.author_id
+    and pm.user_id in (select public.comment_mentions(new.body))
+    and (
+      tg_op = 'INSERT'
+      or pm.user_id not in (select public.comment_mentions(old.body))
+    );
+  return new;
+end;
+$$;
+
+create trigger task_comments_notify_mentions
+after insert or update of body on public.task_comments
+for each row execute function public.notify_comment_mentions();
@@ -0,0 +1,92 @@
+-- Files attached to a task or to a project itself. The contents live in the
+-- private "attachments" storage bucket under <project id>/<random id>/<name>;
+-- this table records who uploaded what and where.
+
+create table public.attachments (
+  id uuid primary key default gen_random_uuid(),
+  project_id uuid not null references public.projects (id) on delete cascade,
+  -- Null for files on the project rather than one of its tasks
+  task_id bigint references public.tasks (id) on delete cascade,
+  name text not null check (length(trim(name)) > 0),
+  size bigint not null check (size >= 0 and size <= 10485760),
+  content_type text not null default 'application/octet-stream',
+  path text not null unique,
+  uploaded_by uuid not null references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now()
+);
+
+create index attachments_project_id_idx on public.attachments (project_id, created_at desc);
+create index attachments_task_id_idx on public.attachments (task_id, created_at desc);
+
+alter table public.attachments enable row level security;
+
+create policy "Members can view attachments"
+on public.attachments for select
+using (public.has_project_permission(project_id, 'project:view'));
+
+create policy "Task editors can upload attachments as themselves"
+on public.attachments for insert
+with check (
+  uploaded_by = auth.uid()
+  and public.has_project_permission(project_id, 'tasks:edit')
+  and (
+    task_id is null
+    or exists (select 1 from public.tasks t where t.id = task_id and t.project_id = attachments.project_id)
+  )
+);
+
+create policy "Uploaders and task deleters can delete attachments"
+on public.attachments for delete
+using (
+  uploaded_by = auth.uid()
+  or public.has_project_permission(project_id, 'tasks:delete')
+);
+
+-- Task files follow their task when it moves to another project
+create function public.move_task_attachments()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.attachments set project_id = new.project_id where task_id = new.id;
+  return new;
+end;
+$$;
+
+create trigger move_task_attachments
+after update of project_id on public.tasks
+for each row
+when (old.project_id is distinct from new.project_id)
+execute function public.move_task_attachments();
+
+-- Storage. Rows removed by a cascade (a deleted task or project) leave their
+-- files in the bucket; the app removes files itself when deleting one directly.
+insert into storage.buckets (id, name, public, file_size_limit)
+values ('attachments', 'attachments', false, 10485760)
+on conflict (id) do nothing;
+
+create policy "Members can read attachment files"
+on storage.objects for select
+using (
+  bucket_id = 'attachments'
+  and public.has_project_permission(((storage.foldername(name))[1])::uuid, 'project:view')
+);
+
+create policy "Task editors can upload attachment files"
+on storage.objects for insert
+with check (
+  bucket_id = 'attachments'
+  and public.has_project_permission(((storage.foldername(name))[1])::uuid, 'tasks:edit')
+);
+
+create policy "Uploaders and task deleters can delete attachment files"
+on storage.objects for delete
+using (
+  bucket_id = 'attachments'
+  and (
+    owner = auth.uid()
+    or public.has_project_permission(((storage.foldername(name))[1])::uuid, 'tasks:delete')
+  )
+);
@@ -0,0 +1,35 @@
+-- Who created each task, for the Tasks page's Created By filter, and the named
+-- filter sets people save from that page.
+
+-- Tasks from before this column have no known creator
+alter table public.tasks
+  add column created_by uuid references auth.users (id) on delete set null default auth.uid();
+
+create index tasks_created_by_idx on public.tasks (created_by);
+
+create table public.saved_views (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null check (length(trim(name)) > 0 and length(name) <= 60),
+  -- The Tasks page query string, without the leading ?
+  query text not null default '',
+  created_at timestamptz not null default now()
+);
+
+create index saved_views_user_id_idx on public.saved_views (user_id, name);
+
+alter table public.saved_views enable row level security;
+
+create policy "Users can view their saved views"
+on public.saved_views for select
+using (user_id = auth.uid());
+
+create policy "Users can save views for themselves"
+on public.saved_views for insert
+with check (user_id = auth.uid());
+
+create policy "Users can delete their saved views"
+on public.saved_views for delete
+using (user_id = auth.uid());
+
+alter publication supabase_realtime add table public.saved_views;
@@ -0,0 +1,99 @@
+-- A history for each task: when it was created, and every change to the fields
+-- shown on the task page. Status and project changes keep names rather than ids,
+-- which mean little once a task moves; description changes keep no text.
+
+create table public.task_events (
+  id uuid primary key default gen_random_uuid(),
+  task_id bigint not null references public.tasks (id) on delete cascade,
+  -- Null for changes made without a signed-in user
+  user_id uuid references auth.users (id) on delete set null default auth.uid(),
+  -- Null for the task's creation
+  field text check (field in (
+    'title', 'description', 'status', 'assignedTo', 'priority',
+    'startDate', 'dueDate', 'estimate', 'projectId'
+  )),
+  from_value text,
+  to_value text,
+  created_at timestamptz not null default now()
+);
+
+create index task_events_task_id_idx on public.task_events (task_id, created_at);
+
+alter table public.task_events enable row level security;
+
+-- Written only by the trigger below
+create policy "Members can view task history"
+on public.task_events for select
+using (
+  exists (
+    select 1 from public.tasks t
+    where t.id = task_id and public.has_project_permission(t.project_id, 'project:view')
+  )
+);
+
+create function public.status_name_of(p_project_id uuid, p_status text)
+returns text
+language sql
+stable
+as $$
+  select coalesce(
+    (
+      select s ->> 'name'
+      from public.projects p, jsonb_array_elements(p.statuses) s
+      where p.id = p_project_id and s ->> 'id' = p_status
+      limit 1
+    ),
+    p_status
+  );
+$$;
+
+create function public.record_task_events()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' then
+    insert into public.task_events (task_id, user_id) values (new.id, auth.uid());
+    return new;
+  end if;
+
+  insert into public.task_events (task_id, user_id, field, from_value, to_value)
+  select new.id, auth.uid(), c.field, c.from_value, c.to_value
+  from (
+    values
+      ('title', old.title, new.title, old.title is distinct from new.title),
+      ('description', null, null, old.description is distinct from new.description),
+      (
+        'status',
+        public.status_name_of(old.project_id, old.status),
+        public.status_name_of(new.project_id, new.status),
+        old.status is distinct from new.status
+      ),
+      ('assignedTo', old.assigned_to::text, new.assigned_to::text, old.assigned_to is distinct from new.assigned_to),
+      ('priority', old.priority, new.priority, old.priority is distinct from new.priority),
+      ('startDate', old.start_date::text, new.start_date::text, old.start_date is distinct from new.start_date),
+      ('dueDate', old.due_date::text, new.due_date::text, old.due_date is distinct from new.due_date),
+      ('estimate', old.estimate::text, new.estimate::text, old.estimate is distinct from new.estimate),
+      (
+        'projectId',
+        (select name from public.projects where id = old.project_id),
+        (select name from public.projects where id = new.project_id),
+        old.project_id is distinct from new.project_id
+      )
+  ) as c (field, from_value, to_value, changed)
+  where c.changed;
+
+  return new;
+end;
+$$;
+
+create trigger record_task_events
+after insert or update on public.tasks
+for each row
+execute function public.record_task_events();
+
+-- Existing tasks start their history with their creation
+insert into public.task_events (task_id, user_id, created_at)
+select id, created_by, created_at from public.tasks;
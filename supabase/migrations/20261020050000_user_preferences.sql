@@ -0,0 +1,25 @@
+-- Settings kept per user so they follow them across browsers, such as the
+-- columns of the Tasks page table.
+
+create table public.user_preferences (
+  user_id uuid not null references auth.users (id) on delete cascade,
+  key text not null check (length(key) <= 60),
+  value jsonb not null,
+  updated_at timestamptz not null default now(),
+  primary key (user_id, key)
+);
+
+alter table public.user_preferences enable row level security;
+
+create policy "Users can view their preferences"
+on public.user_preferences for select
+using (user_id = auth.uid());
+
+create policy "Users can save preferences for themselves"
+on public.user_preferences for insert
+with check (user_id = auth.uid());
+
+create policy "Users can update their preferences"
+on public.user_preferences for update
+using (user_id = auth.uid())
+with check (user_id = auth.uid());
@@ -0,0 +1,21 @@
+-- Subtasks stay in their parent's project, so a task that has subtasks can no
+-- longer be moved to another project on its own.
+
+create or replace function public.check_task_parent()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.parent_id is not null and not exists (
+    select 1 from public.tasks t where t.id = new.parent_id and t.project_id = new.project_id
+  ) then
+    raise exception 'Subtasks must belong to the same project as their parent';
+  end if;
+  if tg_op = 'UPDATE' and new.project_id is distinct from old.project_id and exists (
+    select 1 from public.tasks t where t.parent_id = new.id
+  ) then
+    raise exception 'Tasks with subtasks cannot be moved to another project';
+  end if;
+  return new;
+end;
+$$;
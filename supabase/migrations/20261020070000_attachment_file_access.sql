@@ -0,0 +1,33 @@
+-- A task's files stay where they were uploaded when the task moves to another
+-- project, so access to a file follows its attachments row rather than the
+-- project id at the start of its path. Uploads still go by the path: the file
+-- is stored before its row is written.
+
+drop policy "Members can read attachment files" on storage.objects;
+drop policy "Uploaders and task deleters can delete attachment files" on storage.objects;
+
+create policy "Members can read attachment files"
+on storage.objects for select
+using (
+  bucket_id = 'attachments'
+  and exists (
+    select 1 from public.attachments a
+    where a.path = objects.name
+      and public.has_project_permission(a.project_id, 'project:view')
+  )
+);
+
+-- Uploaders can also remove a file whose row was never written
+create policy "Uploaders and task deleters can delete attachment files"
+on storage.objects for delete
+using (
+  bucket_id = 'attachments'
+  and (
+    owner = auth.uid()
+    or exists (
+      select 1 from public.attachments a
+      where a.path = objects.name
+        and public.has_project_permission(a.project_id, 'tasks:delete')
+    )
+  )
+);
@@ -0,0 +1,163 @@
+-- Limits on invite codes: access codes carried over from before invites existed stop
+-- working after 30 days or 25 more uses, and users who enter too many unknown codes have
+-- to wait before trying again.
+
+-- Migrated codes were copied with their project's owner and creation time
+update public.project_invites i
+set expires_at = now() + interval '30 days',
+    max_uses = i.use_count + 25
+from public.projects p
+where p.id = i.project_id
+  and i.created_by = p.owner_id
+  and i.created_at = p.created_at
+  and i.expires_at is null
+  and i.max_uses is null;
+
+-- Only read and written by the invite functions below
+create table public.invite_failures (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  failed_count integer not null default 0,
+  last_failed_at timestamptz not null default now()
+);
+
+alter table public.invite_failures enable row level security;
+
+-- Five unknown codes within 15 minutes lock the user out until 15 minutes after the last one
+create function public.check_invite_attempts()
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if exists (
+    select 1 from public.invite_failures f
+    where f.user_id = auth.uid()
+      and f.failed_count >= 5
+      and f.last_failed_at > now() - interval '15 minutes'
+  ) then
+    raise exception 'Too many invalid invite codes, try again in 15 minutes';
+  end if;
+end;
+$$;
+
+-- The count starts over once the last failure is older than the cooldown
+create function public.record_failed_invite_attempt()
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  insert into public.invite_failures (user_id, failed_count, last_failed_at)
+  values (auth.uid(), 1, now())
+  on conflict (user_id) do update
+  set failed_count = case
+        when invite_failures.last_failed_at > now() - interval '15 minutes' then invite_failures.failed_count + 1
+        else 1
+      end,
+      last_failed_at = now();
+$$;
+
+revoke execute on function public.check_invite_attempts() from public, anon, authenticated;
+revoke execute on function public.record_failed_invite_attempt() from public, anon, authenticated;
+
+-- Unknown codes return no row instead of raising, which would roll back the recorded failure
+drop function public.get_invite_preview(text);
+
+create function public.get_invite_preview(invite_token text)
+returns table (project_id uuid, project_name text, role public.project_role, expires_at timestamptz, status text)
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is null then
+    return;
+  end if;
+
+  perform public.check_invite_attempts();
+
+  return query
+  select i.project_id, p.name, i.role, i.expires_at, public.invite_status(i)
+  from public.project_invites i
+  join public.projects p on p.id = i.project_id
+  where i.token = upper(invite_token);
+
+  if not found then
+    perform public.record_failed_invite_attempt();
+  end if;
+end;
+$$;
+
+create or replace function public.redeem_project_invite(invite_token text)
+returns table (project_id uuid, project_name text, role public.project_role, outcome text)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  invite public.project_invites%rowtype;
+  target public.projects%rowtype;
+  existing public.project_role;
+begin
+  if auth.uid() is null then
+    raise exception 'Not signed in';
+  end if;
+
+  perform public.check_invite_attempts();
+
+  -- Lock the invite so concurrent redemptions can't exceed max_uses
+  select * into invite from public.project_invites i where i.token = upper(invite_token) for update;
+  if not found then
+    perform public.record_failed_invite_attempt();
+    return;
+  end if;
+
+  select * into target from public.projects p where p.id = invite.project_id;
+
+  select pm.role into existing
+  from public.project_members pm
+  where pm.project_id = invite.project_id and pm.user_id = auth.uid();
+
+  if existing is not null then
+    return query select invite.project_id, target.name, existing, 'already_member'::text;
+    return;
+  end if;
+
+  case public.invite_status(invite)
+    when 'revoked' then raise exception 'This invite has been revoked';
+    when 'expired' then raise exception 'This invite has expired';
+    when 'used_up' then raise exception 'This invite has reached its maximum number of uses';
+    else null;
+  end case;
+
+  update public.project_invites i set use_count = i.use_count + 1 where i.id = invite.id;
+
+  if target.require_approval then
+    -- Re-using an invite while a request is pending doesn't file (or notify about) a second one
+    if not exists (
+      select 1 from public.project_join_requests r
+      where r.project_id = target.id and r.user_id = auth.uid() and r.status = 'pending'
+    ) then
+      insert into public.project_join_requests (project_id, user_id, role)
+      values (target.id, auth.uid(), invite.role);
+
+      perform public.notify_project_managers(
+        target.id,
+        'join_requested',
+        'New join request',
+        public.display_name_of(auth.uid()) || ' asked to join ' || target.name,
+        '/projects/' || target.id || '?tab=members'
+      );
+    end if;
+
+    return query select target.id, target.name, invite.role, 'requested'::text;
+    return;
+  end if;
+
+  insert into public.project_members (project_id, user_id, role)
+  values (invite.project_id, auth.uid(), invite.role);
+
+  return query select invite.project_id, target.name, invite.role, 'joined'::text;
+end;
+$$;
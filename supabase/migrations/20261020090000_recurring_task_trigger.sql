@@ -0,0 +1,125 @@
+-- Completing a recurring task creates its next occurrence in the database, in the same
+-- transaction as the status change, so a parent completed by complete_parent_task rolls
+-- forward too and a failed insert leaves the task as it was. Mirrors getNextOccurrence
+-- in src/services/recurrence.ts.
+
+-- The occurrence after one due on p_due, null once the schedule has ended
+create function public.next_due_date(p_recurrence jsonb, p_due date)
+returns date
+language plpgsql
+immutable
+as $$
+declare
+  v_interval integer := greatest(1, coalesce((p_recurrence ->> 'interval')::integer, 1));
+  v_frequency text := p_recurrence ->> 'frequency';
+  v_weekday integer := extract(dow from p_due)::integer;
+  v_weekdays integer[];
+  v_later integer;
+  v_month date;
+  v_next date;
+begin
+  if (p_recurrence ->> 'count')::integer <= 1 then
+    return null;
+  end if;
+
+  if v_frequency = 'daily' then
+    v_next := p_due + v_interval;
+  elsif v_frequency = 'weekly' then
+    select coalesce(array_agg(d::integer order by d::integer), array[v_weekday])
+    into v_weekdays
+    from jsonb_array_elements_text(coalesce(p_recurrence -> 'weekdays', '[]'::jsonb)) d;
+
+    -- Later in the same week, otherwise the first chosen day of the next week in the cycle
+    select min(d) into v_later from unnest(v_weekdays) d where d > v_weekday;
+    if v_later is not null then
+      v_next := p_due + (v_later - v_weekday);
+    else
+      v_next := p_due - v_weekday + 7 * v_interval + v_weekdays[1];
+    end if;
+  else
+    v_month := (date_trunc('month', p_due) + make_interval(months => v_interval))::date;
+    v_next := v_month + least(
+      coalesce((p_recurrence ->> 'monthDay')::integer, extract(day from p_due)::integer),
+      extract(day from (v_month + interval '1 month' - interval '1 day'))::integer
+    ) - 1;
+  end if;
+
+  if p_recurrence ->> 'until' is not null and v_next > left(p_recurrence ->> 'until', 10)::date then
+    return null;
+  end if;
+  return v_next;
+end;
+$$;
+
+-- The next occurrence is a fresh copy in the workflow's first open status with the checklist
+-- unticked, and takes the schedule over
+create function public.repeat_task()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_due date;
+  v_next date;
+  v_status text;
+  v_checklist jsonb;
+begin
+  if new.recurrence is null
+    or public.is_done_status(new.project_id, old.status)
+    or not public.is_done_status(new.project_id, new.status) then
+    return null;
+  end if;
+
+  update public.tasks set recurrence = null where id = new.id;
+
+  v_due := left(new.due_date::text, 10)::date;
+  v_next := public.next_due_date(new.recurrence, v_due);
+  if v_next is null then
+    return null;
+  end if;
+
+  select coalesce(
+    (select s ->> 'id' from jsonb_array_elements(p.statuses) s where s ->> 'category' = 'open' limit 1),
+    p.statuses -> 0 ->> 'id'
+  )
+  into v_status
+  from public.projects p
+  where p.id = new.project_id;
+
+  select coalesce(
+    jsonb_agg(item || jsonb_build_object('id', gen_random_uuid()::text, 'done', false)),
+    '[]'::jsonb
+  )
+  into v_checklist
+  from jsonb_array_elements(new.checklist) item;
+
+  insert into public.tasks (
+    title, description, status, start_date, due_date, assigned_to, project_id, priority,
+    estimate, parent_id, checklist, recurrence, created_by
+  )
+  values (
+    new.title,
+    new.description,
+    v_status,
+    new.start_date + (v_next - v_due),
+    v_next,
+    new.assigned_to,
+    new.project_id,
+    new.priority,
+    new.estimate,
+    new.parent_id,
+    v_checklist,
+    case
+      when new.recurrence ->> 'count' is null then new.recurrence
+      else jsonb_set(new.recurrence, '{count}', to_jsonb((new.recurrence ->> 'count')::integer - 1))
+    end,
+    new.created_by
+  );
+  return null;
+end;
+$$;
+
+create trigger tasks_repeat
+after update of status on public.tasks
+for each row execute function public.repeat_task();